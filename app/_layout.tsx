@@ -16,6 +16,7 @@ import { Settings } from '../components/Settings';
 import "./globals.css";
 import { globalEventEmitter } from "@/utils/event";
 import { migrateToSqlite } from "@/utils/migrateToSqlite";
+import { clearExports } from "@/services/conversationExport";
 import * as FileSystem from 'expo-file-system';
 
 // Keep the splash screen visible while we fetch resources
@@ -40,18 +41,24 @@ function AppContent() {
     prepare();
   }, [fontsLoaded]);
 
+  // Files shared by the last run hold decrypted messages; the receiving app has had its chance to read them
+  useEffect(() => {
+    clearExports();
+  }, []);
+
   useEffect(() => {
     const checkAndMigrate = async () => {
       try {
         const password = auth.getCurrentPassword();
-        // Check if migration is needed (if data.json exists and no SQLite file)
+        // Check if migration is needed (if data.json exists and was not backed up by a finished migration);
+        // the SQLite file always exists by now, as logging in opens the database
         const jsonPath = `${FileSystem.documentDirectory}data.json`;
-        const sqlitePath = `${FileSystem.documentDirectory}SQLite/androidllm.db`;
+        const backupPath = `${FileSystem.documentDirectory}data.json.bak`;
         
         const jsonExists = (await FileSystem.getInfoAsync(jsonPath)).exists;
-        const sqliteExists = (await FileSystem.getInfoAsync(sqlitePath)).exists;
+        const migrated = (await FileSystem.getInfoAsync(backupPath)).exists;
 
-        if (jsonExists && !sqliteExists && password) {
+        if (jsonExists && !migrated && password) {
           console.log('Starting migration to SQLite...');
           await migrateToSqlite(password);
           console.log('Migration completed');
@@ -66,6 +73,13 @@ function AppContent() {
     }
   }, [auth.isAuthenticated]);
 
+  // Settings show decrypted keys, so close them when the app locks
+  useEffect(() => {
+    if (!auth.isAuthenticated) {
+      setShowSettings(false);
+    }
+  }, [auth.isAuthenticated]);
+
   useEffect(() => {
     const handleOpenSettings = () => setShowSettings(true);
     const subscription = globalEventEmitter.addListener('openSettings', handleOpenSettings);
@@ -79,7 +93,11 @@ function AppContent() {
   }
 
   return (
-    <View style={{ flex: 1 }} className="font-sans">
+    <View
+      style={{ flex: 1 }}
+      className="font-sans"
+      onTouchStart={() => globalEventEmitter.emit('userActivity')}
+    >
       <SafeAreaView style={{ flex: 1 }}>
         <Stack
           screenOptions={{
@@ -7,53 +7,122 @@
  * - Protected route requiring authentication
  * - Theme integration
  * - Gemini API integration for LLM responses
+ * - Tool calls, shown as collapsible steps before the answer
  * - Context prediction and chain of thought reasoning
  * - Chat history with thread management
  */
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { BackHandler, AppState, View, ScrollView, Modal, Text, TouchableOpacity, ActivityIndicator, FlatList, TextInput } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { ProtectedRoute, useAuth } from "../../hooks/useAuth";
 import { useNavigation } from "expo-router";
 import { ChatMessage } from '../../components/ChatMessage';
 import ChatInput from '../../components/ChatInput';
-import { geminiService, GeminiModel } from '../../services/geminiService';
-import { OpenRouterModel, openRouterService } from '../../services/openRouterService';
-import { useData, Message as DataMessage, ChatThread, Message } from '../../context/dataContext';
+import { GEMINI_MODELS } from '../../services/geminiService';
+import { ChatAttachment, ChatTurn, GenerationParams, LLMProvider, ModelOption, LLMStreamEvent } from '../../services/llmProvider';
+import { formatToolCall, formatToolResult, getToolSpecs, parseToolStep, runToolCall, ToolContext } from '../../services/toolRegistry';
+import { configureProviders, getDefaultModels, getProvider, getProviderDisplayName } from '../../services/providerRegistry';
+import { buildSystemPrompt, countDroppedTurns, estimateMessageTokens, getMessageTokenBudget, withFileContents } from '../../services/chatContext';
+import { isImageAttachment } from '../../services/attachments';
+import { summarizeTurns } from '../../services/conversationSummary';
+import { resolveGenerationParams } from '../../services/generationParams';
+import { branchOff, groupChildren, revealMessage, selectBranch } from '../../services/messageTree';
+import { buildRepairMessage, checkJsonResponse, MAX_JSON_REPAIR_ATTEMPTS } from '../../services/jsonMode';
+import { JsonSchema, parseJsonSchema } from '../../utils/jsonSchema';
+import { useData, Message as DataMessage, ChatThread, Message, MessageAttachment, Persona, ThreadMessages } from '../../context/dataContext';
 import * as Haptics from 'expo-haptics';
+import * as Crypto from 'expo-crypto';
 import { ChatSidebar } from '../../components/ChatSidebar';
 import { Welcome } from '../../components/Welcome';
 import Fuse from 'fuse.js';
 import { TitleBar } from '../../components/TitleBar';
 import ModelPickerModal from '../../components/ModelPickerModal';
+import { ThreadSettingsSheet } from '../../components/ThreadSettingsSheet';
+import PersonaPickerModal from '../../components/PersonaPickerModal';
+import { EditMessageSheet } from '../../components/EditMessageSheet';
+import { RegenerateSheet } from '../../components/RegenerateSheet';
+import { MessageActionsSheet } from '../../components/MessageActionsSheet';
+import { MessageSearch } from '../../components/MessageSearch';
 import { globalEventEmitter } from "@/utils/event";
-import { ChevronDown } from 'lucide-react-native';
+import { registerLockHandler } from "@/utils/autoLock";
+import { ChevronDown, SlidersHorizontal, UserRound } from 'lucide-react-native';
 
 
-// ModelOption type for ChatInput
-interface ModelOption {
-  id: string;
-  displayName: string;
-  provider: 'gemini' | 'openrouter';
-}
-
 // Extend Message type for UI streaming state
 interface ChatMessageType extends Message {
   isStreaming?: boolean;
 }
 
-const GEMINI_MODELS: ModelOption[] = [
-  { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', provider: 'gemini' },
-  { id: 'gemini-1.5-pro', displayName: 'Gemini 1.5 Pro', provider: 'gemini' },
-  { id: 'gemini-2.5-pro', displayName: 'Gemini 2.5 Pro', provider: 'gemini' },
-];
+const DEFAULT_MODEL: ModelOption = GEMINI_MODELS[1]; // Gemini 1.5 Pro
+
+// Distance from the top of the messages at which the previous page is loaded
+const LOAD_EARLIER_OFFSET = 200;
+
+// New message with a stable id, so branches can refer to it
+const createMessage = (isUser: boolean, text: string, extra: Partial<ChatMessageType> = {}): ChatMessageType => ({
+  id: Crypto.randomUUID(),
+  isUser,
+  text,
+  timestamp: Date.now(),
+  ...extra
+});
+
+// JSON Schema of a thread in JSON mode; a schema that no longer parses turns the mode off
+const toJsonSchema = (jsonSchema?: string): JsonSchema | undefined => {
+  if (!jsonSchema) return undefined;
+  try {
+    return parseJsonSchema(jsonSchema);
+  } catch {
+    return undefined;
+  }
+};
+
+// Attachments as sent to providers
+const toChatAttachments = (attachments: MessageAttachment[] = []): ChatAttachment[] =>
+  attachments.map(({ mimeType, data, name }) => ({ mimeType, data, name }));
+
+// Whether a message becomes a context turn; images only count for models that can read them
+// Tool steps are left out: the answer they led to holds what the model took from them.
+const isContextMessage = (msg: Message, withImages: boolean) =>
+  !msg.type && Boolean(msg.text || msg.attachments?.some(attachment => withImages || !isImageAttachment(attachment)));
+
+// Index of the prompt a response answers, skipping the tool steps in between
+const findPromptIndex = (path: Message[], index: number) => {
+  let promptIndex = index - 1;
+  while (promptIndex >= 0 && path[promptIndex].type) promptIndex--;
+  return promptIndex;
+};
+
+// Text of a message as sent to providers, followed by the contents of its text files
+const toPromptText = (text: string, attachments: MessageAttachment[] = []) =>
+  withFileContents(text, attachments.filter(attachment => !isImageAttachment(attachment)));
+
+// Images of a message as sent to providers, none for models that cannot read them
+const toPromptImages = (attachments: MessageAttachment[] = [], withImages: boolean) =>
+  withImages ? toChatAttachments(attachments.filter(isImageAttachment)) : [];
+
+// Convert stored thread messages into provider context turns
+const toChatTurns = (threadMessages: Message[], withImages: boolean = false): ChatTurn[] =>
+  threadMessages
+    .filter(msg => isContextMessage(msg, withImages))
+    .map(msg => {
+      const images = toPromptImages(msg.attachments, withImages);
+      return {
+        role: msg.isUser ? 'user' : 'assistant',
+        content: toPromptText(msg.text, msg.attachments),
+        ...(images.length > 0 ? { attachments: images } : {})
+      };
+    });
 
 const ChatPage = () => {
-  const { data, createChatThread, updateChatThread, setActiveThread, deleteChatThread, setActiveThreadInMemory, updateChatThreadInMemory, deleteChatThreadInMemory, saveData } = useData();
+  const { data, createChatThread, updateChatThread, forkChatThread, updateThreadSummary, setActiveThread, deleteChatThread, openChatThread, loadEarlierMessages, updateChatThreadInMemory, deleteChatThreadInMemory, saveData, searchMessages } = useData();
   const { getCurrentPassword } = useAuth();
 
   // --- Types for state ---
-  const [messages, setMessages] = useState<ChatMessageType[]>([]);
+  const [messages, setMessages] = useState<ChatMessageType[]>([]); // Selected path of the conversation
+  const [branches, setBranches] = useState<Message[]>([]);          // Messages of the other branches
+  const [olderCount, setOlderCount] = useState<number>(0);          // Messages of the path before the loaded ones
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [apiKeySet, setApiKeySet] = useState<boolean>(false);
@@ -62,23 +131,33 @@ const ChatPage = () => {
   const [sidebarMounted, setSidebarMounted] = useState<boolean>(false); // NEW
   const [currentThreadId, setCurrentThreadId] = useState<string | undefined>(data?.activeThreadId);
   const [editingEnabled, setEditingEnabled] = useState<boolean>(false);
-  const [openRouterModels, setOpenRouterModels] = useState<ModelOption[]>([]); // Changed from string[] to ModelOption[]
-  const [currentModel, setCurrentModel] = useState<ModelOption>(GEMINI_MODELS[1]); // Default Gemini 1.5 Pro
+  const [savedModels, setSavedModels] = useState<ModelOption[]>([]); // Models the user added from provider catalogues
+  const [currentModel, setCurrentModel] = useState<ModelOption>(DEFAULT_MODEL);
   const [showWelcome, setShowWelcome] = useState<boolean>(true);
-
-  // OpenRouter models modal state
-  const [availableModels, setAvailableModels] = useState<OpenRouterModel[]>([]);
-  const [isModelsModalOpen, setIsModelsModalOpen] = useState(false);
-  const [isModelsLoading, setIsModelsLoading] = useState(false);
-  const [modelsError, setModelsError] = useState<string | null>(null);
-  const [modelSearch, setModelSearch] = useState<string>('');
+  const [showThreadSettings, setShowThreadSettings] = useState<boolean>(false);
+  const [showPersonaMenu, setShowPersonaMenu] = useState<boolean>(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null); // User message being edited
+  const [actionIndex, setActionIndex] = useState<number | null>(null);   // Message whose actions are open
+  const [showRegenerate, setShowRegenerate] = useState<boolean>(false);
+  const [messageSearch, setMessageSearch] = useState<{ query: string } | null>(null); // Open search and its first query
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);            // Search result that was opened
 
   // Model switcher modal state (moved up from ChatInput)
   const [showModelMenu, setShowModelMenu] = useState<boolean>(false);
   const [searchQuery, setSearchQuery] = useState<string>('');
-  // Combine Gemini and OpenRouter models
-  const openRouterModelOptions = openRouterModels;  // No mapping needed since we store ModelOptions directly
-  const ALL_MODELS: ModelOption[] = [...GEMINI_MODELS, ...openRouterModelOptions];
+  // Combine built-in provider models and user-added models
+  const ALL_MODELS: ModelOption[] = [...getDefaultModels(), ...savedModels];
+  const isModelAvailable = (model: ModelOption) =>
+    ALL_MODELS.some(m => m.id === model.id && m.provider === model.provider);
+  // Threads only store the model id, so look up the context length, image and tool support from the known models
+  const getContextLength = (model: ModelOption) => model.contextLength
+    ?? ALL_MODELS.find(m => m.id === model.id && m.provider === model.provider)?.contextLength;
+  const supportsImages = (model: ModelOption) => model.supportsImages
+    ?? ALL_MODELS.find(m => m.id === model.id && m.provider === model.provider)?.supportsImages
+    ?? false;
+  const supportsTools = (model: ModelOption) => model.supportsTools
+    ?? ALL_MODELS.find(m => m.id === model.id && m.provider === model.provider)?.supportsTools
+    ?? false;
   const fuse = new Fuse(ALL_MODELS, {
     keys: ['displayName'],
     threshold: 0.4,
@@ -114,50 +193,83 @@ const ChatPage = () => {
       if (nextId) {
         handleSelectThread(nextId);
       } else {
-        setMessages([]);
+        replaceMessages([]);
+        setOlderCount(0);
         setCurrentThreadId(undefined);
         setShowWelcome(true);
-        geminiService.resetChat();
       }
     }
   }, [data?.chatThreads]);
 
-  // On model change, always create and switch to a new chat
+  // Persona of a thread, if it has one that still exists
+  const getThreadPersona = (threadId?: string): Persona | undefined => {
+    const personaId = data?.chatThreads.find(t => t.id === threadId)?.personaId;
+    return personaId ? data?.personas?.find(p => p.id === personaId) : undefined;
+  };
+  const currentPersona = getThreadPersona(currentThreadId);
+
+  const getThreadJsonSchema = (threadId?: string): JsonSchema | undefined =>
+    toJsonSchema(data?.chatThreads.find(t => t.id === threadId)?.jsonSchema);
+  // Parsed once per schema, so the JSON of answers checked against it stays valid between renders
+  const currentJsonSchemaText = data?.chatThreads.find(t => t.id === currentThreadId)?.jsonSchema;
+  const currentJsonSchema = useMemo(() => toJsonSchema(currentJsonSchemaText), [currentJsonSchemaText]);
+
+  // JSON of answers by message id, checked again only when the text or the schema changes
+  const jsonResponses = useRef(new Map<string, { text: string; schema: JsonSchema; value: unknown }>());
+  const getJsonResponse = (message: Message): unknown => {
+    if (!currentJsonSchema) return undefined;
+    const cached = jsonResponses.current.get(message.id);
+    if (cached?.text === message.text && cached.schema === currentJsonSchema) return cached.value;
+    const { value } = checkJsonResponse(message.text, currentJsonSchema);
+    jsonResponses.current.set(message.id, { text: message.text, schema: currentJsonSchema, value });
+    return value;
+  };
+
+  // Room for the next message in a model's context; attached text files must fit in it
+  const currentThread = data?.chatThreads.find(t => t.id === currentThreadId);
+  const getThreadMessageBudget = (model: ModelOption) => getMessageTokenBudget({
+    contextLength: getContextLength(model),
+    reservedOutputTokens: resolveGenerationParams(
+      data?.settings?.generationParams,
+      currentPersona?.defaultParams,
+      currentThread?.params
+    ).maxTokens,
+    systemPrompt: buildSystemPrompt(currentPersona?.systemPrompt ?? data?.settings?.customPrompt ?? '', currentThread?.summary)
+  });
+  const messageTokenBudget = getThreadMessageBudget(currentModel);
+
+  // On model change, always create and switch to a new chat (keeping the persona)
   const handleModelChange = async (model: ModelOption) => {
-    if (model.provider === 'gemini') {
-      await geminiService.changeModel(model.id as any);
-      setCurrentModel(model);
-      await handleNewChat();
-    } else {
-      // Ensure the selected OpenRouter model is registered in openRouterModels and dataContext
-      if (!openRouterModels.some(m => m.id === model.id)) {
-        await handleAddOpenRouterModel(model);
-        await handleNewChat();
-        return;
-      }
-      openRouterService.setCustomModel(model.id);
-      setCurrentModel(model);
-      await handleNewChat();
+    // Ensure a model picked from a provider catalogue is registered in savedModels and dataContext
+    if (!isModelAvailable(model)) {
+      await handleAddModel(model);
     }
+    setCurrentModel(model);
+    await handleNewChat(model, currentPersona?.id);
+  };
+
+  // Start a new chat with a persona, on its default model if that is still available
+  const handlePersonaChange = async (persona: Persona | undefined) => {
+    setShowPersonaMenu(false);
+    const model = persona?.defaultModel && isModelAvailable(persona.defaultModel)
+      ? persona.defaultModel
+      : currentModel;
+    setCurrentModel(model);
+    await handleNewChat(model, persona?.id);
   };
 
   useEffect(() => {
-    // Load OpenRouter models from app data
-    if (data?.openRouterModels) {
-      const modelOptions: ModelOption[] = data.openRouterModels.map(id => ({
-        id,
-        displayName: id,
-        provider: 'openrouter'
-      }));
-      setOpenRouterModels(modelOptions);
+    // Load user-added models from app data
+    if (data?.savedModels) {
+      setSavedModels(data.savedModels);
     }
   }, [data]);
 
-  // Add OpenRouter model and persist, returns a Promise that resolves after state and dataContext update
-  const handleAddOpenRouterModel = async (model: ModelOption): Promise<void> => {
+  // Add a model and persist, returns a Promise that resolves after state and dataContext update
+  const handleAddModel = async (model: ModelOption): Promise<void> => {
     return new Promise<void>(async (resolve) => {
-      setOpenRouterModels(prev => {
-        if (prev.some(m => m.id === model.id)) {
+      setSavedModels(prev => {
+        if (prev.some(m => m.id === model.id && m.provider === model.provider)) {
           resolve();
           return prev;
         }
@@ -166,7 +278,7 @@ const ChatPage = () => {
         if (data) {
           const password = getCurrentPassword();
           if (password) {
-            saveData({ ...data, openRouterModels: updated.map(m => m.id) }, password).then(() => resolve());
+            saveData({ ...data, savedModels: updated }, password).then(() => resolve());
           } else {
             resolve();
           }
@@ -179,40 +291,36 @@ const ChatPage = () => {
     });
   };
 
+  // Compute connection status for ChatInput
+  type ConnectionStatus = 'connected' | 'error' | 'unknown';
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('unknown');
+
   useEffect(() => {
-    if (data?.apiKeys?.gemini) {
-      geminiService.setApiKey(data.apiKeys.gemini);
+    if (data?.apiKeys) {
+      configureProviders(data.apiKeys, data.settings);
     }
-    if (data?.apiKeys?.openRouter) {
-      openRouterService.setApiKey(data.apiKeys.openRouter);
-    }
-  }, [data]);
+    const provider = getProvider(currentModel.provider);
+    setConnectionStatus(!provider || !data ? 'unknown' : provider.isInitialized() ? 'connected' : 'error');
+  }, [data, currentModel]);
 
   // --- Robust effect for data changes ---
+  // Only the open thread's messages matter; summary or settings updates must not reset a response in progress
+  const openThread: ThreadMessages | undefined = data?.openThread?.threadId === data?.activeThreadId ? data?.openThread : undefined;
   useEffect(() => {
-    if (!data?.activeThreadId || !data.chatThreads) {
-      setMessages([]);
-      setCurrentThreadId(undefined);
-      setShowWelcome(true);
-      geminiService.resetChat();
-      return;
-    }
-    const activeThread: ChatThread | undefined = data.chatThreads.find(thread => thread.id === data.activeThreadId);
-    if (activeThread) {
-      setMessages(activeThread.messages.map((msg: Message) => ({
-        isUser: msg.isUser,
-        text: msg.text,
-        timestamp: msg.timestamp
-      })));
-      setShowWelcome(activeThread.messages.length === 0);
-      setCurrentThreadId(activeThread.id);
+    if (openThread) {
+      replaceMessages(openThread.messages.map((msg: Message) => ({ ...msg })));
+      setBranches(openThread.branches);
+      setOlderCount(openThread.olderCount);
+      setShowWelcome(openThread.messages.length === 0 && openThread.olderCount === 0);
+      setCurrentThreadId(openThread.threadId);
     } else {
-      setMessages([]);
+      replaceMessages([]);
+      setBranches([]);
+      setOlderCount(0);
       setCurrentThreadId(undefined);
       setShowWelcome(true);
-      geminiService.resetChat();
     }
-  }, [data?.activeThreadId, data?.chatThreads]);
+  }, [data?.activeThreadId, openThread]);
 
   useEffect(() => {
     const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
@@ -240,18 +348,96 @@ const ChatPage = () => {
     };
   }, [navigation, showSidebar]);
 
+  // Message to scroll to instead of the end, and where each message was laid out
+  const jumpTargetRef = useRef<string | null>(null);
+  const messageOffsets = useRef(new Map<string, number>());
+
+  const scrollToMessage = (messageId: string) => {
+    const offset = messageOffsets.current.get(messageId);
+    if (offset === undefined) return false;
+    jumpTargetRef.current = null;
+    scrollViewRef.current?.scrollTo({ y: Math.max(0, offset - 16), animated: true });
+    return true;
+  };
+
+  // Follows the end of the conversation; loading earlier messages in front leaves the last one unchanged
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     setTimeout(() => {
+      // A search result is scrolled to once it is laid out
+      if (jumpTargetRef.current) {
+        scrollToMessage(jumpTargetRef.current);
+        return;
+      }
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
-  }, [messages, isLoading]);
+  }, [lastMessage?.id, lastMessage?.text, isLoading, highlightedId]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
 
   const appStateRef = useRef(AppState.currentState);
   const messagesRef = useRef(messages);
+  const branchesRef = useRef(branches);
+  const olderCountRef = useRef(olderCount);
+
+  // Messages are set through the ref as well, so a save right after an update stores it
+  const replaceMessages = (next: ChatMessageType[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  };
   
   useEffect(() => {
-    messagesRef.current = messages;
-  }, [messages]);
+    branchesRef.current = branches;
+  }, [branches]);
+
+  useEffect(() => {
+    olderCountRef.current = olderCount;
+  }, [olderCount]);
+
+  // Put a page of earlier messages in front of the loaded ones
+  const prependMessages = (page: { messages: Message[]; branches: Message[] }) => {
+    messagesRef.current = [...page.messages, ...messagesRef.current];
+    branchesRef.current = [...page.branches, ...branchesRef.current];
+    olderCountRef.current = Math.max(0, olderCountRef.current - page.messages.length);
+    replaceMessages(messagesRef.current);
+    setBranches(branchesRef.current);
+    setOlderCount(olderCountRef.current);
+  };
+
+  // Load the previous page of the conversation, e.g. when scrolled to the top
+  const loadingEarlierRef = useRef(false);
+  const handleLoadEarlier = async () => {
+    if (!currentThreadId || olderCountRef.current === 0 || loadingEarlierRef.current || isGenerating) return;
+    loadingEarlierRef.current = true;
+    setIsLoadingEarlier(true);
+    try {
+      // The context adds the page to its copy of the thread, which has to match the one shown
+      updateChatThreadInMemory(currentThreadId, messagesRef.current, branchesRef.current);
+      prependMessages(await loadEarlierMessages(currentThreadId));
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+    } finally {
+      loadingEarlierRef.current = false;
+      setIsLoadingEarlier(false);
+    }
+  };
+
+  /**
+   * Load the rest of the selected path before changing it
+   * Branching, forking and the provider context work on the whole conversation.
+   * @returns Number of messages added in front, to shift indices into the loaded messages by
+   */
+  const ensureFullPath = async (threadId: string | undefined = currentThreadId): Promise<number> => {
+    if (!threadId || olderCountRef.current === 0) return 0;
+    updateChatThreadInMemory(threadId, messagesRef.current, branchesRef.current);
+    const page = await loadEarlierMessages(threadId, true);
+    prependMessages(page);
+    return page.messages.length;
+  };
 
   useEffect(() => {
     const handleAppStateChange = async (nextAppState: string) => {
@@ -276,12 +462,20 @@ const ChatPage = () => {
     };
   }, []);
 
+  // Save the open thread before an auto-lock closes the database
+  const saveMessagesRef = useRef<() => Promise<void>>(async () => {});
+
+  // Provider of the request in flight, which may be a regenerate's or the summary model's rather than the current model's
+  const activeProviderRef = useRef<LLMProvider | null>(null);
+  const stopRequestedRef = useRef(false);
+  saveMessagesRef.current = () => saveMessages();
+  useEffect(() => registerLockHandler(() => saveMessagesRef.current()), []);
+
   const saveMessages = async (): Promise<void> => {
     if (!currentThreadId || messagesRef.current.length === 0) return;
     
-    const messagesWithTimestamps = messagesRef.current.map(msg => ({
-      isUser: msg.isUser,
-      text: msg.text,
+    const messagesWithTimestamps = messagesRef.current.map(({ isStreaming, ...msg }) => ({
+      ...msg,
       timestamp: msg.timestamp || Date.now()
     }));
     
@@ -289,25 +483,26 @@ const ChatPage = () => {
       const password = getCurrentPassword();
       if (password) {
         console.log('Saving chat thread to storage...');
-        await updateChatThread(currentThreadId, messagesWithTimestamps, password);
+        await updateChatThread(currentThreadId, messagesWithTimestamps, password, branchesRef.current);
       }
     } catch (error) {
       console.error('Error saving messages:', error);
     }
   };
 
-  const handleNewChat = async () => {
+  const handleNewChat = async (model: ModelOption = currentModel, personaId?: string) => {
     try {
       const password = getCurrentPassword();
       if (!password) {
         console.error('Cannot create thread: No password available');
         return;
       }
-      geminiService.resetChat();
-      // Use new createChatThread API with model
-      const newThreadId = await createChatThread(password, currentModel);
+      // Use new createChatThread API with model and optional persona
+      const newThreadId = await createChatThread(password, model, personaId);
       setCurrentThreadId(newThreadId);
-      setMessages([]);
+      replaceMessages([]);
+      setBranches([]);
+      setOlderCount(0);
       setShowWelcome(true);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (error) {
@@ -325,21 +520,21 @@ const ChatPage = () => {
         console.error('Thread not found:', threadId);
         return;
       }
-      // Update local state and context in-memory for instant feedback
+      // Load the last page and update local state right away, without waiting for the context update
+      const opened = await openChatThread(threadId);
+      messagesRef.current = opened.messages;
+      branchesRef.current = opened.branches;
+      olderCountRef.current = opened.olderCount;
       setCurrentThreadId(threadId);
-      setMessages(thread.messages.map((msg: Message) => ({
-        isUser: msg.isUser,
-        text: msg.text,
-        timestamp: msg.timestamp,
-      })));
-      setShowWelcome(thread.messages.length === 0);
+      replaceMessages(opened.messages.map((msg: Message) => ({ ...msg })));
+      setBranches(opened.branches);
+      setOlderCount(opened.olderCount);
+      setShowWelcome(opened.messages.length === 0 && opened.olderCount === 0);
       setCurrentModel({
         id: thread.model.id,
         displayName: thread.model.displayName,
-        provider: thread.model.provider as "gemini" | "openrouter"
+        provider: thread.model.provider
       }); // Set model from thread
-      geminiService.resetChat();
-      setActiveThreadInMemory(threadId);
       // Do NOT persist here; only persist on explicit actions
     } catch (error) {
       console.error('Error selecting thread:', error);
@@ -356,113 +551,401 @@ const ChatPage = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
-  const handleSend = async (message: string, model: ModelOption) => {
+  // Apply an update to the assistant message currently being generated
+  const updateLastAssistantMessage = (update: (message: ChatMessageType) => Partial<ChatMessageType>) => {
+    const current = messagesRef.current;
+    const lastMessage = current[current.length - 1];
+    if (!lastMessage || lastMessage.isUser) return;
+    replaceMessages([...current.slice(0, -1), { ...lastMessage, ...update(lastMessage) }]);
+  };
+
+  // Put a tool step before the assistant message being generated, which then continues from the step
+  const insertToolStep = (step: ChatMessageType) => {
+    const current = messagesRef.current;
+    const last = current[current.length - 1];
+    if (!last || last.isUser) return;
+    const placed = { ...step, parentId: last.parentId };
+    replaceMessages([...current.slice(0, -1), placed, { ...last, parentId: placed.id, timestamp: placed.timestamp + 1 }]);
+  };
+
+  /**
+   * Build the provider context for a request from the thread's messages
+   * With summarization enabled, messages that no longer fit in the context window
+   * are folded into the thread's rolling summary, which is sent instead of them.
+   */
+  const prepareContext = async (
+    threadMessages: Message[],
+    provider: LLMProvider,
+    model: ModelOption,
+    message: string,
+    params: Required<GenerationParams>,
+    contextLength: number | undefined,
+    attachments: ChatAttachment[],
+    withImages: boolean
+  ): Promise<{ history: ChatTurn[]; summary?: string }> => {
+    const thread = data?.chatThreads.find(t => t.id === currentThreadId);
+    if (!currentThreadId || !thread || !data?.settings?.summarizeHistory) {
+      return { history: toChatTurns(threadMessages, withImages) };
+    }
+    const systemPrompt = getThreadPersona(currentThreadId)?.systemPrompt ?? data.settings.customPrompt ?? '';
+
+    // A summary covering more messages than the thread has describes removed messages
+    const hasSummary = (thread.summarizedCount ?? 0) <= threadMessages.length;
+    const summarizedCount = hasSummary ? thread.summarizedCount ?? 0 : 0;
+    const previousSummary = hasSummary ? thread.summary : undefined;
+    const pending = threadMessages.slice(summarizedCount);
+    const history = toChatTurns(pending, withImages);
+    const dropped = countDroppedTurns(history, {
+      contextLength,
+      reservedOutputTokens: params.maxTokens,
+      systemPrompt: buildSystemPrompt(systemPrompt, previousSummary),
+      message,
+      attachments
+    });
+    if (dropped === 0) {
+      return { history, summary: previousSummary };
+    }
+
+    // Prefer the designated summary model when its provider is set up
+    const summaryModel = data.settings.summaryModel;
+    const summaryProvider = summaryModel ? getProvider(summaryModel.provider) : undefined;
+    const useSummaryModel = Boolean(summaryModel && summaryProvider?.isInitialized());
+    const summarizer = useSummaryModel ? summaryProvider! : provider;
+    activeProviderRef.current = summarizer;
+    try {
+      const summary = await summarizeTurns(
+        summarizer,
+        useSummaryModel ? summaryModel!.id : model.id,
+        previousSummary,
+        history.slice(0, dropped)
+      );
+      // Count the covered messages, including empty ones between the summarized turns
+      let covered = 0;
+      for (let seen = 0; seen < dropped; covered++) {
+        if (isContextMessage(pending[covered], withImages)) seen++;
+      }
+      const password = getCurrentPassword();
+      if (password) {
+        await updateThreadSummary(currentThreadId, summary, summarizedCount + covered, password);
+      }
+      return { history: history.slice(dropped), summary };
+    } catch (error) {
+      // The provider drops the overflow itself, as without summarization
+      console.error('Error summarizing conversation:', error);
+      return { history, summary: previousSummary };
+    } finally {
+      activeProviderRef.current = provider;
+    }
+  };
+
+  /**
+   * Send a message and stream the response
+   * @param baseMessages Messages the new turn follows; the current thread's messages when omitted
+   * @param attachments Images and text files sent with the message
+   */
+  const handleSend = async (message: string, model: ModelOption, baseMessages?: Message[], attachments: MessageAttachment[] = []) => {
     console.log('[Chat] handleSend called with:', { message, model });
-    if (model.provider === 'openrouter' && !openRouterModels.some(m => m.id === model.id)) {
-      setMessages(prev => [
-        ...prev,
-        { isUser: true, text: message, timestamp: Date.now() },
-        {
-          isUser: false,
-          text: `The model "${model.id}" is not available in your OpenRouter models. Please select or add a valid model in the model selector.
-
-See https://openrouter.ai/models for available models.`,
-          timestamp: Date.now(),
-          isStreaming: false
-        }
+    if (!baseMessages) {
+      await ensureFullPath();
+    }
+    // Shows the message with the reason it was not sent, without storing either
+    const refuse = (reason: string) => {
+      const base = baseMessages ?? messagesRef.current;
+      const userMessage = createMessage(true, message, {
+        parentId: base[base.length - 1]?.id,
+        ...(attachments.length > 0 ? { attachments } : {})
+      });
+      replaceMessages([
+        ...base,
+        userMessage,
+        createMessage(false, reason, { isStreaming: false, parentId: userMessage.id })
       ]);
       setIsLoading(false);
       setIsGenerating(false);
+    };
+    const provider = getProvider(model.provider);
+    if (!provider || !isModelAvailable(model)) {
+      refuse(`The model "${model.id}" is not available in your ${getProviderDisplayName(model.provider)} models. Please select or add a valid model in the model selector.`);
+      return;
+    }
+    // The attachment sheet checks each file as it is added, but files added together or a switch to a
+    // model with a smaller context can still overflow it. History gives way to the message (see
+    // getContextWindow), so the message with its files is what has to fit.
+    const promptTokens = estimateMessageTokens(
+      toPromptText(message, attachments),
+      toPromptImages(attachments, supportsImages(model))
+    );
+    const messageBudget = getThreadMessageBudget(model);
+    if (promptTokens > messageBudget) {
+      refuse(`❗ This message with its files takes about ${promptTokens} tokens, more than the ${Math.max(0, messageBudget)} that fit in the context of ${model.displayName}. Remove some files or choose a model with a larger context.`);
       return;
     }
+    // Provider context is rebuilt from the thread's messages on every request
+    const threadMessages = baseMessages ?? (currentThreadId ? messagesRef.current : []);
     if (!currentThreadId) {
       await handleNewChat();
     }
     setShowWelcome(false);
     // In-memory update for instant feedback
-    setMessages(prev => [...prev, { isUser: true, text: message, timestamp: Date.now() }]);
-    setMessages(prev => [...prev, { isUser: false, text: '', timestamp: Date.now(), isStreaming: true }]);
+    const userMessage = createMessage(true, message, {
+      parentId: threadMessages[threadMessages.length - 1]?.id,
+      ...(attachments.length > 0 ? { attachments } : {})
+    });
+    replaceMessages([
+      ...threadMessages,
+      userMessage,
+      createMessage(false, '', { isStreaming: true, model: model.displayName, parentId: userMessage.id })
+    ]);
+    await generateResponse(message, model, provider, threadMessages, attachments);
+  };
+
+  // Store the thread as shown, including the updates made just before
+  const persistThread = async () => {
+    if (!currentThreadId) return;
+    updateChatThreadInMemory(currentThreadId, messagesRef.current, branchesRef.current);
+    const password = getCurrentPassword();
+    if (password) {
+      await updateChatThread(currentThreadId, messagesRef.current, password, branchesRef.current);
+    }
+  };
+
+  /**
+   * Stream a response into the last assistant message and persist the thread
+   * @param threadMessages Messages before the prompt, used as the provider context
+   * @param attachments Files of the prompt; images are left out for models without image support
+   */
+  const generateResponse = async (message: string, model: ModelOption, provider: LLMProvider, threadMessages: Message[], attachments: MessageAttachment[] = []) => {
     setIsLoading(true);
     setIsGenerating(true);
+    activeProviderRef.current = provider;
+    stopRequestedRef.current = false;
     try {
-      if (model.provider === 'gemini') {
-        await geminiService.sendMessage(message, (partialResponse) => {
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage && !lastMessage.isUser) {
-              lastMessage.text = partialResponse;
-            }
-            return newMessages;
-          });
-        });
-      } else {
-        const result = await openRouterService.sendMessage(message, (partialResponse) => {
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage && !lastMessage.isUser) {
-              lastMessage.text += partialResponse; // Append the new chunk
-            }
-            return newMessages;
-          });
-        });
-        // Only treat as error if result is an object with an error property
-        if (typeof result === 'object' && result !== null && 'error' in result) {
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage && !lastMessage.isUser) {
-              lastMessage.text = result.error;
-              lastMessage.isStreaming = false;
-            }
-            return newMessages;
-          });
-          setIsLoading(false);
-          setIsGenerating(false);
-          return;
-        }
+      let failed = false;
+      const contextLength = getContextLength(model);
+      // Thread overrides win over the persona's defaults, which win over the global defaults
+      const persona = getThreadPersona(currentThreadId);
+      const params = resolveGenerationParams(
+        data?.settings?.generationParams,
+        persona?.defaultParams,
+        data?.chatThreads.find(t => t.id === currentThreadId)?.params
+      );
+      const withImages = supportsImages(model);
+      const prompt = toPromptText(message, attachments);
+      const images = toPromptImages(attachments, withImages);
+      const { history, summary } = await prepareContext(threadMessages, provider, model, prompt, params, contextLength, images, withImages);
+      // Stopped while earlier messages were being summarized
+      if (stopRequestedRef.current) {
+        updateLastAssistantMessage(() => ({ text: '[Generation stopped]', isStreaming: false }));
+        await persistThread();
+        return;
       }
-      setMessages(prev => {
-        const newMessages = [...prev];
-        const lastMessage = newMessages[newMessages.length - 1];
-        if (lastMessage && !lastMessage.isUser) {
-          lastMessage.isStreaming = false;
+      const toolContext: ToolContext = {
+        searchMessages,
+        isSearchEnabled: data?.settings?.searchIndexEnabled ?? false
+      };
+      const jsonSchema = getThreadJsonSchema(currentThreadId);
+      let stopped = false;
+      let responseText = '';
+      const handleEvent = (event: LLMStreamEvent) => {
+        switch (event.type) {
+          case 'delta':
+            updateLastAssistantMessage(last => ({ text: last.text + event.text }));
+            break;
+          case 'toolCall':
+            insertToolStep(createMessage(false, formatToolCall(event.call), { type: 'toolCall', model: model.displayName }));
+            break;
+          case 'toolResult':
+            insertToolStep(createMessage(false, formatToolResult(event.call, event.result), { type: 'toolResult', model: model.displayName }));
+            break;
+          case 'done':
+            stopped = event.stopped;
+            responseText = event.text;
+            updateLastAssistantMessage(() => ({ text: event.text, isStreaming: false }));
+            break;
+          case 'error':
+            failed = true;
+            updateLastAssistantMessage(() => ({ text: event.message, isStreaming: false }));
+            break;
         }
-        return newMessages;
-      });
-      // Persist the chat after message is sent
-      if (currentThreadId) {
-        updateChatThreadInMemory(currentThreadId, messagesRef.current);
-        const password = getCurrentPassword();
-        if (password) {
-          await updateChatThread(currentThreadId, messagesRef.current, password);
+      };
+      await provider.sendMessage({
+        model: model.id,
+        message: prompt,
+        ...(images.length > 0 ? { attachments: images } : {}),
+        history,
+        contextLength,
+        summary,
+        params,
+        systemPrompt: persona?.systemPrompt,
+        ...(jsonSchema ? { responseSchema: jsonSchema } : {}),
+        ...(supportsTools(model) ? { tools: getToolSpecs(), executeTool: call => runToolCall(call, toolContext) } : {})
+      }, handleEvent);
+
+      // Output that does not match the schema is sent back once with the problems found, and replaced by the fixed version
+      if (jsonSchema) {
+        let errors = failed || stopped ? [] : checkJsonResponse(responseText, jsonSchema).errors;
+        for (let attempt = 0; attempt < MAX_JSON_REPAIR_ATTEMPTS && errors.length > 0 && !stopRequestedRef.current; attempt++) {
+          const invalidResponse = responseText;
+          updateLastAssistantMessage(() => ({ text: '', isStreaming: true }));
+          await provider.sendMessage({
+            model: model.id,
+            message: buildRepairMessage(errors),
+            history: [
+              ...history,
+              { role: 'user', content: prompt, ...(images.length > 0 ? { attachments: images } : {}) },
+              { role: 'assistant', content: invalidResponse }
+            ],
+            contextLength,
+            summary,
+            params,
+            systemPrompt: persona?.systemPrompt,
+            responseSchema: jsonSchema
+          }, handleEvent);
+          errors = failed || stopped ? [] : checkJsonResponse(responseText, jsonSchema).errors;
+        }
+        if (errors.length > 0) {
+          updateLastAssistantMessage(last => ({ text: `${last.text}\n\n❗ The response does not match the JSON schema: ${errors[0]}` }));
         }
       }
+      if (failed) return;
+      await persistThread();
     } catch (error) {
       console.error('Error getting response:', error);
-      setMessages(prev => {
-        const newMessages = [...prev];
-        const lastMessage = newMessages[newMessages.length - 1];
-        if (lastMessage && !lastMessage.isUser) {
-          lastMessage.text = "I'm sorry, I encountered an error processing your request. Please try again.";
-          lastMessage.isStreaming = false;
-        }
-        return newMessages;
-      });
+      updateLastAssistantMessage(() => ({
+        text: "I'm sorry, I encountered an error processing your request. Please try again.",
+        isStreaming: false
+      }));
     } finally {
+      activeProviderRef.current = null;
       setIsLoading(false);
       setIsGenerating(false);
     }
   };
 
+  // The rolling summary describes the selected path; drop it when the path changes inside it
+  const clearStaleSummary = async (index: number) => {
+    const thread = data?.chatThreads.find(t => t.id === currentThreadId);
+    if (!currentThreadId || (thread?.summarizedCount ?? 0) <= index) return;
+    const password = getCurrentPassword();
+    if (password) {
+      await updateThreadSummary(currentThreadId, '', 0, password);
+    }
+  };
+
+  // Request another response to the last prompt, optionally from a different model; the previous one stays as a branch
+  const handleRegenerate = async (modelOverride?: ModelOption) => {
+    setShowRegenerate(false);
+    if (!currentThreadId || isGenerating) return;
+    await ensureFullPath();
+    const current = messagesRef.current;
+    const lastIndex = current.length - 1;
+    const last = current[lastIndex];
+    const promptIndex = findPromptIndex(current, lastIndex);
+    const prompt = current[promptIndex];
+    if (!last || last.isUser || !prompt?.isUser) return;
+
+    const model = modelOverride ?? currentModel;
+    const provider = getProvider(model.provider);
+    if (!provider || !isModelAvailable(model)) return;
+
+    // The tool steps of the previous response go to the branch with it
+    const { path, branches: updatedBranches } = branchOff(current, branchesRef.current, promptIndex + 1);
+    setBranches(updatedBranches);
+    branchesRef.current = updatedBranches;
+    replaceMessages([...path, createMessage(false, '', { isStreaming: true, model: model.displayName, parentId: prompt.id })]);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await generateResponse(prompt.text, model, provider, path.slice(0, -1), prompt.attachments);
+  };
+
+  // Continue the conversation on another branch at a fork point
+  const handleSelectBranch = async (index: number, siblingId: string) => {
+    if (!currentThreadId || isGenerating) return;
+    const { path, branches: updatedBranches } = selectBranch(messagesRef.current, branchesRef.current, index, siblingId);
+    replaceMessages(path);
+    setBranches(updatedBranches);
+    Haptics.selectionAsync();
+    await clearStaleSummary(olderCountRef.current + index);
+    const password = getCurrentPassword();
+    if (password) {
+      await updateChatThread(currentThreadId, path, password, updatedBranches);
+    }
+  };
+
+  // Send a corrected version of a user message on a new branch; the original conversation stays as a branch
+  const handleEditMessage = async (text: string) => {
+    const index = editingIndex;
+    setEditingIndex(null);
+    if (index === null || !currentThreadId || isGenerating) return;
+
+    const pathIndex = index + await ensureFullPath();
+    // The edited message keeps the images of the original, stored again under new ids
+    const attachments = (messagesRef.current[pathIndex]?.attachments ?? [])
+      .map(attachment => ({ ...attachment, id: Crypto.randomUUID() }));
+    const { path, branches: updatedBranches } = branchOff(messagesRef.current, branchesRef.current, pathIndex);
+    setBranches(updatedBranches);
+    branchesRef.current = updatedBranches;
+    await clearStaleSummary(pathIndex);
+    await handleSend(text, currentModel, path, attachments);
+  };
+
+  // Copy the conversation up to a message into a new chat
+  const handleForkThread = async (index: number) => {
+    setActionIndex(null);
+    if (!currentThreadId || isGenerating) return;
+    const password = getCurrentPassword();
+    if (!password) return;
+    try {
+      const pathIndex = index + await ensureFullPath();
+      await saveMessages();
+      await forkChatThread(currentThreadId, messagesRef.current.slice(0, pathIndex + 1), password);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Error forking chat:', error);
+    }
+  };
+
+  // Open a search result: switch to its chat and to the branch it is on, then scroll to it
+  const handleJumpToMessage = async (threadId: string, messageId: string) => {
+    setMessageSearch(null);
+    const thread = data?.chatThreads?.find(t => t.id === threadId);
+    if (!thread || isGenerating) return;
+
+    await handleSelectThread(threadId);
+    // Results in messages that are not loaded yet need the rest of the conversation
+    if (![...messagesRef.current, ...branchesRef.current].some(message => message.id === messageId)) {
+      await ensureFullPath(threadId);
+    }
+    const basePath: Message[] = messagesRef.current;
+    const baseBranches: Message[] = branchesRef.current;
+    const { path, branches: updatedBranches } = revealMessage(basePath, baseBranches, messageId);
+
+    jumpTargetRef.current = messageId;
+    setHighlightedId(messageId);
+    if (path === basePath) return;
+
+    replaceMessages(path);
+    setBranches(updatedBranches);
+    setShowWelcome(false);
+    const password = getCurrentPassword();
+    if (!password) return;
+    const changedIndex = olderCountRef.current + path.findIndex((message, index) => basePath[index]?.id !== message.id);
+    if ((thread.summarizedCount ?? 0) > changedIndex) {
+      await updateThreadSummary(threadId, '', 0, password);
+    }
+    await updateChatThread(threadId, path, password, updatedBranches);
+  };
+
   const toggleSidebar = () => {
     setShowSidebar(!showSidebar);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
+  // Siblings of every message on the path, to show the branch switcher at fork points
+  const siblingsByParent = groupChildren<Message>([...messages, ...branches]);
+
   const handleStopGeneration = () => {
-    geminiService.cancelGeneration();
+    stopRequestedRef.current = true;
+    activeProviderRef.current?.cancelGeneration();
     setIsGenerating(false);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
   };
@@ -472,17 +955,6 @@ See https://openrouter.ai/models for available models.`,
     setSidebarAnimating(true);
   };
 
-  // Compute connection status for ChatInput
-  type ConnectionStatus = 'connected' | 'error' | 'unknown';
-  const connectionStatus: ConnectionStatus = React.useMemo(() => {
-    if (currentModel.provider === 'gemini') {
-      return data?.apiKeys?.gemini ? 'connected' : 'error';
-    } else if (currentModel.provider === 'openrouter') {
-      return data?.apiKeys?.openRouter ? 'connected' : 'error';
-    }
-    return 'unknown';
-  }, [currentModel, data]);
-
   useEffect(() => {
     navigation.setOptions({
       header: (props: any) => (
@@ -503,21 +975,53 @@ See https://openrouter.ai/models for available models.`,
         <StatusBar style="light"/>
         <View className="flex-1">
           {/* Model Picker Modal Button & Modal (now above messages, under TitleBar) */}
-          <View className="px-4 pb-2 space-y-4">
+          <View className="px-4 pb-2 flex-row items-center">
             <TouchableOpacity
               onPress={() => setShowModelMenu(true)}
-              className="flex-row items-center justify-center px-3 py-2 rounded-lg bg-primary"
+              className="flex-1 flex-row items-center justify-center px-3 py-2 rounded-lg bg-primary"
               accessibilityLabel="Open model picker"
               style={{ minHeight: 40 }}
             >
               <View className="flex-row items-center justify-center">
                 <Text className="text-base text-white mr-1">
-                  {`${currentModel.displayName} (${currentModel.provider === 'gemini' ? 'Gemini' : 'OpenRouter'})`}
+                  {`${currentModel.displayName} (${getProviderDisplayName(currentModel.provider)})`}
                 </Text>
                 <ChevronDown size={20} color="#61BA82" />
               </View>
             </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setShowPersonaMenu(true)}
+              className="ml-2 flex-row items-center px-3 py-2 rounded-lg bg-primary"
+              accessibilityLabel="Start a chat with a persona"
+              style={{ minHeight: 40, maxWidth: 140 }}
+            >
+              <UserRound size={20} color="#61BA82" />
+              {currentPersona && (
+                <Text className="text-sm text-white ml-1" numberOfLines={1}>{currentPersona.name}</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setShowThreadSettings(true)}
+              disabled={!currentThreadId}
+              className={`ml-2 px-3 py-2 rounded-lg bg-primary ${!currentThreadId ? 'opacity-50' : ''}`}
+              accessibilityLabel="Open chat settings"
+              style={{ minHeight: 40, justifyContent: 'center' }}
+            >
+              <SlidersHorizontal size={20} color="#61BA82" />
+            </TouchableOpacity>
           </View>
+          <PersonaPickerModal
+            visible={showPersonaMenu}
+            onRequestClose={() => setShowPersonaMenu(false)}
+            personas={data?.personas || []}
+            currentPersonaId={currentPersona?.id}
+            onSelectPersona={handlePersonaChange}
+          />
+          <ThreadSettingsSheet
+            visible={showThreadSettings}
+            threadId={currentThreadId}
+            onClose={() => setShowThreadSettings(false)}
+          />
           <ModelPickerModal
             visible={showModelMenu}
             onRequestClose={() => setShowModelMenu(false)}
@@ -527,8 +1031,8 @@ See https://openrouter.ai/models for available models.`,
             onModelChange={handleModelChangeUnified}
             currentModel={currentModel}
             connectionStatus={connectionStatus}
-            handleAddOpenRouterModel={handleAddOpenRouterModel}
-            openRouterModels={openRouterModels}
+            onAddModel={handleAddModel}
+            savedModels={savedModels}
           />
 
           <View style={{ flex: 1 }}>
@@ -539,34 +1043,110 @@ See https://openrouter.ai/models for available models.`,
                 ref={scrollViewRef}
                 className="flex-1"
                 contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+                maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+                scrollEventThrottle={200}
+                onScroll={(event) => {
+                  if (event.nativeEvent.contentOffset.y < LOAD_EARLIER_OFFSET) handleLoadEarlier();
+                }}
               >
-                {messages.map((message, index) => (
-                  <ChatMessage 
-                    key={index}
-                    content={message.text}
-                    role={message.isUser ? 'user' : 'assistant'}
-                    isLast={index === messages.length - 1}
-                    isGenerating={message.isStreaming}
-                  />
-                ))}
+                {olderCount > 0 && (
+                  <TouchableOpacity
+                    onPress={handleLoadEarlier}
+                    disabled={isLoadingEarlier}
+                    className="py-2 mb-2 items-center"
+                    accessibilityLabel="Load earlier messages"
+                  >
+                    {isLoadingEarlier ? (
+                      <ActivityIndicator size="small" color="#61BA82" />
+                    ) : (
+                      <Text className="text-sm text-text/60 font-sans">{`Load earlier messages (${olderCount})`}</Text>
+                    )}
+                  </TouchableOpacity>
+                )}
+                {messages.map((message, index) => {
+                  const isLast = index === messages.length - 1;
+                  const canRegenerate = isLast && !message.isUser && !isGenerating && messages[findPromptIndex(messages, index)]?.isUser;
+                  const siblings = siblingsByParent.get(message.parentId ?? '') ?? [message];
+                  return (
+                    <View
+                      key={message.id}
+                      onLayout={(event) => {
+                        messageOffsets.current.set(message.id, event.nativeEvent.layout.y);
+                        if (jumpTargetRef.current === message.id) scrollToMessage(message.id);
+                      }}
+                      className={`rounded-xl ${message.id === highlightedId ? 'bg-accent/10' : ''}`}
+                    >
+                      <ChatMessage 
+                        content={message.text}
+                        role={message.isUser ? 'user' : 'assistant'}
+                        isLast={isLast}
+                        isGenerating={message.isStreaming}
+                        onLongPress={!isGenerating ? () => setActionIndex(index) : undefined}
+                        model={message.model}
+                        branchIndex={siblings.findIndex(sibling => sibling.id === message.id)}
+                        branchCount={siblings.length}
+                        onSelectBranch={!isGenerating ? (branchIndex) => handleSelectBranch(index, siblings[branchIndex].id) : undefined}
+                        onRegenerate={canRegenerate ? () => setShowRegenerate(true) : undefined}
+                        attachments={message.attachments}
+                        tool={message.type ? parseToolStep(message.type, message.text) : undefined}
+                        json={!message.isUser && !message.type && !message.isStreaming ? getJsonResponse(message) : undefined}
+                      />
+                    </View>
+                  );
+                })}
               </ScrollView>
             )}
           </View>
 
+          <MessageActionsSheet
+            visible={actionIndex !== null}
+            canEdit={actionIndex !== null && Boolean(messages[actionIndex]?.isUser)}
+            onCancel={() => setActionIndex(null)}
+            onEdit={() => {
+              setEditingIndex(actionIndex);
+              setActionIndex(null);
+            }}
+            onFork={() => actionIndex !== null && handleForkThread(actionIndex)}
+          />
+
+          <EditMessageSheet
+            visible={editingIndex !== null}
+            initialText={editingIndex !== null ? messages[editingIndex]?.text ?? '' : ''}
+            onCancel={() => setEditingIndex(null)}
+            onSubmit={handleEditMessage}
+          />
+
+          <MessageSearch
+            visible={messageSearch !== null}
+            initialQuery={messageSearch?.query}
+            onClose={() => setMessageSearch(null)}
+            onSelectResult={handleJumpToMessage}
+          />
+
+          <RegenerateSheet
+            visible={showRegenerate}
+            models={ALL_MODELS}
+            currentModel={currentModel}
+            onCancel={() => setShowRegenerate(false)}
+            onSubmit={handleRegenerate}
+          />
+
           <ChatInput 
-            onSend={handleSend}
+            onSend={(message, model, attachments) => handleSend(message, model, undefined, attachments)}
             isGenerating={isGenerating}
             onStopGeneration={handleStopGeneration}
             currentModel={currentModel}
             onModelChange={handleModelChangeUnified}
-            openRouterModels={openRouterModels}
-            addOpenRouterModel={handleAddOpenRouterModel}
+            savedModels={savedModels}
+            onAddModel={handleAddModel}
             showModelMenu={showModelMenu}
             setShowModelMenu={setShowModelMenu}
             searchQuery={searchQuery}
             setSearchQuery={setSearchQuery}
             filteredModels={filteredModels}
             connectionStatus={connectionStatus}
+            canAttachImages={supportsImages(currentModel)}
+            messageTokenBudget={messageTokenBudget}
           />
           {(showSidebar || sidebarMounted) && (
             <ChatSidebar
@@ -577,6 +1157,7 @@ See https://openrouter.ai/models for available models.`,
               onNewChat={handleNewChat}
               currentThreadId={currentThreadId}
               onSelectThread={handleSelectThread}
+              onSearchMessages={(query) => setMessageSearch({ query })}
               enableEditing={true}
             />
           )}
@@ -0,0 +1,17 @@
+import React from 'react';
+import { Modal, ModalProps, View } from 'react-native';
+import { globalEventEmitter } from '../utils/event';
+
+/**
+ * Modal whose touches count as activity for the idle auto-lock
+ * Modals are drawn outside the root view, so its touch handler never sees them.
+ */
+export function ActivityModal({ children, ...props }: ModalProps) {
+  return (
+    <Modal {...props}>
+      <View style={{ flex: 1 }} onTouchStart={() => globalEventEmitter.emit('userActivity')}>
+        {children}
+      </View>
+    </Modal>
+  );
+}
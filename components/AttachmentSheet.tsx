@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Pressable, View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { ImagePlus, ClipboardPaste, FileText } from 'lucide-react-native';
+import type { MessageAttachment } from '../context/dataContext';
+import { isImageAttachment, pasteImage, pickImage, pickTextFile } from '../services/attachments';
+import { estimateTokens } from '../services/chatContext';
+
+interface AttachmentSheetProps {
+  visible: boolean;
+  onCancel: () => void;
+  onAdd: (attachment: MessageAttachment) => void;
+  canAttachImages: boolean;   // Whether the current model accepts images
+  remainingTokens: number;    // Room left in the model's context for the message being written
+}
+
+/**
+ * Bottom sheet for adding an image or a text file to the message being written
+ * Text files that would not fit in the model's context are refused.
+ */
+export const AttachmentSheet = ({ visible, onCancel, onAdd, canAttachImages, remainingTokens }: AttachmentSheetProps) => {
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) setError(null);
+  }, [visible]);
+
+  const addAttachment = async (read: () => Promise<MessageAttachment | null>) => {
+    if (isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const attachment = await read();
+      if (!attachment) return;
+      const tokens = isImageAttachment(attachment) ? 0 : estimateTokens(attachment.data);
+      if (tokens > remainingTokens) {
+        setError(`${attachment.name} is about ${tokens.toLocaleString()} tokens, but only ${Math.max(0, remainingTokens).toLocaleString()} are left for this message with the current model.`);
+        return;
+      }
+      onAdd(attachment);
+    } catch (readError) {
+      console.error('Error adding attachment:', readError);
+      setError(readError instanceof Error ? readError.message : 'The file could not be added.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <Pressable className="flex-1 justify-end bg-black/50" onPress={isBusy ? undefined : onCancel}>
+        <View className="rounded-t-2xl p-4 bg-zinc-800">
+          <View className="space-y-3">
+            {canAttachImages && (
+              <TouchableOpacity
+                onPress={() => addAttachment(pickImage)}
+                disabled={isBusy}
+                className="flex-row items-center p-3 rounded-lg bg-zinc-700"
+              >
+                <ImagePlus size={18} color="#61BA82" />
+                <Text className="ml-3 text-white">Choose Image</Text>
+              </TouchableOpacity>
+            )}
+            {canAttachImages && (
+              <TouchableOpacity
+                onPress={() => addAttachment(pasteImage)}
+                disabled={isBusy}
+                className="flex-row items-center p-3 rounded-lg bg-zinc-700"
+              >
+                <ClipboardPaste size={18} color="#61BA82" />
+                <Text className="ml-3 text-white">Paste Image from Clipboard</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => addAttachment(pickTextFile)}
+              disabled={isBusy}
+              className="flex-row items-center p-3 rounded-lg bg-zinc-700"
+            >
+              <FileText size={18} color="#61BA82" />
+              <View className="ml-3 flex-1">
+                <Text className="text-white">Choose Text File</Text>
+                <Text className="text-zinc-400 text-sm">Logs, notes, data or source code; its contents are sent with the message</Text>
+              </View>
+            </TouchableOpacity>
+            {isBusy && <ActivityIndicator size="small" color="#61BA82" />}
+            {error && <Text className="text-red-400">❗ {error}</Text>}
+            <TouchableOpacity
+              onPress={onCancel}
+              disabled={isBusy}
+              className="p-3 rounded-lg bg-zinc-700"
+            >
+              <Text className="text-center text-white">Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Pressable>
+    </ActivityModal>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Switch } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { X, DatabaseBackup } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useData } from '../context/dataContext';
+import { useAuth } from '../hooks/useAuth';
+import { createBackupArchive } from '../services/backupArchive';
+import { shareExport } from '../services/conversationExport';
+
+interface BackupSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Modal for writing an encrypted backup of all data and passing it to the share sheet
+ * The backup is protected by the app password or a separate passphrase.
+ */
+export function BackupSheet({ visible, onClose }: BackupSheetProps) {
+  const { getBackupData } = useData();
+  const { getCurrentPassword } = useAuth();
+
+  const [useAppPassword, setUseAppPassword] = useState<boolean>(true);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState<string>('');
+  const [includeApiKeys, setIncludeApiKeys] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Start over whenever the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setUseAppPassword(true);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setIncludeApiKeys(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleBackup = async () => {
+    if (isSaving) return;
+    if (!useAppPassword) {
+      if (!passphrase) {
+        setError('Please enter a passphrase');
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const data = await getBackupData(includeApiKeys);
+      await shareExport(await createBackupArchive(data, useAppPassword ? getCurrentPassword() : passphrase));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (backupError) {
+      console.error('Error creating backup:', backupError);
+      setError(backupError instanceof Error ? backupError.message : 'Backup failed.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (label: string, value: string, onChange: (value: string) => void, placeholder: string) => (
+    <View>
+      <Text className="text-base mb-1 text-text/80 font-sans">{label}</Text>
+      <View className="rounded-lg overflow-hidden bg-accent">
+        <TextInput
+          value={value}
+          onChangeText={onChange}
+          placeholder={placeholder}
+          placeholderTextColor="#18181880"
+          secureTextEntry={true}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSaving}
+          className="px-4 py-3 text-base text-text font-sans"
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/50 font-sans">
+        <View className="rounded-t-2xl bg-background w-full max-h-[90%] pb-2">
+          <View className="px-4 py-3 border-b border-primary flex-row justify-between items-center">
+            <Text className="text-xl font-bold text-text font-sans">Back Up Data</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              disabled={isSaving}
+              className="p-2 rounded-full bg-accent"
+              accessibilityLabel="Close backup"
+            >
+              <X size={24} color="#181818" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView className="px-4 py-4" keyboardShouldPersistTaps="handled">
+            <View className="space-y-4">
+              <View>
+                <Text className="text-base mb-1 text-text/80 font-sans">Protect with</Text>
+                <View className="flex-row flex-wrap">
+                  {[true, false].map(option => (
+                    <TouchableOpacity
+                      key={String(option)}
+                      onPress={() => setUseAppPassword(option)}
+                      className={`px-3 py-2 mr-2 mb-2 rounded-lg ${useAppPassword === option ? 'bg-accent' : 'bg-primary'}`}
+                      accessibilityLabel={option ? 'Protect with the app password' : 'Protect with a separate passphrase'}
+                    >
+                      <Text className={`text-sm font-sans ${useAppPassword === option ? 'text-primary' : 'text-text'}`}>
+                        {option ? 'App password' : 'Separate passphrase'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              {!useAppPassword && renderField('Passphrase', passphrase, setPassphrase, 'Enter a passphrase for the backup')}
+              {!useAppPassword && renderField('Confirm Passphrase', confirmPassphrase, setConfirmPassphrase, 'Enter the passphrase again')}
+              <View className="flex-row items-center justify-between">
+                <Text className="text-base text-text/80 font-sans">Include API Keys</Text>
+                <Switch
+                  value={includeApiKeys}
+                  onValueChange={setIncludeApiKeys}
+                  trackColor={{ false: '#3f3f46', true: '#61BA82' }}
+                  accessibilityLabel="Include API keys"
+                />
+              </View>
+            </View>
+            <Text className="text-sm mt-4 text-text/60 font-sans">
+              The backup holds all chats with their branches, personas and settings in one encrypted file. It can be restored
+              from the login screen, and needs {useAppPassword ? 'your current password' : 'this passphrase'} to open.
+            </Text>
+            {error && (
+              <Text className="text-red-500 mt-2 font-sans">❗ {error}</Text>
+            )}
+
+            <TouchableOpacity
+              onPress={handleBackup}
+              disabled={isSaving}
+              className={`flex-row items-center justify-center py-3 px-4 mt-6 mb-4 rounded-lg bg-accent ${isSaving ? 'opacity-50' : ''}`}
+              accessibilityLabel="Create backup"
+            >
+              <DatabaseBackup size={20} color="#181818" />
+              <Text className="text-primary font-semibold ml-2 font-sans">
+                {isSaving ? 'Encrypting...' : 'Create Backup'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </ActivityModal>
+  );
+}
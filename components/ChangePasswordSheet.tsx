@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { X, KeyRound } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '../hooks/useAuth';
+
+interface ChangePasswordSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Modal for changing the password that protects the stored data
+ */
+export function ChangePasswordSheet({ visible, onClose }: ChangePasswordSheetProps) {
+  const { changePassword } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState<string>('');
+  const [newPassword, setNewPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+  const [showPasswords, setShowPasswords] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Start empty whenever the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setShowPasswords(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await changePassword(currentPassword, newPassword, confirmPassword);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : 'Failed to change password.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (label: string, value: string, onChange: (value: string) => void, placeholder: string) => (
+    <View>
+      <Text className="text-base mb-1 text-text/80 font-sans">{label}</Text>
+      <View className="rounded-lg overflow-hidden bg-accent">
+        <TextInput
+          value={value}
+          onChangeText={onChange}
+          placeholder={placeholder}
+          placeholderTextColor="#18181880"
+          secureTextEntry={!showPasswords}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSaving}
+          className="px-4 py-3 text-base text-text font-sans"
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/50 font-sans">
+        <View className="rounded-t-2xl bg-background w-full max-h-[90%] pb-2">
+          <View className="px-4 py-3 border-b border-primary flex-row justify-between items-center">
+            <Text className="text-xl font-bold text-text font-sans">Change Password</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              disabled={isSaving}
+              className="p-2 rounded-full bg-accent"
+              accessibilityLabel="Close change password"
+            >
+              <X size={24} color="#181818" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView className="px-4 py-4" keyboardShouldPersistTaps="handled">
+            <View className="space-y-4">
+              {renderField('Current Password', currentPassword, setCurrentPassword, 'Enter your current password')}
+              {renderField('New Password', newPassword, setNewPassword, 'Enter a new password')}
+              {renderField('Confirm New Password', confirmPassword, setConfirmPassword, 'Enter the new password again')}
+              <TouchableOpacity
+                onPress={() => setShowPasswords(prev => !prev)}
+                className="self-start"
+                accessibilityLabel="Show/hide passwords"
+              >
+                <Text className="text-sm text-accent font-sans">{showPasswords ? 'Hide passwords' : 'Show passwords'}</Text>
+              </TouchableOpacity>
+            </View>
+            <Text className="text-sm mt-4 text-text/60 font-sans">
+              Your chats stay encrypted with the same key; only the key's protection changes, so this is quick.
+            </Text>
+            {error && (
+              <Text className="text-red-500 mt-2 font-sans">❗ {error}</Text>
+            )}
+
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={isSaving}
+              className={`flex-row items-center justify-center py-3 px-4 mt-6 mb-4 rounded-lg bg-accent ${isSaving ? 'opacity-50' : ''}`}
+              accessibilityLabel="Change password"
+            >
+              <KeyRound size={20} color="#181818" />
+              <Text className="text-primary font-semibold ml-2 font-sans">
+                {isSaving ? 'Changing...' : 'Change Password'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </ActivityModal>
+  );
+}
@@ -1,31 +1,25 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Keyboard, TextInput, View, Animated, Easing, TouchableOpacity, Pressable, StyleSheet, ViewStyle, LayoutChangeEvent, Platform, NativeSyntheticEvent, TextInputSelectionChangeEventData } from 'react-native';
+import { Keyboard, TextInput, View, Animated, Easing, TouchableOpacity, Pressable, StyleSheet, ViewStyle, LayoutChangeEvent, Platform, NativeSyntheticEvent, TextInputSelectionChangeEventData, Image, ScrollView, Text } from 'react-native';
 import * as Haptics from 'expo-haptics';
-import { Send, Bold, Italic, Code, Heading, List, ListOrdered, Link2, X, Image as ImageIcon, ChevronsUpDown } from 'lucide-react-native';
+import { Send, Bold, Italic, Code, Heading, List, ListOrdered, Link2, X, Paperclip, FileText, ChevronsUpDown } from 'lucide-react-native';
 import Markdown from 'react-native-markdown-display';
 import { markdownStyles } from '../utils/markdownStyles';
-
-// Model option type now includes provider
-type ModelOption = {
-  id: string;
-  displayName: string;
-  provider: 'gemini' | 'openrouter';
-};
-
-const GEMINI_MODELS: ModelOption[] = [
-  { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', provider: 'gemini' },
-  { id: 'gemini-1.5-pro', displayName: 'Gemini 1.5 Pro', provider: 'gemini' },
-  { id: 'gemini-2.5-pro', displayName: 'Gemini 2.5 Pro', provider: 'gemini' },
-];
+import { ModelOption } from '../services/llmProvider';
+import { getProviderDisplayName } from '../services/providerRegistry';
+import { globalEventEmitter } from '../utils/event';
+import type { MessageAttachment } from '../context/dataContext';
+import { isImageAttachment, MAX_ATTACHMENTS, toDataUri } from '../services/attachments';
+import { estimateMessageTokens, estimateTokens, withFileContents } from '../services/chatContext';
+import { AttachmentSheet } from './AttachmentSheet';
 
 interface ChatInputProps {
-  onSend: (message: string, model: ModelOption) => void;
+  onSend: (message: string, model: ModelOption, attachments: MessageAttachment[]) => void;
   isGenerating?: boolean;
   onStopGeneration?: () => void;
   currentModel: ModelOption;
   onModelChange: (model: ModelOption) => void;
-  openRouterModels: ModelOption[];  // Changed from string[] to ModelOption[]
-  addOpenRouterModel: (modelName: ModelOption) => void;  // Changed parameter type to ModelOption
+  savedModels: ModelOption[];
+  onAddModel: (model: ModelOption) => void;
   className?: string;
   style?: ViewStyle | ViewStyle[];
   showModelMenu: boolean;
@@ -34,6 +28,8 @@ interface ChatInputProps {
   setSearchQuery: (query: string) => void;
   filteredModels: ModelOption[];
   connectionStatus: 'connected' | 'error' | 'unknown';
+  canAttachImages?: boolean; // Whether the current model accepts images
+  messageTokenBudget?: number; // Most tokens the next message with its files may take with the current model
 }
 
 const ChatInput = ({
@@ -42,8 +38,8 @@ const ChatInput = ({
   onStopGeneration,
   currentModel,
   onModelChange,
-  openRouterModels,
-  addOpenRouterModel,
+  savedModels,
+  onAddModel,
   className,
   style,
   showModelMenu,
@@ -52,6 +48,8 @@ const ChatInput = ({
   setSearchQuery,
   filteredModels,
   connectionStatus,
+  canAttachImages = false,
+  messageTokenBudget = Infinity,
 }: ChatInputProps) => {
   const [input, setInput] = useState<string>("");
   const [isExpanded, setIsExpanded] = useState<boolean>(false);
@@ -63,6 +61,10 @@ const ChatInput = ({
   const [keyboardHeight, setKeyboardHeight] = useState<number>(0);
   const [selection, setSelection] = useState<{ start: number; end: number }>({ start: 0, end: 0 });
   const [editing, setEditing] = useState<boolean>(false);
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [showAttachmentSheet, setShowAttachmentSheet] = useState<boolean>(false);
+  // Images wait while a model without image support is selected, but are not sent to it
+  const sendableAttachments = attachments.filter(attachment => canAttachImages || !isImageAttachment(attachment));
 
   // Track current height in a ref to avoid using private Animated.Value API
   const currentHeight = useRef(80);
@@ -193,22 +195,38 @@ const ChatInput = ({
 
   const handleSend = useCallback(() => {
     const value = isExpanded ? expandedInput : input;
-    if (value.trim()) {
+    if (value.trim() || sendableAttachments.length > 0) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-      onSend(value.trim(), currentModel);
+      onSend(value.trim(), currentModel, sendableAttachments);
       setInput("");
       setExpandedInput("");
+      setAttachments([]);
       setIsExpanded(false);
       Keyboard.dismiss();
     }
-  }, [input, expandedInput, isExpanded, onSend, currentModel]);
+  }, [input, expandedInput, isExpanded, onSend, currentModel, sendableAttachments]);
+
+  const handleAddAttachment = (attachment: MessageAttachment) => {
+    setAttachments(prev => [...prev, attachment].slice(0, MAX_ATTACHMENTS));
+    setShowAttachmentSheet(false);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+  };
 
   const handleStop = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     onStopGeneration?.();
   }, [onStopGeneration]);
 
-  const hasInput = (isExpanded ? expandedInput : input).trim().length > 0;
+  const hasInput = (isExpanded ? expandedInput : input).trim().length > 0 || sendableAttachments.length > 0;
+
+  // Room left for another file once the typed text and the attached files are counted
+  const remainingTokens = messageTokenBudget - estimateMessageTokens(
+    withFileContents(isExpanded ? expandedInput : input, sendableAttachments.filter(attachment => !isImageAttachment(attachment))),
+    sendableAttachments.filter(isImageAttachment)
+  );
 
   // Handle outside press to collapse
   useEffect(() => {
@@ -245,6 +263,45 @@ const ChatInput = ({
         {/* Reduced margin between chats and input */}
       </View>
       <View style={{ width: '100%' }}>
+        {sendableAttachments.length > 0 && (
+          <ScrollView horizontal className="px-4 pb-2" keyboardShouldPersistTaps="handled">
+            {sendableAttachments.map(attachment => isImageAttachment(attachment) ? (
+              <View key={attachment.id} className="mr-2">
+                <Image
+                  source={{ uri: toDataUri(attachment) }}
+                  style={{ width: 64, height: 64, borderRadius: 8 }}
+                  accessibilityLabel={attachment.name ?? 'Attached image'}
+                />
+                <TouchableOpacity
+                  onPress={() => removeAttachment(attachment.id)}
+                  accessibilityLabel="Remove image"
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  className="absolute top-1 right-1 rounded-full bg-black/60 p-0.5"
+                >
+                  <X size={14} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View key={attachment.id} className="flex-row items-center self-end px-3 py-2 mr-2 rounded-lg bg-accent">
+                <FileText size={16} color="#181818" />
+                <Text className="ml-2 text-sm text-primary font-sans" numberOfLines={1} style={{ maxWidth: 160 }}>
+                  {attachment.name}
+                </Text>
+                <Text className="ml-1 text-xs text-primary/70 font-sans">
+                  {`~${estimateTokens(attachment.data).toLocaleString()} tokens`}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => removeAttachment(attachment.id)}
+                  accessibilityLabel={`Remove ${attachment.name}`}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  className="ml-2"
+                >
+                  <X size={14} color="#181818" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        )}
         <Animated.View
           className="bg-primary px-4 pt-4 pb-2 rounded-t-3xl flex-col justify-between"
           style={{
@@ -261,10 +318,14 @@ const ChatInput = ({
             <TextInput
               ref={inputRef}
               className="flex-1 text-base text-text font-sans bg-transparent border-0 rounded-2xl px-3 py-2"
-              placeholder={`Message ${currentModel.provider === 'gemini' ? 'Gemini' : 'OpenRouter'}...`}
+              placeholder={`Message ${getProviderDisplayName(currentModel.provider)}...`}
               placeholderTextColor="#a3a3a3"
               value={isExpanded ? expandedInput : input}
-              onChangeText={isExpanded ? setExpandedInput : setInput}
+              onChangeText={(text) => {
+                // Typing happens on the keyboard, outside the app's touch handling
+                globalEventEmitter.emit('userActivity');
+                (isExpanded ? setExpandedInput : setInput)(text);
+              }}
               multiline={true}
               maxLength={4000}
               style={{ backgroundColor: 'transparent', borderWidth: 0, textAlignVertical: 'top' }}
@@ -279,6 +340,15 @@ const ChatInput = ({
               selection={selection}
               onSelectionChange={e => setSelection(e.nativeEvent.selection)}
             />
+            {attachments.length < MAX_ATTACHMENTS && (
+              <TouchableOpacity
+                onPress={() => setShowAttachmentSheet(true)}
+                accessibilityLabel="Attach file"
+                className="p-2"
+              >
+                <Paperclip size={22} color="#a3a3a3" />
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               onPress={() => setIsExpanded((v) => !v)}
               accessibilityLabel={isExpanded ? 'Collapse input' : 'Expand input'}
@@ -330,27 +400,34 @@ const ChatInput = ({
           )}
         </Animated.View>
       </View>
+      <AttachmentSheet
+        visible={showAttachmentSheet}
+        onCancel={() => setShowAttachmentSheet(false)}
+        onAdd={handleAddAttachment}
+        canAttachImages={canAttachImages}
+        remainingTokens={remainingTokens}
+      />
     </View>
   );
 };
 
 /**
- * IMPORTANT: OpenRouter Integration Notes
+ * IMPORTANT: Provider Integration Notes
  * 
- * This component is designed to work with both Gemini and OpenRouter models:
+ * This component works with any provider registered in services/providerRegistry:
  * 
- * 1. Provider-specific handling: currentModel.provider tells the component which service to use
- * 2. ModelOption format: All models (Gemini and OpenRouter) use the ModelOption type:
+ * 1. Provider-specific handling: currentModel.provider is the id of the registered provider to use
+ * 2. ModelOption format: All models use the ModelOption type from services/llmProvider:
  *    {
  *      id: string;            // The model ID used by the API (e.g., "openai/gpt-4o")
  *      displayName: string;   // User-friendly name (e.g., "GPT-4o")
- *      provider: 'gemini' | 'openrouter';  // Which service this model belongs to
+ *      provider: string;      // Id of the provider this model belongs to (e.g., "openrouter")
  *    }
- * 3. OpenRouter model conversion: When fetching models from OpenRouter, convert them:
- *    openRouterModel => ({
- *      id: openRouterModel.id,        
- *      displayName: openRouterModel.name,  
- *      provider: 'openrouter'
+ * 3. Discovered models: Models listed by a provider's fetchAvailableModels are converted as:
+ *    modelInfo => ({
+ *      id: modelInfo.id,
+ *      displayName: modelInfo.name,
+ *      provider: provider.id
  *    })
  * 
  * The onSend callback automatically uses the currently selected model.
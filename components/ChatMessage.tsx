@@ -1,18 +1,38 @@
-import React, { useState } from 'react';
-import { View, Text, TouchableOpacity } from 'react-native';
-import { Copy, Check } from 'lucide-react-native';
+import React, { useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, Pressable, GestureResponderEvent, Image } from 'react-native';
+import { Copy, Check, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, RefreshCw, FileText, Wrench, CornerDownRight } from 'lucide-react-native';
 import Markdown from 'react-native-markdown-display';
 import { markdownStyles } from '../utils/markdownStyles';
 import { tokenizeCode, Token, TokenType } from '../utils/simpleSyntaxHighlight';
 import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import type { MessageAttachment } from '../context/dataContext';
+import { isImageAttachment, toDataUri } from '../services/attachments';
+import type { ToolStep } from '../services/toolRegistry';
+import { JsonTreeView } from './JsonTreeView';
 
 interface ChatMessageProps {
   content: string;
   role: 'user' | 'assistant';
   isLast?: boolean;
   isGenerating?: boolean;
+  onLongPress?: () => void; // e.g. open the message actions
+  model?: string;           // Model that wrote an assistant message
+  branchIndex?: number;     // Position of this message among the branches at its fork point
+  branchCount?: number;
+  onSelectBranch?: (index: number) => void; // Enables paging and swiping between branches
+  onRegenerate?: () => void;
+  attachments?: MessageAttachment[];
+  tool?: ToolStep;          // Set for the tool call and result steps of a response, shown collapsed
+  json?: unknown;           // Validated JSON of a response in JSON mode, shown as a tree instead of Markdown
 }
 
+// Longest side of an attachment thumbnail
+const THUMBNAIL_SIZE = 160;
+
+// Minimum horizontal travel of a swipe that pages between branches
+const SWIPE_DISTANCE = 60;
+
 // Atom One Dark color map for token types
 const tokenColors: Record<TokenType, string> = {
   keyword: '#c678dd',
@@ -76,14 +96,33 @@ const rules = {
   },
 };
 
-export const ChatMessage = ({ content, role, isLast = false, isGenerating = false }: ChatMessageProps) => {
+export const ChatMessage = ({
+  content,
+  role,
+  isLast = false,
+  isGenerating = false,
+  onLongPress,
+  model,
+  branchIndex = 0,
+  branchCount = 1,
+  onSelectBranch,
+  onRegenerate,
+  attachments = [],
+  tool,
+  json
+}: ChatMessageProps) => {
   const isUser = role === 'user';
   const [copied, setCopied] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
   const mdStyles = markdownStyles(role);
+  const hasBranches = branchCount > 1;
+  const canPage = Boolean(onSelectBranch) && hasBranches;
+  const isJson = json !== undefined;
 
   const handleCopy = async () => {
     try {
-      await Clipboard.setStringAsync(content);
+      await Clipboard.setStringAsync(isJson ? JSON.stringify(json, null, 2) : content);
       setCopied(true);
       setTimeout(() => setCopied(false), 1500);
     } catch (error) {
@@ -91,44 +130,187 @@ export const ChatMessage = ({ content, role, isLast = false, isGenerating = fals
     }
   };
 
+  const handleLongPress = () => {
+    if (!onLongPress) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onLongPress();
+  };
+
+  const selectBranch = (index: number) => {
+    if (!onSelectBranch || index < 0 || index >= branchCount) return;
+    onSelectBranch(index);
+  };
+
+  // Horizontal swipes page between branches without taking over vertical scrolling
+  const handleTouchStart = (event: GestureResponderEvent) => {
+    touchStart.current = { x: event.nativeEvent.pageX, y: event.nativeEvent.pageY };
+  };
+
+  const handleTouchEnd = (event: GestureResponderEvent) => {
+    const start = touchStart.current;
+    touchStart.current = null;
+    if (!start || !canPage) return;
+    const dx = event.nativeEvent.pageX - start.x;
+    const dy = event.nativeEvent.pageY - start.y;
+    if (Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dx) < Math.abs(dy) * 2) return;
+    selectBranch(branchIndex + (dx < 0 ? 1 : -1));
+  };
+
   return (
-    <View className={`${isUser ? 'self-end ml-16' : 'self-start w-full'} mb-3`}>
-      <View
-        className={`
-          px-2.5 py-1.5 rounded-xl relative
-          ${isUser 
-            ? 'bg-accent rounded-tr-sm rounded-br-sm shadow-sm shadow-accent/20 text-primary' 
-            : 'bg-background rounded-lg shadow-sm shadow-black/20 border-l-3 border-l-accent text-text'
-          }
-        `}
-      >
-        <TouchableOpacity
-          onPress={handleCopy}
-          accessibilityLabel="Copy message"
-          style={{ position: 'absolute', top: 8, right: 8, zIndex: 10, padding: 4 }}
-          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    <View
+      className={`${isUser ? 'self-end ml-16' : 'self-start w-full'} mb-3`}
+      onTouchStart={canPage ? handleTouchStart : undefined}
+      onTouchEnd={canPage ? handleTouchEnd : undefined}
+    >
+      {tool ? (
+        <Pressable
+          onPress={() => setExpanded(!expanded)}
+          onLongPress={onLongPress ? handleLongPress : undefined}
+          accessibilityLabel={`${tool.kind === 'call' ? 'Tool call' : 'Tool result'} ${tool.name}, ${expanded ? 'expanded' : 'collapsed'}`}
+          className="px-2.5 py-1.5 rounded-lg bg-accent/10"
+        >
+          <View className="flex-row items-center">
+            {tool.kind === 'call' ? <Wrench size={14} color="#61BA82" /> : <CornerDownRight size={14} color="#61BA82" />}
+            <Text className="flex-1 ml-2 text-xs text-text/60 font-sans" numberOfLines={1}>
+              {tool.kind === 'call' ? `Called ${tool.name}` : `Result from ${tool.name}`}
+            </Text>
+            {expanded ? <ChevronUp size={14} color="#61BA82" /> : <ChevronDown size={14} color="#61BA82" />}
+          </View>
+          {expanded && (
+            <Text selectable style={{ fontFamily: 'monospace', fontSize: 12 }} className="mt-1.5 text-text/80">
+              {tool.detail}
+            </Text>
+          )}
+        </Pressable>
+      ) : (
+        <Pressable
+          onLongPress={onLongPress ? handleLongPress : undefined}
+          accessibilityHint={onLongPress ? 'Long press for message actions' : undefined}
+          className={`
+            px-2.5 py-1.5 rounded-xl relative
+            ${isUser 
+              ? 'bg-accent rounded-tr-sm rounded-br-sm shadow-sm shadow-accent/20 text-primary' 
+              : 'bg-background rounded-lg shadow-sm shadow-black/20 border-l-3 border-l-accent text-text'
+            }
+          `}
         >
-          {copied ? <Check size={18} color="#98c379" /> : <Copy size={18} color="#abb2bf" />}
-        </TouchableOpacity>
-        <View style={{ paddingRight: 32 }}>
-          <Markdown
-            style={isUser ? mdStyles.user : mdStyles.assistant}
-            rules={rules}
+          <TouchableOpacity
+            onPress={handleCopy}
+            accessibilityLabel={isJson ? 'Copy as JSON' : 'Copy message'}
+            style={{ position: 'absolute', top: 8, right: 8, zIndex: 10, padding: 4 }}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
           >
-            {content}
-          </Markdown>
-        </View>
+            {copied ? <Check size={18} color="#98c379" /> : <Copy size={18} color="#abb2bf" />}
+          </TouchableOpacity>
+          {attachments.length > 0 && (
+            <View className="flex-row flex-wrap pt-1.5" style={{ paddingRight: 32 }}>
+              {attachments.map(attachment => {
+                if (!isImageAttachment(attachment)) {
+                  return (
+                    <View
+                      key={attachment.id}
+                      className={`flex-row items-center px-2 py-1 rounded-lg ${isUser ? 'bg-primary/10' : 'bg-accent/10'}`}
+                      style={{ marginRight: 6, marginBottom: 6 }}
+                      accessibilityLabel={`Attached file ${attachment.name}`}
+                    >
+                      <FileText size={14} color={isUser ? '#181818' : '#61BA82'} />
+                      <Text className={`ml-1 text-xs font-sans ${isUser ? 'text-primary' : 'text-text'}`} numberOfLines={1}>
+                        {attachment.name}
+                      </Text>
+                    </View>
+                  );
+                }
+                // Thumbnails keep the image's aspect ratio; unknown sizes are shown square
+                const scale = attachment.width && attachment.height
+                  ? THUMBNAIL_SIZE / Math.max(attachment.width, attachment.height)
+                  : 0;
+                return (
+                  <Image
+                    key={attachment.id}
+                    source={{ uri: toDataUri(attachment) }}
+                    style={{
+                      width: scale ? attachment.width! * scale : THUMBNAIL_SIZE,
+                      height: scale ? attachment.height! * scale : THUMBNAIL_SIZE,
+                      borderRadius: 8,
+                      marginRight: 6,
+                      marginBottom: 6
+                    }}
+                    resizeMode="cover"
+                    accessibilityLabel={attachment.name ?? 'Attached image'}
+                  />
+                );
+              })}
+            </View>
+          )}
+          <View style={{ paddingRight: 32 }}>
+            {isJson ? (
+              <JsonTreeView value={json} />
+            ) : (
+              <Markdown
+                style={isUser ? mdStyles.user : mdStyles.assistant}
+                rules={rules}
+              >
+                {content}
+              </Markdown>
+            )}
+          </View>
         
-        {isLast && isGenerating && (
-          <View
-            className={`
-              w-0.5 h-2.5 ml-0.5 mt-0.5
-              bg-text
-              animate-pulse
-            `}
-          />
-        )}
-      </View>
+          {isLast && isGenerating && (
+            <View
+              className={`
+                w-0.5 h-2.5 ml-0.5 mt-0.5
+                bg-text
+                animate-pulse
+              `}
+            />
+          )}
+        </Pressable>
+      )}
+
+      {!isGenerating && (hasBranches || onRegenerate) && (
+        <View className={`flex-row items-center mt-1 space-x-2 ${isUser ? 'self-end' : ''}`}>
+          {hasBranches && (
+            <View className="flex-row items-center">
+              {canPage && (
+                <TouchableOpacity
+                  onPress={() => selectBranch(branchIndex - 1)}
+                  disabled={branchIndex === 0}
+                  accessibilityLabel="Previous branch"
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  className={branchIndex === 0 ? 'opacity-30' : ''}
+                >
+                  <ChevronLeft size={16} color="#61BA82" />
+                </TouchableOpacity>
+              )}
+              <Text className="text-xs text-text/60 font-sans mx-1">
+                {`${branchIndex + 1}/${branchCount}${model ? ` · ${model}` : ''}`}
+              </Text>
+              {canPage && (
+                <TouchableOpacity
+                  onPress={() => selectBranch(branchIndex + 1)}
+                  disabled={branchIndex === branchCount - 1}
+                  accessibilityLabel="Next branch"
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  className={branchIndex === branchCount - 1 ? 'opacity-30' : ''}
+                >
+                  <ChevronRight size={16} color="#61BA82" />
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          {onRegenerate && (
+            <TouchableOpacity
+              onPress={onRegenerate}
+              accessibilityLabel="Regenerate response"
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              className="flex-row items-center"
+            >
+              <RefreshCw size={14} color="#61BA82" />
+              <Text className="text-xs text-text/60 font-sans ml-1">Regenerate</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
     </View>
   );
 };
@@ -1,12 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ScrollView, Animated, Pressable, TouchableWithoutFeedback, View, ViewStyle, Text, TouchableOpacity, Modal, FlatList, TextInput, Keyboard, SafeAreaView, Dimensions } from 'react-native';
+import { ScrollView, Animated, Pressable, TouchableWithoutFeedback, View, ViewStyle, Text, TouchableOpacity, FlatList, TextInput, Keyboard, SafeAreaView, Dimensions } from 'react-native';
+import { ActivityModal } from './ActivityModal';
 import { ChatThread, useData } from '../context/dataContext';
 import { useAuth } from '../hooks/useAuth';
 import * as Haptics from 'expo-haptics';
+import { ExportSheet } from './ExportSheet';
+import { ImportSheet } from './ImportSheet';
 
 // Import Lucide icons
-import { Plus, X, Trash, Search, SquarePen, MoreVertical, MoreHorizontal } from "lucide-react-native";
-import { Modal as RNModal } from 'react-native';
+import { Plus, X, Trash, Search, SquarePen, MoreVertical, MoreHorizontal, ScrollText, TextSearch, Share2, Download } from "lucide-react-native";
 
 interface ChatSidebarProps {
   isVisible: boolean;
@@ -16,6 +18,7 @@ interface ChatSidebarProps {
   onNewChat: () => void;
   currentThreadId?: string;
   onSelectThread: (threadId: string) => void;
+  onSearchMessages?: (query: string) => void; // Opens the search over message contents
   enableEditing: boolean;
   className?: string;
   style?: ViewStyle | ViewStyle[];
@@ -29,11 +32,12 @@ export const ChatSidebar = ({
   onNewChat,
   currentThreadId,
   onSelectThread,
+  onSearchMessages,
   enableEditing,
   className,
   style
 }: ChatSidebarProps) => {
-  const { data, deleteChatThread, saveData, deleteChatThreadInMemory, updateChatThreadInMemory, updateChatThread } = useData();
+  const { data, deleteChatThread, saveData, deleteChatThreadInMemory, renameChatThread, updateThreadSummary } = useData();
   const { getCurrentPassword } = useAuth();
   const [deleteConfirmThreadId, setDeleteConfirmThreadId] = useState<string | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
@@ -44,6 +48,10 @@ export const ChatSidebar = ({
   const [shouldRenderSidebar, setShouldRenderSidebar] = useState<boolean>(isVisible);
   const [menuThreadId, setMenuThreadId] = useState<string | null>(null);
   const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const [summaryThreadId, setSummaryThreadId] = useState<string | null>(null);
+  const [summaryValue, setSummaryValue] = useState<string>('');
+  const [exportTarget, setExportTarget] = useState<{ threadId?: string } | null>(null); // Chat to export, or all chats
+  const [showImport, setShowImport] = useState<boolean>(false);
 
   const translateX = useRef(new Animated.Value(-300)).current;
   const sidebarWidth = useRef(new Animated.Value(320)).current;
@@ -145,6 +153,34 @@ export const ChatSidebar = ({
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
+  const openSummary = (thread: ChatThread) => {
+    setSummaryThreadId(thread.id);
+    setSummaryValue(thread.summary || '');
+  };
+
+  const closeSummary = () => {
+    setSummaryThreadId(null);
+    setSummaryValue('');
+  };
+
+  const handleSaveSummary = async () => {
+    const thread = data?.chatThreads?.find(t => t.id === summaryThreadId);
+    if (!thread) return;
+    try {
+      const password = getCurrentPassword();
+      if (!password) return;
+
+      // Clearing the summary also resets which messages it covers
+      const summary = summaryValue.trim();
+      await updateThreadSummary(thread.id, summary, summary ? thread.summarizedCount ?? 0 : 0, password);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      closeSummary();
+    } catch (error) {
+      console.error('Error saving summary:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
   const formatDate = (timestamp: number): string => {
     const date = new Date(timestamp);
     const today = new Date();
@@ -161,9 +197,8 @@ export const ChatSidebar = ({
   };
 
   const getLastMessagePreview = (thread: ChatThread): string => {
-    if (!thread.messages || thread.messages.length === 0) return '';
-    const last = thread.messages[thread.messages.length - 1];
-    return last.text.length > 40 ? last.text.slice(0, 40) + '…' : last.text;
+    if (!thread.preview) return '';
+    return thread.preview.length > 40 ? thread.preview.slice(0, 40) + '…' : thread.preview;
   };
 
   const startRenaming = (thread: ChatThread) => {
@@ -185,11 +220,7 @@ export const ChatSidebar = ({
       const password = getCurrentPassword();
       if (!password) return;
 
-      // In-memory update for instant UI
-      updateChatThreadInMemory(thread.id, thread.messages);
-
-      // Persist after UI update
-      await updateChatThread(thread.id, thread.messages, password);
+      await renameChatThread(thread.id, renameValue.trim(), password);
       cancelRenaming();
     } catch (e) {
       cancelRenaming();
@@ -218,7 +249,7 @@ export const ChatSidebar = ({
 
   const currentChat: ChatThread | undefined = data?.chatThreads?.find(thread => thread.id === currentThreadId);
   // Only disable if the current chat exists and is empty
-  const canCreateNewChat: boolean = !(currentChat && currentChat.messages.length === 0);
+  const canCreateNewChat: boolean = !(currentChat && currentChat.messageCount === 0);
 
   return (
     <>
@@ -296,7 +327,46 @@ export const ChatSidebar = ({
                   </TouchableOpacity>
                 </View>
                 {/* Chats label */}
-                <Text className="text-lg font-medium text-text mt-2 mb-2" accessibilityRole="header">Chats</Text>
+                <View className="flex-row items-center justify-between mt-2 mb-2">
+                  <Text className="text-lg font-medium text-text" accessibilityRole="header">Chats</Text>
+                  <View className="flex-row items-center">
+                    {onSearchMessages && (
+                      <TouchableOpacity
+                        onPress={() => {
+                          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                          onSearchMessages(searchQuery);
+                          onClose();
+                        }}
+                        className="flex-row items-center px-2 py-1"
+                        accessibilityLabel="Search all messages"
+                      >
+                        <TextSearch size={16} color="#61BA82" />
+                        <Text className="text-sm ml-1 text-accent font-sans">Search messages</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setExportTarget({});
+                      }}
+                      disabled={chatThreads.length === 0}
+                      className={`px-2 py-1 ${chatThreads.length === 0 ? 'opacity-50' : ''}`}
+                      accessibilityLabel="Export all chats"
+                    >
+                      <Share2 size={16} color="#61BA82" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setShowImport(true);
+                      }}
+                      className="px-2 py-1"
+                      accessibilityLabel="Import chats"
+                    >
+                      <Download size={16} color="#61BA82" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
               </View>
               <View className="flex-1 px-2 pb-4">
                 {filteredThreads.length === 0 ? (
@@ -363,7 +433,7 @@ export const ChatSidebar = ({
                           </TouchableOpacity>
                           {/* Dropdown menu for actions */}
                           {menuThreadId === thread.id && (
-                            <RNModal
+                            <ActivityModal
                               transparent
                               visible={menuThreadId === thread.id}
                               animationType="fade"
@@ -397,6 +467,28 @@ export const ChatSidebar = ({
                                     elevation: 5,
                                   }}
                                 >
+                                  <TouchableOpacity
+                                    onPress={() => {
+                                      setMenuThreadId(null);
+                                      setMenuPosition(null);
+                                      openSummary(thread);
+                                    }}
+                                    className="flex-row items-center p-2"
+                                  >
+                                    <ScrollText size={16} color="#ccc" />
+                                    <Text className="ml-2 text-zinc-200 text-sm">Summary</Text>
+                                  </TouchableOpacity>
+                                  <TouchableOpacity
+                                    onPress={() => {
+                                      setMenuThreadId(null);
+                                      setMenuPosition(null);
+                                      setExportTarget({ threadId: thread.id });
+                                    }}
+                                    className="flex-row items-center p-2"
+                                  >
+                                    <Share2 size={16} color="#ccc" />
+                                    <Text className="ml-2 text-zinc-200 text-sm">Export</Text>
+                                  </TouchableOpacity>
                                   <TouchableOpacity
                                     onPress={() => {
                                       setMenuThreadId(null);
@@ -410,7 +502,7 @@ export const ChatSidebar = ({
                                   </TouchableOpacity>
                                 </View>
                               </TouchableOpacity>
-                            </RNModal>
+                            </ActivityModal>
                           )}
                         </Pressable>
                       );
@@ -425,7 +517,60 @@ export const ChatSidebar = ({
         </SafeAreaView>
       </Animated.View>
 
-      <Modal
+      <ActivityModal
+        visible={!!summaryThreadId}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={closeSummary}
+      >
+        <View className="flex-1 justify-end bg-black/50">
+          <View className="rounded-t-2xl p-4 bg-zinc-800">
+            <View className="space-y-4">
+              <Text className="text-xl font-semibold text-white">Conversation Summary</Text>
+              <Text className="text-zinc-300">
+                Sent to the model in place of older messages that no longer fit in its context.
+              </Text>
+              <TextInput
+                value={summaryValue}
+                onChangeText={setSummaryValue}
+                placeholder="No summary yet. It is written once the chat outgrows the model's context."
+                placeholderTextColor="#71717a"
+                multiline
+                className="p-3 rounded-lg bg-zinc-700 text-white font-sans"
+                style={{ minHeight: 120, maxHeight: 300, textAlignVertical: 'top' }}
+                accessibilityLabel="Conversation summary"
+              />
+              <View className="flex-row justify-between space-x-3">
+                <TouchableOpacity
+                  onPress={closeSummary}
+                  className="flex-1 p-3 rounded-lg bg-zinc-700"
+                >
+                  <Text className="text-center text-white">Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleSaveSummary}
+                  className="flex-1 p-3 rounded-lg bg-accent"
+                >
+                  <Text className="text-center text-primary">Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </View>
+      </ActivityModal>
+
+      <ExportSheet
+        visible={exportTarget !== null}
+        threadId={exportTarget?.threadId}
+        onClose={() => setExportTarget(null)}
+      />
+
+      <ImportSheet
+        visible={showImport}
+        onClose={() => setShowImport(false)}
+      />
+
+      <ActivityModal
         visible={!!deleteConfirmThreadId}
         transparent={true}
         animationType="slide"
@@ -455,7 +600,7 @@ export const ChatSidebar = ({
             </View>
           </View>
         </View>
-      </Modal>
+      </ActivityModal>
     </>
   );
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Modal, View, Text, TouchableOpacity } from 'react-native';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { ActivityModal } from './ActivityModal';
 
 interface DeleteConfirmationProps {
   isOpen: boolean;
@@ -17,7 +18,7 @@ export const DeleteConfirmation: React.FC<DeleteConfirmationProps> = ({
   message 
 }) => {
   return (
-    <Modal
+    <ActivityModal
       animationType="slide"
       transparent={true}
       visible={isOpen}
@@ -47,6 +48,6 @@ export const DeleteConfirmation: React.FC<DeleteConfirmationProps> = ({
           </View>
         </View>
       </View>
-    </Modal>
+    </ActivityModal>
   );
 };
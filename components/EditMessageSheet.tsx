@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+
+interface EditMessageSheetProps {
+  visible: boolean;
+  initialText: string;
+  onCancel: () => void;
+  onSubmit: (text: string) => void;
+}
+
+/**
+ * Bottom sheet for correcting a sent user message
+ * Submitting starts a new branch from the corrected message and generates a response.
+ */
+export const EditMessageSheet = ({ visible, initialText, onCancel, onSubmit }: EditMessageSheetProps) => {
+  const [text, setText] = useState<string>(initialText);
+
+  useEffect(() => {
+    if (visible) setText(initialText);
+  }, [visible, initialText]);
+
+  const canSubmit = text.trim().length > 0;
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View className="flex-1 justify-end bg-black/50">
+        <View className="rounded-t-2xl p-4 bg-zinc-800">
+          <View className="space-y-4">
+            <Text className="text-xl font-semibold text-white">Edit Message</Text>
+            <Text className="text-zinc-300">
+              The conversation continues on a new branch; the original stays available at this message.
+            </Text>
+            <TextInput
+              value={text}
+              onChangeText={setText}
+              multiline
+              autoFocus
+              className="p-3 rounded-lg bg-zinc-700 text-white font-sans"
+              style={{ minHeight: 100, maxHeight: 300, textAlignVertical: 'top' }}
+              accessibilityLabel="Message text"
+            />
+            <View className="flex-row justify-between space-x-3">
+              <TouchableOpacity
+                onPress={onCancel}
+                className="flex-1 p-3 rounded-lg bg-zinc-700"
+              >
+                <Text className="text-center text-white">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => onSubmit(text.trim())}
+                disabled={!canSubmit}
+                className={`flex-1 p-3 rounded-lg bg-accent ${!canSubmit ? 'opacity-50' : ''}`}
+              >
+                <Text className="text-center text-primary">Save & Regenerate</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </ActivityModal>
+  );
+};
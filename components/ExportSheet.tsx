@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import * as Haptics from 'expo-haptics';
+import { useData } from '../context/dataContext';
+import { buildExport, EXPORT_FORMATS, ExportedThread, ExportFormat, shareExport } from '../services/conversationExport';
+
+interface ExportSheetProps {
+  visible: boolean;
+  threadId?: string;    // Chat to export; all chats when unset
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for exporting one chat or all chats as Markdown, JSON or HTML
+ * The file is passed to the share sheet, e.g. to save it or paste it into another app.
+ */
+export const ExportSheet = ({ visible, threadId, onClose }: ExportSheetProps) => {
+  const { data, getThreadMessages } = useData();
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) setError(null);
+  }, [visible]);
+
+  const threads = (data?.chatThreads ?? [])
+    .filter(thread => !threadId || thread.id === threadId)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const handleExport = async () => {
+    if (isExporting || threads.length === 0) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const exported: ExportedThread[] = [];
+      for (const thread of threads) {
+        const { messages, branches } = await getThreadMessages(thread.id);
+        const personaName = data?.personas?.find(p => p.id === thread.personaId)?.name;
+        exported.push({ thread, messages, branches, personaName });
+      }
+      await shareExport(buildExport(exported, format));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (exportError) {
+      console.error('Error exporting chats:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Export failed.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/50">
+        <View className="rounded-t-2xl p-4 bg-zinc-800">
+          <View className="space-y-4">
+            <Text className="text-xl font-semibold text-white">
+              {threadId ? 'Export Chat' : 'Export All Chats'}
+            </Text>
+            <Text className="text-zinc-300">
+              {threadId
+                ? 'Markdown and HTML contain the conversation as shown; JSON also keeps the other branches.'
+                : `Exports ${threads.length} chat${threads.length === 1 ? '' : 's'} into one file. JSON also keeps the other branches.`}
+            </Text>
+            <View className="flex-row flex-wrap">
+              {EXPORT_FORMATS.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  onPress={() => setFormat(option.id)}
+                  className={`px-3 py-2 mr-2 mb-2 rounded-lg ${format === option.id ? 'bg-accent' : 'bg-zinc-700'}`}
+                  accessibilityLabel={`Export as ${option.label}`}
+                >
+                  <Text className={format === option.id ? 'text-primary' : 'text-white'}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {error && <Text className="text-red-400">❗ {error}</Text>}
+            <View className="flex-row justify-between space-x-3">
+              <TouchableOpacity
+                onPress={onClose}
+                className="flex-1 p-3 rounded-lg bg-zinc-700"
+              >
+                <Text className="text-center text-white">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleExport}
+                disabled={isExporting || threads.length === 0}
+                className={`flex-1 p-3 rounded-lg bg-accent ${threads.length === 0 ? 'opacity-50' : ''}`}
+              >
+                {isExporting ? (
+                  <ActivityIndicator size="small" color="#181818" />
+                ) : (
+                  <Text className="text-center text-primary">Export</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </ActivityModal>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, TextInput } from 'react-native';
+import { GenerationParams } from '../services/llmProvider';
+import { GenerationParamsForm } from '../services/generationParams';
+
+interface GenerationParamsFieldsProps {
+  value: GenerationParamsForm;
+  onChange: (value: GenerationParamsForm) => void;
+  defaults: Required<GenerationParams>; // Values used when a field is left empty
+}
+
+/**
+ * Inputs for temperature, top-p, max tokens and stop sequences
+ * Shared by the global defaults in Settings and the per-thread settings sheet
+ */
+export function GenerationParamsFields({ value, onChange, defaults }: GenerationParamsFieldsProps) {
+  const setField = (field: keyof GenerationParamsForm, text: string) => {
+    onChange({ ...value, [field]: text });
+  };
+
+  return (
+    <View className="space-y-4">
+      <View className="flex-row space-x-3">
+        <View className="flex-1">
+          <Text className="text-base mb-1 text-text/80 font-sans">Temperature</Text>
+          <View className="rounded-lg overflow-hidden bg-accent">
+            <TextInput
+              value={value.temperature}
+              onChangeText={(text) => setField('temperature', text)}
+              placeholder={`${defaults.temperature}`}
+              placeholderTextColor="#18181880"
+              keyboardType="decimal-pad"
+              className="px-4 py-3 text-base text-text font-sans"
+              accessibilityLabel="Temperature"
+            />
+          </View>
+        </View>
+        <View className="flex-1">
+          <Text className="text-base mb-1 text-text/80 font-sans">Top-p</Text>
+          <View className="rounded-lg overflow-hidden bg-accent">
+            <TextInput
+              value={value.topP}
+              onChangeText={(text) => setField('topP', text)}
+              placeholder={`${defaults.topP}`}
+              placeholderTextColor="#18181880"
+              keyboardType="decimal-pad"
+              className="px-4 py-3 text-base text-text font-sans"
+              accessibilityLabel="Top-p"
+            />
+          </View>
+        </View>
+      </View>
+      <View>
+        <Text className="text-base mb-1 text-text/80 font-sans">Max Tokens</Text>
+        <View className="rounded-lg overflow-hidden bg-accent">
+          <TextInput
+            value={value.maxTokens}
+            onChangeText={(text) => setField('maxTokens', text)}
+            placeholder={`${defaults.maxTokens}`}
+            placeholderTextColor="#18181880"
+            keyboardType="number-pad"
+            className="px-4 py-3 text-base text-text font-sans"
+            accessibilityLabel="Max tokens"
+          />
+        </View>
+      </View>
+      <View>
+        <Text className="text-base mb-1 text-text/80 font-sans">Stop Sequences</Text>
+        <View className="rounded-lg overflow-hidden bg-accent">
+          <TextInput
+            value={value.stopSequences}
+            onChangeText={(text) => setField('stopSequences', text)}
+            placeholder={defaults.stopSequences.length > 0 ? defaults.stopSequences.join('\n') : 'One per line (up to 4)'}
+            placeholderTextColor="#18181880"
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            numberOfLines={2}
+            className="px-4 py-3 text-base text-text font-sans"
+            style={{ textAlignVertical: 'top' }}
+            accessibilityLabel="Stop sequences"
+          />
+        </View>
+      </View>
+      <Text className="text-sm text-text/60 font-sans">
+        Leave a field empty to use the value shown.
+      </Text>
+    </View>
+  );
+}
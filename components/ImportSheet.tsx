@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { SafeAreaView, View, Text, TouchableOpacity, FlatList, ActivityIndicator } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { CheckSquare, FileUp, Square, X } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Haptics from 'expo-haptics';
+import { useData } from '../context/dataContext';
+import { useAuth } from '../hooks/useAuth';
+import { getDefaultModels } from '../services/providerRegistry';
+import { findNewThreads, IMPORT_FORMAT_NAMES, ImportedThread, ImportFile, parseImportFile, prepareImport } from '../services/conversationImport';
+
+interface ImportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen import of conversations from ChatGPT, OpenRouter or an export of this app
+ * The chosen file is previewed first; conversations imported before are skipped.
+ */
+export function ImportSheet({ visible, onClose }: ImportSheetProps) {
+  const { data, importChatThreads, getImportSources } = useData();
+  const { getCurrentPassword } = useAuth();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [existing, setExisting] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setFile(null);
+      setSelected(new Set());
+      setError(null);
+    }
+  }, [visible]);
+
+  const chooseFile = async () => {
+    setError(null);
+    const result = await DocumentPicker.getDocumentAsync({ type: ['application/json', 'text/plain'], copyToCacheDirectory: true });
+    if (result.canceled || !result.assets[0]) return;
+
+    setIsBusy(true);
+    const uri = result.assets[0].uri;
+    try {
+      const parsed = parseImportFile(await FileSystem.readAsStringAsync(uri));
+      const sources = await getImportSources();
+      setFile(parsed);
+      setExisting(sources);
+      setSelected(new Set(findNewThreads(parsed.threads, sources).map(thread => thread.sourceId)));
+    } catch (importError) {
+      console.error('Error reading import file:', importError);
+      setError(importError instanceof Error ? importError.message : 'The file could not be read.');
+      setFile(null);
+    } finally {
+      // The copy holds the conversations unencrypted
+      await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined);
+      setIsBusy(false);
+    }
+  };
+
+  const toggle = (sourceId: string) => {
+    Haptics.selectionAsync();
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(sourceId)) next.delete(sourceId);
+      else next.add(sourceId);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const password = getCurrentPassword();
+    if (!file || !password || selected.size === 0) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const knownModels = [...getDefaultModels(), ...(data?.savedModels ?? [])];
+      const imports = file.threads
+        .filter(thread => selected.has(thread.sourceId))
+        .map(thread => prepareImport(thread, knownModels, knownModels[0]));
+      await importChatThreads(imports, password);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (importError) {
+      console.error('Error importing chats:', importError);
+      setError('Import failed. Chats imported before the error are kept and skipped next time.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const renderThread = ({ item }: { item: ImportedThread }) => {
+    const isDuplicate = existing.has(item.sourceId);
+    const isChecked = selected.has(item.sourceId);
+    return (
+      <TouchableOpacity
+        onPress={() => toggle(item.sourceId)}
+        disabled={isDuplicate}
+        className={`flex-row items-center p-3 mb-2 rounded-lg bg-primary ${isDuplicate ? 'opacity-50' : ''}`}
+        accessibilityLabel={`${isChecked ? 'Deselect' : 'Select'} ${item.title}`}
+      >
+        {isChecked ? <CheckSquare size={20} color="#61BA82" /> : <Square size={20} color="#a3a3a3" />}
+        <View className="flex-1 ml-3">
+          <Text className="text-sm font-semibold text-text font-sans" numberOfLines={1}>{item.title}</Text>
+          <Text className="text-xs text-text/60 font-sans">
+            {isDuplicate
+              ? 'Already imported'
+              : `${item.messages.length} message${item.messages.length === 1 ? '' : 's'} · ${new Date(item.updatedAt).toLocaleDateString()}${item.modelName ? ` · ${item.modelName}` : ''}`}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const newThreads = file ? findNewThreads(file.threads, existing) : [];
+
+  return (
+    <ActivityModal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={{ flex: 1 }} className="bg-background">
+        <View className="px-4 py-3 border-b border-primary flex-row items-center justify-between">
+          <Text className="text-xl font-semibold text-text font-sans">Import Chats</Text>
+          <TouchableOpacity
+            onPress={onClose}
+            className="p-2 rounded-full bg-accent"
+            accessibilityLabel="Close import"
+          >
+            <X size={24} color="#181818" />
+          </TouchableOpacity>
+        </View>
+
+        {!file ? (
+          <View className="flex-1 justify-center items-center p-6">
+            <Text className="text-center text-text/80 font-sans mb-4">
+              Choose a ChatGPT conversations.json, an OpenRouter chat export or a JSON export of this app.
+            </Text>
+            <TouchableOpacity
+              onPress={chooseFile}
+              disabled={isBusy}
+              className="flex-row items-center px-4 py-3 rounded-lg bg-accent"
+              accessibilityLabel="Choose file to import"
+            >
+              {isBusy ? <ActivityIndicator size="small" color="#181818" /> : <FileUp size={18} color="#181818" />}
+              <Text className="ml-2 text-primary font-semibold font-sans">Choose File</Text>
+            </TouchableOpacity>
+            {error && <Text className="text-center text-red-400 font-sans mt-4">❗ {error}</Text>}
+          </View>
+        ) : (
+          <>
+            <View className="flex-row items-center justify-between px-4 pt-3">
+              <Text className="text-sm text-text/60 font-sans">
+                {`${file.threads.length} chat${file.threads.length === 1 ? '' : 's'} from ${IMPORT_FORMAT_NAMES[file.format]}`}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setSelected(new Set(selected.size === newThreads.length ? [] : newThreads.map(thread => thread.sourceId)))}
+                disabled={newThreads.length === 0}
+                accessibilityLabel="Select all chats"
+              >
+                <Text className="text-sm text-accent font-sans">
+                  {selected.size === newThreads.length && newThreads.length > 0 ? 'Select none' : 'Select all'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <FlatList
+              data={file.threads}
+              keyExtractor={item => item.sourceId}
+              renderItem={renderThread}
+              contentContainerStyle={{ padding: 16 }}
+            />
+            <View className="p-4 border-t border-primary">
+              {error && <Text className="text-red-400 font-sans mb-2">❗ {error}</Text>}
+              <TouchableOpacity
+                onPress={handleImport}
+                disabled={isBusy || selected.size === 0}
+                className={`p-3 rounded-lg bg-accent ${selected.size === 0 ? 'opacity-50' : ''}`}
+                accessibilityLabel="Import selected chats"
+              >
+                {isBusy ? (
+                  <ActivityIndicator size="small" color="#181818" />
+                ) : (
+                  <Text className="text-center text-primary font-semibold font-sans">
+                    {`Import ${selected.size} chat${selected.size === 1 ? '' : 's'}`}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </SafeAreaView>
+    </ActivityModal>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { ChevronDown, ChevronRight } from 'lucide-react-native';
+
+interface JsonTreeViewProps {
+  value: unknown;
+}
+
+// Levels of objects and arrays that start expanded
+const EXPANDED_DEPTH = 2;
+
+// Atom One Dark colors, as in code blocks
+const colors = {
+  key: '#e06c75',
+  string: '#98c379',
+  number: '#d19a66',
+  literal: '#c678dd',
+  punctuation: '#abb2bf',
+  muted: '#5c6370',
+};
+
+const textStyle = { fontFamily: 'monospace', fontSize: 13 };
+
+function primitiveColor(value: unknown): string {
+  if (typeof value === 'string') return colors.string;
+  if (typeof value === 'number') return colors.number;
+  return colors.literal;
+}
+
+interface JsonNodeProps {
+  name?: string;        // Property name or array index; unset for the root
+  isIndex?: boolean;
+  value: unknown;
+  depth: number;
+}
+
+const JsonNode = ({ name, isIndex = false, value, depth }: JsonNodeProps) => {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+  const label = name === undefined ? null : (
+    <Text style={{ ...textStyle, color: isIndex ? colors.muted : colors.key }}>
+      {isIndex ? `${name}: ` : `"${name}": `}
+    </Text>
+  );
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <View className="flex-row flex-wrap" style={{ paddingLeft: 16 }}>
+        {label}
+        <Text selectable style={{ ...textStyle, color: primitiveColor(value), flexShrink: 1 }}>
+          {JSON.stringify(value)}
+        </Text>
+      </View>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries: [string, unknown][] = isArray
+    ? (value as unknown[]).map((item, index) => [String(index), item])
+    : Object.entries(value as Record<string, unknown>);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <View>
+      <TouchableOpacity
+        onPress={() => setExpanded(!expanded)}
+        disabled={entries.length === 0}
+        className="flex-row items-center"
+        accessibilityLabel={`${name ?? 'Root'}, ${isArray ? 'array' : 'object'} with ${entries.length} entries, ${expanded ? 'expanded' : 'collapsed'}`}
+      >
+        {expanded && entries.length > 0
+          ? <ChevronDown size={16} color={colors.punctuation} />
+          : <ChevronRight size={16} color={entries.length > 0 ? colors.punctuation : colors.muted} />}
+        {label}
+        <Text style={{ ...textStyle, color: colors.punctuation }}>{summary}</Text>
+      </TouchableOpacity>
+      {expanded && (
+        <View style={{ paddingLeft: 12 }}>
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={key} isIndex={isArray} value={item} depth={depth + 1} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+/**
+ * Collapsible tree of a JSON value; objects and arrays show their size and open on tap
+ */
+export function JsonTreeView({ value }: JsonTreeViewProps) {
+  return (
+    <View style={{ backgroundColor: '#282c34', borderRadius: 8, padding: 12, marginVertical: 6 }}>
+      <JsonNode value={value} depth={0} />
+    </View>
+  );
+}
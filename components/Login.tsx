@@ -4,17 +4,20 @@
  * This component handles:
  * - New user registration with password creation
  * - Existing user authentication
+ * - Restoring a backup once the database is unlocked
  */
 import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth';
+import { useData } from '../context/dataContext';
 import { useRouter } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import { KeyboardAvoidingView, Platform, View, TouchableOpacity } from 'react-native';
 import { PasswordInput } from './PasswordInput';
 import { StatusBar } from 'expo-status-bar';
 import { Text } from 'react-native';
-import { Shield, AlertTriangle, UserPlus, LogIn } from 'lucide-react-native';
+import { Shield, AlertTriangle, UserPlus, LogIn, ArchiveRestore, X } from 'lucide-react-native';
 import { DeleteConfirmation } from './DeleteConfirmation';
+import { describeBackup, PendingRestore, RestoreSheet } from './RestoreSheet';
 import { DatabaseService } from '@/database/DatabaseService';
 
 export function Login() {
@@ -22,16 +25,31 @@ export function Login() {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
 
   const { isNewUser, error, setError, validateAndSavePassword, deleteAllData } = useAuth();
+  const { restoreBackup } = useData();
 
   const handleSubmit = async () => {
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       const success = await validateAndSavePassword(password, isNewUser ? confirmPassword : undefined);
-      if (success) {
-        router.replace('/ui/chat');
+      if (!success) return;
+
+      if (pendingRestore) {
+        try {
+          await restoreBackup(pendingRestore.data, pendingRestore.mode, password);
+          setPendingRestore(null);
+        } catch (restoreError) {
+          // The restore runs in one transaction, so nothing was written; logging in again retries it
+          console.error('Error restoring backup:', restoreError);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+          setError('Restoring the backup failed. Your data is unchanged.');
+          return;
+        }
       }
+      router.replace('/ui/chat');
     } catch (err) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
@@ -107,6 +125,23 @@ export function Login() {
                 </View>
               )}
 
+              {/* Backup restored after login */}
+              {pendingRestore && (
+                <View className="flex-row items-center px-3 py-2 rounded-2xl border border-accent/20">
+                  <ArchiveRestore size={16} color="#61BA82" />
+                  <Text className="flex-1 ml-2 text-xs text-text/80">
+                    {`${pendingRestore.mode === 'replace' && !isNewUser ? 'Replaces your data with' : 'Restores'} ${describeBackup(pendingRestore.counts)} after ${isNewUser ? 'creating your password' : 'login'}`}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => setPendingRestore(null)}
+                    className="p-1"
+                    accessibilityLabel="Cancel restore"
+                  >
+                    <X size={16} color="#a3a3a3" />
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {/* Action Buttons */}
               <View className="space-y-8 mt-6">
                 <TouchableOpacity
@@ -122,6 +157,21 @@ export function Login() {
                   </Text>
                 </TouchableOpacity>
                 
+                {!pendingRestore && (
+                  <TouchableOpacity
+                    className="flex-row items-center justify-center py-3.5 rounded-2xl border border-accent/20 mb-5"
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      setShowRestore(true);
+                    }}
+                  >
+                    <ArchiveRestore size={16} color="#61BA82" />
+                    <Text className="text-accent text-sm ml-2">
+                      Restore from Backup
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
                 {!isNewUser && (
                   <TouchableOpacity
                     className="flex-row items-center justify-center py-3.5 rounded-2xl border border-red-400/30"
@@ -141,6 +191,16 @@ export function Login() {
         </View>
       </View>
 
+      <RestoreSheet
+        visible={showRestore}
+        canMerge={!isNewUser}
+        onClose={() => setShowRestore(false)}
+        onSelect={(restore) => {
+          setPendingRestore(restore);
+          setShowRestore(false);
+        }}
+      />
+
       {/* Delete Confirmation Dialog */}
       {showDeleteConfirm && (
         <DeleteConfirmation
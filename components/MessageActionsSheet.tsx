@@ -0,0 +1,58 @@
+import React from 'react';
+import { Pressable, View, Text, TouchableOpacity } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { Pencil, GitBranch } from 'lucide-react-native';
+
+interface MessageActionsSheetProps {
+  visible: boolean;
+  canEdit: boolean; // Only user messages can be edited
+  onCancel: () => void;
+  onEdit: () => void;
+  onFork: () => void;
+}
+
+/**
+ * Bottom sheet with the actions for a long-pressed message
+ */
+export const MessageActionsSheet = ({ visible, canEdit, onCancel, onEdit, onFork }: MessageActionsSheetProps) => {
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <Pressable className="flex-1 justify-end bg-black/50" onPress={onCancel}>
+        <View className="rounded-t-2xl p-4 bg-zinc-800">
+          <View className="space-y-3">
+            {canEdit && (
+              <TouchableOpacity
+                onPress={onEdit}
+                className="flex-row items-center p-3 rounded-lg bg-zinc-700"
+              >
+                <Pencil size={18} color="#61BA82" />
+                <Text className="ml-3 text-white">Edit Message</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={onFork}
+              className="flex-row items-center p-3 rounded-lg bg-zinc-700"
+            >
+              <GitBranch size={18} color="#61BA82" />
+              <View className="ml-3 flex-1">
+                <Text className="text-white">Fork Into New Chat</Text>
+                <Text className="text-zinc-400 text-sm">Copies the conversation up to this message</Text>
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={onCancel}
+              className="p-3 rounded-lg bg-zinc-700"
+            >
+              <Text className="text-center text-white">Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Pressable>
+    </ActivityModal>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SafeAreaView, View, Text, TextInput, TouchableOpacity, FlatList, ActivityIndicator } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { Search, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { MessageSearchResult, useData } from '../context/dataContext';
+import { buildSnippet } from '../utils/searchIndex';
+import { globalEventEmitter } from '../utils/event';
+
+// Wait for typing to pause before querying the index
+const SEARCH_DELAY_MS = 300;
+
+interface MessageSearchProps {
+  visible: boolean;
+  initialQuery?: string;
+  onClose: () => void;
+  onSelectResult: (threadId: string, messageId: string) => void;
+}
+
+/**
+ * Full-screen search over the contents of all chats, best matches first
+ * Needs the message index, which is turned on in Settings.
+ */
+export function MessageSearch({ visible, initialQuery, onClose, onSelectResult }: MessageSearchProps) {
+  const { data, searchMessages } = useData();
+  const [query, setQuery] = useState<string>('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isIndexEnabled = data?.settings?.searchIndexEnabled ?? false;
+
+  // The context gives a new function on every update; a search runs again only when the query changes
+  const searchMessagesRef = useRef(searchMessages);
+  searchMessagesRef.current = searchMessages;
+
+  useEffect(() => {
+    if (visible) {
+      setQuery(initialQuery ?? '');
+      setResults([]);
+      setError(null);
+    }
+  }, [visible, initialQuery]);
+
+  useEffect(() => {
+    if (!visible || !isIndexEnabled) return;
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchMessagesRef.current(query);
+        if (!cancelled) {
+          setResults(found);
+          setError(null);
+        }
+      } catch (searchError) {
+        console.error('Error searching messages:', searchError);
+        if (!cancelled) setError('Search failed.');
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [visible, isIndexEnabled, query]);
+
+  const openSettings = () => {
+    onClose();
+    globalEventEmitter.emit('openSettings');
+  };
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => (
+    <TouchableOpacity
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onSelectResult(item.threadId, item.messageId);
+      }}
+      className="p-3 mb-2 rounded-lg bg-primary"
+      accessibilityLabel={`Open message in ${item.threadTitle}`}
+    >
+      <View className="flex-row justify-between mb-1">
+        <Text className="flex-1 text-sm font-semibold text-text font-sans" numberOfLines={1}>{item.threadTitle}</Text>
+        <Text className="text-xs ml-2 text-text/60 font-sans">
+          {item.isUser ? 'You' : 'Assistant'} · {new Date(item.timestamp).toLocaleDateString()}
+        </Text>
+      </View>
+      <Text className="text-sm text-text/80 font-sans">
+        {buildSnippet(item.text, query).map((part, index) => (
+          <Text key={index} className={part.isMatch ? 'font-bold text-accent' : undefined}>{part.text}</Text>
+        ))}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ActivityModal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={{ flex: 1 }} className="bg-background">
+        <View className="px-4 py-3 border-b border-primary flex-row items-center">
+          <View className="flex-1 flex-row items-center p-3 rounded-lg bg-primary">
+            <Search size={16} color="#EBE9FC" />
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search all messages..."
+              placeholderTextColor="#a3a3a3"
+              autoFocus={isIndexEnabled}
+              autoCorrect={false}
+              autoCapitalize="none"
+              returnKeyType="search"
+              className="flex-1 ml-2 text-base text-text font-sans"
+              accessibilityLabel="Search all messages"
+            />
+            {isSearching && <ActivityIndicator size="small" color="#61BA82" />}
+          </View>
+          <TouchableOpacity
+            onPress={onClose}
+            className="ml-3 p-2 rounded-full bg-accent"
+            accessibilityLabel="Close search"
+          >
+            <X size={24} color="#181818" />
+          </TouchableOpacity>
+        </View>
+
+        {!isIndexEnabled ? (
+          <View className="flex-1 justify-center items-center p-6">
+            <Text className="text-center text-text/80 font-sans mb-4">
+              Searching message contents needs the message index. Turn on "Index Message Contents" in Settings.
+            </Text>
+            <TouchableOpacity onPress={openSettings} className="px-4 py-3 rounded-lg bg-accent" accessibilityLabel="Open settings">
+              <Text className="text-primary font-semibold font-sans">Open Settings</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={results}
+            keyExtractor={item => item.messageId}
+            renderItem={renderResult}
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={{ padding: 16 }}
+            ListEmptyComponent={
+              <Text className="text-center mt-8 text-text/60 font-sans">
+                {error ?? (query.trim() && !isSearching ? 'No messages found.' : 'Matches whole words in all chats.')}
+              </Text>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </ActivityModal>
+  );
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { ModelOption } from '../services/llmProvider';
+import { getProviderDisplayName } from '../services/providerRegistry';
+
+interface ModelChipSelectProps {
+  models: ModelOption[];
+  value?: ModelOption;
+  onChange: (model: ModelOption | undefined) => void;
+  emptyLabel: string; // Label of the chip that clears the selection
+}
+
+/**
+ * Wrapping row of model chips with an extra chip for "no model"
+ */
+export function ModelChipSelect({ models, value, onChange, emptyLabel }: ModelChipSelectProps) {
+  const isSelected = (model?: ModelOption) =>
+    model?.id === value?.id && model?.provider === value?.provider;
+
+  return (
+    <View className="flex-row flex-wrap">
+      {[undefined, ...models].map(model => {
+        const selected = isSelected(model);
+        return (
+          <TouchableOpacity
+            key={model ? `${model.provider}:${model.id}` : 'none'}
+            onPress={() => onChange(model)}
+            className={`px-3 py-2 mr-2 mb-2 rounded-lg ${selected ? 'bg-accent' : 'bg-primary'}`}
+            accessibilityLabel={model ? `Select ${model.displayName}` : emptyLabel}
+          >
+            <Text className={`text-sm font-sans ${selected ? 'text-primary' : 'text-text'}`}>
+              {model ? `${model.displayName} (${getProviderDisplayName(model.provider)})` : emptyLabel}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
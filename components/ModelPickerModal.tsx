@@ -1,13 +1,9 @@
 import React, { Dispatch, SetStateAction, useState } from 'react';
-import { Modal, Pressable, View, Text, TextInput, TouchableOpacity, ActivityIndicator, FlatList } from 'react-native';
+import { Pressable, View, Text, TextInput, TouchableOpacity, ActivityIndicator, FlatList } from 'react-native';
+import { ActivityModal } from './ActivityModal';
 import { Zap, Search, X } from 'lucide-react-native';
-import { openRouterService, OpenRouterModel } from '../services/openRouterService';
-
-type ModelOption = {
-  id: string;
-  displayName: string;
-  provider: 'gemini' | 'openrouter';
-};
+import { ModelOption, ProviderModelInfo } from '../services/llmProvider';
+import { getProvider, getProviderDisplayName, getProviders } from '../services/providerRegistry';
 
 type ModelPickerModalProps = {
   visible: boolean;
@@ -18,12 +14,12 @@ type ModelPickerModalProps = {
   onModelChange: (model: ModelOption) => void;
   currentModel: ModelOption;
   connectionStatus: 'connected' | 'error' | 'unknown';
-  handleAddOpenRouterModel: (model: ModelOption) => void;
-  openRouterModels: ModelOption[];
+  onAddModel: (model: ModelOption) => void;
+  savedModels: ModelOption[];
 };
 
 const getModelDisplayName = (model: ModelOption) => {
-  return `${model.displayName} (${model.provider === 'gemini' ? 'Gemini' : 'OpenRouter'})`;
+  return `${model.displayName} (${getProviderDisplayName(model.provider)})`;
 };
 
 const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
@@ -35,23 +31,33 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
   onModelChange,
   currentModel,
   connectionStatus,
-  handleAddOpenRouterModel,
-  openRouterModels,
+  onAddModel,
+  savedModels,
 }) => {
-  // --- OpenRouter models modal state ---
-  const [isModelsModalOpen, setIsModelsModalOpen] = useState(false);
-  const [availableModels, setAvailableModels] = useState<OpenRouterModel[]>([]);
+  // --- Provider models modal state ---
+  const [browseProviderId, setBrowseProviderId] = useState<string | null>(null);
+  const [availableModels, setAvailableModels] = useState<ProviderModelInfo[]>([]);
   const [isModelsLoading, setIsModelsLoading] = useState(false);
   const [modelsError, setModelsError] = useState<string | null>(null);
   const [modelSearch, setModelSearch] = useState<string>('');
 
-  // Fetch models from OpenRouter
-  const handleShowModels = async () => {
-    setIsModelsModalOpen(true);
+  // Providers that can list their models
+  const browsableProviders = getProviders().filter(provider => provider.fetchAvailableModels);
+  const browseProviderName = browseProviderId ? getProviderDisplayName(browseProviderId) : '';
+
+  const closeModelsModal = () => {
+    setBrowseProviderId(null);
+    setModelSearch('');
+  };
+
+  // Fetch models from the selected provider
+  const handleShowModels = async (providerId: string) => {
+    setBrowseProviderId(providerId);
+    setAvailableModels([]);
     setIsModelsLoading(true);
     setModelsError(null);
     try {
-      const models = await openRouterService.fetchAvailableModels();
+      const models = await getProvider(providerId)?.fetchAvailableModels?.() ?? [];
       setAvailableModels(models);
     } catch (err: any) {
       setModelsError(err.message || 'Failed to fetch models. Please check your connection or API key.');
@@ -60,16 +66,19 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
     }
   };
 
-  // Add and switch to OpenRouter model
-  const handleAddAndSwitchModel = (model: OpenRouterModel) => {
+  // Add and switch to a discovered model
+  const handleAddAndSwitchModel = (model: ProviderModelInfo) => {
+    if (!browseProviderId) return;
     const modelOption: ModelOption = {
       id: model.id,
       displayName: model.name,
-      provider: 'openrouter'
+      provider: browseProviderId,
+      contextLength: model.contextLength,
+      supportsImages: model.inputModalities?.includes('image'),
+      supportsTools: model.supportedParameters?.includes('tools')
     };
-    handleAddOpenRouterModel(modelOption);
-    setIsModelsModalOpen(false);
-    setModelSearch('');
+    onAddModel(modelOption);
+    closeModelsModal();
   };
 
   const filteredModelsAvailable = availableModels.filter((model) => {
@@ -78,16 +87,16 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
     return (
       model.name.toLowerCase().includes(search) ||
       model.id.toLowerCase().includes(search) ||
-      model.description.toLowerCase().includes(search)
+      (model.description || '').toLowerCase().includes(search)
     );
   });
 
   const isModelAdded = (modelId: string) => {
-    return openRouterModels.some(m => m.id === modelId);
+    return savedModels.some(m => m.id === modelId && m.provider === browseProviderId);
   };
 
   return (
-    <Modal
+    <ActivityModal
       visible={visible}
       onRequestClose={onRequestClose}
       transparent={true}
@@ -118,7 +127,7 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
 
               {filteredModels.map((option) => (
                 <TouchableOpacity
-                  key={option.id}
+                  key={`${option.provider}:${option.id}`}
                   onPress={() => onModelChange(option)}
                   className={`flex-row items-center space-x-2 p-3 rounded-lg bg-primary my-2`}
                 >
@@ -129,15 +138,18 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
                 </TouchableOpacity>
               ))}
 
-              <TouchableOpacity
-                onPress={handleShowModels}
-                className={`flex-row items-center justify-center space-x-2 p-3 rounded-3xl bg-accent mt-4`}
-              >
-                <Zap size={16} color="#181818" />
-                <Text className={`text-base text-primary font-sans font-medium`}>
-                  Browse All OpenRouter Models
-                </Text>
-              </TouchableOpacity>
+              {browsableProviders.map((provider) => (
+                <TouchableOpacity
+                  key={provider.id}
+                  onPress={() => handleShowModels(provider.id)}
+                  className={`flex-row items-center justify-center space-x-2 p-3 rounded-3xl bg-accent mt-4`}
+                >
+                  <Zap size={16} color="#181818" />
+                  <Text className={`text-base text-primary font-sans font-medium`}>
+                    Browse All {provider.displayName} Models
+                  </Text>
+                </TouchableOpacity>
+              ))}
 
               {filteredModels.length === 0 && (
                 <View className="p-4">
@@ -151,19 +163,19 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
         </View>
       </Pressable>
 
-      {/* Browse All OpenRouter Models Modal */}
-      <Modal
-        visible={isModelsModalOpen}
+      {/* Browse All Provider Models Modal */}
+      <ActivityModal
+        visible={!!browseProviderId}
         animationType="slide"
         transparent={true}
-        onRequestClose={() => setIsModelsModalOpen(false)}
+        onRequestClose={closeModelsModal}
       >
         <View className="flex-1 justify-end bg-black/50">
           <View className="rounded-t-2xl p-4 max-h-[80%] bg-zinc-900">
             <View className="flex-row items-center mb-2">
-              <Text className="text-xl font-bold flex-1 text-white font-sans">Available OpenRouter Models</Text>
+              <Text className="text-xl font-bold flex-1 text-white font-sans">Available {browseProviderName} Models</Text>
               <TouchableOpacity
-                onPress={() => { setIsModelsModalOpen(false); setModelSearch(''); }}
+                onPress={closeModelsModal}
                 className="p-2 ml-2"
                 accessibilityLabel="Close models list"
               >
@@ -197,9 +209,21 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
                   <View className="mb-4 p-3 rounded-lg bg-zinc-800">
                     <Text className="font-semibold text-base text-white font-sans">{item.name}</Text>
                     <Text className="text-xs mb-1 text-zinc-400 font-sans">{item.id}</Text>
-                    <Text className="text-sm mb-1 text-zinc-300 font-sans">{item.description}</Text>
-                    <Text className="text-xs text-zinc-400 font-sans">Context: {item.context_length} tokens</Text>
-                    <Text className="text-xs text-zinc-400 font-sans">Prompt: ${item.pricing.prompt} | Completion: ${item.pricing.completion}</Text>
+                    {!!item.description && (
+                      <Text className="text-sm mb-1 text-zinc-300 font-sans">{item.description}</Text>
+                    )}
+                    {item.contextLength !== undefined && (
+                      <Text className="text-xs text-zinc-400 font-sans">Context: {item.contextLength} tokens</Text>
+                    )}
+                    {item.inputModalities?.includes('image') && (
+                      <Text className="text-xs text-zinc-400 font-sans">Accepts images</Text>
+                    )}
+                    {item.supportedParameters?.includes('tools') && (
+                      <Text className="text-xs text-zinc-400 font-sans">Can use tools</Text>
+                    )}
+                    {item.pricing && (
+                      <Text className="text-xs text-zinc-400 font-sans">Prompt: ${item.pricing.prompt} | Completion: ${item.pricing.completion}</Text>
+                    )}
                     <TouchableOpacity
                       onPress={() => handleAddAndSwitchModel(item)}
                       className={`mt-2 px-3 py-1 rounded bg-blue-600 ${isModelAdded(item.id) ? 'opacity-60' : ''}`}
@@ -216,8 +240,8 @@ const ModelPickerModal: React.FC<ModelPickerModalProps> = ({
             )}
           </View>
         </View>
-      </Modal>
-    </Modal>
+      </ActivityModal>
+    </ActivityModal>
   );
 };
 
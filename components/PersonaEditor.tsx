@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { X, Save } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Persona, useData } from '../context/dataContext';
+import { useAuth } from '../hooks/useAuth';
+import { ModelOption } from '../services/llmProvider';
+import { getDefaultModels } from '../services/providerRegistry';
+import {
+  GenerationParamsForm,
+  parseParamsForm,
+  resolveGenerationParams,
+  toParamsForm
+} from '../services/generationParams';
+import { GenerationParamsFields } from './GenerationParamsFields';
+import { ModelChipSelect } from './ModelChipSelect';
+
+interface PersonaEditorProps {
+  visible: boolean;
+  persona?: Persona; // Persona to edit; a new persona is created when omitted
+  onClose: () => void;
+}
+
+/**
+ * Modal for creating or editing a persona preset
+ */
+export function PersonaEditor({ visible, persona, onClose }: PersonaEditorProps) {
+  const { data, savePersona } = useData();
+  const { getCurrentPassword } = useAuth();
+
+  const [name, setName] = useState<string>('');
+  const [systemPrompt, setSystemPrompt] = useState<string>('');
+  const [defaultModel, setDefaultModel] = useState<ModelOption | undefined>(undefined);
+  const [paramsForm, setParamsForm] = useState<GenerationParamsForm>(toParamsForm(undefined));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const availableModels: ModelOption[] = [...getDefaultModels(), ...(data?.savedModels || [])];
+
+  // Load the persona's values whenever the editor opens
+  useEffect(() => {
+    if (visible) {
+      setName(persona?.name || '');
+      setSystemPrompt(persona?.systemPrompt || '');
+      setDefaultModel(persona?.defaultModel);
+      setParamsForm(toParamsForm(persona?.defaultParams));
+      setError(null);
+    }
+  }, [visible, persona]);
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    if (!name.trim() || !systemPrompt.trim()) {
+      setError('A persona needs a name and a system prompt.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+    const { params, error: parseError } = parseParamsForm(paramsForm);
+    if (parseError) {
+      setError(parseError);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    const password = getCurrentPassword();
+    if (!password) return;
+
+    setIsSaving(true);
+    try {
+      await savePersona({
+        id: persona?.id ?? Date.now().toString(),
+        name: name.trim(),
+        systemPrompt: systemPrompt.trim(),
+        defaultModel,
+        defaultParams: params
+      }, password);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (saveError) {
+      console.error('Error saving persona:', saveError);
+      setError('Failed to save persona.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/50 font-sans">
+        <View className="rounded-t-2xl bg-background w-full max-h-[90%] pb-2">
+          <View className="px-4 py-3 border-b border-primary flex-row justify-between items-center">
+            <Text className="text-xl font-bold text-text font-sans">{persona ? 'Edit Persona' : 'New Persona'}</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-2 rounded-full bg-accent"
+              accessibilityLabel="Close persona editor"
+            >
+              <X size={24} color="#181818" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView className="px-4 py-4">
+            <View className="space-y-4">
+              <View>
+                <Text className="text-base mb-1 text-text/80 font-sans">Name</Text>
+                <View className="rounded-lg overflow-hidden bg-accent">
+                  <TextInput
+                    value={name}
+                    onChangeText={setName}
+                    placeholder="e.g. Code Reviewer"
+                    placeholderTextColor="#18181880"
+                    maxLength={40}
+                    className="px-4 py-3 text-base text-text font-sans"
+                  />
+                </View>
+              </View>
+              <View>
+                <Text className="text-base mb-1 text-text/80 font-sans">System Prompt</Text>
+                <View className="rounded-lg overflow-hidden bg-accent">
+                  <TextInput
+                    value={systemPrompt}
+                    onChangeText={setSystemPrompt}
+                    placeholder="Define how the assistant behaves in chats with this persona"
+                    placeholderTextColor="#18181880"
+                    multiline
+                    numberOfLines={6}
+                    className="px-4 py-3 text-base text-text font-sans"
+                    style={{ textAlignVertical: 'top' }}
+                  />
+                </View>
+              </View>
+              <View>
+                <Text className="text-base mb-1 text-text/80 font-sans">Default Model</Text>
+                <ModelChipSelect
+                  models={availableModels}
+                  value={defaultModel}
+                  onChange={setDefaultModel}
+                  emptyLabel="Current model"
+                />
+              </View>
+              <View>
+                <Text className="text-lg font-semibold mb-2 text-text font-sans">Default Parameters</Text>
+                <GenerationParamsFields
+                  value={paramsForm}
+                  onChange={setParamsForm}
+                  defaults={resolveGenerationParams(data?.settings?.generationParams)}
+                />
+              </View>
+            </View>
+            {error && (
+              <Text className="text-red-500 mt-2 font-sans">{error}</Text>
+            )}
+
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={isSaving}
+              className={`flex-row items-center justify-center py-3 px-4 mt-6 mb-4 rounded-lg bg-accent ${isSaving ? 'opacity-50' : ''}`}
+              accessibilityLabel="Save persona"
+            >
+              <Save size={20} color="#181818" />
+              <Text className="text-primary font-semibold ml-2 font-sans">
+                {isSaving ? 'Saving...' : 'Save Persona'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </ActivityModal>
+  );
+}
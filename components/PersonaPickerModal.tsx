@@ -0,0 +1,67 @@
+import React from 'react';
+import { Pressable, View, Text, TouchableOpacity } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { UserRound, Check } from 'lucide-react-native';
+import { Persona } from '../context/dataContext';
+
+type PersonaPickerModalProps = {
+  visible: boolean;
+  onRequestClose: () => void;
+  personas: Persona[];
+  currentPersonaId?: string;
+  onSelectPersona: (persona: Persona | undefined) => void;
+};
+
+/**
+ * Bottom sheet for starting a new chat with a persona
+ */
+const PersonaPickerModal: React.FC<PersonaPickerModalProps> = ({
+  visible,
+  onRequestClose,
+  personas,
+  currentPersonaId,
+  onSelectPersona,
+}) => {
+  const options: (Persona | undefined)[] = [undefined, ...personas];
+
+  return (
+    <ActivityModal
+      visible={visible}
+      onRequestClose={onRequestClose}
+      transparent={true}
+      animationType="slide"
+    >
+      <Pressable
+        className="flex-1 bg-black/50"
+        onPress={onRequestClose}
+      >
+        <View className="flex-1 justify-end">
+          <View className="rounded-t-2xl p-4 bg-background">
+            <Text className="text-xl font-bold mb-1 text-text font-sans">New Chat With Persona</Text>
+            <Text className="text-sm mb-2 text-text/60 font-sans">Manage personas in Settings.</Text>
+            {options.map((persona) => (
+              <TouchableOpacity
+                key={persona?.id ?? 'none'}
+                onPress={() => onSelectPersona(persona)}
+                className="flex-row items-center space-x-2 p-3 rounded-lg bg-primary my-2"
+              >
+                <UserRound size={16} color="#EBE9FC" />
+                <View className="flex-1">
+                  <Text className="text-base text-text font-sans">{persona ? persona.name : 'No persona'}</Text>
+                  <Text className="text-sm text-text/60 font-sans" numberOfLines={1}>
+                    {persona ? persona.systemPrompt : 'Uses the custom system prompt from Settings'}
+                  </Text>
+                </View>
+                {persona?.id === currentPersonaId && (
+                  <Check size={16} color="#61BA82" />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Pressable>
+    </ActivityModal>
+  );
+};
+
+export default PersonaPickerModal;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { ModelOption } from '../services/llmProvider';
+import { ModelChipSelect } from './ModelChipSelect';
+
+interface RegenerateSheetProps {
+  visible: boolean;
+  models: ModelOption[];
+  currentModel: ModelOption;
+  onCancel: () => void;
+  onSubmit: (model?: ModelOption) => void;
+}
+
+/**
+ * Bottom sheet for regenerating the last response
+ * The new version is kept next to the previous ones, optionally written by a different model.
+ */
+export const RegenerateSheet = ({ visible, models, currentModel, onCancel, onSubmit }: RegenerateSheetProps) => {
+  const [model, setModel] = useState<ModelOption | undefined>(undefined);
+
+  useEffect(() => {
+    if (visible) setModel(undefined);
+  }, [visible]);
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View className="flex-1 justify-end bg-black/50">
+        <View className="rounded-t-2xl p-4 bg-zinc-800 max-h-[80%]">
+          <View className="space-y-4">
+            <Text className="text-xl font-semibold text-white">Regenerate Response</Text>
+            <Text className="text-zinc-300">
+              Previous versions are kept, swipe the response to switch between them.
+            </Text>
+            <ScrollView style={{ maxHeight: 300 }}>
+              <ModelChipSelect
+                models={models}
+                value={model}
+                onChange={setModel}
+                emptyLabel={`Same model (${currentModel.displayName})`}
+              />
+            </ScrollView>
+            <View className="flex-row justify-between space-x-3">
+              <TouchableOpacity
+                onPress={onCancel}
+                className="flex-1 p-3 rounded-lg bg-zinc-700"
+              >
+                <Text className="text-center text-white">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => onSubmit(model)}
+                className="flex-1 p-3 rounded-lg bg-accent"
+              >
+                <Text className="text-center text-primary">Regenerate</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </ActivityModal>
+  );
+};
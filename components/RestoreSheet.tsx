@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import { SafeAreaView, View, Text, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { ArchiveRestore, FileUp, X } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Haptics from 'expo-haptics';
+import type { BackupData, RestoreMode } from '../database/init';
+import { BackupArchive, BackupCounts, countBackup, openBackupArchive, readBackupArchive } from '../services/backupArchive';
+
+/**
+ * An opened backup waiting to be written once the database is unlocked
+ */
+export interface PendingRestore {
+  data: BackupData;
+  mode: RestoreMode;
+  createdAt: number;
+  counts: BackupCounts;
+}
+
+const RESTORE_MODES: { id: RestoreMode; label: string; description: string }[] = [
+  { id: 'merge', label: 'Merge', description: 'Adds the chats and personas that are not here yet. Your settings stay as they are.' },
+  { id: 'replace', label: 'Replace', description: 'Deletes all current chats and personas and takes over the settings of the backup.' }
+];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Describes what a backup holds, e.g. "3 chats, 42 messages, 1 persona"
+ */
+export function describeBackup(counts: BackupCounts): string {
+  return [
+    plural(counts.threads, 'chat'),
+    plural(counts.messages, 'message'),
+    plural(counts.personas, 'persona'),
+    ...(counts.apiKeys > 0 ? [plural(counts.apiKeys, 'API key')] : [])
+  ].join(', ');
+}
+
+interface RestoreSheetProps {
+  visible: boolean;
+  canMerge: boolean;          // False for a new user, whose database is empty
+  onClose: () => void;
+  onSelect: (restore: PendingRestore) => void;
+}
+
+/**
+ * Full-screen flow for opening a backup archive from the login screen
+ * The backup is checked and decrypted here; it is written after login, when the database is unlocked.
+ */
+export function RestoreSheet({ visible, canMerge, onClose, onSelect }: RestoreSheetProps) {
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [opened, setOpened] = useState<BackupData | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setArchive(null);
+      setPassphrase('');
+      setOpened(null);
+      setMode(canMerge ? 'merge' : 'replace');
+      setError(null);
+    }
+  }, [visible, canMerge]);
+
+  const chooseFile = async () => {
+    setError(null);
+    const result = await DocumentPicker.getDocumentAsync({ type: ['application/json', 'application/octet-stream'], copyToCacheDirectory: true });
+    if (result.canceled || !result.assets[0]) return;
+
+    setIsBusy(true);
+    const uri = result.assets[0].uri;
+    try {
+      setArchive(readBackupArchive(await FileSystem.readAsStringAsync(uri)));
+    } catch (readError) {
+      console.error('Error reading backup:', readError);
+      setError(readError instanceof Error ? readError.message : 'The file could not be read.');
+    } finally {
+      await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined);
+      setIsBusy(false);
+    }
+  };
+
+  const openArchive = async () => {
+    if (!archive || !passphrase || isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      setOpened(await openBackupArchive(archive, passphrase));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : 'The backup could not be opened.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSelect = () => {
+    if (!archive || !opened) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onSelect({ data: opened, mode, createdAt: archive.createdAt, counts: countBackup(opened) });
+  };
+
+  const renderStep = () => {
+    if (!archive) {
+      return (
+        <View className="flex-1 justify-center items-center p-6">
+          <Text className="text-center text-text/80 font-sans mb-4">
+            Choose a backup file created in Settings → Security.
+          </Text>
+          <TouchableOpacity
+            onPress={chooseFile}
+            disabled={isBusy}
+            className="flex-row items-center px-4 py-3 rounded-lg bg-accent"
+            accessibilityLabel="Choose backup file"
+          >
+            {isBusy ? <ActivityIndicator size="small" color="#181818" /> : <FileUp size={18} color="#181818" />}
+            <Text className="ml-2 text-primary font-semibold font-sans">Choose File</Text>
+          </TouchableOpacity>
+          {error && <Text className="text-center text-red-400 font-sans mt-4">❗ {error}</Text>}
+        </View>
+      );
+    }
+
+    if (!opened) {
+      return (
+        <View className="p-4 space-y-4">
+          <Text className="text-text/80 font-sans">
+            {`Backup from ${new Date(archive.createdAt).toLocaleString()}. Enter the password or passphrase it was created with.`}
+          </Text>
+          <View className="rounded-lg overflow-hidden bg-accent">
+            <TextInput
+              value={passphrase}
+              onChangeText={setPassphrase}
+              placeholder="Backup passphrase"
+              placeholderTextColor="#18181880"
+              secureTextEntry={true}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isBusy}
+              onSubmitEditing={openArchive}
+              className="px-4 py-3 text-base text-text font-sans"
+              accessibilityLabel="Backup passphrase"
+            />
+          </View>
+          {error && <Text className="text-red-400 font-sans">❗ {error}</Text>}
+          <TouchableOpacity
+            onPress={openArchive}
+            disabled={isBusy || !passphrase}
+            className={`p-3 rounded-lg bg-accent ${!passphrase ? 'opacity-50' : ''}`}
+            accessibilityLabel="Open backup"
+          >
+            {isBusy ? (
+              <ActivityIndicator size="small" color="#181818" />
+            ) : (
+              <Text className="text-center text-primary font-semibold font-sans">Open Backup</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View className="p-4 space-y-4">
+        <View className="p-3 rounded-lg bg-primary">
+          <Text className="text-sm font-semibold text-text font-sans">
+            {`Backup from ${new Date(archive.createdAt).toLocaleString()}`}
+          </Text>
+          <Text className="text-sm mt-1 text-text/60 font-sans">{describeBackup(countBackup(opened))}</Text>
+        </View>
+        {canMerge ? (
+          <View>
+            <View className="flex-row flex-wrap">
+              {RESTORE_MODES.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  onPress={() => setMode(option.id)}
+                  className={`px-3 py-2 mr-2 mb-2 rounded-lg ${mode === option.id ? 'bg-accent' : 'bg-primary'}`}
+                  accessibilityLabel={`${option.label} current data`}
+                >
+                  <Text className={`text-sm font-sans ${mode === option.id ? 'text-primary' : 'text-text'}`}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text className="text-sm text-text/60 font-sans">
+              {RESTORE_MODES.find(option => option.id === mode)?.description}
+            </Text>
+          </View>
+        ) : (
+          <Text className="text-sm text-text/60 font-sans">
+            The backup is restored once you have created your password; it becomes the password of this device.
+          </Text>
+        )}
+        <TouchableOpacity
+          onPress={handleSelect}
+          className="flex-row items-center justify-center p-3 rounded-lg bg-accent"
+          accessibilityLabel="Restore this backup"
+        >
+          <ArchiveRestore size={18} color="#181818" />
+          <Text className="ml-2 text-primary font-semibold font-sans">
+            {canMerge ? 'Restore After Login' : 'Restore After Creating Password'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <ActivityModal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={{ flex: 1 }} className="bg-background">
+        <View className="px-4 py-3 border-b border-primary flex-row items-center justify-between">
+          <Text className="text-xl font-semibold text-text font-sans">Restore Backup</Text>
+          <TouchableOpacity
+            onPress={onClose}
+            className="p-2 rounded-full bg-accent"
+            accessibilityLabel="Close restore"
+          >
+            <X size={24} color="#181818" />
+          </TouchableOpacity>
+        </View>
+        {renderStep()}
+      </SafeAreaView>
+    </ActivityModal>
+  );
+}
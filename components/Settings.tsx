@@ -1,9 +1,21 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { View, Text, TextInput, ScrollView, TouchableOpacity, Modal, SafeAreaView } from 'react-native';
-import { useData } from '../context/dataContext';
+import { View, Text, TextInput, ScrollView, TouchableOpacity, SafeAreaView, Switch } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { Persona, useData } from '../context/dataContext';
 import { useAuth } from '../hooks/useAuth';
-import { X, Save, Eye, EyeOff, Pencil, Check, X as LucideX } from 'lucide-react-native';
-import { geminiService } from '../services/geminiService';
+import { X, Save, Eye, EyeOff, Pencil, Check, X as LucideX, RefreshCw, Plus, Trash2, KeyRound, DatabaseBackup } from 'lucide-react-native';
+import { getDefaultModels, getProviders } from '../services/providerRegistry';
+import { ModelOption } from '../services/llmProvider';
+import { DEFAULT_GENERATION_PARAMS, GenerationParamsForm, parseParamsForm, toParamsForm } from '../services/generationParams';
+import { GenerationParamsFields } from './GenerationParamsFields';
+import { ModelChipSelect } from './ModelChipSelect';
+import { PersonaEditor } from './PersonaEditor';
+import { ChangePasswordSheet } from './ChangePasswordSheet';
+import { BackupSheet } from './BackupSheet';
+import { DeleteConfirmation } from './DeleteConfirmation';
+import { discoverEndpointModels, normalizeEndpointUrl } from '../services/customEndpointService';
+import { WIPE_AFTER_OPTIONS } from '../utils/loginThrottle';
+import { AUTO_LOCK_OPTIONS } from '../utils/autoLock';
 import * as Haptics from 'expo-haptics';
 
 // Utility to mask API key except last 4 chars
@@ -13,6 +25,12 @@ function maskKey(key: string): string {
   return '•'.repeat(key.length - 4) + key.slice(-4);
 }
 
+// Parse a newline/comma separated model list into unique model ids
+function parseModelList(value: string): string[] {
+  const ids = value.split(/[\n,]/).map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids));
+}
+
 type UiState = {
   showGeminiKey: boolean;
   showGroqKey: boolean;
@@ -20,12 +38,21 @@ type UiState = {
   showPasswordInput: boolean;
   isSaving: boolean;
   saveError: string | null;
+  isDiscovering: boolean;
+  discoverError: string | null;
 }
 
 type FormState = {
   geminiKey: string;
   openRouterKey: string;
+  customEndpointUrl: string;
+  customEndpointKey: string;
+  customEndpointModels: string;
   customPrompt: string;
+  summarizeHistory: boolean;
+  summaryModel?: ModelOption;
+  generationParams: GenerationParamsForm;
+  searchIndexEnabled: boolean;
   password: string;
 }
 
@@ -35,13 +62,20 @@ interface SettingsProps {
 }
 
 export function Settings({ isVisible, onClose }: SettingsProps) {
-  const { data, saveData } = useData();
-  const { isAuthenticated, validateAndSavePassword } = useAuth();
+  const { data, saveData, deletePersona } = useData();
+  const { isAuthenticated, validateAndSavePassword, getCurrentPassword, wipeAfterFailures, setWipeAfterFailures, autoLock, setAutoLock } = useAuth();
 
   const [formState, setFormState] = useState<FormState>({
     geminiKey: data?.apiKeys?.gemini || '',
     openRouterKey: data?.apiKeys?.openRouter || '',
+    customEndpointUrl: data?.settings?.customEndpointUrl || '',
+    customEndpointKey: data?.apiKeys?.customEndpoint || '',
+    customEndpointModels: (data?.settings?.customEndpointModels || []).join('\n'),
     customPrompt: data?.settings?.customPrompt || '',
+    summarizeHistory: data?.settings?.summarizeHistory ?? false,
+    summaryModel: data?.settings?.summaryModel,
+    generationParams: toParamsForm(data?.settings?.generationParams),
+    searchIndexEnabled: data?.settings?.searchIndexEnabled ?? false,
     password: '',
   });
 
@@ -52,24 +86,42 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
     showPasswordInput: false,
     isSaving: false,
     saveError: null,
+    isDiscovering: false,
+    discoverError: null,
   });
 
   const [editKeyModal, setEditKeyModal] = useState<null | 'gemini' | 'openrouter'>(null);
   const [editKeyValue, setEditKeyValue] = useState<string>('');
   const [editKeyMasked, setEditKeyMasked] = useState<boolean>(true);
 
+  // Persona editor: null when closed, undefined persona for a new one
+  const [personaEditor, setPersonaEditor] = useState<{ persona?: Persona } | null>(null);
+  const [deletePersonaId, setDeletePersonaId] = useState<string | null>(null);
+  const [showChangePassword, setShowChangePassword] = useState<boolean>(false);
+  const [showBackup, setShowBackup] = useState<boolean>(false);
+
   // Always sync formState with context data when modal opens or data changes
   useEffect(() => {
     if (isVisible) {
       setFormState({
         geminiKey: data?.apiKeys?.gemini || '',
         openRouterKey: data?.apiKeys?.openRouter || '',
+        customEndpointUrl: data?.settings?.customEndpointUrl || '',
+        customEndpointKey: data?.apiKeys?.customEndpoint || '',
+        customEndpointModels: (data?.settings?.customEndpointModels || []).join('\n'),
         customPrompt: data?.settings?.customPrompt || '',
+        summarizeHistory: data?.settings?.summarizeHistory ?? false,
+        summaryModel: data?.settings?.summaryModel,
+        generationParams: toParamsForm(data?.settings?.generationParams),
+        searchIndexEnabled: data?.settings?.searchIndexEnabled ?? false,
         password: '',
       });
     }
   }, [isVisible, data]);
 
+  // Models offered for summaries and persona defaults
+  const availableModels: ModelOption[] = [...getDefaultModels(), ...(data?.savedModels || [])];
+
   const handleInputChange = useCallback((field: keyof FormState, value: string) => {
     setFormState(prev => ({ ...prev, [field]: value }));
   }, []);
@@ -116,9 +168,52 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
     setEditKeyMasked(true);
   };
 
+  // Fill the model list from the endpoint's /models route
+  const handleDiscoverModels = async () => {
+    if (!formState.customEndpointUrl.trim() || uiState.isDiscovering) return;
+    setUiState(prev => ({ ...prev, isDiscovering: true, discoverError: null }));
+    try {
+      const models = await discoverEndpointModels(formState.customEndpointUrl, formState.customEndpointKey.trim());
+      setFormState(prev => ({ ...prev, customEndpointModels: models.map(m => m.id).join('\n') }));
+      setUiState(prev => ({ ...prev, isDiscovering: false }));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Error discovering endpoint models:', error);
+      setUiState(prev => ({
+        ...prev,
+        isDiscovering: false,
+        discoverError: error instanceof Error ? error.message : 'Failed to fetch models.',
+      }));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  // Personas are saved immediately, independent of the Save Changes button
+  const handleDeletePersona = async () => {
+    if (!deletePersonaId) return;
+    try {
+      const password = getCurrentPassword();
+      if (!password) return;
+      await deletePersona(deletePersonaId, password);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Error deleting persona:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setDeletePersonaId(null);
+    }
+  };
+
   const handleSaveSettings = useCallback(async () => {
     if (!isAuthenticated || uiState.isSaving) return;
 
+    const { params: generationParams, error: paramsError } = parseParamsForm(formState.generationParams);
+    if (paramsError) {
+      setUiState(prev => ({ ...prev, saveError: paramsError }));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
     setUiState(prev => ({ ...prev, isSaving: true, saveError: null }));
 
     const newData = {
@@ -126,10 +221,17 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
       apiKeys: {
         gemini: formState.geminiKey.trim(),
         openRouter: formState.openRouterKey.trim(),
+        customEndpoint: formState.customEndpointKey.trim(),
       },
       settings: {
         ...data?.settings,
         customPrompt: formState.customPrompt.trim() || undefined,
+        customEndpointUrl: normalizeEndpointUrl(formState.customEndpointUrl) || undefined,
+        customEndpointModels: parseModelList(formState.customEndpointModels),
+        summarizeHistory: formState.summarizeHistory,
+        summaryModel: formState.summaryModel,
+        generationParams,
+        searchIndexEnabled: formState.searchIndexEnabled,
       },
       chatThreads: data?.chatThreads || [],
     };
@@ -145,7 +247,7 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
       }
 
       await saveData(newData, formState.password);
-      geminiService.setCustomPrompt(formState.customPrompt.trim() || undefined);
+      getProviders().forEach(provider => provider.setCustomPrompt(formState.customPrompt.trim() || undefined));
       setUiState(prev => ({
         ...prev,
         showPasswordInput: false,
@@ -157,7 +259,14 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
       setFormState({
         geminiKey: newData.apiKeys.gemini,
         openRouterKey: newData.apiKeys.openRouter,
+        customEndpointUrl: newData.settings.customEndpointUrl || '',
+        customEndpointKey: newData.apiKeys.customEndpoint,
+        customEndpointModels: newData.settings.customEndpointModels.join('\n'),
         customPrompt: newData.settings?.customPrompt || '',
+        summarizeHistory: newData.settings.summarizeHistory,
+        summaryModel: newData.settings.summaryModel,
+        generationParams: toParamsForm(newData.settings.generationParams),
+        searchIndexEnabled: newData.settings.searchIndexEnabled,
         password: '',
       });
       onClose();
@@ -178,14 +287,21 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
       ...prev,
       geminiKey: data?.apiKeys?.gemini || '',
       openRouterKey: data?.apiKeys?.openRouter || '',
+      customEndpointUrl: data?.settings?.customEndpointUrl || '',
+      customEndpointKey: data?.apiKeys?.customEndpoint || '',
+      customEndpointModels: (data?.settings?.customEndpointModels || []).join('\n'),
       customPrompt: data?.settings?.customPrompt || '',
+      summarizeHistory: data?.settings?.summarizeHistory ?? false,
+      summaryModel: data?.settings?.summaryModel,
+      generationParams: toParamsForm(data?.settings?.generationParams),
+      searchIndexEnabled: data?.settings?.searchIndexEnabled ?? false,
     }));
   }, [data]);
 
   if (!isVisible) return null;
 
   return (
-    <Modal
+    <ActivityModal
       visible={true}
       animationType="slide"
       transparent={true}
@@ -269,7 +385,7 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
                     </View>
                   </View>
 
-                  <Modal
+                  <ActivityModal
                     visible={!!editKeyModal}
                     transparent={true}
                     animationType="fade"
@@ -307,7 +423,80 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
                         </View>
                       </View>
                     </View>
-                  </Modal>
+                  </ActivityModal>
+
+                  <View className="mb-6">
+                    <Text className="text-lg font-semibold mb-2 text-text font-sans">Custom Endpoint</Text>
+                    <View className="space-y-4">
+                      <View>
+                        <Text className="text-base mb-1 text-text/80 font-sans">Base URL</Text>
+                        <View className="rounded-lg overflow-hidden bg-accent">
+                          <TextInput
+                            value={formState.customEndpointUrl}
+                            onChangeText={(value) => handleInputChange('customEndpointUrl', value)}
+                            placeholder="http://192.168.1.10:11434/v1"
+                            placeholderTextColor="#181818"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            keyboardType="url"
+                            className="px-4 py-3 text-base text-text font-sans"
+                          />
+                        </View>
+                      </View>
+                      <View>
+                        <Text className="text-base mb-1 text-text/80 font-sans">Bearer Token (optional)</Text>
+                        <View className="rounded-lg overflow-hidden bg-accent">
+                          <TextInput
+                            value={formState.customEndpointKey}
+                            onChangeText={(value) => handleInputChange('customEndpointKey', value)}
+                            placeholder="Leave empty if the server needs no token"
+                            placeholderTextColor="#181818"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            secureTextEntry
+                            className="px-4 py-3 text-base text-text font-sans"
+                          />
+                        </View>
+                      </View>
+                      <View>
+                        <View className="flex-row items-center justify-between mb-1">
+                          <Text className="text-base text-text/80 font-sans">Models</Text>
+                          <TouchableOpacity
+                            onPress={handleDiscoverModels}
+                            disabled={!formState.customEndpointUrl.trim() || uiState.isDiscovering}
+                            className={`flex-row items-center px-2 py-1 ${!formState.customEndpointUrl.trim() || uiState.isDiscovering ? 'opacity-50' : ''}`}
+                            accessibilityLabel="Discover models from endpoint"
+                          >
+                            <RefreshCw size={16} color="#61BA82" />
+                            <Text className="text-sm ml-1 text-accent font-sans">
+                              {uiState.isDiscovering ? 'Discovering...' : 'Discover'}
+                            </Text>
+                          </TouchableOpacity>
+                        </View>
+                        <View className="rounded-lg overflow-hidden bg-accent">
+                          <TextInput
+                            value={formState.customEndpointModels}
+                            onChangeText={(value) => handleInputChange('customEndpointModels', value)}
+                            placeholder="One model id per line"
+                            placeholderTextColor="#181818"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            multiline
+                            numberOfLines={3}
+                            className="px-4 py-3 text-base text-text font-sans"
+                            style={{ textAlignVertical: 'top' }}
+                          />
+                        </View>
+                        {uiState.discoverError && (
+                          <Text className="text-red-500 mt-2 font-sans">{uiState.discoverError}</Text>
+                        )}
+                        <Text className="text-sm mt-1 text-text/60 font-sans">
+                          Any server exposing an OpenAI-compatible API, such as Ollama, LM Studio or llama.cpp.
+                          Plain http:// is not encrypted, so use it only for servers on your own network.
+                        </Text>
+                      </View>
+                    </View>
+                  </View>
 
                   <View className="mb-6">
                     <Text className="text-lg font-semibold mb-2 text-text font-sans">Assistant Settings</Text>
@@ -326,11 +515,124 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
                         />
                       </View>
                       <Text className="text-sm mt-1 text-text/60 font-sans">
-                        This prompt guides the assistant's responses. Leave empty for default behavior.
+                        This prompt guides the assistant's responses in chats without a persona. Leave empty for default behavior.
+                      </Text>
+                    </View>
+                    <View className="mt-4">
+                      <View className="flex-row items-center justify-between">
+                        <Text className="text-base text-text/80 font-sans">Summarize Long Chats</Text>
+                        <Switch
+                          value={formState.summarizeHistory}
+                          onValueChange={(value) => setFormState(prev => ({ ...prev, summarizeHistory: value }))}
+                          trackColor={{ false: '#3f3f46', true: '#61BA82' }}
+                          accessibilityLabel="Summarize long chats"
+                        />
+                      </View>
+                      <Text className="text-sm mt-1 text-text/60 font-sans">
+                        Older messages that no longer fit in the model's context are replaced by a summary. You can edit it from the chat menu.
                       </Text>
+                      {formState.summarizeHistory && (
+                        <View className="mt-3">
+                          <Text className="text-base mb-1 text-text/80 font-sans">Summary Model</Text>
+                          <ModelChipSelect
+                            models={availableModels}
+                            value={formState.summaryModel}
+                            onChange={(model) => setFormState(prev => ({ ...prev, summaryModel: model }))}
+                            emptyLabel="Same as chat"
+                          />
+                        </View>
+                      )}
                     </View>
                   </View>
 
+                  <View className="mb-6">
+                    <View className="flex-row items-center justify-between mb-2">
+                      <Text className="text-lg font-semibold text-text font-sans">Personas</Text>
+                      <TouchableOpacity
+                        onPress={() => setPersonaEditor({})}
+                        className="flex-row items-center px-2 py-1"
+                        accessibilityLabel="Add persona"
+                      >
+                        <Plus size={16} color="#61BA82" />
+                        <Text className="text-sm ml-1 text-accent font-sans">Add</Text>
+                      </TouchableOpacity>
+                    </View>
+                    {(data?.personas || []).length === 0 ? (
+                      <Text className="text-sm text-text/60 font-sans">
+                        Save system prompts you use often and pick one when starting a chat.
+                      </Text>
+                    ) : (
+                      <View className="space-y-2">
+                        {(data?.personas || []).map(persona => (
+                          <View key={persona.id} className="flex-row items-center rounded-lg bg-primary px-4 py-3">
+                            <View className="flex-1 pr-2">
+                              <Text className="text-base text-text font-sans">{persona.name}</Text>
+                              <Text className="text-sm text-text/60 font-sans" numberOfLines={1}>{persona.systemPrompt}</Text>
+                            </View>
+                            <TouchableOpacity
+                              onPress={() => setPersonaEditor({ persona })}
+                              className="px-2"
+                              accessibilityLabel={`Edit persona ${persona.name}`}
+                            >
+                              <Pencil size={20} color="#61BA82" />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              onPress={() => setDeletePersonaId(persona.id)}
+                              className="px-2"
+                              accessibilityLabel={`Delete persona ${persona.name}`}
+                            >
+                              <Trash2 size={20} color="#EF4444" />
+                            </TouchableOpacity>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+                  </View>
+
+                  <PersonaEditor
+                    visible={!!personaEditor}
+                    persona={personaEditor?.persona}
+                    onClose={() => setPersonaEditor(null)}
+                  />
+                  <DeleteConfirmation
+                    isOpen={!!deletePersonaId}
+                    onClose={() => setDeletePersonaId(null)}
+                    onDelete={handleDeletePersona}
+                    title="Delete Persona"
+                    message="Chats using this persona will fall back to the custom system prompt."
+                  />
+
+                  <View className="mb-6">
+                    <Text className="text-lg font-semibold mb-2 text-text font-sans">Message Search</Text>
+                    <View className="flex-row items-center justify-between">
+                      <Text className="text-base text-text/80 font-sans">Index Message Contents</Text>
+                      <Switch
+                        value={formState.searchIndexEnabled}
+                        onValueChange={(value) => setFormState(prev => ({ ...prev, searchIndexEnabled: value }))}
+                        trackColor={{ false: '#3f3f46', true: '#61BA82' }}
+                        accessibilityLabel="Index message contents"
+                      />
+                    </View>
+                    <Text className="text-sm mt-1 text-text/60 font-sans">
+                      Lets you search the text of all chats. The index stores keyed hashes of words, not the words, and is deleted when turned off.
+                    </Text>
+                  </View>
+
+                  <View className="mb-6">
+                    <Text className="text-lg font-semibold mb-2 text-text font-sans">Generation Defaults</Text>
+                    <GenerationParamsFields
+                      value={formState.generationParams}
+                      onChange={(value) => setFormState(prev => ({ ...prev, generationParams: value }))}
+                      defaults={DEFAULT_GENERATION_PARAMS}
+                    />
+                    <Text className="text-sm mt-1 text-text/60 font-sans">
+                      Used by every chat unless changed in the chat's own settings.
+                    </Text>
+                    {uiState.saveError && !uiState.showPasswordInput && (
+                      <Text className="text-red-500 mt-2 font-sans">{uiState.saveError}</Text>
+                    )}
+                  </View>
+
                   {uiState.showPasswordInput && (
                     <View className="mb-6">
                       <Text className="text-lg font-semibold mb-2 text-text font-sans">Confirm Changes</Text>
@@ -370,6 +672,80 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
                       {uiState.isSaving ? 'Saving...' : 'Save Changes'}
                     </Text>
                   </TouchableOpacity>
+
+                  <View className="mt-6">
+                    <Text className="text-lg font-semibold mb-2 text-text font-sans">Security</Text>
+                    <TouchableOpacity
+                      onPress={() => setShowChangePassword(true)}
+                      className="flex-row items-center rounded-lg bg-primary px-4 py-3"
+                      accessibilityLabel="Change password"
+                    >
+                      <KeyRound size={20} color="#61BA82" />
+                      <Text className="text-base ml-2 text-text font-sans">Change Password</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => setShowBackup(true)}
+                      className="flex-row items-center rounded-lg bg-primary px-4 py-3 mt-2"
+                      accessibilityLabel="Back up data"
+                    >
+                      <DatabaseBackup size={20} color="#61BA82" />
+                      <Text className="text-base ml-2 text-text font-sans">Back Up Data</Text>
+                    </TouchableOpacity>
+                    <Text className="text-base mt-4 mb-1 text-text/80 font-sans">Auto-lock</Text>
+                    <View className="flex-row flex-wrap">
+                      {AUTO_LOCK_OPTIONS.map(option => {
+                        const selected = option.id === autoLock.id;
+                        return (
+                          <TouchableOpacity
+                            key={option.id}
+                            onPress={() => setAutoLock(option).catch(err => {
+                              console.error('Error saving auto-lock setting:', err);
+                            })}
+                            className={`px-3 py-2 mr-2 mb-2 rounded-lg ${selected ? 'bg-accent' : 'bg-primary'}`}
+                            accessibilityLabel={`Auto-lock: ${option.label}`}
+                          >
+                            <Text className={`text-sm font-sans ${selected ? 'text-primary' : 'text-text'}`}>
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <Text className="text-sm text-text/60 font-sans">
+                      Locking forgets your password and decrypted chats; the open chat returns after you log in again.
+                    </Text>
+                    <Text className="text-base mt-4 mb-1 text-text/80 font-sans">Delete all data after failed logins</Text>
+                    <View className="flex-row flex-wrap">
+                      {[null, ...WIPE_AFTER_OPTIONS].map(option => {
+                        const selected = option === wipeAfterFailures;
+                        return (
+                          <TouchableOpacity
+                            key={option ?? 'off'}
+                            onPress={() => setWipeAfterFailures(option).catch(err => {
+                              console.error('Error saving wipe setting:', err);
+                            })}
+                            className={`px-3 py-2 mr-2 mb-2 rounded-lg ${selected ? 'bg-accent' : 'bg-primary'}`}
+                            accessibilityLabel={option ? `Delete all data after ${option} failed logins` : 'Never delete data after failed logins'}
+                          >
+                            <Text className={`text-sm font-sans ${selected ? 'text-primary' : 'text-text'}`}>
+                              {option ? `${option} attempts` : 'Off'}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <Text className="text-sm text-text/60 font-sans">
+                      Repeated failed logins also lock the login for increasing periods.
+                    </Text>
+                  </View>
+                  <ChangePasswordSheet
+                    visible={showChangePassword}
+                    onClose={() => setShowChangePassword(false)}
+                  />
+                  <BackupSheet
+                    visible={showBackup}
+                    onClose={() => setShowBackup(false)}
+                  />
                 </>
               )}
 
@@ -381,6 +757,6 @@ export function Settings({ isVisible, onClose }: SettingsProps) {
           </View>
         </View>
       </SafeAreaView>
-    </Modal>
+    </ActivityModal>
   );
 }
\ No newline at end of file
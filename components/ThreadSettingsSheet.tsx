@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Switch } from 'react-native';
+import { ActivityModal } from './ActivityModal';
+import { X, Save, RotateCcw } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useData } from '../context/dataContext';
+import { useAuth } from '../hooks/useAuth';
+import { GenerationParamsFields } from './GenerationParamsFields';
+import {
+  GenerationParamsForm,
+  parseParamsForm,
+  resolveGenerationParams,
+  toParamsForm
+} from '../services/generationParams';
+import { parseJsonSchema } from '../utils/jsonSchema';
+
+// Shown in the empty schema field
+const SCHEMA_PLACEHOLDER = '{\n  "type": "object",\n  "properties": {\n    "title": { "type": "string" }\n  },\n  "required": ["title"]\n}';
+
+interface ThreadSettingsSheetProps {
+  visible: boolean;
+  threadId?: string;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for the generation parameters and JSON mode of a single chat
+ * Empty fields inherit the persona's defaults, then the global defaults from Settings.
+ */
+export function ThreadSettingsSheet({ visible, threadId, onClose }: ThreadSettingsSheetProps) {
+  const { data, updateThreadParams, updateThreadJsonSchema } = useData();
+  const { getCurrentPassword } = useAuth();
+  const thread = data?.chatThreads.find(t => t.id === threadId);
+  const persona = data?.personas?.find(p => p.id === thread?.personaId);
+
+  const [form, setForm] = useState<GenerationParamsForm>(toParamsForm(thread?.params));
+  const [jsonMode, setJsonMode] = useState<boolean>(Boolean(thread?.jsonSchema));
+  const [schemaText, setSchemaText] = useState<string>(thread?.jsonSchema ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Load the thread's values whenever the sheet opens or they change; params are compared by value,
+  // since reloading the threads parses them into new objects
+  const savedParams = JSON.stringify(thread?.params ?? null);
+  const savedSchema = thread?.jsonSchema;
+  useEffect(() => {
+    if (visible) {
+      setForm(toParamsForm(JSON.parse(savedParams) ?? undefined));
+      setJsonMode(Boolean(savedSchema));
+      setSchemaText(savedSchema ?? '');
+      setError(null);
+    }
+  }, [visible, threadId, savedParams, savedSchema]);
+
+  const handleSave = async () => {
+    if (!threadId || isSaving) return;
+    const { params, error: parseError } = parseParamsForm(form);
+    if (parseError) {
+      setError(parseError);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+    if (jsonMode) {
+      try {
+        parseJsonSchema(schemaText);
+      } catch (schemaError) {
+        setError(schemaError instanceof Error ? schemaError.message : 'The schema is not valid.');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+    }
+
+    const password = getCurrentPassword();
+    if (!password) return;
+
+    setIsSaving(true);
+    try {
+      await updateThreadParams(threadId, params, password);
+      await updateThreadJsonSchema(threadId, jsonMode ? schemaText.trim() : undefined, password);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (saveError) {
+      console.error('Error saving chat settings:', saveError);
+      setError('Failed to save chat settings.');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setForm(toParamsForm(undefined));
+    setError(null);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  return (
+    <ActivityModal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/50 font-sans">
+        <View className="rounded-t-2xl bg-background w-full max-h-[90%] pb-2">
+          <View className="px-4 py-3 border-b border-primary flex-row justify-between items-center">
+            <Text className="text-xl font-bold text-text font-sans">Chat Settings</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-2 rounded-full bg-accent"
+              accessibilityLabel="Close chat settings"
+            >
+              <X size={24} color="#181818" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView className="px-4 py-4">
+            <GenerationParamsFields
+              value={form}
+              onChange={setForm}
+              defaults={resolveGenerationParams(data?.settings?.generationParams, persona?.defaultParams)}
+            />
+            <View className="mt-6">
+              <View className="flex-row items-center justify-between">
+                <Text className="text-base text-text/80 font-sans">JSON Mode</Text>
+                <Switch
+                  value={jsonMode}
+                  onValueChange={setJsonMode}
+                  trackColor={{ false: '#3f3f46', true: '#61BA82' }}
+                  accessibilityLabel="JSON mode"
+                />
+              </View>
+              <Text className="text-sm mt-1 text-text/60 font-sans">
+                Answers are JSON following the schema below. Output that does not match is sent back to the model once to be fixed. Gemini models cannot use tools in JSON mode.
+              </Text>
+              {jsonMode && (
+                <View className="rounded-lg overflow-hidden bg-accent mt-2">
+                  <TextInput
+                    value={schemaText}
+                    onChangeText={setSchemaText}
+                    placeholder={SCHEMA_PLACEHOLDER}
+                    placeholderTextColor="#18181880"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    multiline
+                    numberOfLines={8}
+                    className="px-4 py-3 text-sm text-text"
+                    style={{ textAlignVertical: 'top', fontFamily: 'monospace', minHeight: 160 }}
+                    accessibilityLabel="JSON Schema"
+                  />
+                </View>
+              )}
+            </View>
+            {error && (
+              <Text className="text-red-500 mt-2 font-sans">{error}</Text>
+            )}
+
+            <View className="flex-row mt-6 mb-4 space-x-3">
+              <TouchableOpacity
+                onPress={handleReset}
+                className="flex-1 flex-row items-center justify-center py-3 px-4 rounded-lg bg-primary"
+                accessibilityLabel="Use default settings"
+              >
+                <RotateCcw size={20} color="#61BA82" />
+                <Text className="text-text font-semibold ml-2 font-sans">Use Defaults</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleSave}
+                disabled={isSaving || !threadId}
+                className={`flex-1 flex-row items-center justify-center py-3 px-4 rounded-lg bg-accent ${isSaving || !threadId ? 'opacity-50' : ''}`}
+                accessibilityLabel="Save chat settings"
+              >
+                <Save size={20} color="#181818" />
+                <Text className="text-primary font-semibold ml-2 font-sans">
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </ActivityModal>
+  );
+}
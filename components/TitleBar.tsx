@@ -1,7 +1,8 @@
 import { Menu, Settings, Sun, Moon, DoorOpen, Ellipsis, ChevronDown, Blinds } from 'lucide-react-native'
 import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth'
-import { SafeAreaView, Platform, StatusBar, View, Text, TouchableOpacity, Modal, Pressable } from 'react-native'
+import { SafeAreaView, Platform, StatusBar, View, Text, TouchableOpacity, Pressable } from 'react-native'
+import { ActivityModal } from './ActivityModal'
 import { globalEventEmitter } from '@/utils/event';
 
 interface TitleBarProps {
@@ -69,7 +70,7 @@ export function TitleBar({
             >
               <Ellipsis size={24} color="#61BA82" />
             </TouchableOpacity>
-            <Modal
+            <ActivityModal
               visible={menuVisible}
               transparent
               animationType="fade"
@@ -107,7 +108,7 @@ export function TitleBar({
                   </Pressable>
                 </View>
               </Pressable>
-            </Modal>
+            </ActivityModal>
           </View>
         </View>
       </SafeAreaView>
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ *
+ * Checks which message rows a thread save writes
+ */
+import { diffMessageRows } from '../dataContext';
+import type { MessageRow } from '../../database/init';
+
+const row = (id: string, overrides: Partial<MessageRow> = {}): MessageRow => ({
+    id,
+    isUser: id.startsWith('u'),
+    text: `salt::${id}`,
+    timestamp: 1700000000000,
+    model: null,
+    parentId: null,
+    isActiveVariant: true,
+    type: 'text',
+    ...overrides
+});
+
+const storedRows = (rows: MessageRow[]) => new Map(rows.map(stored => [stored.id, stored]));
+
+describe('diffMessageRows', () => {
+    it('reports nothing when the rows are unchanged', () => {
+        const rows = [row('u1'), row('a1', { parentId: 'u1' })];
+
+        expect(diffMessageRows(storedRows(rows), rows.map(stored => ({ ...stored })))).toEqual({
+            added: [],
+            updated: [],
+            deletedIds: []
+        });
+    });
+
+    it('adds rows that were never written', () => {
+        const stored = storedRows([row('u1')]);
+        const reply = row('a1', { parentId: 'u1' });
+
+        const changes = diffMessageRows(stored, [row('u1'), reply]);
+
+        expect(changes.added).toEqual([reply]);
+        expect(changes.updated).toEqual([]);
+        expect(changes.deletedIds).toEqual([]);
+    });
+
+    it.each([
+        ['text', { text: 'salt::edited' }],
+        ['timestamp', { timestamp: 1700000000001 }],
+        ['model', { model: 'Gemini 2.0 Flash' }],
+        ['parent', { parentId: 'u0' }],
+        ['selected variant', { isActiveVariant: false }]
+    ])('updates a row whose %s changed', (_, change: Partial<MessageRow>) => {
+        const stored = storedRows([row('u1'), row('a1')]);
+        const changed = row('a1', change);
+
+        const changes = diffMessageRows(stored, [row('u1'), changed]);
+
+        expect(changes.updated).toEqual([changed]);
+        expect(changes.added).toEqual([]);
+        expect(changes.deletedIds).toEqual([]);
+    });
+
+    it('deletes stored rows that are no longer in the thread', () => {
+        const stored = storedRows([row('u1'), row('a1'), row('u2'), row('a2')]);
+
+        const changes = diffMessageRows(stored, [row('u1'), row('a1')]);
+
+        expect(changes.deletedIds).toEqual(['u2', 'a2']);
+        expect(changes.added).toEqual([]);
+        expect(changes.updated).toEqual([]);
+    });
+
+    it('reports additions, updates and deletions of one save together', () => {
+        const stored = storedRows([row('u1'), row('a1'), row('a2')]);
+        const edited = row('a1', { text: 'salt::regenerated' });
+        const added = row('u2', { parentId: 'a1' });
+
+        expect(diffMessageRows(stored, [row('u1'), edited, added])).toEqual({
+            added: [added],
+            updated: [edited],
+            deletedIds: ['a2']
+        });
+    });
+});
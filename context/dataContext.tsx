@@ -1,18 +1,43 @@
-import React, { createContext, useContext, useState } from 'react';
-import { DatabaseService, Message as DbMessage, ChatThread as DbChatThread, Settings } from '../database/init';
+import React, { createContext, useContext, useRef, useState } from 'react';
+import { DatabaseService, MessageRow, MessageChanges, MessageOutline, MessageSearchResult, THREAD_PREVIEW_LENGTH, BackupData, RestoreMode } from '../database/init';
 import { initializeDatabase } from '../database/init';
+import { GenerationParams, ModelOption } from '../services/llmProvider';
+import { getSelectedPath } from '../services/messageTree';
+import type { PreparedImport } from '../services/conversationImport';
+import * as Crypto from 'expo-crypto';
+
+export type { MessageSearchResult };
 
 // Interface definitions for the app's data model
+export interface MessageAttachment {
+    id: string;
+    mimeType: string;
+    name?: string;
+    data: string;           // Base64 content of images; text files hold their text
+    width?: number;         // Pixel size of images
+    height?: number;
+}
+
+// Steps of a response that used tools, stored as messages between the prompt and the answer
+export type ToolStepType = 'toolCall' | 'toolResult';
+
 export interface Message {
+    id: string;
     isUser: boolean;
     text: string;
     timestamp: number;
+    model?: string;         // Display name of the model that wrote an assistant message
+    parentId?: string;      // Message this one continues; unset for the first message
+    isSelected?: boolean;   // Branch messages only: the sibling followed when switching to the branch
+    attachments?: MessageAttachment[];
+    type?: ToolStepType;    // Unset for prompts and answers
 }
 
 export interface ChatThread {
     id: string;
     title: string;
-    messages: Message[];
+    preview?: string;           // Start of the newest message, for the thread list
+    messageCount: number;       // Messages in all branches
     createdAt: number;
     updatedAt: number;
     model: {
@@ -20,32 +45,236 @@ export interface ChatThread {
         displayName: string;
         provider: string;
     };
+    summary?: string;           // Rolling summary of messages outside the context window
+    summarizedCount?: number;   // Number of leading messages covered by the summary
+    params?: GenerationParams;  // Overrides of the global generation defaults
+    personaId?: string;         // Persona supplying the system prompt
+    jsonSchema?: string;        // JSON mode: schema the answers must follow
+}
+
+/**
+ * The loaded part of the open thread
+ * Messages are loaded from the end of the selected path, a page at a time.
+ */
+export interface ThreadMessages {
+    threadId: string;
+    messages: Message[];        // Loaded end of the selected path
+    branches: Message[];        // Messages of the other branches that fork off the loaded messages
+    olderCount: number;         // Messages of the selected path before the loaded ones
+}
+
+export interface Persona {
+    id: string;
+    name: string;
+    systemPrompt: string;
+    defaultModel?: ModelOption;
+    defaultParams?: GenerationParams;
 }
 
 export interface AppData {
     apiKeys: {
         gemini: string;
         openRouter: string;
+        customEndpoint: string;
     };
     chatThreads: ChatThread[];
-    openRouterModels?: string[];
+    openThread?: ThreadMessages;
+    personas?: Persona[];
+    savedModels?: ModelOption[];
     activeThreadId?: string;
     settings?: {
         customPrompt?: string;
+        customEndpointUrl?: string;
+        customEndpointModels?: string[];
+        summarizeHistory?: boolean;
+        summaryModel?: ModelOption;
+        generationParams?: GenerationParams;
+        searchIndexEnabled?: boolean;
     };
 }
 
 interface DataContextType {
     data: AppData | null;
+    hasDataKey: () => Promise<boolean>;
     loadData: (password: string) => Promise<void>;
     saveData: (newData: AppData, password: string) => Promise<void>;
-    createChatThread: (password: string, model: { id: string; displayName: string; provider: string }) => Promise<string>;
-    updateChatThread: (threadId: string, messages: Message[], password: string) => Promise<void>;
+    createChatThread: (password: string, model: { id: string; displayName: string; provider: string }, personaId?: string) => Promise<string>;
+    updateChatThread: (threadId: string, messages: Message[], password: string, branches?: Message[]) => Promise<void>;
+    forkChatThread: (threadId: string, messages: Message[], password: string) => Promise<string>;
+    updateThreadSummary: (threadId: string, summary: string, summarizedCount: number, password: string) => Promise<void>;
+    updateThreadParams: (threadId: string, params: GenerationParams | undefined, password: string) => Promise<void>;
+    updateThreadJsonSchema: (threadId: string, jsonSchema: string | undefined, password: string) => Promise<void>;
     setActiveThread: (threadId: string, password: string) => Promise<void>;
+    savePersona: (persona: Persona, password: string) => Promise<void>;
+    deletePersona: (personaId: string, password: string) => Promise<void>;
     deleteChatThread: (threadId: string, password: string) => Promise<void>;
-    setActiveThreadInMemory: (threadId: string) => void;
-    updateChatThreadInMemory: (threadId: string, messages: Message[]) => void;
+    renameChatThread: (threadId: string, title: string, password: string) => Promise<void>;
+    openChatThread: (threadId: string) => Promise<ThreadMessages>;
+    loadEarlierMessages: (threadId: string, all?: boolean) => Promise<{ messages: Message[]; branches: Message[] }>;
+    getThreadMessages: (threadId: string) => Promise<{ messages: Message[]; branches: Message[] }>;
+    importChatThreads: (imports: PreparedImport[], password: string) => Promise<void>;
+    getImportSources: () => Promise<Set<string>>;
+    getBackupData: (includeApiKeys: boolean) => Promise<BackupData>;
+    restoreBackup: (backup: BackupData, mode: RestoreMode, password: string) => Promise<void>;
+    updateChatThreadInMemory: (threadId: string, messages: Message[], branches?: Message[]) => void;
     deleteChatThreadInMemory: (threadId: string) => void;
+    changeEncryptionPassword: (currentPassword: string, newPassword: string) => Promise<void>;
+    clearData: () => void;
+    searchMessages: (search: string, limit?: number) => Promise<MessageSearchResult[]>;
+}
+
+/**
+ * Parses the stored list of user-added models.
+ * Older versions stored bare OpenRouter model ids, which are mapped to OpenRouter models.
+ */
+function parseSavedModels(raw?: string): ModelOption[] {
+    if (!raw) return [];
+    try {
+        const entries: (string | ModelOption)[] = JSON.parse(raw);
+        return entries.map(entry => typeof entry === 'string'
+            ? { id: entry, displayName: entry, provider: 'openrouter' }
+            : entry);
+    } catch (error) {
+        console.error('Error parsing saved models:', error);
+        return [];
+    }
+}
+
+// Messages of the selected path loaded at a time
+const MESSAGE_PAGE_SIZE = 30;
+
+// A message's place in its thread, before its text is loaded
+type MessageNode = Omit<Message, 'text'>;
+
+/**
+ * Splits stored rows into the selected path and the other branches.
+ * Rows saved before branching have no parent ids and are chained in order;
+ * an unselected regenerated response becomes a sibling of the selected one.
+ */
+function buildMessageTree(rows: MessageOutline[]): { messages: MessageNode[]; branches: MessageNode[] } {
+    const isLegacy = rows.every(row => !row.parentId);
+    let lastSelected: MessageNode | undefined;
+    const nodes: MessageNode[] = rows.map(row => {
+        const node: MessageNode = {
+            id: row.id,
+            isUser: row.isUser,
+            timestamp: row.timestamp,
+            model: row.model || undefined,
+            parentId: row.parentId || undefined,
+            isSelected: row.isActiveVariant,
+            ...(row.type !== 'text' ? { type: row.type as ToolStepType } : {})
+        };
+        if (isLegacy) {
+            const isSibling = !row.isActiveVariant && lastSelected?.isUser === row.isUser;
+            node.parentId = isSibling ? lastSelected?.parentId : lastSelected?.id;
+            if (row.isActiveVariant) lastSelected = node;
+        }
+        return node;
+    });
+
+    const messages = getSelectedPath(nodes).map(({ isSelected, ...message }) => message);
+    const onPath = new Set(messages.map(message => message.id));
+    return { messages, branches: nodes.filter(node => !onPath.has(node.id)) };
+}
+
+// Messages with their loaded texts and attachments
+function withContents(nodes: MessageNode[], rows: MessageRow[]): Message[] {
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return nodes.map(node => {
+        const row = byId.get(node.id);
+        const attachments = row?.attachments?.map(attachment => ({
+            id: attachment.id,
+            mimeType: attachment.mimeType,
+            name: attachment.name ?? undefined,
+            data: attachment.data,
+            width: attachment.width ?? undefined,
+            height: attachment.height ?? undefined
+        }));
+        return { ...node, text: row?.text ?? '', ...(attachments ? { attachments } : {}) };
+    });
+}
+
+/**
+ * Position in the selected path at which each branch message's branch starts, by message id
+ * Branch messages are loaded with the page that holds their branch's first sibling on the path.
+ */
+function getForkIndexes(path: MessageNode[], branches: MessageNode[]): Map<string, number> {
+    const pathIndexes = new Map(path.map((node, index) => [node.id, index]));
+    const byId = new Map(branches.map(node => [node.id, node]));
+    const forks = new Map<string, number>();
+
+    const findFork = (node: MessageNode): number => {
+        const known = forks.get(node.id);
+        if (known !== undefined) return known;
+        const parentIndex = node.parentId ? pathIndexes.get(node.parentId) : -1;
+        const parent = node.parentId ? byId.get(node.parentId) : undefined;
+        // Messages whose parent is gone are kept with the last page
+        const fork = parentIndex !== undefined ? parentIndex + 1
+            : parent ? findFork(parent)
+            : Math.max(0, path.length - 1);
+        forks.set(node.id, fork);
+        return fork;
+    };
+    branches.forEach(findFork);
+    return forks;
+}
+
+/**
+ * Rows for the selected path and the other branches
+ */
+function flattenMessageTree(messages: Message[], branches: Message[]): MessageRow[] {
+    return [
+        ...messages.map(message => ({ ...message, isSelected: true })),
+        ...branches
+    ].map(message => ({
+        id: message.id,
+        isUser: message.isUser,
+        text: message.text,
+        timestamp: message.timestamp,
+        model: message.model ?? null,
+        parentId: message.parentId ?? null,
+        isActiveVariant: message.isSelected ?? false,
+        type: message.type ?? 'text',
+        ...(message.attachments?.length ? {
+            attachments: message.attachments.map(attachment => ({
+                id: attachment.id,
+                mimeType: attachment.mimeType,
+                name: attachment.name ?? null,
+                data: attachment.data,
+                width: attachment.width ?? null,
+                height: attachment.height ?? null
+            }))
+        } : {})
+    }));
+}
+
+/**
+ * Compares a thread's rows with the ones last written, so a save only writes what changed
+ * Attachments are not compared: they are written with their message and never change.
+ */
+export function diffMessageRows(stored: Map<string, MessageRow>, rows: MessageRow[]): MessageChanges {
+    const changes: MessageChanges = { added: [], updated: [], deletedIds: [] };
+    const ids = new Set(rows.map(row => row.id));
+
+    for (const row of rows) {
+        const previous = stored.get(row.id);
+        if (!previous) {
+            changes.added.push(row);
+        } else if (
+            previous.text !== row.text ||
+            previous.timestamp !== row.timestamp ||
+            previous.model !== row.model ||
+            previous.parentId !== row.parentId ||
+            previous.isActiveVariant !== row.isActiveVariant
+        ) {
+            changes.updated.push(row);
+        }
+    }
+    stored.forEach((_, id) => {
+        if (!ids.has(id)) changes.deletedIds.push(id);
+    });
+
+    return changes;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -53,43 +282,138 @@ const DataContext = createContext<DataContextType | undefined>(undefined);
 export function DataProvider({ children }: { children: React.ReactNode }) {
     const [data, setData] = useState<AppData | null>(null);
     const [dbService] = useState(() => new DatabaseService());
+    // Loaded message rows as last written, per thread
+    const storedMessages = useRef(new Map<string, Map<string, MessageRow>>());
+    // Message tree of the open thread and the first loaded position of its path
+    const openOutline = useRef<{ threadId: string; messages: MessageNode[]; branches: MessageNode[]; loadedFrom: number } | null>(null);
+    // Earlier pages load one after another, so each starts where the previous one stopped
+    const pageQueue = useRef<Promise<unknown>>(Promise.resolve());
+
+    /**
+     * Persists a thread's loaded messages, writing only the rows that differ from the stored ones
+     * Rows that were never loaded are not part of the comparison and stay as they are.
+     */
+    const saveThreadMessages = async (threadId: string, rows: MessageRow[]): Promise<MessageChanges> => {
+        const stored = storedMessages.current.get(threadId);
+        if (!stored) throw new Error('Thread messages are not loaded');
+        const changes = diffMessageRows(stored, rows);
+        await dbService.applyMessageChanges(threadId, changes);
+        storedMessages.current.set(threadId, new Map(rows.map(row => [row.id, row])));
+        return changes;
+    };
+
+    /**
+     * Loads the texts of the open thread's path messages from `start` to `end` and of the branches forking off them
+     */
+    const loadMessagePage = async (threadId: string, start: number, end: number): Promise<{ messages: Message[]; branches: Message[] }> => {
+        const outline = openOutline.current;
+        if (!outline || outline.threadId !== threadId) throw new Error('Thread is not open');
+
+        const forks = getForkIndexes(outline.messages, outline.branches);
+        const pathNodes = outline.messages.slice(start, end);
+        const branchNodes = outline.branches.filter(node => {
+            const fork = forks.get(node.id) ?? 0;
+            return fork >= start && fork < end;
+        });
+        const rows = await dbService.getMessagesByIds(threadId, [...pathNodes, ...branchNodes].map(node => node.id));
+
+        const stored = storedMessages.current.get(threadId) ?? new Map<string, MessageRow>();
+        rows.forEach(row => stored.set(row.id, row));
+        storedMessages.current.set(threadId, stored);
+
+        return { messages: withContents(pathNodes, rows), branches: withContents(branchNodes, rows) };
+    };
+
+    /**
+     * Loads a thread's message tree and the last page of its selected path
+     * Only the loaded messages are kept for comparing on save; other threads' snapshots are dropped.
+     */
+    const loadThreadMessages = async (threadId: string): Promise<ThreadMessages> => {
+        const rows = await dbService.getMessageOutline(threadId);
+        const tree = buildMessageTree(rows);
+        // Threads saved before branching get their links stored, so every page links the same way
+        if (rows.length > 1 && rows.every(row => !row.parentId)) {
+            await dbService.linkMessages(threadId, [...tree.messages, ...tree.branches].map(node => ({
+                id: node.id,
+                parentId: node.parentId ?? null
+            })));
+        }
+
+        const olderCount = Math.max(0, tree.messages.length - MESSAGE_PAGE_SIZE);
+        openOutline.current = { threadId, ...tree, loadedFrom: olderCount };
+        storedMessages.current = new Map([[threadId, new Map()]]);
+        const page = await loadMessagePage(threadId, olderCount, tree.messages.length);
+        return { threadId, ...page, olderCount };
+    };
+
+    /**
+     * Whether the database stores a data key, which loadData checks the password against
+     */
+    const hasDataKey = async () => {
+        await initializeDatabase();
+        return await dbService.hasDataKey();
+    };
 
     const loadData = async (password: string) => {
         try {
             await initializeDatabase();
-            // Set password for database operations
-            dbService.setPassword(password);
+            // Derive the encryption key for database operations
+            await dbService.unlock(password);
             
             const threads = await dbService.getAllChatThreads();
+            const previews = await dbService.getThreadPreviews();
+            const personas = await dbService.getAllPersonas();
             const settings = await dbService.getSettings();
-            const geminiKey = await dbService.getApiKey('gemini', password);
-            const openRouterKey = await dbService.getApiKey('openRouter', password);
+            const geminiKey = await dbService.getApiKey('gemini');
+            const openRouterKey = await dbService.getApiKey('openRouter');
+            const customEndpointKey = await dbService.getApiKey('customEndpoint');
+
+            // Only the active thread's last page of messages is loaded
+            const activeThreadId = threads.find(t => t.isActive)?.id;
+            const openThread = activeThreadId ? await loadThreadMessages(activeThreadId) : undefined;
 
             const appData: AppData = {
                 chatThreads: threads.map(thread => ({
                     id: thread.id,
                     title: thread.title,
-                    messages: thread.messages.map(msg => ({
-                        isUser: msg.isUser,
-                        text: msg.text,
-                        timestamp: msg.timestamp
-                    })),
+                    preview: previews.get(thread.id)?.text,
+                    messageCount: previews.get(thread.id)?.messageCount ?? 0,
                     createdAt: thread.createdAt.getTime(),
                     updatedAt: thread.updatedAt.getTime(),
                     model: {
                         id: thread.modelId,
                         displayName: thread.modelDisplayName,
                         provider: thread.modelProvider
-                    }
+                    },
+                    summary: thread.summary || undefined,
+                    summarizedCount: thread.summarizedCount,
+                    params: thread.generationParams ? JSON.parse(thread.generationParams) : undefined,
+                    personaId: thread.personaId || undefined,
+                    jsonSchema: thread.jsonSchema || undefined
+                })),
+                openThread,
+                personas: personas.map(persona => ({
+                    id: persona.id,
+                    name: persona.name,
+                    systemPrompt: persona.systemPrompt,
+                    defaultModel: persona.defaultModel ? JSON.parse(persona.defaultModel) : undefined,
+                    defaultParams: persona.defaultParams ? JSON.parse(persona.defaultParams) : undefined
                 })),
                 apiKeys: {
                     gemini: geminiKey || '',
-                    openRouter: openRouterKey || ''
+                    openRouter: openRouterKey || '',
+                    customEndpoint: customEndpointKey || ''
                 },
-                activeThreadId: threads.find(t => t.isActive)?.id,
-                openRouterModels: settings.openRouterModels ? JSON.parse(settings.openRouterModels) : [],
+                activeThreadId,
+                savedModels: parseSavedModels(settings.openRouterModels),
                 settings: {
-                    customPrompt: settings.customPrompt
+                    customPrompt: settings.customPrompt,
+                    customEndpointUrl: settings.customEndpointUrl,
+                    customEndpointModels: settings.customEndpointModels ? JSON.parse(settings.customEndpointModels) : [],
+                    summarizeHistory: settings.summarizeHistory,
+                    summaryModel: settings.summaryModel ? JSON.parse(settings.summaryModel) : undefined,
+                    generationParams: settings.generationParams ? JSON.parse(settings.generationParams) : undefined,
+                    searchIndexEnabled: settings.searchIndexEnabled
                 }
             };
 
@@ -104,28 +428,30 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     const saveData = async (newData: AppData, password: string) => {
         try {
             // Save API keys
-            await dbService.setApiKey('gemini', newData.apiKeys.gemini, password);
-            await dbService.setApiKey('openRouter', newData.apiKeys.openRouter, password);
+            await dbService.setApiKey('gemini', newData.apiKeys.gemini);
+            await dbService.setApiKey('openRouter', newData.apiKeys.openRouter);
+            await dbService.setApiKey('customEndpoint', newData.apiKeys.customEndpoint);
 
             // Update settings
             await dbService.updateSettings({
                 customPrompt: newData.settings?.customPrompt,
-                openRouterModels: JSON.stringify(newData.openRouterModels || [])
+                openRouterModels: JSON.stringify(newData.savedModels || []),
+                customEndpointUrl: newData.settings?.customEndpointUrl,
+                customEndpointModels: JSON.stringify(newData.settings?.customEndpointModels || []),
+                summarizeHistory: newData.settings?.summarizeHistory ?? false,
+                summaryModel: newData.settings?.summaryModel ? JSON.stringify(newData.settings.summaryModel) : null,
+                generationParams: newData.settings?.generationParams ? JSON.stringify(newData.settings.generationParams) : null
             });
 
+            // Build or empty the search index when it is switched
+            const searchIndexEnabled = newData.settings?.searchIndexEnabled ?? false;
+            if (searchIndexEnabled !== (data?.settings?.searchIndexEnabled ?? false)) {
+                await dbService.setSearchIndexEnabled(searchIndexEnabled);
+            }
+
             // Update active thread
-            if (data?.activeThreadId !== newData.activeThreadId) {
-                // Reset all active states
-                const threads = await dbService.getAllChatThreads();
-                for (const thread of threads) {
-                    if (thread.isActive) {
-                        await dbService.updateChatThread(thread.id, { isActive: false });
-                    }
-                }
-                // Set new active thread
-                if (newData.activeThreadId) {
-                    await dbService.updateChatThread(newData.activeThreadId, { isActive: true });
-                }
+            if (newData.activeThreadId && data?.activeThreadId !== newData.activeThreadId) {
+                await dbService.setActiveThread(newData.activeThreadId);
             }
 
             setData(newData);
@@ -135,50 +461,54 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
         }
     };
 
-    const createChatThread = async (password: string, model: { id: string; displayName: string; provider: string }): Promise<string> => {
-        const thread = await dbService.createChatThread('New Chat', model);
+    const createChatThread = async (password: string, model: { id: string; displayName: string; provider: string }, personaId?: string): Promise<string> => {
+        const thread = await dbService.createChatThread('New Chat', model, personaId);
         
         // Update the in-memory state
         const newThread: ChatThread = {
             id: thread.id,
             title: thread.title,
-            messages: [],
+            messageCount: 0,
             createdAt: thread.createdAt.getTime(),
             updatedAt: thread.updatedAt.getTime(),
             model: {
                 id: thread.modelId,
                 displayName: thread.modelDisplayName,
                 provider: thread.modelProvider
-            }
+            },
+            personaId
         };
+        openOutline.current = { threadId: thread.id, messages: [], branches: [], loadedFrom: 0 };
+        storedMessages.current = new Map([[thread.id, new Map()]]);
 
         setData(prev => {
             if (!prev) return prev;
             return {
                 ...prev,
                 chatThreads: [...prev.chatThreads, newThread],
-                activeThreadId: thread.id
+                activeThreadId: thread.id,
+                openThread: { threadId: thread.id, messages: [], branches: [], olderCount: 0 }
             };
         });
 
         return thread.id;
     };
 
-    const updateChatThread = async (threadId: string, messages: Message[], password: string) => {
+    const updateChatThread = async (threadId: string, messages: Message[], password: string, branches?: Message[]) => {
         // Update messages in the database
-        const thread = await dbService.getChatThread(threadId);
+        const thread = await dbService.getChatThreadInfo(threadId);
         if (!thread) throw new Error('Thread not found');
 
-        // Clear existing messages and add new ones
-        thread.messages = [];
-        for (const msg of messages) {
-            await dbService.addMessage(threadId, msg);
-        }
+        // Branches are kept unless new ones are given
+        const openBranches = data?.openThread?.threadId === threadId ? data.openThread.branches : [];
+        const threadBranches = branches ?? openBranches;
+        const changes = await saveThreadMessages(threadId, flattenMessageTree(messages, threadBranches));
 
-        // Update the thread's title if it's a new chat
-        if (thread.title === 'New Chat' && messages.length >= 2) {
+        // Update the thread's title if it's a new chat whose first messages are loaded
+        let title = thread.title;
+        if (thread.title === 'New Chat' && messages.length >= 2 && !messages[0].parentId) {
             const firstUserMessage = messages.find(m => m.isUser)?.text || '';
-            let title = firstUserMessage
+            title = firstUserMessage
                 .split('\n')[0]
                 .replace(/^[#\s]+/, '')
                 .substring(0, 50);
@@ -198,11 +528,123 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
             await dbService.updateChatThread(threadId, { title });
         }
 
+        // Update in-memory state
+        const preview = messages[messages.length - 1]?.text.slice(0, THREAD_PREVIEW_LENGTH);
+        const addedCount = changes.added.length - changes.deletedIds.length;
+        setData(prev => {
+            if (!prev) return prev;
+            const updatedThreads = prev.chatThreads.map(thread =>
+                thread.id === threadId
+                    ? { ...thread, title, preview, messageCount: thread.messageCount + addedCount }
+                    : thread
+            );
+            const openThread = prev.openThread?.threadId === threadId
+                ? { ...prev.openThread, messages, branches: threadBranches }
+                : prev.openThread;
+            return { ...prev, chatThreads: updatedThreads, openThread };
+        });
+    };
+
+    /**
+     * Copies a path of messages into a new thread with the same model, persona and settings
+     * @returns The new thread's id, which becomes the active thread
+     */
+    const forkChatThread = async (threadId: string, messages: Message[], password: string): Promise<string> => {
+        const source = data?.chatThreads.find(t => t.id === threadId);
+        if (!source) throw new Error('Thread not found');
+
+        const thread = await dbService.createChatThread(`${source.title} (fork)`, source.model, source.personaId);
+
+        // Copies get their own ids, so both threads can branch independently
+        const copiedIds = new Map<string, string>();
+        const copies: Message[] = messages.map(message => {
+            const id = Crypto.randomUUID();
+            copiedIds.set(message.id, id);
+            return {
+                id,
+                isUser: message.isUser,
+                text: message.text,
+                timestamp: message.timestamp,
+                model: message.model,
+                parentId: message.parentId ? copiedIds.get(message.parentId) : undefined,
+                type: message.type,
+                attachments: message.attachments?.map(attachment => ({ ...attachment, id: Crypto.randomUUID() }))
+            };
+        });
+        storedMessages.current.set(thread.id, new Map());
+        await saveThreadMessages(thread.id, flattenMessageTree(copies, []));
+
+        if (source.params) {
+            await dbService.updateChatThread(thread.id, { generationParams: JSON.stringify(source.params) });
+        }
+        if (source.jsonSchema) {
+            await dbService.updateChatThread(thread.id, { jsonSchema: source.jsonSchema });
+        }
+        // The summary only carries over when it covers messages of the copied path
+        const keepSummary = Boolean(source.summary) && (source.summarizedCount ?? 0) <= copies.length;
+        if (keepSummary) {
+            await dbService.updateThreadSummary(thread.id, source.summary!, source.summarizedCount ?? 0);
+        }
+
+        const newThread: ChatThread = {
+            id: thread.id,
+            title: thread.title,
+            preview: copies[copies.length - 1]?.text.slice(0, THREAD_PREVIEW_LENGTH),
+            messageCount: copies.length,
+            createdAt: thread.createdAt.getTime(),
+            updatedAt: thread.updatedAt.getTime(),
+            model: source.model,
+            summary: keepSummary ? source.summary : undefined,
+            summarizedCount: keepSummary ? source.summarizedCount : 0,
+            params: source.params,
+            personaId: source.personaId,
+            jsonSchema: source.jsonSchema
+        };
+        openOutline.current = { threadId: thread.id, messages: copies, branches: [], loadedFrom: 0 };
+        setData(prev => prev ? {
+            ...prev,
+            chatThreads: [...prev.chatThreads, newThread],
+            openThread: { threadId: thread.id, messages: copies, branches: [], olderCount: 0 }
+        } : prev);
+        await setActiveThread(thread.id, password);
+
+        return thread.id;
+    };
+
+    const updateThreadSummary = async (threadId: string, summary: string, summarizedCount: number, password: string) => {
+        await dbService.updateThreadSummary(threadId, summary, summarizedCount);
+
         // Update in-memory state
         setData(prev => {
             if (!prev) return prev;
             const updatedThreads = prev.chatThreads.map(thread =>
-                thread.id === threadId ? { ...thread, messages } : thread
+                thread.id === threadId ? { ...thread, summary: summary || undefined, summarizedCount } : thread
+            );
+            return { ...prev, chatThreads: updatedThreads };
+        });
+    };
+
+    const updateThreadParams = async (threadId: string, params: GenerationParams | undefined, password: string) => {
+        await dbService.updateChatThread(threadId, { generationParams: params ? JSON.stringify(params) : null });
+
+        // Update in-memory state
+        setData(prev => {
+            if (!prev) return prev;
+            const updatedThreads = prev.chatThreads.map(thread =>
+                thread.id === threadId ? { ...thread, params } : thread
+            );
+            return { ...prev, chatThreads: updatedThreads };
+        });
+    };
+
+    const updateThreadJsonSchema = async (threadId: string, jsonSchema: string | undefined, password: string) => {
+        await dbService.updateChatThread(threadId, { jsonSchema: jsonSchema ?? null });
+
+        // Update in-memory state
+        setData(prev => {
+            if (!prev) return prev;
+            const updatedThreads = prev.chatThreads.map(thread =>
+                thread.id === threadId ? { ...thread, jsonSchema } : thread
             );
             return { ...prev, chatThreads: updatedThreads };
         });
@@ -210,48 +652,186 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
 
     const setActiveThread = async (threadId: string, password: string) => {
         // Update in database
-        const threads = await dbService.getAllChatThreads();
-        for (const thread of threads) {
-            if (thread.isActive) {
-                await dbService.updateChatThread(thread.id, { isActive: false });
-            }
-        }
-        await dbService.updateChatThread(threadId, { isActive: true });
+        await dbService.setActiveThread(threadId);
 
         // Update in-memory state
         setData(prev => prev ? { ...prev, activeThreadId: threadId } : prev);
     };
 
-    const deleteChatThread = async (threadId: string, password: string) => {
-        // Delete from database
-        await dbService.deleteChatThread(threadId);
+    const savePersona = async (persona: Persona, password: string) => {
+        await dbService.savePersona({
+            id: persona.id,
+            name: persona.name,
+            systemPrompt: persona.systemPrompt,
+            defaultModel: persona.defaultModel ? JSON.stringify(persona.defaultModel) : null,
+            defaultParams: persona.defaultParams ? JSON.stringify(persona.defaultParams) : null
+        });
 
         // Update in-memory state
         setData(prev => {
             if (!prev) return prev;
-            const updatedThreads = prev.chatThreads.filter(thread => thread.id !== threadId);
-            const activeThreadId = prev.activeThreadId === threadId
-                ? (updatedThreads.length > 0 ? updatedThreads[0].id : undefined)
-                : prev.activeThreadId;
-            return { ...prev, chatThreads: updatedThreads, activeThreadId };
+            const personas = prev.personas || [];
+            const updatedPersonas = personas.some(p => p.id === persona.id)
+                ? personas.map(p => p.id === persona.id ? persona : p)
+                : [...personas, persona];
+            return { ...prev, personas: updatedPersonas };
         });
     };
 
-    // In-memory only operations remain the same
-    const setActiveThreadInMemory = (threadId: string) => {
-        setData(prev => prev ? { ...prev, activeThreadId: threadId } : prev);
+    const deletePersona = async (personaId: string, password: string) => {
+        await dbService.deletePersona(personaId);
+
+        // Update in-memory state
+        setData(prev => {
+            if (!prev) return prev;
+            return {
+                ...prev,
+                personas: (prev.personas || []).filter(p => p.id !== personaId),
+                chatThreads: prev.chatThreads.map(thread =>
+                    thread.personaId === personaId ? { ...thread, personaId: undefined } : thread
+                )
+            };
+        });
     };
 
-    const updateChatThreadInMemory = (threadId: string, messages: Message[]) => {
+    const deleteChatThread = async (threadId: string, password: string) => {
+        // Delete from database
+        await dbService.deleteChatThread(threadId);
+        storedMessages.current.delete(threadId);
+
+        // Update in-memory state
+        deleteChatThreadInMemory(threadId);
+    };
+
+    const renameChatThread = async (threadId: string, title: string, password: string) => {
+        await dbService.updateChatThread(threadId, { title });
+
+        // Update in-memory state
         setData(prev => {
             if (!prev) return prev;
             const updatedThreads = prev.chatThreads.map(thread =>
-                thread.id === threadId ? { ...thread, messages } : thread
+                thread.id === threadId ? { ...thread, title } : thread
             );
             return { ...prev, chatThreads: updatedThreads };
         });
     };
 
+    /**
+     * Makes a thread the active one in memory and loads the last page of its messages
+     * The active thread is only persisted on explicit actions.
+     */
+    const openChatThread = async (threadId: string): Promise<ThreadMessages> => {
+        const openThread = await loadThreadMessages(threadId);
+        setData(prev => prev ? { ...prev, activeThreadId: threadId, openThread } : prev);
+        return openThread;
+    };
+
+    /**
+     * Loads the page of the open thread's path before the loaded messages, or all of the rest
+     * @returns The messages and branches added in front of the loaded ones
+     */
+    const loadEarlierMessages = (threadId: string, all: boolean = false): Promise<{ messages: Message[]; branches: Message[] }> => {
+        const load = pageQueue.current.catch(() => undefined).then(async () => {
+            const outline = openOutline.current;
+            if (!outline || outline.threadId !== threadId || outline.loadedFrom === 0) {
+                return { messages: [], branches: [] };
+            }
+            const start = all ? 0 : Math.max(0, outline.loadedFrom - MESSAGE_PAGE_SIZE);
+            const page = await loadMessagePage(threadId, start, outline.loadedFrom);
+            outline.loadedFrom = start;
+
+            setData(prev => {
+                if (!prev?.openThread || prev.openThread.threadId !== threadId) return prev;
+                const openThread = {
+                    threadId,
+                    messages: [...page.messages, ...prev.openThread.messages],
+                    branches: [...page.branches, ...prev.openThread.branches],
+                    olderCount: start
+                };
+                return { ...prev, openThread };
+            });
+            return page;
+        });
+        pageQueue.current = load;
+        return load;
+    };
+
+    /**
+     * Loads all messages of a thread, e.g. for exporting, without changing the open thread
+     */
+    const getThreadMessages = async (threadId: string): Promise<{ messages: Message[]; branches: Message[] }> => {
+        const tree = buildMessageTree(await dbService.getMessageOutline(threadId));
+        const rows = await dbService.getMessagesByIds(threadId, [...tree.messages, ...tree.branches].map(node => node.id));
+        return { messages: withContents(tree.messages, rows), branches: withContents(tree.branches, rows) };
+    };
+
+    /**
+     * Stores imported conversations as new threads
+     * Personas that do not exist here are dropped.
+     */
+    const importChatThreads = async (imports: PreparedImport[], password: string) => {
+        const personaIds = new Set((data?.personas ?? []).map(persona => persona.id));
+        const imported: ChatThread[] = [];
+        for (const item of imports) {
+            const personaId = item.personaId && personaIds.has(item.personaId) ? item.personaId : undefined;
+            const thread = await dbService.importChatThread({
+                title: item.title,
+                model: item.model,
+                createdAt: item.createdAt,
+                updatedAt: item.updatedAt,
+                importSource: item.importSource,
+                personaId,
+                generationParams: item.params ? JSON.stringify(item.params) : undefined,
+                jsonSchema: item.jsonSchema
+            }, flattenMessageTree(item.messages, item.branches));
+
+            imported.push({
+                id: thread.id,
+                title: thread.title,
+                preview: item.messages[item.messages.length - 1]?.text.slice(0, THREAD_PREVIEW_LENGTH),
+                messageCount: item.messages.length + item.branches.length,
+                createdAt: item.createdAt,
+                updatedAt: item.updatedAt,
+                model: item.model,
+                params: item.params,
+                personaId,
+                jsonSchema: item.jsonSchema
+            });
+        }
+
+        // Update in-memory state
+        setData(prev => prev ? { ...prev, chatThreads: [...prev.chatThreads, ...imported] } : prev);
+    };
+
+    /**
+     * Sources of imported threads, plus the threads of this app under the id its exports use
+     */
+    const getImportSources = async (): Promise<Set<string>> => {
+        const sources = await dbService.getImportSources();
+        return new Set([...sources, ...(data?.chatThreads ?? []).map(thread => `androidllm:${thread.id}`)]);
+    };
+
+    const getBackupData = async (includeApiKeys: boolean) => {
+        return await dbService.getBackupData(includeApiKeys);
+    };
+
+    /**
+     * Writes a backup into the database and reloads all data from it
+     */
+    const restoreBackup = async (backup: BackupData, mode: RestoreMode, password: string) => {
+        await dbService.restoreBackup(backup, mode);
+        await loadData(password);
+    };
+
+    // In-memory only operations remain the same
+    const updateChatThreadInMemory = (threadId: string, messages: Message[], branches?: Message[]) => {
+        setData(prev => {
+            if (!prev?.openThread || prev.openThread.threadId !== threadId) return prev;
+            const openThread = { ...prev.openThread, messages, branches: branches ?? prev.openThread.branches };
+            return { ...prev, openThread };
+        });
+    };
+
     const deleteChatThreadInMemory = (threadId: string) => {
         setData(prev => {
             if (!prev) return prev;
@@ -259,22 +839,58 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
             const activeThreadId = prev.activeThreadId === threadId
                 ? (updatedThreads.length > 0 ? updatedThreads[0].id : undefined)
                 : prev.activeThreadId;
-            return { ...prev, chatThreads: updatedThreads, activeThreadId };
+            const openThread = prev.openThread?.threadId === threadId ? undefined : prev.openThread;
+            return { ...prev, chatThreads: updatedThreads, activeThreadId, openThread };
         });
     };
 
+    const changeEncryptionPassword = async (currentPassword: string, newPassword: string) => {
+        await dbService.changePassword(currentPassword, newPassword);
+    };
+
+    /**
+     * Forgets the decrypted data and the encryption key, e.g. when the app locks
+     */
+    const clearData = () => {
+        dbService.lock();
+        storedMessages.current = new Map();
+        openOutline.current = null;
+        setData(null);
+    };
+
+    const searchMessages = async (search: string, limit?: number) => {
+        return await dbService.searchMessages(search, limit);
+    };
+
     return (
         <DataContext.Provider value={{
             data,
+            hasDataKey,
             loadData,
             saveData,
             createChatThread,
             updateChatThread,
+            forkChatThread,
+            updateThreadSummary,
+            updateThreadParams,
+            updateThreadJsonSchema,
             setActiveThread,
+            savePersona,
+            deletePersona,
             deleteChatThread,
-            setActiveThreadInMemory,
+            renameChatThread,
+            openChatThread,
+            loadEarlierMessages,
+            getThreadMessages,
+            importChatThreads,
+            getImportSources,
+            getBackupData,
+            restoreBackup,
             updateChatThreadInMemory,
-            deleteChatThreadInMemory
+            deleteChatThreadInMemory,
+            changeEncryptionPassword,
+            clearData,
+            searchMessages
         }}>
             {children}
         </DataContext.Provider>
@@ -3,42 +3,296 @@ import { ChatThread } from './init';
 import { Message } from './init';
 import { ApiKey } from './init';
 import { Settings } from './init';
-import { Repository } from 'typeorm';
-import { encryptField, decryptField, isEncrypted } from '../utils/dbEncryption';
+import { Persona } from './init';
+import { EncryptionKey } from './init';
+import { Attachment } from './init';
+import { EntityManager, In, IsNull, Not, Repository } from 'typeorm';
+import * as Crypto from 'expo-crypto';
+import { encryptField, decryptField, decryptLegacyField, isEncrypted, isLegacyEncrypted, wrapKey, unwrapKey } from '../utils/dbEncryption';
+import { createDataKey, createKdfParams, deriveKey, KdfParams } from '../utils/encryption';
+import { createSearchKey, toIndexTokens, toMatchQuery } from '../utils/searchIndex';
+
+// Encrypted with the data key to verify it on unlock
+const KEY_CHECK_VALUE = 'androidllm-key-check';
+
+// A file attached to a message, with its content decrypted
+export type AttachmentRow = Omit<Attachment, 'message' | 'messageId'>;
+
+// A message as written for a thread
+export type MessageRow = Omit<Message, 'chatThread' | 'chatThreadId'> & { attachments?: AttachmentRow[] };
+
+// A message's place in its thread's tree, without the encrypted text
+export type MessageOutline = Omit<MessageRow, 'text' | 'attachments'>;
+
+// Newest message and size of a thread, for the thread list
+export interface ThreadPreview {
+    text: string;
+    messageCount: number;
+}
+
+// Ids per query when loading messages by id
+const ID_BATCH_SIZE = 500;
+
+// Characters of the newest message kept for the thread list
+export const THREAD_PREVIEW_LENGTH = 100;
+
+// Message of the error thrown when a password does not open the stored data key
+export const INCORRECT_PASSWORD = 'Incorrect password';
+
+// Thread created from an imported conversation
+export interface ChatThreadImport {
+    title: string;
+    model: { id: string; displayName: string; provider: string };
+    createdAt: number;
+    updatedAt: number;
+    importSource: string;
+    personaId?: string;
+    generationParams?: string;
+    jsonSchema?: string;
+}
+
+// A thread with its decrypted messages, as stored in a backup
+export interface BackupThread {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    model: { id: string; displayName: string; provider: string };
+    isActive: boolean;
+    summary: string | null;
+    summarizedCount: number;
+    generationParams: string | null;
+    personaId: string | null;
+    importSource: string | null;
+    jsonSchema?: string | null;     // Missing in backups from before JSON mode
+    messages: MessageRow[];
+}
+
+export type BackupPersona = Omit<Persona, 'createdAt'> & { createdAt: number };
+
+// Everything a backup archive holds, decrypted
+export interface BackupData {
+    threads: BackupThread[];
+    personas: BackupPersona[];
+    settings: Omit<Settings, 'id'>;
+    apiKeys?: Record<string, string>;   // By service name; only when the backup includes them
+}
+
+// Replace deletes the current chats first; merge only adds what is missing
+export type RestoreMode = 'merge' | 'replace';
+
+// Rows to write for a thread in one transaction
+export interface MessageChanges {
+    added: MessageRow[];
+    updated: MessageRow[];
+    deletedIds: string[];
+}
+
+// A message found by full-text search
+export interface MessageSearchResult {
+    messageId: string;
+    threadId: string;
+    threadTitle: string;
+    text: string;
+    isUser: boolean;
+    timestamp: number;
+}
+
+// Most results a search returns
+const SEARCH_RESULT_LIMIT = 50;
 
 export class DatabaseService {
     private chatThreadRepository: Repository<ChatThread>;
     private messageRepository: Repository<Message>;
     private apiKeyRepository: Repository<ApiKey>;
     private settingsRepository: Repository<Settings>;
-    private password: string = '';
+    private personaRepository: Repository<Persona>;
+    private encryptionKeyRepository: Repository<EncryptionKey>;
+    private attachmentRepository: Repository<Attachment>;
+    private key: Uint8Array | null = null;
 
     constructor() {
         this.chatThreadRepository = AppDataSource.getRepository(ChatThread);
         this.messageRepository = AppDataSource.getRepository(Message);
         this.apiKeyRepository = AppDataSource.getRepository(ApiKey);
         this.settingsRepository = AppDataSource.getRepository(Settings);
+        this.personaRepository = AppDataSource.getRepository(Persona);
+        this.encryptionKeyRepository = AppDataSource.getRepository(EncryptionKey);
+        this.attachmentRepository = AppDataSource.getRepository(Attachment);
+    }
+
+    /**
+     * Whether a data key is stored, so unlock checks the password against it
+     */
+    async hasDataKey(): Promise<boolean> {
+        return await this.encryptionKeyRepository.count() > 0;
+    }
+
+    /**
+     * Opens the data encryption key with the password for database operations
+     * Data is encrypted with a random data key, stored wrapped by a key derived from the password.
+     * On the first unlock, fields in the legacy format are re-encrypted in the same transaction
+     * that stores the key, so an interrupted upgrade is simply repeated.
+     * @throws {Error} If the password does not match the stored key
+     */
+    async unlock(password: string): Promise<void> {
+        const [stored] = await this.encryptionKeyRepository.find({ take: 1 });
+        if (stored) {
+            const { key, passwordKey } = await this.openDataKey(stored, password);
+            if (!stored.wrappedKey) {
+                // Keys created before wrapping encrypted the data directly, so that key stays the data key
+                await this.encryptionKeyRepository.update(stored.id, { wrappedKey: await wrapKey(key, passwordKey) });
+            }
+            this.key = key;
+            return;
+        }
+
+        const params = await createKdfParams();
+        const passwordKey = await deriveKey(password, params);
+        const key = await createDataKey();
+        await this.reencryptLegacyFields(password, key, { ...params, wrappedKey: await wrapKey(key, passwordKey) });
+        this.key = key;
     }
 
     /**
-     * Sets the encryption password for database operations
+     * Changes the password protecting the data key
+     * Only the key record is rewritten, in a single update: the data stays encrypted with the same
+     * data key, so an interrupted change leaves either the old or the new password in effect.
+     * @throws {Error} If the current password does not match the stored key
      */
-    setPassword(password: string) {
-        this.password = password;
+    async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        const [stored] = await this.encryptionKeyRepository.find({ take: 1 });
+        if (!stored) throw new Error('Database is locked');
+        const { key } = await this.openDataKey(stored, currentPassword);
+
+        const params = await createKdfParams();
+        const passwordKey = await deriveKey(newPassword, params);
+        const wrappedKey = await wrapKey(key, passwordKey);
+        await AppDataSource.transaction(async manager => {
+            await manager.update(EncryptionKey, { id: stored.id }, { ...params, wrappedKey });
+        });
+        this.key = key;
+    }
+
+    /**
+     * Derives the password key and opens the data key with it
+     * @throws {Error} If the password does not match the stored key
+     */
+    private async openDataKey(stored: EncryptionKey, password: string): Promise<{ key: Uint8Array; passwordKey: Uint8Array }> {
+        const passwordKey = await deriveKey(password, {
+            algorithm: stored.algorithm as KdfParams['algorithm'],
+            iterations: stored.iterations,
+            salt: stored.salt
+        });
+        const key = stored.wrappedKey
+            ? await unwrapKey(stored.wrappedKey, passwordKey).catch(() => null)
+            : passwordKey;
+        const check = key ? await decryptField(stored.keyCheck, key).catch(() => null) : null;
+        if (!key || check !== KEY_CHECK_VALUE) {
+            throw new Error(INCORRECT_PASSWORD);
+        }
+        return { key, passwordKey };
+    }
+
+    /**
+     * Forgets the encryption key
+     */
+    lock() {
+        this.key = null;
+    }
+
+    private requireKey(): Uint8Array {
+        if (!this.key) throw new Error('Database is locked');
+        return this.key;
+    }
+
+    /**
+     * Re-encrypts message texts, summaries and API keys from the legacy format and stores the new data key
+     */
+    private async reencryptLegacyFields(password: string, key: Uint8Array, params: KdfParams & { wrappedKey: string }): Promise<void> {
+        const reencrypt = async (value: string) => await encryptField(await decryptLegacyField(value, password), key);
+
+        // Encrypt before opening the transaction, so it stays short
+        const messages = await this.messageRepository.find({ select: ['id', 'text'] });
+        const messageUpdates: { id: string; text: string }[] = [];
+        for (const message of messages) {
+            if (isLegacyEncrypted(message.text)) {
+                messageUpdates.push({ id: message.id, text: await reencrypt(message.text) });
+            }
+        }
+        const threads = await this.chatThreadRepository.find({ select: ['id', 'summary'] });
+        const summaryUpdates: { id: string; summary: string }[] = [];
+        for (const thread of threads) {
+            if (thread.summary && isLegacyEncrypted(thread.summary)) {
+                summaryUpdates.push({ id: thread.id, summary: await reencrypt(thread.summary) });
+            }
+        }
+        const apiKeys = await this.apiKeyRepository.find();
+        const apiKeyUpdates: { id: number; encryptedKey: string }[] = [];
+        for (const apiKey of apiKeys) {
+            if (isLegacyEncrypted(apiKey.encryptedKey)) {
+                apiKeyUpdates.push({ id: apiKey.id, encryptedKey: await reencrypt(apiKey.encryptedKey) });
+            }
+        }
+        const keyCheck = await encryptField(KEY_CHECK_VALUE, key);
+
+        await AppDataSource.transaction(async manager => {
+            for (const { id, text } of messageUpdates) {
+                await manager.update(Message, { id }, { text });
+            }
+            for (const { id, summary } of summaryUpdates) {
+                await manager.update(ChatThread, { id }, { summary });
+            }
+            for (const { id, encryptedKey } of apiKeyUpdates) {
+                await manager.update(ApiKey, { id }, { encryptedKey });
+            }
+            await manager.insert(EncryptionKey, { ...params, keyCheck });
+        });
     }
 
     // Chat Thread Operations
-    async createChatThread(title: string, model: { id: string; displayName: string; provider: string }): Promise<ChatThread> {
+    async createChatThread(title: string, model: { id: string; displayName: string; provider: string }, personaId?: string): Promise<ChatThread> {
         const thread = new ChatThread();
         thread.id = Date.now().toString();
         thread.title = title;
         thread.modelId = model.id;
         thread.modelDisplayName = model.displayName;
         thread.modelProvider = model.provider;
+        thread.personaId = personaId ?? null;
         thread.messages = [];
         return await this.chatThreadRepository.save(thread);
     }
 
+    /**
+     * Creates a thread from an import, keeping the source's title, dates and messages
+     */
+    async importChatThread(thread: ChatThreadImport, rows: MessageRow[]): Promise<ChatThread> {
+        const saved = await this.chatThreadRepository.save(this.chatThreadRepository.create({
+            id: Crypto.randomUUID(),
+            title: thread.title,
+            modelId: thread.model.id,
+            modelDisplayName: thread.model.displayName,
+            modelProvider: thread.model.provider,
+            createdAt: new Date(thread.createdAt),
+            updatedAt: new Date(thread.updatedAt),
+            isActive: false,
+            personaId: thread.personaId ?? null,
+            generationParams: thread.generationParams ?? null,
+            importSource: thread.importSource,
+            jsonSchema: thread.jsonSchema ?? null
+        }));
+        await this.applyMessageChanges(saved.id, { added: rows, updated: [], deletedIds: [] });
+        return saved;
+    }
+
+    /**
+     * Sources of all imported threads, to skip conversations that were imported before
+     */
+    async getImportSources(): Promise<string[]> {
+        const threads = await this.chatThreadRepository.find({ select: ['importSource'], where: { importSource: Not(IsNull()) } });
+        return threads.map(thread => thread.importSource!);
+    }
+
     async getChatThread(id: string): Promise<ChatThread | null> {
         const thread = await this.chatThreadRepository.findOne({ 
             where: { id },
@@ -54,78 +308,311 @@ export class DatabaseService {
             // Decrypt message texts
             for (const message of thread.messages) {
                 if (isEncrypted(message.text)) {
-                    message.text = await decryptField(message.text, this.password);
+                    message.text = await decryptField(message.text, this.requireKey());
                 }
             }
         }
 
+        if (thread?.summary && isEncrypted(thread.summary)) {
+            thread.summary = await decryptField(thread.summary, this.requireKey());
+        }
+
         return thread;
     }
 
+    /**
+     * Loads a thread without its messages, e.g. to check its title
+     */
+    async getChatThreadInfo(id: string): Promise<ChatThread | null> {
+        return await this.chatThreadRepository.findOneBy({ id });
+    }
+
+    /**
+     * Loads all threads without their messages, newest first
+     */
     async getAllChatThreads(): Promise<ChatThread[]> {
-        const threads = await this.chatThreadRepository.find({
-            relations: ['messages'],
-            order: {
-                updatedAt: 'DESC',
-                messages: {
-                    timestamp: 'ASC'
-                }
-            }
-        });
+        const threads = await this.chatThreadRepository.find({ order: { updatedAt: 'DESC' } });
 
-        // Decrypt all message texts
         for (const thread of threads) {
-            for (const message of thread.messages) {
-                if (isEncrypted(message.text)) {
-                    message.text = await decryptField(message.text, this.password);
-                }
+            if (thread.summary && isEncrypted(thread.summary)) {
+                thread.summary = await decryptField(thread.summary, this.requireKey());
             }
         }
 
         return threads;
     }
 
+    /**
+     * Newest message and message count of every thread with messages, by thread id
+     * Only the newest message of each thread is decrypted.
+     */
+    async getThreadPreviews(): Promise<Map<string, ThreadPreview>> {
+        const rows: { chatThreadId: string; text: string; messageCount: number }[] = await AppDataSource.query(
+            `SELECT m."chatThreadId", m."text", newest."messageCount"
+             FROM "message" m
+             JOIN (
+                 SELECT "chatThreadId", MAX("timestamp") AS "timestamp", COUNT(*) AS "messageCount"
+                 FROM "message" GROUP BY "chatThreadId"
+             ) newest ON newest."chatThreadId" = m."chatThreadId" AND newest."timestamp" = m."timestamp"`
+        );
+
+        const previews = new Map<string, ThreadPreview>();
+        for (const row of rows) {
+            if (previews.has(row.chatThreadId)) continue;
+            const text = isEncrypted(row.text) ? await decryptField(row.text, this.requireKey()) : row.text;
+            previews.set(row.chatThreadId, { text: text.slice(0, THREAD_PREVIEW_LENGTH), messageCount: Number(row.messageCount) });
+        }
+        return previews;
+    }
+
+    /**
+     * Loads the tree structure of a thread's messages, oldest first, without decrypting anything
+     */
+    async getMessageOutline(threadId: string): Promise<MessageOutline[]> {
+        return await this.messageRepository.find({
+            select: ['id', 'isUser', 'timestamp', 'model', 'parentId', 'isActiveVariant', 'type'],
+            where: { chatThreadId: threadId },
+            order: { timestamp: 'ASC' }
+        });
+    }
+
+    /**
+     * Loads and decrypts the given messages of a thread
+     */
+    async getMessagesByIds(threadId: string, ids: string[]): Promise<MessageRow[]> {
+        const rows: MessageRow[] = [];
+        // Queried in batches to stay below SQLite's limit on query parameters
+        for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+            const batch = ids.slice(i, i + ID_BATCH_SIZE);
+            const messages = await this.messageRepository.find({
+                where: { chatThreadId: threadId, id: In(batch) },
+                order: { timestamp: 'ASC' }
+            });
+            const attachments = await this.decryptAttachments(await this.attachmentRepository.find({ where: { messageId: In(batch) } }));
+            for (const { chatThread, chatThreadId, ...row } of messages) {
+                rows.push({
+                    ...row,
+                    text: isEncrypted(row.text) ? await decryptField(row.text, this.requireKey()) : row.text,
+                    ...(attachments.has(row.id) ? { attachments: attachments.get(row.id) } : {})
+                });
+            }
+        }
+        return rows;
+    }
+
+    /**
+     * Stores the parent ids of messages saved before branching, so each page of a thread links the same way
+     */
+    async linkMessages(threadId: string, links: { id: string; parentId: string | null }[]): Promise<void> {
+        await AppDataSource.transaction(async manager => {
+            for (const { id, parentId } of links) {
+                await manager.update(Message, { id, chatThreadId: threadId }, { parentId });
+            }
+        });
+    }
+
     async updateChatThread(id: string, updates: Partial<ChatThread>): Promise<ChatThread | null> {
         await this.chatThreadRepository.update(id, updates);
-        return await this.getChatThread(id);
+        return await this.getChatThreadInfo(id);
+    }
+
+    /**
+     * Marks the thread that is opened on the next login
+     */
+    async setActiveThread(id: string): Promise<void> {
+        await AppDataSource.transaction(async manager => {
+            await manager.update(ChatThread, { isActive: true }, { isActive: false });
+            await manager.update(ChatThread, { id }, { isActive: true });
+        });
+    }
+
+    /**
+     * Stores a thread's rolling summary (encrypted) and how many messages it covers
+     */
+    async updateThreadSummary(id: string, summary: string, summarizedCount: number): Promise<void> {
+        const encryptedSummary = summary ? await encryptField(summary, this.requireKey()) : null;
+        await this.chatThreadRepository.update(id, { summary: encryptedSummary, summarizedCount });
     }
 
     async deleteChatThread(id: string): Promise<boolean> {
-        const result = await this.chatThreadRepository.delete(id);
+        const result = await AppDataSource.transaction(async manager => {
+            await manager.query(`DELETE FROM "message_search" WHERE "chatThreadId" = ?`, [id]);
+            return await manager.delete(ChatThread, id);
+        });
         return result.affected !== 0;
     }
 
     // Message Operations
-    async addMessage(threadId: string, message: Omit<Message, 'id' | 'chatThread' | 'chatThreadId'>): Promise<Message> {
-        const thread = await this.getChatThread(threadId);
-        if (!thread) throw new Error('Chat thread not found');
+    async addMessage(threadId: string, message: MessageRow): Promise<void> {
+        await this.applyMessageChanges(threadId, { added: [message], updated: [], deletedIds: [] });
+    }
 
-        // Encrypt message text
-        const encryptedText = await encryptField(message.text, this.password);
+    async updateMessage(threadId: string, message: MessageRow): Promise<void> {
+        await this.applyMessageChanges(threadId, { added: [], updated: [message], deletedIds: [] });
+    }
+
+    async deleteMessages(threadId: string, ids: string[]): Promise<void> {
+        await this.applyMessageChanges(threadId, { added: [], updated: [], deletedIds: ids });
+    }
 
-        const newMessage = this.messageRepository.create({
-            ...message,
-            text: encryptedText,
-            chatThread: thread,
+    /**
+     * Writes the added, changed and removed messages of a thread in a single transaction
+     * Only the given rows are encrypted and written; the thread's other messages are untouched.
+     */
+    async applyMessageChanges(threadId: string, changes: MessageChanges): Promise<void> {
+        if (changes.added.length === 0 && changes.updated.length === 0 && changes.deletedIds.length === 0) return;
+
+        // Encrypt before opening the transaction, so it stays short
+        const encryptRows = (rows: MessageRow[]) => Promise.all(rows.map(async ({ attachments, ...row }) => ({
+            ...row,
+            text: await encryptField(row.text, this.requireKey()),
             chatThreadId: threadId
+        })));
+        const added = await encryptRows(changes.added);
+        const updated = await encryptRows(changes.updated);
+        // Attachments are written with their message and do not change afterwards
+        const attachments = await this.encryptAttachments(changes.added);
+        const searchKey = (await this.getSettings()).searchIndexEnabled ? createSearchKey(this.requireKey()) : null;
+
+        await AppDataSource.transaction(async manager => {
+            if (!await manager.existsBy(ChatThread, { id: threadId })) {
+                throw new Error('Chat thread not found');
+            }
+            if (changes.deletedIds.length > 0) {
+                await manager.delete(Message, { id: In(changes.deletedIds), chatThreadId: threadId });
+            }
+            // Upsert, so a save racing another one with the same new message does not fail
+            for (const row of added) {
+                await manager.upsert(Message, row, ['id']);
+            }
+            for (const attachment of attachments) {
+                await manager.upsert(Attachment, attachment, ['id']);
+            }
+            for (const { id, ...row } of updated) {
+                await manager.update(Message, { id, chatThreadId: threadId }, row);
+            }
+            if (searchKey) {
+                const removedIds = [...changes.deletedIds, ...changes.added.map(row => row.id), ...changes.updated.map(row => row.id)];
+                await this.removeFromSearchIndex(manager, removedIds);
+                // Tool steps are not indexed; searches find the answers that used them
+                for (const row of [...changes.added, ...changes.updated].filter(row => row.type === 'text')) {
+                    await manager.query(
+                        `INSERT INTO "message_search" ("tokens", "messageId", "chatThreadId") VALUES (?, ?, ?)`,
+                        [toIndexTokens(row.text, searchKey), row.id, threadId]
+                    );
+                }
+            }
         });
+    }
+
+    /**
+     * Encrypts the attachments of the given messages into rows for the attachment table
+     */
+    private async encryptAttachments(rows: MessageRow[]): Promise<Omit<Attachment, 'message'>[]> {
+        const attachments: Omit<Attachment, 'message'>[] = [];
+        for (const row of rows) {
+            for (const attachment of row.attachments ?? []) {
+                attachments.push({ ...attachment, data: await encryptField(attachment.data, this.requireKey()), messageId: row.id });
+            }
+        }
+        return attachments;
+    }
 
-        const savedMessage = await this.messageRepository.save(newMessage);
-        // Decrypt for return value
-        savedMessage.text = message.text; // Original unencrypted text
-        return savedMessage;
+    /**
+     * Decrypts stored attachments, grouped by the id of their message
+     */
+    private async decryptAttachments(attachments: Attachment[]): Promise<Map<string, AttachmentRow[]>> {
+        const byMessage = new Map<string, AttachmentRow[]>();
+        for (const { message, messageId, ...attachment } of attachments) {
+            const rows = byMessage.get(messageId) ?? [];
+            rows.push({ ...attachment, data: await decryptField(attachment.data, this.requireKey()) });
+            byMessage.set(messageId, rows);
+        }
+        return byMessage;
+    }
+
+    private async removeFromSearchIndex(manager: EntityManager, messageIds: string[]): Promise<void> {
+        for (const messageId of messageIds) {
+            await manager.query(`DELETE FROM "message_search" WHERE "messageId" = ?`, [messageId]);
+        }
+    }
+
+    // Search Operations
+    /**
+     * Turns the full-text index on or off
+     * Turning it on indexes every stored message; turning it off empties the index.
+     */
+    async setSearchIndexEnabled(enabled: boolean): Promise<void> {
+        const entries: { tokens: string; messageId: string; chatThreadId: string }[] = [];
+        if (enabled) {
+            // Decrypt and hash before opening the transaction, so it stays short
+            const searchKey = createSearchKey(this.requireKey());
+            const messages = await this.messageRepository.find({ select: ['id', 'text', 'chatThreadId'], where: { type: 'text' } });
+            for (const message of messages) {
+                const text = isEncrypted(message.text) ? await decryptField(message.text, this.requireKey()) : message.text;
+                entries.push({ tokens: toIndexTokens(text, searchKey), messageId: message.id, chatThreadId: message.chatThreadId });
+            }
+        }
+
+        const settings = await this.getSettings();
+        await AppDataSource.transaction(async manager => {
+            await manager.query(`DELETE FROM "message_search"`);
+            for (const { tokens, messageId, chatThreadId } of entries) {
+                await manager.query(
+                    `INSERT INTO "message_search" ("tokens", "messageId", "chatThreadId") VALUES (?, ?, ?)`,
+                    [tokens, messageId, chatThreadId]
+                );
+            }
+            await manager.update(Settings, { id: settings.id }, { searchIndexEnabled: enabled });
+        });
+    }
+
+    /**
+     * Finds messages containing every word of the search, best matches first
+     * Returns nothing while the index is turned off.
+     */
+    async searchMessages(search: string, limit: number = SEARCH_RESULT_LIMIT): Promise<MessageSearchResult[]> {
+        const query = toMatchQuery(search, createSearchKey(this.requireKey()));
+        if (!query) return [];
+
+        const matches: { messageId: string }[] = await AppDataSource.query(
+            `SELECT "messageId" FROM "message_search" WHERE "message_search" MATCH ? ORDER BY bm25("message_search") LIMIT ?`,
+            [query, limit]
+        );
+        if (matches.length === 0) return [];
+
+        const messages = await this.messageRepository.find({
+            where: { id: In(matches.map(match => match.messageId)) },
+            relations: ['chatThread']
+        });
+        const byId = new Map(messages.map(message => [message.id, message]));
+
+        const results: MessageSearchResult[] = [];
+        for (const { messageId } of matches) {
+            const message = byId.get(messageId);
+            if (!message) continue;
+            results.push({
+                messageId,
+                threadId: message.chatThreadId,
+                threadTitle: message.chatThread.title,
+                text: isEncrypted(message.text) ? await decryptField(message.text, this.requireKey()) : message.text,
+                isUser: message.isUser,
+                timestamp: message.timestamp
+            });
+        }
+        return results;
     }
 
     // API Key Operations
-    async setApiKey(serviceName: string, key: string, password: string): Promise<void> {
-        const encryptedKey = await encryptField(key, password);
+    async setApiKey(serviceName: string, key: string): Promise<void> {
+        const encryptedKey = await encryptField(key, this.requireKey());
         await this.apiKeyRepository.upsert(
             { serviceName, encryptedKey },
             ['serviceName']
         );
     }
 
-    async getApiKey(serviceName: string, password: string): Promise<string | null> {
+    async getApiKey(serviceName: string): Promise<string | null> {
         const apiKey = await this.apiKeyRepository.findOne({
             where: { serviceName }
         });
@@ -133,7 +620,7 @@ export class DatabaseService {
         if (!apiKey) return null;
         
         try {
-            return await decryptField(apiKey.encryptedKey, password);
+            return await decryptField(apiKey.encryptedKey, this.requireKey());
         } catch {
             return null;
         }
@@ -155,11 +642,167 @@ export class DatabaseService {
         return await this.settingsRepository.save(settings);
     }
 
+    // Persona Operations
+    async getAllPersonas(): Promise<Persona[]> {
+        return await this.personaRepository.find({ order: { createdAt: 'ASC' } });
+    }
+
+    async savePersona(persona: Omit<Persona, 'createdAt'>): Promise<Persona> {
+        return await this.personaRepository.save(this.personaRepository.create(persona));
+    }
+
+    /**
+     * Deletes a persona; chats using it fall back to the global custom prompt
+     */
+    async deletePersona(id: string): Promise<boolean> {
+        await this.chatThreadRepository.update({ personaId: id }, { personaId: null });
+        const result = await this.personaRepository.delete(id);
+        return result.affected !== 0;
+    }
+
+    // Backup Operations
+    /**
+     * Collects all chats, personas and settings, decrypted, for a backup archive
+     * API keys are only included when asked for.
+     */
+    async getBackupData(includeApiKeys: boolean): Promise<BackupData> {
+        const key = this.requireKey();
+        const decrypt = async (value: string) => isEncrypted(value) ? await decryptField(value, key) : value;
+
+        const messagesByThread = new Map<string, MessageRow[]>();
+        const messages = await this.messageRepository.find({ order: { timestamp: 'ASC' } });
+        const attachments = await this.decryptAttachments(await this.attachmentRepository.find());
+        for (const { chatThread, chatThreadId, ...row } of messages) {
+            const rows = messagesByThread.get(chatThreadId) ?? [];
+            rows.push({ ...row, text: await decrypt(row.text), ...(attachments.has(row.id) ? { attachments: attachments.get(row.id) } : {}) });
+            messagesByThread.set(chatThreadId, rows);
+        }
+
+        const threads: BackupThread[] = [];
+        for (const thread of await this.chatThreadRepository.find({ order: { createdAt: 'ASC' } })) {
+            threads.push({
+                id: thread.id,
+                title: thread.title,
+                createdAt: thread.createdAt.getTime(),
+                updatedAt: thread.updatedAt.getTime(),
+                model: { id: thread.modelId, displayName: thread.modelDisplayName, provider: thread.modelProvider },
+                isActive: thread.isActive,
+                summary: thread.summary ? await decrypt(thread.summary) : null,
+                summarizedCount: thread.summarizedCount,
+                generationParams: thread.generationParams ?? null,
+                personaId: thread.personaId ?? null,
+                importSource: thread.importSource ?? null,
+                jsonSchema: thread.jsonSchema ?? null,
+                messages: messagesByThread.get(thread.id) ?? []
+            });
+        }
+
+        const personas = (await this.getAllPersonas()).map(persona => ({ ...persona, createdAt: persona.createdAt.getTime() }));
+        const { id, ...settings } = await this.getSettings();
+
+        let apiKeys: Record<string, string> | undefined;
+        if (includeApiKeys) {
+            apiKeys = {};
+            for (const apiKey of await this.apiKeyRepository.find()) {
+                const value = await decryptField(apiKey.encryptedKey, key).catch(() => null);
+                if (value) apiKeys[apiKey.serviceName] = value;
+            }
+        }
+
+        return { threads, personas, settings, apiKeys };
+    }
+
+    /**
+     * Writes the contents of a backup archive in a single transaction
+     * Replacing deletes all chats and personas first and takes over the backup's settings, and its API keys
+     * if it has them. Merging keeps everything here and only adds chats and personas with new ids, and
+     * API keys for services without one.
+     */
+    async restoreBackup(backup: BackupData, mode: RestoreMode): Promise<void> {
+        const key = this.requireKey();
+        const isMerge = mode === 'merge';
+        const threadIds = new Set(isMerge ? (await this.chatThreadRepository.find({ select: ['id'] })).map(thread => thread.id) : []);
+        const personaIds = new Set(isMerge ? (await this.personaRepository.find({ select: ['id'] })).map(persona => persona.id) : []);
+        const serviceNames = new Set(isMerge ? (await this.apiKeyRepository.find()).map(apiKey => apiKey.serviceName) : []);
+
+        // Encrypt before opening the transaction, so it stays short
+        const threads = backup.threads.filter(thread => !threadIds.has(thread.id));
+        const threadRows: Partial<ChatThread>[] = [];
+        const messageRows: Partial<Message>[] = [];
+        const attachmentRows: Omit<Attachment, 'message'>[] = [];
+        for (const thread of threads) {
+            threadRows.push({
+                id: thread.id,
+                title: thread.title,
+                createdAt: new Date(thread.createdAt),
+                updatedAt: new Date(thread.updatedAt),
+                modelId: thread.model.id,
+                modelDisplayName: thread.model.displayName,
+                modelProvider: thread.model.provider,
+                // A merged chat does not take over from the one open here
+                isActive: !isMerge && thread.isActive,
+                summary: thread.summary ? await encryptField(thread.summary, key) : null,
+                summarizedCount: thread.summarizedCount,
+                generationParams: thread.generationParams,
+                personaId: thread.personaId,
+                importSource: thread.importSource,
+                jsonSchema: thread.jsonSchema ?? null
+            });
+            for (const { attachments, ...message } of thread.messages) {
+                messageRows.push({ ...message, text: await encryptField(message.text, key), chatThreadId: thread.id });
+            }
+            attachmentRows.push(...await this.encryptAttachments(thread.messages));
+        }
+        const personas = backup.personas
+            .filter(persona => !personaIds.has(persona.id))
+            .map(persona => ({ ...persona, createdAt: new Date(persona.createdAt) }));
+        const apiKeys: { serviceName: string; encryptedKey: string }[] = [];
+        for (const [serviceName, value] of Object.entries(backup.apiKeys ?? {})) {
+            if (!serviceNames.has(serviceName)) {
+                apiKeys.push({ serviceName, encryptedKey: await encryptField(value, key) });
+            }
+        }
+        const settings = await this.getSettings();
+
+        await AppDataSource.transaction(async manager => {
+            if (!isMerge) {
+                await manager.query(`DELETE FROM "message_search"`);
+                await manager.clear(Attachment);
+                await manager.clear(Message);
+                await manager.clear(ChatThread);
+                await manager.clear(Persona);
+                if (backup.apiKeys) {
+                    await manager.clear(ApiKey);
+                }
+                // The index is rebuilt below, once the messages are written
+                await manager.update(Settings, { id: settings.id }, { ...backup.settings, searchIndexEnabled: false });
+            }
+            for (const row of threadRows) {
+                await manager.insert(ChatThread, row);
+            }
+            for (const row of messageRows) {
+                await manager.insert(Message, row);
+            }
+            for (const row of attachmentRows) {
+                await manager.insert(Attachment, row);
+            }
+            for (const persona of personas) {
+                await manager.insert(Persona, persona);
+            }
+            for (const apiKey of apiKeys) {
+                await manager.insert(ApiKey, apiKey);
+            }
+        });
+
+        const searchIndexEnabled = isMerge ? settings.searchIndexEnabled : backup.settings.searchIndexEnabled;
+        if (searchIndexEnabled) {
+            await this.setSearchIndexEnabled(true);
+        }
+    }
+
     // Migration helper
     async importFromJson(data: any): Promise<void> {
-        if (!this.password) {
-            throw new Error('Password must be set before importing data');
-        }
+        const key = this.requireKey();
 
         // Import chat threads and messages
         if (data.chatThreads) {
@@ -180,12 +823,14 @@ export class DatabaseService {
                 if (threadData.messages) {
                     for (const msgData of threadData.messages) {
                         // Encrypt message text during import
-                        const encryptedText = await encryptField(msgData.text, this.password);
+                        const encryptedText = await encryptField(msgData.text, key);
                         await this.messageRepository.save(
                             this.messageRepository.create({
+                                id: Crypto.randomUUID(),
                                 isUser: msgData.isUser,
                                 text: encryptedText,
                                 timestamp: msgData.timestamp,
+                                isActiveVariant: true,
                                 chatThread: thread,
                                 chatThreadId: thread.id
                             })
@@ -198,10 +843,10 @@ export class DatabaseService {
         // Import API keys if they exist
         if (data.apiKeys) {
             if (data.apiKeys.gemini) {
-                await this.setApiKey('gemini', data.apiKeys.gemini, this.password);
+                await this.setApiKey('gemini', data.apiKeys.gemini);
             }
             if (data.apiKeys.openRouter) {
-                await this.setApiKey('openRouter', data.apiKeys.openRouter, this.password);
+                await this.setApiKey('openRouter', data.apiKeys.openRouter);
             }
         }
 
@@ -219,9 +864,14 @@ export class DatabaseService {
      */
     async deleteAllData(): Promise<void> {
         // Delete in order to respect foreign key constraints
+        await AppDataSource.query(`DELETE FROM "message_search"`);
+        await this.attachmentRepository.clear();
         await this.messageRepository.clear();
         await this.chatThreadRepository.clear();
         await this.apiKeyRepository.clear();
         await this.settingsRepository.clear();
+        await this.personaRepository.clear();
+        await this.encryptionKeyRepository.clear();
+        this.lock();
     }
 }
\ No newline at end of file
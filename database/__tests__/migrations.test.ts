@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ *
+ * Runs the schema migrations against SQLite files with the better-sqlite3 driver
+ */
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { DataSource } from 'typeorm';
+import { MIGRATIONS } from '../migrations';
+import { Message } from '../entities/Message';
+import { ChatThread } from '../entities/ChatThread';
+import { ApiKey } from '../entities/ApiKey';
+import { Settings } from '../entities/Settings';
+import { Persona } from '../entities/Persona';
+import { EncryptionKey } from '../entities/EncryptionKey';
+import { Attachment } from '../entities/Attachment';
+
+// Database of an install from before migrations, as created by schema synchronization of the first release
+const FIRST_RELEASE_SEED = `
+    CREATE TABLE "api_key" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "serviceName" text NOT NULL, "encryptedKey" text NOT NULL, CONSTRAINT "UQ_04ec300a4b602877aa2cc344e96" UNIQUE ("serviceName"));
+    CREATE TABLE "chat_thread" ("id" text PRIMARY KEY NOT NULL, "title" text NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "modelId" text NOT NULL, "modelDisplayName" text NOT NULL, "modelProvider" text NOT NULL, "isActive" boolean NOT NULL DEFAULT (0));
+    CREATE TABLE "message" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "isUser" boolean NOT NULL, "text" text NOT NULL, "timestamp" integer NOT NULL, "chatThreadId" text NOT NULL, CONSTRAINT "FK_4b555dd7b29764be98ae157bbf9" FOREIGN KEY ("chatThreadId") REFERENCES "chat_thread" ("id") ON DELETE CASCADE ON UPDATE NO ACTION);
+    CREATE INDEX "IDX_0a97a10e53ad4e12bda1e6b28b" ON "message" ("timestamp");
+    CREATE TABLE "settings" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "customPrompt" text, "openRouterModels" text);
+
+    INSERT INTO "api_key" ("serviceName", "encryptedKey") VALUES ('gemini', 'salt::key');
+    INSERT INTO "settings" ("customPrompt", "openRouterModels") VALUES ('Be brief.', '["openai/gpt-4o"]');
+    INSERT INTO "chat_thread" ("id", "title", "modelId", "modelDisplayName", "modelProvider", "isActive")
+        VALUES ('1700000000000', 'Trip planning', 'gemini-1.5-pro', 'Gemini 1.5 Pro', 'gemini', 1),
+               ('1700000000001', 'New Chat', 'openai/gpt-4o', 'GPT-4o', 'openrouter', 0);
+    INSERT INTO "message" ("isUser", "text", "timestamp", "chatThreadId")
+        VALUES (1, 'salt::hello', 1700000000100, '1700000000000'),
+               (0, 'salt::hi there', 1700000000200, '1700000000000'),
+               (1, 'salt::plan a trip', 1700000000300, '1700000000000'),
+               (0, 'salt::sure', 1700000000400, '1700000000000');
+`;
+
+const ENTITIES = [Message, ChatThread, ApiKey, Settings, Persona, EncryptionKey, Attachment];
+
+// Entities of the last version that created its schema by synchronization
+const SYNCHRONIZED_ENTITIES = [Message, ChatThread, ApiKey, Settings, Persona];
+
+const createDataSource = (database: string, synchronize = false) => new DataSource({
+    type: 'better-sqlite3',
+    database,
+    entities: synchronize ? SYNCHRONIZED_ENTITIES : ENTITIES,
+    migrations: synchronize ? [] : MIGRATIONS,
+    synchronize
+});
+
+// Schema changes TypeORM would still make for the entities; none when the migrations are complete
+const pendingSchemaChanges = async (dataSource: DataSource) =>
+    (await dataSource.driver.createSchemaBuilder().log()).upQueries.map(query => query.query);
+
+describe('database migrations', () => {
+    let directory: string;
+    let databaseFile: string;
+    let dataSource: DataSource | undefined;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'androidllm-migrations-'));
+        databaseFile = path.join(directory, 'androidllm.db');
+    });
+
+    afterEach(async () => {
+        if (dataSource?.isInitialized) await dataSource.destroy();
+        dataSource = undefined;
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const seed = (sql: string) => {
+        const database = new Database(databaseFile);
+        database.exec(sql);
+        database.close();
+    };
+
+    it('creates the schema of the entities on an empty database', async () => {
+        dataSource = createDataSource(databaseFile);
+        await dataSource.initialize();
+
+        const applied = await dataSource.runMigrations();
+
+        expect(applied.map(migration => migration.name)).toEqual(MIGRATIONS.map(Migration => new Migration().name));
+        expect(await pendingSchemaChanges(dataSource)).toEqual([]);
+    });
+
+    it('upgrades a first release database and keeps its data', async () => {
+        seed(FIRST_RELEASE_SEED);
+        dataSource = createDataSource(databaseFile);
+        await dataSource.initialize();
+
+        await dataSource.runMigrations();
+
+        expect(await pendingSchemaChanges(dataSource)).toEqual([]);
+        const messages = await dataSource.getRepository(Message).find({ order: { timestamp: 'ASC' } });
+        expect(messages.map(message => [message.id, message.text, message.parentId ?? null, message.isActiveVariant])).toEqual([
+            ['1', 'salt::hello', null, true],
+            ['2', 'salt::hi there', null, true],
+            ['3', 'salt::plan a trip', null, true],
+            ['4', 'salt::sure', null, true]
+        ]);
+        const threads = await dataSource.getRepository(ChatThread).find({ order: { id: 'ASC' } });
+        expect(threads.map(thread => [thread.title, thread.summarizedCount, thread.personaId ?? null])).toEqual([
+            ['Trip planning', 0, null],
+            ['New Chat', 0, null]
+        ]);
+        const settings = await dataSource.getRepository(Settings).findOneByOrFail({ id: 1 });
+        expect(settings.customPrompt).toBe('Be brief.');
+        expect(settings.summarizeHistory).toBe(false);
+        expect(await dataSource.getRepository(ApiKey).count()).toBe(1);
+    });
+
+    it('records applied migrations and does not run them twice', async () => {
+        seed(FIRST_RELEASE_SEED);
+        dataSource = createDataSource(databaseFile);
+        await dataSource.initialize();
+        await dataSource.runMigrations();
+        await dataSource.destroy();
+
+        dataSource = createDataSource(databaseFile);
+        await dataSource.initialize();
+
+        expect(await dataSource.showMigrations()).toBe(false);
+        expect(await dataSource.runMigrations()).toEqual([]);
+        expect(await dataSource.getRepository(Message).count()).toBe(4);
+    });
+
+    it('adopts a database created by schema synchronization', async () => {
+        dataSource = createDataSource(databaseFile, true);
+        await dataSource.initialize();
+        await dataSource.getRepository(ChatThread).insert({
+            id: '1700000000000',
+            title: 'Synchronized',
+            modelId: 'gemini-1.5-pro',
+            modelDisplayName: 'Gemini 1.5 Pro',
+            modelProvider: 'gemini'
+        });
+        await dataSource.getRepository(Message).insert([
+            { id: 'a', isUser: true, text: 'question', timestamp: 1, chatThreadId: '1700000000000' },
+            { id: 'b', isUser: false, text: 'answer', timestamp: 2, parentId: 'a', model: 'Gemini 1.5 Pro', chatThreadId: '1700000000000' }
+        ]);
+        await dataSource.destroy();
+
+        dataSource = createDataSource(databaseFile);
+        await dataSource.initialize();
+        await dataSource.runMigrations();
+
+        expect(await pendingSchemaChanges(dataSource)).toEqual([]);
+        const answer = await dataSource.getRepository(Message).findOneByOrFail({ id: 'b' });
+        expect(answer).toMatchObject({ parentId: 'a', model: 'Gemini 1.5 Pro', isActiveVariant: true });
+    });
+
+    it('reverts every migration after the first and applies them again', async () => {
+        seed(FIRST_RELEASE_SEED);
+        dataSource = createDataSource(databaseFile);
+        await dataSource.initialize();
+        await dataSource.runMigrations();
+
+        // A regenerated response that was not selected lives off the selected path
+        await dataSource.getRepository(Message).insert({
+            id: 'alternative', isUser: false, text: 'salt::maybe', timestamp: 1700000000500,
+            parentId: '3', isActiveVariant: false, chatThreadId: '1700000000000'
+        });
+        await dataSource.getRepository(Message).update({ id: '2' }, { parentId: '1' });
+        await dataSource.getRepository(Message).update({ id: '3' }, { parentId: '2' });
+        await dataSource.getRepository(Message).update({ id: '4' }, { parentId: '3' });
+
+        for (let i = 1; i < MIGRATIONS.length; i++) {
+            await dataSource.undoLastMigration();
+        }
+
+        const database = new Database(databaseFile, { readonly: true });
+        const messageColumns = database.prepare(`PRAGMA table_info("message")`).all() as { name: string; type: string }[];
+        const rows = database.prepare(`SELECT "id", "text" FROM "message" ORDER BY "timestamp"`).all();
+        const hasPersonaTable = database.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'persona'`).get();
+        database.close();
+        expect(messageColumns.map(column => column.name)).toEqual(['id', 'isUser', 'text', 'timestamp', 'chatThreadId']);
+        expect(messageColumns[0].type.toLowerCase()).toBe('integer');
+        expect(rows).toEqual([
+            { id: 1, text: 'salt::hello' },
+            { id: 2, text: 'salt::hi there' },
+            { id: 3, text: 'salt::plan a trip' },
+            { id: 4, text: 'salt::sure' }
+        ]);
+        expect(hasPersonaTable).toBeUndefined();
+
+        await dataSource.runMigrations();
+        expect(await pendingSchemaChanges(dataSource)).toEqual([]);
+        expect(await dataSource.getRepository(Message).count()).toBe(4);
+    });
+});
@@ -4,19 +4,27 @@ import { Message } from './entities/Message';
 import { ChatThread } from './entities/ChatThread';
 import { ApiKey } from './entities/ApiKey';
 import { Settings } from './entities/Settings';
+import { Persona } from './entities/Persona';
+import { EncryptionKey } from './entities/EncryptionKey';
+import { Attachment } from './entities/Attachment';
+import { MIGRATIONS } from './migrations';
 
 const databaseName = 'androidllm.db';
-const databasePath = `${FileSystem.documentDirectory}SQLite/${databaseName}`;
 
 export const AppDataSource = new DataSource({
     type: 'expo',
     database: databaseName,
     driver: require('expo-sqlite'),
-    entities: [Message, ChatThread, ApiKey, Settings],
-    synchronize: true, // Auto-create database schema (disable in production)
+    entities: [Message, ChatThread, ApiKey, Settings, Persona, EncryptionKey, Attachment],
+    migrations: MIGRATIONS, // Schema changes are versioned, see database/migrations
+    synchronize: false,
     logging: __DEV__, // Only log in development
 });
 
+/**
+ * Opens the database, unless it is open already, and brings its schema up to date
+ * @throws {Error} If the database cannot be opened or a migration fails; the app must not run on a half-migrated schema
+ */
 export const initializeDatabase = async () => {
     try {
         // Ensure directory exists
@@ -26,14 +34,30 @@ export const initializeDatabase = async () => {
             await FileSystem.makeDirectoryAsync(dbDir, { intermediates: true });
         }
 
-        // Initialize database connection
-        await AppDataSource.initialize();
-        console.log('Database initialized successfully');
-        return true;
+        // Initialize database connection; a restore or a login after locking reuses the open one
+        if (!AppDataSource.isInitialized) {
+            await AppDataSource.initialize();
+        }
     } catch (error) {
-        console.error('Error initializing database:', error);
-        return false;
+        console.error('Error opening database:', error);
+        throw new Error(`The database could not be opened: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+        // Bring the schema up to date; applied migrations are recorded in the migrations table
+        // and run in one transaction, so a failure leaves the previous schema in place
+        const applied = await AppDataSource.runMigrations();
+        if (applied.length > 0) {
+            console.log(`Applied ${applied.length} database migration(s)`);
+        }
+    } catch (error) {
+        console.error('Error migrating database:', error);
+        // Close the connection so nothing reads the old schema; the next attempt retries the migrations
+        await AppDataSource.destroy().catch(() => undefined);
+        throw new Error(`The database could not be upgraded: ${error instanceof Error ? error.message : String(error)}`);
     }
+    console.log('Database initialized successfully');
+    return true;
 };
 
 export const disconnectDatabase = async () => {
@@ -0,0 +1,34 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import type { Message } from './Message';
+
+/**
+ * A file attached to a message, e.g. an image or a log file sent with a prompt
+ */
+@Entity()
+export class Attachment {
+    @PrimaryColumn('text')
+    id!: string;
+
+    @Index()
+    @Column('text')
+    messageId!: string;
+
+    @ManyToOne('Message', { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'messageId' })
+    message!: Message;
+
+    @Column('text')
+    mimeType!: string; // e.g. image/jpeg
+
+    @Column('text', { nullable: true })
+    name?: string | null; // File name as chosen by the user
+
+    @Column('text')
+    data!: string; // Encrypted content: base64 for images, the text itself for text files
+
+    @Column('integer', { nullable: true })
+    width?: number | null; // Images only, in pixels
+
+    @Column('integer', { nullable: true })
+    height?: number | null;
+}
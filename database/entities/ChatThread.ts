@@ -27,9 +27,33 @@ export class ChatThread {
     @Column('boolean', { default: false })
     isActive!: boolean;
 
+    // Encrypted rolling summary of the messages that no longer fit in the context window
+    @Column('text', { nullable: true })
+    summary?: string | null;
+
+    // Number of leading messages covered by the summary
+    @Column('integer', { default: 0 })
+    summarizedCount!: number;
+
+    // JSON generation parameters overriding the global defaults
+    @Column('text', { nullable: true })
+    generationParams?: string | null;
+
+    // Persona supplying the system prompt; the global custom prompt when empty
+    @Column('text', { nullable: true })
+    personaId?: string | null;
+
+    // Source of an imported thread, e.g. "chatgpt:<conversation id>"; empty for threads started here
+    @Column('text', { nullable: true })
+    importSource?: string | null;
+
+    // JSON Schema the answers must follow in JSON mode; a normal chat when empty
+    @Column('text', { nullable: true })
+    jsonSchema?: string | null;
+
+    // Loaded on request only; threads are listed without their messages
     @OneToMany('Message', (message: Message) => message.chatThread, {
-        cascade: true,
-        eager: true
+        cascade: true
     })
     messages!: Message[];
 }
\ No newline at end of file
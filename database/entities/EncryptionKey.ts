@@ -0,0 +1,29 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+/**
+ * The data key, wrapped with a key derived from the password
+ * A single row; it is created when the database is first unlocked.
+ */
+@Entity()
+export class EncryptionKey {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column('text')
+    algorithm!: string; // Key derivation, e.g. pbkdf2-sha256
+
+    @Column('integer')
+    iterations!: number;
+
+    @Column('text')
+    salt!: string; // Base64
+
+    @Column('text')
+    keyCheck!: string; // A known value encrypted with the data key, to tell a wrong password from corrupted data
+
+    @Column('text', { nullable: true })
+    wrappedKey?: string | null; // Data key encrypted with the password key; null while the password key is the data key
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -1,10 +1,10 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
 import type { ChatThread } from './ChatThread';
 
 @Entity()
 export class Message {
-    @PrimaryGeneratedColumn()
-    id!: number;
+    @PrimaryColumn('text')
+    id!: string; // Generated by the app, so in-memory messages keep a stable id
 
     @Column('boolean')
     isUser!: boolean;
@@ -16,10 +16,22 @@ export class Message {
     @Column('integer')
     timestamp!: number;
 
+    @Column('text', { nullable: true })
+    model?: string | null; // Display name of the model that wrote an assistant message
+
+    @Column('text', { nullable: true })
+    parentId?: string | null; // Message this one continues; null for the first message of a thread
+
+    @Column('boolean', { default: true })
+    isActiveVariant!: boolean; // Selected among the messages sharing its parent
+
+    @Column('text', { default: 'text' })
+    type!: string; // 'text', or 'toolCall' / 'toolResult' for the steps of a response that used tools
+
     @Column('text')
     chatThreadId!: string;
 
     @ManyToOne('ChatThread', 'messages', { onDelete: 'CASCADE' })
     @JoinColumn({ name: 'chatThreadId' })
     chatThread!: ChatThread;
-}
\ No newline at end of file
+}
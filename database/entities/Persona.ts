@@ -0,0 +1,24 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity()
+export class Persona {
+    @PrimaryColumn('text')
+    id!: string;
+
+    @Column('text')
+    name!: string;
+
+    @Column('text')
+    systemPrompt!: string;
+
+    // JSON model new chats with this persona start on; the current model when empty
+    @Column('text', { nullable: true })
+    defaultModel?: string | null;
+
+    // JSON generation parameters layered between the global defaults and the thread's own
+    @Column('text', { nullable: true })
+    defaultParams?: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
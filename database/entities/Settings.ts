@@ -8,6 +8,31 @@ export class Settings {
     @Column('text', { nullable: true })
     customPrompt?: string;
 
+    // JSON list of user-added models; older rows hold bare OpenRouter model ids
     @Column('text', { nullable: true })
     openRouterModels?: string;
+
+    // Base URL of the OpenAI-compatible custom endpoint
+    @Column('text', { nullable: true })
+    customEndpointUrl?: string;
+
+    // JSON list of model ids served by the custom endpoint
+    @Column('text', { nullable: true })
+    customEndpointModels?: string;
+
+    // Summarize messages that no longer fit in the context window
+    @Column('boolean', { default: false })
+    summarizeHistory!: boolean;
+
+    // JSON model used for summaries; the thread's model when empty
+    @Column('text', { nullable: true })
+    summaryModel?: string | null;
+
+    // JSON default generation parameters for all chats
+    @Column('text', { nullable: true })
+    generationParams?: string | null;
+
+    // Keep the message_search index of message contents up to date
+    @Column('boolean', { default: false })
+    searchIndexEnabled!: boolean;
 }
\ No newline at end of file
@@ -7,4 +7,7 @@ export * from './DatabaseService';
 export * from './entities/Message';
 export * from './entities/ChatThread';
 export * from './entities/ApiKey';
-export * from './entities/Settings';
\ No newline at end of file
+export * from './entities/Settings';
+export * from './entities/Persona';
+export * from './entities/EncryptionKey';
+export * from './entities/Attachment';
\ No newline at end of file
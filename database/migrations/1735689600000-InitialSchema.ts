@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Schema of the first release
+ * Installs from before migrations already have these tables, so they are only created when missing.
+ */
+export class InitialSchema1735689600000 implements MigrationInterface {
+    name = 'InitialSchema1735689600000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE IF NOT EXISTS "api_key" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "serviceName" text NOT NULL, "encryptedKey" text NOT NULL, CONSTRAINT "UQ_04ec300a4b602877aa2cc344e96" UNIQUE ("serviceName"))`);
+        await queryRunner.query(`CREATE TABLE IF NOT EXISTS "chat_thread" ("id" text PRIMARY KEY NOT NULL, "title" text NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "modelId" text NOT NULL, "modelDisplayName" text NOT NULL, "modelProvider" text NOT NULL, "isActive" boolean NOT NULL DEFAULT (0))`);
+        await queryRunner.query(`CREATE TABLE IF NOT EXISTS "message" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "isUser" boolean NOT NULL, "text" text NOT NULL, "timestamp" integer NOT NULL, "chatThreadId" text NOT NULL, CONSTRAINT "FK_4b555dd7b29764be98ae157bbf9" FOREIGN KEY ("chatThreadId") REFERENCES "chat_thread" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_0a97a10e53ad4e12bda1e6b28b" ON "message" ("timestamp")`);
+        await queryRunner.query(`CREATE TABLE IF NOT EXISTS "settings" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "customPrompt" text, "openRouterModels" text)`);
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE "settings"`);
+        await queryRunner.query(`DROP INDEX "IDX_0a97a10e53ad4e12bda1e6b28b"`);
+        await queryRunner.query(`DROP TABLE "message"`);
+        await queryRunner.query(`DROP TABLE "chat_thread"`);
+        await queryRunner.query(`DROP TABLE "api_key"`);
+    }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * URL and model list of the OpenAI-compatible custom endpoint
+ */
+export class AddCustomEndpointSettings1735776000000 implements MigrationInterface {
+    name = 'AddCustomEndpointSettings1735776000000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'settings', {
+            customEndpointUrl: 'text',
+            customEndpointModels: 'text'
+        });
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await dropColumns(queryRunner, 'settings', ['customEndpointUrl', 'customEndpointModels']);
+    }
+}
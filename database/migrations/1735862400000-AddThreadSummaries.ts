@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * Rolling summaries of messages outside the context window
+ */
+export class AddThreadSummaries1735862400000 implements MigrationInterface {
+    name = 'AddThreadSummaries1735862400000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'chat_thread', {
+            summary: 'text',
+            summarizedCount: 'integer NOT NULL DEFAULT (0)'
+        });
+        await addMissingColumns(queryRunner, 'settings', {
+            summarizeHistory: 'boolean NOT NULL DEFAULT (0)',
+            summaryModel: 'text'
+        });
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await dropColumns(queryRunner, 'settings', ['summarizeHistory', 'summaryModel']);
+        await dropColumns(queryRunner, 'chat_thread', ['summary', 'summarizedCount']);
+    }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * Global generation defaults and per-chat overrides
+ */
+export class AddGenerationParams1735948800000 implements MigrationInterface {
+    name = 'AddGenerationParams1735948800000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'chat_thread', { generationParams: 'text' });
+        await addMissingColumns(queryRunner, 'settings', { generationParams: 'text' });
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await dropColumns(queryRunner, 'settings', ['generationParams']);
+        await dropColumns(queryRunner, 'chat_thread', ['generationParams']);
+    }
+}
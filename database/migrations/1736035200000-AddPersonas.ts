@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * Persona presets and the persona a chat was started with
+ */
+export class AddPersonas1736035200000 implements MigrationInterface {
+    name = 'AddPersonas1736035200000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE IF NOT EXISTS "persona" ("id" text PRIMARY KEY NOT NULL, "name" text NOT NULL, "systemPrompt" text NOT NULL, "defaultModel" text, "defaultParams" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await addMissingColumns(queryRunner, 'chat_thread', { personaId: 'text' });
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await dropColumns(queryRunner, 'chat_thread', ['personaId']);
+        await queryRunner.query(`DROP TABLE "persona"`);
+    }
+}
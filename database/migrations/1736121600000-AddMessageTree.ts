@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { getColumnNames } from './sqliteHelpers';
+
+const MESSAGE_TREE_TABLE = `CREATE TABLE "temporary_message" ("id" text PRIMARY KEY NOT NULL, "isUser" boolean NOT NULL, "text" text NOT NULL, "timestamp" integer NOT NULL, "model" text, "parentId" text, "isActiveVariant" boolean NOT NULL DEFAULT (1), "chatThreadId" text NOT NULL, CONSTRAINT "FK_4b555dd7b29764be98ae157bbf9" FOREIGN KEY ("chatThreadId") REFERENCES "chat_thread" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`;
+const MESSAGE_LIST_TABLE = `CREATE TABLE "temporary_message" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "isUser" boolean NOT NULL, "text" text NOT NULL, "timestamp" integer NOT NULL, "chatThreadId" text NOT NULL, CONSTRAINT "FK_4b555dd7b29764be98ae157bbf9" FOREIGN KEY ("chatThreadId") REFERENCES "chat_thread" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`;
+
+/**
+ * Message ids generated by the app, the model that wrote a response and the branching tree
+ * SQLite cannot change a primary key in place, so the table is rebuilt.
+ * Existing messages keep their ids as text; the app links them into a chain on load.
+ */
+export class AddMessageTree1736121600000 implements MigrationInterface {
+    name = 'AddMessageTree1736121600000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        // Copy the tree columns too when schema synchronization already added them
+        const existing = await getColumnNames(queryRunner, 'message');
+        const columns = ['isUser', 'text', 'timestamp', 'model', 'parentId', 'isActiveVariant', 'chatThreadId']
+            .filter(name => existing.includes(name))
+            .map(name => `"${name}"`);
+
+        await queryRunner.query(`DROP INDEX "IDX_0a97a10e53ad4e12bda1e6b28b"`);
+        await queryRunner.query(MESSAGE_TREE_TABLE);
+        await queryRunner.query(`INSERT INTO "temporary_message"("id", ${columns.join(', ')}) SELECT CAST("id" AS text), ${columns.join(', ')} FROM "message"`);
+        await queryRunner.query(`DROP TABLE "message"`);
+        await queryRunner.query(`ALTER TABLE "temporary_message" RENAME TO "message"`);
+        await queryRunner.query(`CREATE INDEX "IDX_0a97a10e53ad4e12bda1e6b28b" ON "message" ("timestamp")`);
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // A list cannot hold branches, so only the selected path of each chat is kept
+        await queryRunner.query(`DROP INDEX "IDX_0a97a10e53ad4e12bda1e6b28b"`);
+        await queryRunner.query(MESSAGE_LIST_TABLE);
+        await queryRunner.query(`
+            WITH RECURSIVE "path"("id") AS (
+                SELECT "id" FROM "message" WHERE "parentId" IS NULL AND "isActiveVariant" = 1
+                UNION ALL
+                SELECT "child"."id" FROM "message" "child" JOIN "path" ON "child"."parentId" = "path"."id" WHERE "child"."isActiveVariant" = 1
+            )
+            INSERT INTO "temporary_message"("isUser", "text", "timestamp", "chatThreadId")
+            SELECT "isUser", "text", "timestamp", "chatThreadId" FROM "message" WHERE "id" IN (SELECT "id" FROM "path") ORDER BY "timestamp"`);
+        await queryRunner.query(`DROP TABLE "message"`);
+        await queryRunner.query(`ALTER TABLE "temporary_message" RENAME TO "message"`);
+        await queryRunner.query(`CREATE INDEX "IDX_0a97a10e53ad4e12bda1e6b28b" ON "message" ("timestamp")`);
+    }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Key derivation parameters for AES-GCM field encryption
+ * Fields in the legacy format are re-encrypted by the app on the next unlock, as that needs the password.
+ */
+export class AddEncryptionKey1736208000000 implements MigrationInterface {
+    name = 'AddEncryptionKey1736208000000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "encryption_key" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "algorithm" text NOT NULL, "iterations" integer NOT NULL, "salt" text NOT NULL, "keyCheck" text NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE "encryption_key"`);
+    }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Data key wrapped by the password key, so the password can change without re-encrypting data
+ * Existing keys are wrapped by the app on the next unlock.
+ */
+export class AddWrappedDataKey1736294400000 implements MigrationInterface {
+    name = 'AddWrappedDataKey1736294400000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "encryption_key" ADD COLUMN "wrappedKey" text`);
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "encryption_key" DROP COLUMN "wrappedKey"`);
+    }
+}
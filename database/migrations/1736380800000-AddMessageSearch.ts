@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * Opt-in full-text index of message contents
+ * The index holds keyed hashes of the words, never the words themselves, and is
+ * filled by the app when search is turned on.
+ */
+export class AddMessageSearch1736380800000 implements MigrationInterface {
+    name = 'AddMessageSearch1736380800000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'settings', {
+            searchIndexEnabled: 'boolean NOT NULL DEFAULT (0)'
+        });
+        await queryRunner.query(
+            `CREATE VIRTUAL TABLE IF NOT EXISTS "message_search" USING fts5("tokens", "messageId" UNINDEXED, "chatThreadId" UNINDEXED)`
+        );
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "message_search"`);
+        await dropColumns(queryRunner, 'settings', ['searchIndexEnabled']);
+    }
+}
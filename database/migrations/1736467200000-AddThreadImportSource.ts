@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * Source of an imported thread, e.g. "chatgpt:<conversation id>", so the same conversation is not imported twice
+ */
+export class AddThreadImportSource1736467200000 implements MigrationInterface {
+    name = 'AddThreadImportSource1736467200000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'chat_thread', { importSource: 'text' });
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await dropColumns(queryRunner, 'chat_thread', ['importSource']);
+    }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Files attached to messages, removed together with their message
+ */
+export class AddAttachments1736553600000 implements MigrationInterface {
+    name = 'AddAttachments1736553600000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "attachment" ("id" text PRIMARY KEY NOT NULL, "messageId" text NOT NULL, "mimeType" text NOT NULL, "name" text, "data" text NOT NULL, "width" integer, "height" integer, CONSTRAINT "FK_5f4a6c0677b1f2b417e95c717f8" FOREIGN KEY ("messageId") REFERENCES "message" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+        await queryRunner.query(`CREATE INDEX "IDX_5f4a6c0677b1f2b417e95c717f" ON "attachment" ("messageId")`);
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_5f4a6c0677b1f2b417e95c717f"`);
+        await queryRunner.query(`DROP TABLE "attachment"`);
+    }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * Kind of a message, so the tool calls and results of a response are stored as messages of their own
+ */
+export class AddMessageType1736640000000 implements MigrationInterface {
+    name = 'AddMessageType1736640000000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'message', { type: `text NOT NULL DEFAULT ('text')` });
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Tool steps cannot be told apart from answers without the column, so they are removed
+        // and the messages that continued them move up to the step's parent
+        const toolStepIds = `SELECT "id" FROM "message" WHERE "type" != 'text'`;
+        for (;;) {
+            const [{ count }] = await queryRunner.query(`SELECT COUNT(*) AS "count" FROM "message" WHERE "parentId" IN (${toolStepIds})`);
+            if (Number(count) === 0) break;
+            await queryRunner.query(`
+                UPDATE "message" SET "parentId" = (SELECT "step"."parentId" FROM "message" "step" WHERE "step"."id" = "message"."parentId")
+                WHERE "parentId" IN (${toolStepIds})`);
+        }
+        await queryRunner.query(`DELETE FROM "message" WHERE "type" != 'text'`);
+        await dropColumns(queryRunner, 'message', ['type']);
+    }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { addMissingColumns, dropColumns } from './sqliteHelpers';
+
+/**
+ * JSON Schema of a thread in JSON mode, whose answers are checked against it
+ */
+export class AddThreadJsonSchema1736726400000 implements MigrationInterface {
+    name = 'AddThreadJsonSchema1736726400000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await addMissingColumns(queryRunner, 'chat_thread', { jsonSchema: 'text' });
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await dropColumns(queryRunner, 'chat_thread', ['jsonSchema']);
+    }
+}
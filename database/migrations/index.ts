@@ -0,0 +1,30 @@
+import { InitialSchema1735689600000 } from './1735689600000-InitialSchema';
+import { AddCustomEndpointSettings1735776000000 } from './1735776000000-AddCustomEndpointSettings';
+import { AddThreadSummaries1735862400000 } from './1735862400000-AddThreadSummaries';
+import { AddGenerationParams1735948800000 } from './1735948800000-AddGenerationParams';
+import { AddPersonas1736035200000 } from './1736035200000-AddPersonas';
+import { AddMessageTree1736121600000 } from './1736121600000-AddMessageTree';
+import { AddEncryptionKey1736208000000 } from './1736208000000-AddEncryptionKey';
+import { AddWrappedDataKey1736294400000 } from './1736294400000-AddWrappedDataKey';
+import { AddMessageSearch1736380800000 } from './1736380800000-AddMessageSearch';
+import { AddThreadImportSource1736467200000 } from './1736467200000-AddThreadImportSource';
+import { AddAttachments1736553600000 } from './1736553600000-AddAttachments';
+import { AddMessageType1736640000000 } from './1736640000000-AddMessageType';
+import { AddThreadJsonSchema1736726400000 } from './1736726400000-AddThreadJsonSchema';
+
+// All migrations, oldest first; append new ones at the end
+export const MIGRATIONS = [
+    InitialSchema1735689600000,
+    AddCustomEndpointSettings1735776000000,
+    AddThreadSummaries1735862400000,
+    AddGenerationParams1735948800000,
+    AddPersonas1736035200000,
+    AddMessageTree1736121600000,
+    AddEncryptionKey1736208000000,
+    AddWrappedDataKey1736294400000,
+    AddMessageSearch1736380800000,
+    AddThreadImportSource1736467200000,
+    AddAttachments1736553600000,
+    AddMessageType1736640000000,
+    AddThreadJsonSchema1736726400000
+];
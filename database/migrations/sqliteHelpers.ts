@@ -0,0 +1,34 @@
+import { QueryRunner } from 'typeorm';
+
+/**
+ * Names of a table's columns, empty when the table does not exist
+ */
+export async function getColumnNames(queryRunner: QueryRunner, table: string): Promise<string[]> {
+    const columns: { name: string }[] = await queryRunner.query(`PRAGMA table_info("${table}")`);
+    return columns.map(column => column.name);
+}
+
+/**
+ * Adds the columns a table does not have yet
+ * Databases created by schema synchronization, before migrations existed, may already have some of them.
+ */
+export async function addMissingColumns(queryRunner: QueryRunner, table: string, columns: Record<string, string>): Promise<void> {
+    const existing = await getColumnNames(queryRunner, table);
+    for (const [name, definition] of Object.entries(columns)) {
+        if (!existing.includes(name)) {
+            await queryRunner.query(`ALTER TABLE "${table}" ADD COLUMN "${name}" ${definition}`);
+        }
+    }
+}
+
+/**
+ * Drops the given columns from a table where present
+ */
+export async function dropColumns(queryRunner: QueryRunner, table: string, names: string[]): Promise<void> {
+    const existing = await getColumnNames(queryRunner, table);
+    for (const name of names) {
+        if (existing.includes(name)) {
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "${name}"`);
+        }
+    }
+}
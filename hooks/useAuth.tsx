@@ -2,27 +2,51 @@
  * Authentication Hook and Protected Route Component
  * 
  * This module provides authentication functionality including:
- * - Password validation and hashing
+ * - Password validation against the database's data key
  * - Secure storage of credentials
+ * - Throttling of failed logins, optionally deleting all data after too many
+ * - Auto-lock after time in the background or without interaction
  * - Authentication state management
  * - Route protection for authenticated routes
  */
-import { useState, useEffect, createContext, useContext } from 'react';
+import { useState, useEffect, useRef, createContext, useContext } from 'react';
+import { AppState } from 'react-native';
 import * as FileSystem from 'expo-file-system';
-import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
-import { encryptData } from '../utils/encryption';
 import React from 'react';
 import { router, useRouter } from 'expo-router';
 import { useData } from '../context/dataContext';
 import { deleteFile } from '../utils/readJson';
-import { initializeDatabase, disconnectDatabase } from '../database/database.config';
-import { DatabaseService } from '../database/DatabaseService';
+import { disconnectDatabase } from '../database/database.config';
+import { INCORRECT_PASSWORD } from '../database/DatabaseService';
+import { parsePasswordVerifier, verifyLegacyHash, verifyPassword } from '../utils/passwordVerifier';
+import {
+  clearLoginThrottle,
+  formatLockout,
+  getWipeAfterFailures,
+  isWipeDue,
+  loadLoginThrottle,
+  recordFailedLogin,
+  setWipeAfterFailures as storeWipeAfterFailures
+} from '../utils/loginThrottle';
+import {
+  AutoLockOption,
+  DEFAULT_AUTO_LOCK,
+  getAutoLockOption,
+  runLockHandlers,
+  setAutoLockOption
+} from '../utils/autoLock';
+import { globalEventEmitter } from '../utils/event';
 
 // Create a module-level variable to store authentication state
 // This will persist only for the current app session
 let isAuthenticatedSession = false;
 let currentUserPassword = '';
+// Thread that was open when the app locked, reopened on the next unlock
+let lockedThreadId: string | undefined;
+
+// How often to check for idle time while the app is in the foreground
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
 
 interface AuthContextType {
   isNewUser: boolean;
@@ -33,6 +57,12 @@ interface AuthContextType {
   logout: () => Promise<void>;
   deleteAllData: () => Promise<void>;
   getCurrentPassword: () => string;
+  changePassword: (currentPassword: string, newPassword: string, confirmPassword: string) => Promise<void>;
+  wipeAfterFailures: number | null;
+  setWipeAfterFailures: (value: number | null) => Promise<void>;
+  autoLock: AutoLockOption;
+  setAutoLock: (option: AutoLockOption) => Promise<void>;
+  lock: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -58,17 +88,87 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
  * @property {Function} validateAndSavePassword - Validates password and saves data
  * @property {Function} logout - Logs out the current user
  * @property {Function} deleteAllData - Deletes all user data and resets state
+ * @property {Function} changePassword - Changes the password protecting the data
+ * @property {number | null} wipeAfterFailures - Failed logins after which all data is deleted, null if disabled
+ * @property {Function} setWipeAfterFailures - Changes wipeAfterFailures
+ * @property {AutoLockOption} autoLock - When the app locks itself
+ * @property {Function} setAutoLock - Changes autoLock
+ * @property {Function} lock - Locks the app, keeping the open thread for the next unlock
  */
 function useAuthHook() {
     const [isNewUser, setIsNewUser] = useState(false);
     const [error, setError] = useState('');
     const [isAuthenticated, setIsAuthenticated] = useState(isAuthenticatedSession);
-    const { loadData } = useData();
+    const [wipeAfterFailures, setWipeAfterFailuresState] = useState<number | null>(null);
+    const [autoLock, setAutoLockState] = useState<AutoLockOption>(DEFAULT_AUTO_LOCK);
+    const { data, hasDataKey, loadData, changeEncryptionPassword, clearData, openChatThread } = useData();
+    const activeThreadRef = useRef<string | undefined>(data?.activeThreadId);
+    const lastActivityRef = useRef(Date.now());
+    // The timers below call the latest lock, which closes over the current data and router
+    const lockRef = useRef<() => Promise<void>>(async () => {});
+
+    useEffect(() => {
+        activeThreadRef.current = data?.activeThreadId;
+    }, [data?.activeThreadId]);
 
     useEffect(() => {
         checkIfUserExists();
+        getWipeAfterFailures().then(setWipeAfterFailuresState).catch(err => {
+            console.error('Error loading wipe setting:', err);
+        });
+        getAutoLockOption().then(setAutoLockState).catch(err => {
+            console.error('Error loading auto-lock setting:', err);
+        });
     }, []);
 
+    // Lock after the configured time in the background; the timer may not run there, so also check on return
+    useEffect(() => {
+        const backgroundMs = autoLock.backgroundMs;
+        if (!isAuthenticated || backgroundMs === null) return;
+
+        let backgroundedAt: number | null = null;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const subscription = AppState.addEventListener('change', nextAppState => {
+            if (nextAppState === 'background') {
+                backgroundedAt = Date.now();
+                timer = setTimeout(() => lockRef.current(), backgroundMs);
+            } else if (nextAppState === 'active' && backgroundedAt !== null) {
+                clearTimeout(timer);
+                if (Date.now() - backgroundedAt >= backgroundMs) {
+                    lockRef.current();
+                }
+                backgroundedAt = null;
+            }
+        });
+
+        return () => {
+            clearTimeout(timer);
+            subscription.remove();
+        };
+    }, [isAuthenticated, autoLock]);
+
+    // Lock after the configured time without touches or typing in the foreground
+    useEffect(() => {
+        const idleMs = autoLock.idleMs;
+        if (!isAuthenticated || idleMs === null) return;
+
+        lastActivityRef.current = Date.now();
+        const handleActivity = () => {
+            lastActivityRef.current = Date.now();
+        };
+        const subscription = globalEventEmitter.addListener('userActivity', handleActivity);
+        const interval = setInterval(() => {
+            if (AppState.currentState === 'active' && Date.now() - lastActivityRef.current >= idleMs) {
+                lockRef.current();
+            }
+        }, IDLE_CHECK_INTERVAL_MS);
+
+        return () => {
+            clearInterval(interval);
+            subscription.removeListener('userActivity', handleActivity);
+        };
+    }, [isAuthenticated, autoLock]);
+
     /**
      * Checks if the user data exists in either JSON or SQLite format
      * Updates isNewUser state accordingly
@@ -90,16 +190,52 @@ function useAuthHook() {
     };
 
     /**
-     * Creates a SHA-256 hash of the provided password
+     * Checks a password against the verifier, or the unsalted hash, stored by earlier versions
      * 
-     * @param {string} pwd - The password to hash
-     * @returns {Promise<string>} The hashed password
+     * @param {string} pwd - The password to check
+     * @returns {Promise<boolean>} True if the password matches
+     */
+    const matchesStoredPassword = async (pwd: string) => {
+        const verifier = parsePasswordVerifier(await SecureStore.getItemAsync('passwordVerifier'));
+        if (verifier) {
+            return await verifyPassword(pwd, verifier);
+        }
+        const legacyHash = await SecureStore.getItemAsync('passwordHash');
+        return legacyHash ? await verifyLegacyHash(pwd, legacyHash) : false;
+    };
+
+    /**
+     * Removes the password verifiers and hashes stored by earlier versions
      */
-    const hashPassword = async (pwd: string) => {
-        return await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            pwd
-        );
+    const deleteStoredPasswords = async () => {
+        await SecureStore.deleteItemAsync('passwordVerifier');
+        await SecureStore.deleteItemAsync('pendingPasswordVerifier');
+        await SecureStore.deleteItemAsync('passwordHash');
+        await SecureStore.deleteItemAsync('pendingPasswordHash');
+    };
+
+    /**
+     * Counts a failed login, deleting all data once the configured limit is reached
+     * 
+     * @throws {Error} Always, describing the failure and any lockout
+     */
+    const failLogin = async (): Promise<never> => {
+        const { failedAttempts, lockedUntil } = await recordFailedLogin();
+        const wipeAfter = await getWipeAfterFailures();
+        if (isWipeDue(failedAttempts, wipeAfter)) {
+            await deleteAllData();
+            throw new Error('Too many failed attempts. All data has been deleted.');
+        }
+
+        const notes: string[] = [];
+        if (wipeAfter !== null) {
+            const left = wipeAfter - failedAttempts;
+            notes.push(`${left} attempt${left === 1 ? '' : 's'} left before all data is deleted.`);
+        }
+        if (lockedUntil > 0) {
+            notes.push(`Try again in ${formatLockout(lockedUntil - Date.now())}.`);
+        }
+        throw new Error(notes.length > 0 ? `Incorrect password. ${notes.join(' ')}` : 'Incorrect password');
     };
 
     /**
@@ -112,8 +248,8 @@ function useAuthHook() {
 
     /**
      * Validates the provided password and saves user data
-     * For new users: Creates account, saves hashed password, and initializes data file
-     * For existing users: Verifies password against stored hash
+     * For new users: Creates account and initializes the database with a data key protected by the password
+     * For existing users: Opens the data key with the password, throttling repeated failures
      * 
      * @param {string} password - The user's password
      * @param {string} [confirmPassword] - Password confirmation (required for new users)
@@ -127,12 +263,10 @@ function useAuthHook() {
                     throw new Error('Passwords do not match');
                 }
                 
-                const hashedPassword = await hashPassword(password);
-                await SecureStore.setItemAsync('passwordHash', hashedPassword);
+                await clearLoginThrottle();
                 
-                // Initialize SQLite database
-                await initializeDatabase();
-                const dbService = new DatabaseService();
+                // Initialize the SQLite database and derive the encryption key
+                await loadData(password);
                 
                 // Set authenticated for this session
                 isAuthenticatedSession = true;
@@ -141,32 +275,122 @@ function useAuthHook() {
                 setIsNewUser(false);
                 return true;
             } else {
-                const storedHash = await SecureStore.getItemAsync('passwordHash');
-                const inputHash = await hashPassword(password);
+                const { lockedUntil } = await loadLoginThrottle();
+                if (lockedUntil > Date.now()) {
+                    throw new Error(`Too many failed attempts. Try again in ${formatLockout(lockedUntil - Date.now())}.`);
+                }
                 
-                if (storedHash !== inputHash) {
-                    throw new Error('Incorrect password');
+                // Opening the data key checks the password, deriving its key only once. Databases from
+                // earlier versions have no data key yet, so the password stored by those versions decides.
+                if (!await hasDataKey() && !await matchesStoredPassword(password)) {
+                    await failLogin();
                 }
                 
                 try {
                     // Load data using the context instead of directly
                     await loadData(password);
-                    
-                    // Set authenticated for this session
-                    isAuthenticatedSession = true;
-                    currentUserPassword = password;
-                    setIsAuthenticated(true);
-                    return true;
                 } catch (err) {
-                    console.error('Error loading file:', err);
-                    throw new Error('Could not decrypt data file. Please try again.');
+                    if (err instanceof Error && err.message === INCORRECT_PASSWORD) {
+                        await failLogin();
+                    }
+                    console.error('Error loading data:', err);
+                    throw new Error(`Could not open your data. ${err instanceof Error ? err.message : 'Please try again.'}`);
                 }
+                
+                await clearLoginThrottle();
+                await deleteStoredPasswords();
+                
+                // Reopen the thread that was open when the app locked
+                if (lockedThreadId) {
+                    await openChatThread(lockedThreadId).catch(err => {
+                        console.error('Error reopening thread:', err);
+                    });
+                    lockedThreadId = undefined;
+                }
+                
+                // Set authenticated for this session
+                isAuthenticatedSession = true;
+                currentUserPassword = password;
+                setIsAuthenticated(true);
+                return true;
             }
         } catch (err) {
             throw err;
         }
     };
 
+    /**
+     * Changes the password and re-wraps the data encryption key with it
+     * The key record is rewritten in a single update, so an interrupted change leaves either password in effect.
+     * 
+     * @param {string} currentPassword - The password in use
+     * @param {string} newPassword - The new password
+     * @param {string} confirmPassword - Confirmation of the new password
+     * @throws {Error} If the current password is wrong or the new one is not confirmed
+     */
+    const changePassword = async (currentPassword: string, newPassword: string, confirmPassword: string) => {
+        if (currentPassword !== currentUserPassword) {
+            throw new Error('Incorrect password');
+        }
+        if (!newPassword) {
+            throw new Error('Please enter a new password');
+        }
+        if (newPassword !== confirmPassword) {
+            throw new Error('Passwords do not match');
+        }
+        if (newPassword === currentPassword) {
+            throw new Error('The new password is the same as the current one');
+        }
+
+        await changeEncryptionPassword(currentPassword, newPassword);
+        currentUserPassword = newPassword;
+    };
+
+    /**
+     * Sets how many failed logins delete all data
+     * 
+     * @param {number | null} value - Number of failures, or null to never delete
+     */
+    const setWipeAfterFailures = async (value: number | null) => {
+        await storeWipeAfterFailures(value);
+        setWipeAfterFailuresState(value);
+    };
+
+    /**
+     * Sets when the app locks itself
+     * 
+     * @param {AutoLockOption} option - One of AUTO_LOCK_OPTIONS
+     */
+    const setAutoLock = async (option: AutoLockOption) => {
+        await setAutoLockOption(option);
+        setAutoLockState(option);
+    };
+
+    /**
+     * Locks the app: saves pending work, then forgets the password and the decrypted data,
+     * closes the database and returns to the login screen
+     */
+    const lock = async () => {
+        if (!isAuthenticatedSession) return;
+        isAuthenticatedSession = false;
+        try {
+            // Screens save while the password and database are still available
+            await runLockHandlers();
+
+            lockedThreadId = activeThreadRef.current;
+            currentUserPassword = '';
+            clearData();
+            setIsAuthenticated(false);
+            await disconnectDatabase();
+            await checkIfUserExists();
+            
+            router.replace("/");
+        } catch (error) {
+            console.error("Error during lock:", error);
+        }
+    };
+    lockRef.current = lock;
+
     /**
      * Logs out the current user by clearing authentication state
      */
@@ -175,9 +399,11 @@ function useAuthHook() {
             // Disconnect database first
             await disconnectDatabase();
             
-            // Clear the authentication state
+            // Clear the authentication state and the decrypted data
             isAuthenticatedSession = false;
             currentUserPassword = '';
+            lockedThreadId = undefined;
+            clearData();
             setIsAuthenticated(false);
             await checkIfUserExists();
             
@@ -198,22 +424,27 @@ function useAuthHook() {
             // Delete JSON file if it exists
             await deleteFile();
             
-            // Delete SQLite database if it exists
+            // Delete SQLite database if it exists; a failed login may have left it open
+            await disconnectDatabase();
             const sqlitePath = `${FileSystem.documentDirectory}SQLite/androidllm.db`;
             const sqliteExists = (await FileSystem.getInfoAsync(sqlitePath)).exists;
             if (sqliteExists) {
                 await FileSystem.deleteAsync(sqlitePath);
             }
             
-            // Delete stored password
-            await SecureStore.deleteItemAsync('passwordHash');
+            // Delete stored passwords and login throttling
+            await deleteStoredPasswords();
+            await clearLoginThrottle();
+            await storeWipeAfterFailures(null);
+            setWipeAfterFailuresState(null);
             
             // Reset authentication state
             isAuthenticatedSession = false;
             currentUserPassword = '';
+            lockedThreadId = undefined;
             setIsAuthenticated(false);
             await checkIfUserExists();
-        } catch (err) {
+        } catch {
             throw new Error('Failed to delete data');
         }
     };
@@ -226,7 +457,13 @@ function useAuthHook() {
         validateAndSavePassword,
         logout,
         deleteAllData,
-        getCurrentPassword
+        getCurrentPassword,
+        changePassword,
+        wipeAfterFailures,
+        setWipeAfterFailures,
+        autoLock,
+        setAutoLock,
+        lock
     };
 }
 
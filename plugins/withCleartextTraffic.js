@@ -0,0 +1,53 @@
+// Expo config plugin: allows plain HTTP to self-hosted model servers, never to cloud providers
+//
+// Android blocks cleartext traffic by default. Self-hosted endpoints (Ollama, LM Studio,
+// llama.cpp server) usually speak plain HTTP and are typically reached by a LAN address such
+// as 192.168.1.10, which Android cannot match by range, so cleartext is permitted in general.
+// The hosts of the built-in cloud providers are pinned to HTTPS, so their traffic, which
+// carries API keys, cannot be downgraded.
+const fs = require('fs');
+const path = require('path');
+const { AndroidConfig, withAndroidManifest, withDangerousMod } = require('expo/config-plugins');
+
+const CONFIG_NAME = 'network_security_config';
+
+// Hosts that always need HTTPS; subdomains are included, so "googleapis.com" covers the Gemini API
+const DEFAULT_HTTPS_HOSTS = ['openrouter.ai', 'googleapis.com'];
+
+const escapeXml = (text) => text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+function buildConfig(httpsHosts) {
+  const domains = httpsHosts
+    .map((host) => `        <domain includeSubdomains="true">${escapeXml(host)}</domain>`)
+    .join('\n');
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<network-security-config>',
+    '    <base-config cleartextTrafficPermitted="true" />',
+    '    <domain-config cleartextTrafficPermitted="false">',
+    domains,
+    '    </domain-config>',
+    '</network-security-config>',
+    ''
+  ].join('\n');
+}
+
+const withCleartextTraffic = (config, { httpsHosts = [] } = {}) => {
+  const pinnedHosts = [...new Set([...DEFAULT_HTTPS_HOSTS, ...httpsHosts])];
+
+  config = withAndroidManifest(config, (config) => {
+    const application = AndroidConfig.Manifest.getMainApplicationOrThrow(config.modResults);
+    application.$['android:networkSecurityConfig'] = `@xml/${CONFIG_NAME}`;
+    delete application.$['android:usesCleartextTraffic'];
+    return config;
+  });
+
+  return withDangerousMod(config, ['android', async (config) => {
+    const directory = path.join(config.modRequest.platformProjectRoot, 'app', 'src', 'main', 'res', 'xml');
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, `${CONFIG_NAME}.xml`), buildConfig(pinnedHosts));
+    return config;
+  }]);
+};
+
+module.exports = withCleartextTraffic;
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ *
+ * Round trips of backup archives, wrong passphrases and damaged or crafted files
+ */
+import { Buffer } from 'buffer';
+import {
+  BACKUP_FORMAT_ID,
+  BackupArchive,
+  countBackup,
+  createBackupArchive,
+  MAX_BACKUP_KDF_ITERATIONS,
+  openBackupArchive,
+  readBackupArchive
+} from '../backupArchive';
+import type { BackupData } from '../../database/init';
+
+// expo-crypto is a native module; the test uses Node's implementation of the same functions
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual('crypto');
+  return {
+    getRandomBytesAsync: async (length: number) => new Uint8Array(nodeCrypto.randomBytes(length))
+  };
+});
+
+// Few iterations keep key derivation fast; the archive layout does not depend on the count
+jest.mock('../../utils/encryption', () => {
+  const actual = jest.requireActual('../../utils/encryption');
+  return { ...actual, createKdfParams: () => actual.createKdfParams(1000) };
+});
+
+const data: BackupData = {
+  threads: [{
+    id: 'thread-1',
+    title: 'Recipes',
+    createdAt: 1700000000000,
+    updatedAt: 1700000009000,
+    model: { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', provider: 'gemini' },
+    isActive: true,
+    summary: null,
+    summarizedCount: 0,
+    generationParams: null,
+    personaId: null,
+    importSource: null,
+    messages: [
+      { id: 'u1', isUser: true, text: 'Soup?', timestamp: 1700000001000, model: null, parentId: null, isActiveVariant: true, type: 'text' },
+      { id: 'a1', isUser: false, text: 'Tomato.', timestamp: 1700000002000, model: 'Gemini 2.0 Flash', parentId: 'u1', isActiveVariant: true, type: 'text' }
+    ]
+  }],
+  personas: [],
+  settings: { summarizeHistory: false } as BackupData['settings'],
+  apiKeys: { gemini: 'key-1' }
+};
+
+const createdAt = new Date(2024, 4, 1, 12, 0, 0);
+
+// Flips one bit of a base64 value
+const flipBit = (base64: string, index = 0) => {
+  const bytes = Buffer.from(base64, 'base64');
+  bytes[index] ^= 1;
+  return bytes.toString('base64');
+};
+
+describe('backup archives', () => {
+  let content: string;
+
+  beforeAll(async () => {
+    content = (await createBackupArchive(data, 'passphrase', createdAt)).content;
+  });
+
+  const withChanges = (change: (archive: any) => void): string => {
+    const archive = JSON.parse(content);
+    change(archive);
+    return JSON.stringify(archive);
+  };
+
+  it('names the file after the day it was made', async () => {
+    const file = await createBackupArchive(data, 'passphrase', createdAt);
+
+    expect(file).toMatchObject({ fileName: 'chatllm-backup-2024-05-01.json', mimeType: 'application/json' });
+  });
+
+  it('keeps the data out of the file in the clear', () => {
+    expect(content).not.toContain('Tomato');
+    expect(content).not.toContain('key-1');
+  });
+
+  it('restores the data with the passphrase it was made with', async () => {
+    const archive = readBackupArchive(content);
+
+    expect(archive).toMatchObject({ format: BACKUP_FORMAT_ID, version: 1, createdAt: createdAt.getTime() });
+    expect(await openBackupArchive(archive, 'passphrase')).toEqual(data);
+  });
+
+  it('counts what a backup holds', () => {
+    expect(countBackup(data)).toEqual({ threads: 1, messages: 2, personas: 0, apiKeys: 1 });
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    await expect(openBackupArchive(readBackupArchive(content), 'Passphrase')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it.each([
+    ['the ciphertext', (archive: any) => { archive.ciphertext = flipBit(archive.ciphertext, 5); }],
+    ['the nonce', (archive: any) => { archive.nonce = flipBit(archive.nonce); }],
+    ['the date in the header', (archive: any) => { archive.createdAt += 1; }],
+    ['the salt in the header', (archive: any) => { archive.kdf.salt = flipBit(archive.kdf.salt); }],
+    ['the iterations in the header', (archive: any) => { archive.kdf.iterations += 1; }]
+  ])('rejects an archive whose %s was changed', async (_, change) => {
+    const archive = readBackupArchive(withChanges(change));
+
+    await expect(openBackupArchive(archive, 'passphrase')).rejects.toThrow('Wrong passphrase, or the backup file is damaged.');
+  });
+
+  it.each([
+    ['text that is not JSON', 'backup', 'not a ChatLLM backup'],
+    ['a file of another format', JSON.stringify({ format: 'androidllm-chat-export', threads: [] }), 'not a ChatLLM backup'],
+    ['null', 'null', 'not a ChatLLM backup']
+  ])('refuses %s', (_, text, message) => {
+    expect(() => readBackupArchive(text)).toThrow(message);
+  });
+
+  it('refuses backups of a newer version', () => {
+    expect(() => readBackupArchive(withChanges(archive => { archive.version = 2; }))).toThrow('newer version');
+  });
+
+  it.each([
+    ['no salt', (archive: any) => { delete archive.kdf.salt; }],
+    ['no nonce', (archive: any) => { delete archive.nonce; }],
+    ['no ciphertext', (archive: any) => { archive.ciphertext = ''; }],
+    ['zero iterations', (archive: any) => { archive.kdf.iterations = 0; }],
+    ['fractional iterations', (archive: any) => { archive.kdf.iterations = 1000.5; }],
+    ['iterations given as text', (archive: any) => { archive.kdf.iterations = '1000'; }],
+    ['more iterations than allowed', (archive: any) => { archive.kdf.iterations = MAX_BACKUP_KDF_ITERATIONS + 1; }]
+  ])('reports an archive with %s as damaged', (_, change) => {
+    expect(() => readBackupArchive(withChanges(change))).toThrow('The backup file is damaged.');
+  });
+
+  it('does not derive a key for an archive that asks for too many iterations', async () => {
+    const archive: BackupArchive = { ...readBackupArchive(content), kdf: { ...readBackupArchive(content).kdf, iterations: 1e12 } };
+
+    await expect(openBackupArchive(archive, 'passphrase')).rejects.toThrow('The backup file is damaged.');
+  });
+
+  it('reports a decrypted archive without chats as damaged', async () => {
+    const empty = await createBackupArchive({ ...data, threads: undefined } as unknown as BackupData, 'passphrase', createdAt);
+
+    await expect(openBackupArchive(readBackupArchive(empty.content), 'passphrase')).rejects.toThrow('The backup file is damaged.');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ *
+ * Checks the unit conversions of the built-in tools
+ */
+import { convertUnits, unitConversionTool } from '../builtinTools';
+import type { ToolContext } from '../toolRegistry';
+
+describe('convertUnits', () => {
+  it.each([
+    [1, 'mi', 'km', 1.609344],
+    [12, 'in', 'ft', 1],
+    [1, 'nmi', 'm', 1852],
+    [1, 'kg', 'lb', 2.20462262185],
+    [16, 'oz', 'lb', 1],
+    [1, 'gal', 'l', 3.785411784],
+    [1, 'cup', 'tbsp', 16],
+    [100, 'km/h', 'm/s', 27.7777777778],
+    [1, 'kn', 'km/h', 1.852],
+    [1, 'ha', 'm2', 10000],
+    [640, 'acre', 'mi2', 1],
+    [1, 'd', 'min', 1440],
+    [1, 'gib', 'mb', 1073.741824],
+    [1, 'b', 'bit', 8]
+  ])('converts %p %s to %s', (value, from, to, expected) => {
+    expect(convertUnits(value, from, to)).toBeCloseTo(expected, 8);
+  });
+
+  it.each([
+    [100, 'c', 'f', 212],
+    [-40, 'f', 'c', -40],
+    [0, 'k', 'c', -273.15],
+    [32, 'f', 'k', 273.15],
+    [20, 'c', 'c', 20]
+  ])('converts the temperature %p %s to %s', (value, from, to, expected) => {
+    expect(convertUnits(value, from, to)).toBeCloseTo(expected, 8);
+  });
+
+  it.each([
+    ['Miles', 'Kilometers'],
+    ['mile', 'kilometre'],
+    ['  MI ', 'km'],
+    ['miles', 'KM']
+  ])('reads the units "%s" and "%s" by symbol or name', (from, to) => {
+    expect(convertUnits(1, from, to)).toBeCloseTo(1.609344, 8);
+  });
+
+  it.each([
+    ['inches', 'cm', 2.54],
+    ['square feet', 'm2', 0.09290304],
+    ['fl oz', 'ml', 29.5735295625],
+    ['°F', 'celsius', -17.2222222222]
+  ])('reads the spelled-out unit "%s"', (from, to, expected) => {
+    expect(convertUnits(1, from, to)).toBeCloseTo(expected, 8);
+  });
+
+  it.each([
+    ['furlong', 'm', 'Unknown unit "furlong".'],
+    ['m', 'parsec', 'Unknown unit "parsec".'],
+    ['constructor', 'm', 'Unknown unit "constructor".'],
+    ['kg', 'm', 'Cannot convert kg to m.'],
+    ['c', 'kg', 'Cannot convert c to kg.'],
+    ['m', 'f', 'Cannot convert m to f.']
+  ])('rejects %s to %s', (from, to, message) => {
+    expect(() => convertUnits(1, from, to)).toThrow(message);
+  });
+});
+
+describe('unitConversionTool', () => {
+  const context: ToolContext = { searchMessages: async () => [], isSearchEnabled: false };
+
+  it('rounds the result and repeats the units given', async () => {
+    expect(await unitConversionTool.handler({ value: '3', from: 'mi', to: 'km' }, context)).toBe('3 mi = 4.828032 km');
+  });
+
+  it('rejects a missing unit', () => {
+    expect(() => unitConversionTool.handler({ value: 1, from: '', to: 'km' }, context)).toThrow('"from" must be a non-empty string.');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * @jest-environment node
+ *
+ * Checks the Markdown, JSON and HTML exports, and that shared files stay readable until the next export
+ */
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { Message } from '../../context/dataContext';
+import {
+  buildExport,
+  clearExports,
+  EXPORT_FORMAT_ID,
+  EXPORT_SCHEMA_VERSION,
+  ExportedThread,
+  shareExport,
+  toHtml,
+  toJson,
+  toMarkdown
+} from '../conversationExport';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  EncodingType: { UTF8: 'utf8' },
+  deleteAsync: jest.fn(async () => undefined),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  writeAsStringAsync: jest.fn(async () => undefined)
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(async () => true),
+  shareAsync: jest.fn(async () => undefined)
+}));
+
+const message = (id: string, text: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  isUser: id.startsWith('u'),
+  text,
+  timestamp: 1700000000000,
+  ...overrides
+});
+
+const exported = (overrides: Partial<ExportedThread> = {}): ExportedThread => ({
+  thread: {
+    id: 'thread-1',
+    title: 'Trip planning',
+    messageCount: 3,
+    createdAt: 1700000000000,
+    updatedAt: 1700000300000,
+    model: { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', provider: 'gemini' },
+    personaId: 'persona-1'
+  },
+  messages: [
+    message('u1', 'Where should I go?'),
+    message('a2', 'Lisbon.', { parentId: 'u1', model: 'Gemini 2.0 Flash' })
+  ],
+  branches: [message('a1', 'Porto.', { parentId: 'u1', isSelected: false })],
+  personaName: 'Travel agent',
+  ...overrides
+});
+
+// Lines that open or close a code fence
+const fenceCount = (text: string) => text.split('\n').filter(line => line.trimStart().startsWith('```')).length;
+
+describe('toMarkdown', () => {
+  it('writes the title, details and the selected path', () => {
+    const markdown = toMarkdown([exported()]);
+
+    expect(markdown.startsWith('# Trip planning\n\n- Model: Gemini 2.0 Flash (gemini)\n- Persona: Travel agent\n')).toBe(true);
+    expect(markdown).toMatch(/### You · .*\n\nWhere should I go\?/);
+    expect(markdown).toMatch(/### Assistant \(Gemini 2\.0 Flash\) · .*\n\nLisbon\./);
+    expect(markdown).not.toContain('Porto');
+  });
+
+  it('closes a code fence left open, so it does not swallow the next message', () => {
+    const markdown = toMarkdown([exported({
+      messages: [message('a1', 'Run this:\n```python\nprint(1)'), message('u2', 'Thanks')]
+    })]);
+
+    expect(markdown).toContain('```python\nprint(1)\n```\n\n### You');
+    expect(fenceCount(markdown) % 2).toBe(0);
+  });
+
+  it('keeps closed code fences as written', () => {
+    const markdown = toMarkdown([exported({ messages: [message('a1', '```\ncode\n```')] })]);
+
+    expect(markdown.endsWith('\n\n```\ncode\n```\n')).toBe(true);
+  });
+
+  it('shows tool steps and attachments', () => {
+    const markdown = toMarkdown([exported({
+      messages: [
+        message('u1', 'What is this?', {
+          attachments: [{ id: 'f1', mimeType: 'image/jpeg', name: 'photo.jpg', data: 'AAAA' }, { id: 'f2', mimeType: 'text/plain', data: 'notes' }]
+        }),
+        message('a1', JSON.stringify({ name: 'calculator', arguments: { expression: '2+2' } }), { type: 'toolCall' })
+      ]
+    })]);
+
+    expect(markdown).toContain('*[Image: photo.jpg]*\n\n*[File: text/plain]*\n\nWhat is this?');
+    expect(markdown).toContain('*Tool call: calculator*\n\n```\n{\n  "expression": "2+2"\n}\n```');
+  });
+
+  it('separates several chats', () => {
+    const markdown = toMarkdown([exported(), exported({ thread: { ...exported().thread, title: 'Recipes' } })]);
+
+    expect(markdown).toContain('\n\n---\n\n# Recipes');
+  });
+});
+
+describe('toJson', () => {
+  it('writes a versioned document with every branch', () => {
+    const document = JSON.parse(toJson([exported()], new Date(1700000600000)));
+
+    expect(document).toMatchObject({ format: EXPORT_FORMAT_ID, schemaVersion: EXPORT_SCHEMA_VERSION, exportedAt: 1700000600000 });
+    expect(document.threads).toHaveLength(1);
+    expect(document.threads[0]).toMatchObject({
+      id: 'thread-1',
+      title: 'Trip planning',
+      createdAt: 1700000000000,
+      persona: { id: 'persona-1', name: 'Travel agent' }
+    });
+    expect(document.threads[0].messages.map((exportedMessage: { id: string; role: string }) => [exportedMessage.id, exportedMessage.role])).toEqual([
+      ['u1', 'user'],
+      ['a2', 'assistant']
+    ]);
+    expect(document.threads[0].branches).toEqual([
+      expect.objectContaining({ id: 'a1', parentId: 'u1', text: 'Porto.', isSelected: false })
+    ]);
+  });
+
+  it('leaves out attachment ids', () => {
+    const document = JSON.parse(toJson([exported({
+      messages: [message('u1', 'Look', { attachments: [{ id: 'f1', mimeType: 'image/png', data: 'AAAA', width: 1, height: 1 }] })]
+    })]));
+
+    expect(document.threads[0].messages[0].attachments).toEqual([{ mimeType: 'image/png', data: 'AAAA', width: 1, height: 1 }]);
+  });
+});
+
+describe('toHtml', () => {
+  it('splits fenced code from text, closing a fence left open', () => {
+    const html = toHtml([exported({
+      messages: [message('a1', 'Intro\n```js\nconst a = 1;\n```\nAfter\n```\nopen')]
+    })]);
+
+    expect(html).toContain(
+      '<div class="text">Intro</div><pre><code>const a = 1;</code></pre><div class="text">After</div><pre><code>open</code></pre></div>'
+    );
+  });
+
+  it('escapes text, code, titles and file names', () => {
+    const html = toHtml([exported({
+      thread: { ...exported().thread, title: '<script>alert(1)</script>' },
+      messages: [
+        message('u1', 'Is 1 < 2 & "b" > a?\n```\n</code></pre><img src=x onerror=alert(1)>\n```', {
+          attachments: [{ id: 'f1', mimeType: 'text/plain', name: '<b>notes</b>.txt', data: 'x' }]
+        })
+      ]
+    })]);
+
+    expect(html).toContain('<title>&lt;script&gt;alert(1)&lt;/script&gt;</title>');
+    expect(html).toContain('<h1>&lt;script&gt;alert(1)&lt;/script&gt;</h1>');
+    expect(html).toContain('<div class="text">Is 1 &lt; 2 &amp; &quot;b&quot; &gt; a?</div>');
+    expect(html).toContain('<pre><code>&lt;/code&gt;&lt;/pre&gt;&lt;img src=x onerror=alert(1)&gt;</code></pre>');
+    expect(html).toContain('📄 &lt;b&gt;notes&lt;/b&gt;.txt');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img src=x');
+  });
+
+  it('embeds images without loading anything', () => {
+    const html = toHtml([exported({
+      messages: [message('u1', 'Look', { attachments: [{ id: 'f1', mimeType: 'image/png', name: 'a"b.png', data: 'AAAA' }] })]
+    })]);
+
+    expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="a&quot;b.png">');
+    expect(html).not.toMatch(/https?:/);
+  });
+
+  it('titles an export of several chats "Chats"', () => {
+    expect(toHtml([exported(), exported()])).toContain('<title>Chats</title>');
+  });
+});
+
+describe('buildExport', () => {
+  const exportedAt = new Date(2025, 0, 31, 14, 5);
+  const titled = (title: string) => exported({ thread: { ...exported().thread, title } });
+
+  it.each([
+    ['Trip planning', 'trip-planning-2025-01-31.md'],
+    ['  What is 2+2?!  ', 'what-is-2-2-2025-01-31.md'],
+    ['Grüße aus Köln', 'grüße-aus-köln-2025-01-31.md'],
+    ['../../etc/passwd', 'etc-passwd-2025-01-31.md'],
+    ['???', 'chat-2025-01-31.md'],
+    ['a'.repeat(60), `${'a'.repeat(40)}-2025-01-31.md`]
+  ])('names the export of %p as %p', (title, fileName) => {
+    expect(buildExport([titled(title)], 'markdown', exportedAt).fileName).toBe(fileName);
+  });
+
+  it('names an export of several chats "chats"', () => {
+    expect(buildExport([exported(), exported()], 'json', exportedAt).fileName).toBe('chats-2025-01-31.json');
+  });
+
+  it.each([
+    ['markdown', 'text/markdown', '# Trip planning'],
+    ['json', 'application/json', '{'],
+    ['html', 'text/html', '<!DOCTYPE html>']
+  ] as const)('builds %s files', (format, mimeType, start) => {
+    const file = buildExport([exported()], format, exportedAt);
+
+    expect(file.mimeType).toBe(mimeType);
+    expect(file.content.startsWith(start)).toBe(true);
+  });
+});
+
+describe('shareExport', () => {
+  const file = { fileName: 'trip.md', mimeType: 'text/markdown', uti: 'net.daringfireball.markdown', content: '# Trip' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('keeps the shared file for the receiving app and clears it on the next export', async () => {
+    await shareExport(file);
+
+    expect(FileSystem.writeAsStringAsync).toHaveBeenCalledWith('file:///cache/exports/trip.md', '# Trip', { encoding: 'utf8' });
+    expect(Sharing.shareAsync).toHaveBeenCalledWith('file:///cache/exports/trip.md', expect.objectContaining({ mimeType: 'text/markdown' }));
+    expect(FileSystem.deleteAsync).not.toHaveBeenCalledWith('file:///cache/exports/trip.md', expect.anything());
+
+    await shareExport({ ...file, fileName: 'recipes.md' });
+
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/exports/', { idempotent: true });
+    const deleted = (FileSystem.deleteAsync as jest.Mock).mock.invocationCallOrder.at(-1)!;
+    const written = (FileSystem.writeAsStringAsync as jest.Mock).mock.invocationCallOrder.at(-1)!;
+    expect(deleted).toBeLessThan(written);
+  });
+
+  it('does not write anything when sharing is not available', async () => {
+    (Sharing.isAvailableAsync as jest.Mock).mockResolvedValueOnce(false);
+
+    await expect(shareExport(file)).rejects.toThrow('Sharing is not available on this device');
+    expect(FileSystem.writeAsStringAsync).not.toHaveBeenCalled();
+  });
+
+  it('does not fail when earlier exports cannot be deleted', async () => {
+    (FileSystem.deleteAsync as jest.Mock).mockRejectedValueOnce(new Error('busy'));
+
+    await expect(clearExports()).resolves.toBeUndefined();
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/exports/', { idempotent: true });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * @jest-environment node
+ *
+ * Reads fixture exports of each supported format, including damaged files
+ */
+import { findNewThreads, mapSourceModel, parseImportFile, prepareImport } from '../conversationImport';
+import { EXPORT_FORMAT_ID } from '../conversationExport';
+import type { ModelOption } from '../llmProvider';
+
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual('crypto');
+  return { randomUUID: () => nodeCrypto.randomUUID() };
+});
+
+const gemini: ModelOption = { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', provider: 'gemini' };
+const gpt4o: ModelOption = { id: 'openai/gpt-4o', displayName: 'GPT-4o', provider: 'openrouter' };
+const knownModels = [gemini, gpt4o];
+
+const chatGptNode = (id: string, parent: string | null, role: string | null, text: string, createTime: number, extra: object = {}) => ({
+  id,
+  parent,
+  children: [],
+  message: role ? {
+    id,
+    author: { role },
+    content: { content_type: 'text', parts: [text] },
+    create_time: createTime,
+    metadata: {},
+    recipient: 'all',
+    ...extra
+  } : null
+});
+
+// A question answered twice; the second answer is the one shown last
+const chatGptConversation = {
+  conversation_id: 'conv-1',
+  title: 'Trip planning',
+  create_time: 1700000000,
+  update_time: 1700000300,
+  current_node: 'a2',
+  default_model_slug: 'gpt-4',
+  mapping: {
+    root: chatGptNode('root', null, null, '', 0),
+    system: chatGptNode('system', 'root', 'system', 'You are ChatGPT', 1700000000),
+    u1: chatGptNode('u1', 'system', 'user', 'Where should I go?', 1700000100),
+    a1: chatGptNode('a1', 'u1', 'assistant', 'Lisbon.', 1700000200, { metadata: { model_slug: 'gpt-4o' } }),
+    tool: chatGptNode('tool', 'u1', 'assistant', 'search("trips")', 1700000210, { recipient: 'browser' }),
+    a2: chatGptNode('a2', 'tool', 'assistant', 'Porto.', 1700000300, { metadata: { model_slug: 'gpt-4o' } })
+  }
+};
+
+const openRouterChat = {
+  version: 'orpg.1.0',
+  title: 'Poem',
+  characters: { 'char-1': { model: 'anthropic/claude-3.5-sonnet' } },
+  messages: {
+    m2: { id: 'm2', characterId: 'char-1', content: 'Roses are red', createdAt: '2024-05-01T10:00:05.000Z' },
+    m1: { id: 'm1', characterId: 'USER', content: 'Write a poem', createdAt: '2024-05-01T10:00:00.000Z' },
+    empty: { id: 'empty', characterId: 'char-1', content: '   ', createdAt: '2024-05-01T10:00:06.000Z' }
+  }
+};
+
+const appExport = (threads: unknown[], schemaVersion = 1) => JSON.stringify({
+  format: EXPORT_FORMAT_ID,
+  schemaVersion,
+  exportedAt: 1700000000000,
+  threads
+});
+
+const appThread = {
+  id: 'thread-1',
+  title: 'Recipes',
+  createdAt: 1700000000000,
+  updatedAt: 1700000009000,
+  model: gemini,
+  persona: { id: 'chef', name: 'Chef' },
+  jsonSchema: '{"type":"object"}',
+  messages: [
+    { id: 'u1', role: 'user', text: 'Soup?', timestamp: 1700000001000 },
+    { id: 'a1b', role: 'assistant', text: 'Tomato soup.', timestamp: 1700000003000, model: 'Gemini 2.0 Flash', parentId: 'u1' }
+  ],
+  branches: [
+    { id: 'a1a', role: 'assistant', text: 'Pea soup.', timestamp: 1700000002000, model: 'Gemini 2.0 Flash', parentId: 'u1', isSelected: false }
+  ]
+};
+
+describe('parseImportFile', () => {
+  describe('ChatGPT', () => {
+    it('reads the conversation tree and bridges hidden nodes', () => {
+      const file = parseImportFile(JSON.stringify([chatGptConversation]));
+
+      expect(file.format).toBe('chatgpt');
+      expect(file.threads).toHaveLength(1);
+      const [thread] = file.threads;
+      expect(thread).toMatchObject({
+        sourceId: 'chatgpt:conv-1',
+        title: 'Trip planning',
+        createdAt: 1700000000000,
+        updatedAt: 1700000300000,
+        modelName: 'gpt-4o'
+      });
+      expect(thread.messages.map(({ sourceId, parentSourceId, isSelected }) => ({ sourceId, parentSourceId, isSelected }))).toEqual([
+        { sourceId: 'u1', parentSourceId: undefined, isSelected: true },
+        { sourceId: 'a1', parentSourceId: 'u1', isSelected: false },
+        { sourceId: 'a2', parentSourceId: 'u1', isSelected: true }
+      ]);
+    });
+
+    it('keeps the text of code and multimodal content', () => {
+      const conversation = {
+        ...chatGptConversation,
+        current_node: 'code',
+        mapping: {
+          u1: chatGptNode('u1', null, 'user', '', 1700000100, {
+            content: { content_type: 'multimodal_text', parts: [{ content_type: 'image_asset_pointer' }, 'What is this?'] }
+          }),
+          code: chatGptNode('code', 'u1', 'assistant', '', 1700000200, { content: { content_type: 'code', text: 'print(1)' } })
+        }
+      };
+
+      const [thread] = parseImportFile(JSON.stringify(conversation)).threads;
+
+      expect(thread.messages.map(message => message.text)).toEqual(['[image]\nWhat is this?', '```\nprint(1)\n```']);
+    });
+
+    it('stops at parent links that loop', () => {
+      const conversation = {
+        ...chatGptConversation,
+        current_node: 'a1',
+        mapping: {
+          hidden: chatGptNode('hidden', 'a1', 'system', 'hidden', 1700000000),
+          u1: chatGptNode('u1', 'hidden', 'user', 'Hello', 1700000100),
+          a1: chatGptNode('a1', 'u1', 'assistant', 'Hi', 1700000200)
+        }
+      };
+
+      const [thread] = parseImportFile(JSON.stringify(conversation)).threads;
+
+      expect(thread.messages.map(({ sourceId, parentSourceId }) => ({ sourceId, parentSourceId }))).toEqual([
+        { sourceId: 'u1', parentSourceId: undefined },
+        { sourceId: 'a1', parentSourceId: 'u1' }
+      ]);
+    });
+
+    it('falls back to a default title and the creation time', () => {
+      const conversation = {
+        id: 'conv-2',
+        title: 42,
+        create_time: 1700000000,
+        mapping: { u1: chatGptNode('u1', null, 'user', 'Hello', Number.NaN) }
+      };
+
+      const [thread] = parseImportFile(JSON.stringify([conversation])).threads;
+
+      expect(thread).toMatchObject({ sourceId: 'chatgpt:conv-2', title: 'Imported chat', updatedAt: 1700000000000 });
+      expect(thread.messages[0].timestamp).toBe(1700000000000);
+    });
+  });
+
+  describe('OpenRouter', () => {
+    it('reads messages in time order and skips empty ones', () => {
+      const file = parseImportFile(JSON.stringify(openRouterChat));
+
+      expect(file.format).toBe('openrouter');
+      const [thread] = file.threads;
+      expect(thread).toMatchObject({ title: 'Poem', modelName: 'anthropic/claude-3.5-sonnet' });
+      expect(thread.messages).toEqual([
+        { sourceId: 'm1', parentSourceId: undefined, isUser: true, text: 'Write a poem', timestamp: Date.parse('2024-05-01T10:00:00.000Z'), modelName: undefined, isSelected: true },
+        { sourceId: 'm2', parentSourceId: 'm1', isUser: false, text: 'Roses are red', timestamp: Date.parse('2024-05-01T10:00:05.000Z'), modelName: 'anthropic/claude-3.5-sonnet', isSelected: true }
+      ]);
+    });
+
+    it('derives a stable source id for chats without one', () => {
+      const first = parseImportFile(JSON.stringify(openRouterChat)).threads[0];
+      const second = parseImportFile(JSON.stringify(openRouterChat)).threads[0];
+
+      expect(first.sourceId).toBe(second.sourceId);
+      expect(first.sourceId).toMatch(/^openrouter:Poem:/);
+    });
+
+    it('skips entries that are not messages', () => {
+      const chat = { ...openRouterChat, id: 'chat-1', messages: [null, 'text', { id: 'm1', characterId: 'USER', content: 'Hi' }] };
+
+      const [thread] = parseImportFile(JSON.stringify(chat)).threads;
+
+      expect(thread.sourceId).toBe('openrouter:chat-1');
+      expect(thread.messages.map(message => message.text)).toEqual(['Hi']);
+    });
+  });
+
+  describe('this app', () => {
+    it('reads the selected path, the branches and the thread settings', () => {
+      const file = parseImportFile(appExport([appThread]));
+
+      expect(file.format).toBe('androidllm');
+      const [thread] = file.threads;
+      expect(thread).toMatchObject({
+        sourceId: 'androidllm:thread-1',
+        title: 'Recipes',
+        model: gemini,
+        personaId: 'chef',
+        jsonSchema: '{"type":"object"}'
+      });
+      expect(thread.messages.map(({ sourceId, parentSourceId, isSelected }) => ({ sourceId, parentSourceId, isSelected }))).toEqual([
+        { sourceId: 'u1', parentSourceId: undefined, isSelected: true },
+        { sourceId: 'a1a', parentSourceId: 'u1', isSelected: false },
+        { sourceId: 'a1b', parentSourceId: 'u1', isSelected: true }
+      ]);
+    });
+
+    it('chains messages of exports without parent ids', () => {
+      const thread = { ...appThread, branches: undefined, messages: appThread.messages.map(({ parentId, ...message }) => message) };
+
+      const [imported] = parseImportFile(appExport([thread])).threads;
+
+      expect(imported.messages.map(message => message.parentSourceId)).toEqual([undefined, 'u1']);
+    });
+
+    it('rejects exports of a newer version', () => {
+      expect(() => parseImportFile(appExport([appThread], 2))).toThrow('newer version');
+    });
+
+    it('tolerates missing and mistyped fields', () => {
+      const thread = {
+        id: 7,
+        title: ['not', 'a', 'title'],
+        createdAt: 'yesterday',
+        messages: 'none',
+        branches: [null, { id: 1, role: 'user', text: { nested: true }, timestamp: null, model: 3 }]
+      };
+
+      const [imported] = parseImportFile(appExport([thread, null])).threads;
+
+      expect(imported).toMatchObject({ sourceId: 'androidllm:7', title: 'Imported chat' });
+      expect(imported.messages).toEqual([
+        expect.objectContaining({ sourceId: '1', text: '', modelName: undefined, timestamp: imported.createdAt })
+      ]);
+    });
+  });
+
+  describe('damaged files', () => {
+    it.each([
+      ['invalid JSON', '{"mapping": ', 'not valid JSON'],
+      ['null', 'null', 'Unknown export format'],
+      ['an empty list', '[]', 'Unknown export format'],
+      ['an unrelated document', '{"hello": "world"}', 'Unknown export format'],
+      ['mixed formats', JSON.stringify([chatGptConversation, openRouterChat]), 'Unknown export format']
+    ])('rejects %s', (_, text, message) => {
+      expect(() => parseImportFile(text)).toThrow(message);
+    });
+
+    it('keeps the first of messages sharing an id', () => {
+      const thread = { ...appThread, branches: [{ ...appThread.messages[1], text: 'Copy' }] };
+
+      const [imported] = parseImportFile(appExport([thread])).threads;
+
+      expect(imported.messages.map(message => message.text)).toEqual(['Soup?', 'Tomato soup.']);
+    });
+
+    it.each([
+      ['a message that is its own parent', [{ id: 'u1', parentId: 'u1' }]],
+      ['messages that are each other\'s parent', [{ id: 'u1', parentId: 'a1' }, { id: 'a1', parentId: 'u1' }]]
+    ])('cuts the loop of %s', (_, links) => {
+      const thread = {
+        ...appThread,
+        branches: [],
+        messages: links.map((link, i) => ({ ...link, role: i % 2 ? 'assistant' : 'user', text: `Message ${i}`, timestamp: 1700000001000 + i }))
+      };
+
+      const [imported] = parseImportFile(appExport([thread])).threads;
+      const prepared = prepareImport(imported, knownModels, gemini);
+
+      expect(imported.messages.filter(message => !message.parentSourceId)).toHaveLength(1);
+      expect(prepared.messages.length + prepared.branches.length).toBe(links.length);
+    });
+  });
+});
+
+describe('de-duplication by source', () => {
+  it('reads a conversation listed twice in one file once', () => {
+    const file = parseImportFile(JSON.stringify([chatGptConversation, { ...chatGptConversation, title: 'Copy' }]));
+
+    expect(file.threads.map(thread => thread.title)).toEqual(['Trip planning']);
+  });
+
+  it('gives a conversation the same source on every read', () => {
+    const text = appExport([appThread]);
+
+    expect(parseImportFile(text).threads[0].sourceId).toBe(parseImportFile(text).threads[0].sourceId);
+  });
+
+  it('leaves out conversations imported before', () => {
+    const { threads } = parseImportFile(appExport([appThread, { ...appThread, id: 'thread-2' }]));
+
+    expect(findNewThreads(threads, new Set(['androidllm:thread-1'])).map(thread => thread.sourceId)).toEqual(['androidllm:thread-2']);
+    expect(findNewThreads(threads, new Set())).toHaveLength(2);
+  });
+});
+
+describe('mapSourceModel', () => {
+  it.each([
+    ['a missing name', undefined, gemini],
+    ['a blank name', '  ', gemini],
+    ['a known id', 'gemini-2.0-flash', gemini],
+    ['a known display name', 'gpt-4o', gpt4o],
+    ['an unknown Gemini model', 'gemini-1.5-pro', { id: 'gemini-1.5-pro', displayName: 'gemini-1.5-pro', provider: 'gemini' }],
+    ['a ChatGPT alias', 'text-davinci-002-render-sha', { id: 'openai/gpt-3.5-turbo', displayName: 'gpt-3.5-turbo', provider: 'openrouter' }],
+    ['an OpenAI model', 'o1-mini', { id: 'openai/o1-mini', displayName: 'o1-mini', provider: 'openrouter' }],
+    ['a Claude model', 'claude-3-opus', { id: 'anthropic/claude-3-opus', displayName: 'claude-3-opus', provider: 'openrouter' }],
+    ['an OpenRouter id', 'meta-llama/llama-3-8b', { id: 'meta-llama/llama-3-8b', displayName: 'meta-llama/llama-3-8b', provider: 'openrouter' }]
+  ])('maps %s', (_, name, expected) => {
+    expect(mapSourceModel(name, knownModels, gemini)).toEqual(expected);
+  });
+});
+
+describe('prepareImport', () => {
+  it('gives messages new ids and splits the selected path from the branches', () => {
+    const [thread] = parseImportFile(appExport([appThread])).threads;
+
+    const prepared = prepareImport(thread, knownModels, gpt4o);
+
+    expect(prepared).toMatchObject({ importSource: 'androidllm:thread-1', title: 'Recipes', model: gemini, personaId: 'chef' });
+    expect(prepared.messages.map(message => message.text)).toEqual(['Soup?', 'Tomato soup.']);
+    expect(prepared.branches.map(message => message.text)).toEqual(['Pea soup.']);
+    expect(prepared.messages[1].parentId).toBe(prepared.messages[0].id);
+    expect(prepared.branches[0].parentId).toBe(prepared.messages[0].id);
+    expect(prepared.messages.map(message => message.id)).not.toContain('u1');
+  });
+
+  it('maps the model names of the source', () => {
+    const [thread] = parseImportFile(JSON.stringify([chatGptConversation])).threads;
+
+    const prepared = prepareImport(thread, knownModels, gemini);
+
+    expect(prepared.model).toEqual(gpt4o);
+    expect(prepared.messages.map(message => message.model)).toEqual([undefined, 'GPT-4o']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ *
+ * Checks reading JSON out of responses and the follow-up asking the model to repair it
+ */
+import { buildRepairMessage, checkJsonResponse, extractJson, withJsonInstruction } from '../jsonMode';
+import { JsonSchema } from '../../utils/jsonSchema';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['city'],
+  properties: { city: { type: 'string' } }
+};
+
+describe('extractJson', () => {
+  it.each([
+    ['bare JSON', '{"city":"Lisbon"}', '{"city":"Lisbon"}'],
+    ['JSON between whitespace', '\n  {"city":"Lisbon"}  \n', '{"city":"Lisbon"}'],
+    ['JSON in a json fence', '```json\n{"city":"Lisbon"}\n```', '{"city":"Lisbon"}'],
+    ['JSON in an unlabelled fence', '```\n[1, 2]\n```', '[1, 2]'],
+    ['JSON in a fence labelled in capitals', '```JSON\n{"a":1}\n```', '{"a":1}'],
+    ['JSON in a fence without a final line break', '```json\n{"a":1}```', '{"a":1}'],
+    ['JSON over several lines', '```json\n{\n  "a": 1\n}\n```', '{\n  "a": 1\n}']
+  ])('reads %s', (_, text, expected) => {
+    expect(extractJson(text)).toBe(expected);
+  });
+
+  it('leaves text around a fence in place', () => {
+    const text = 'Here you go:\n```json\n{"a":1}\n```';
+
+    expect(extractJson(text)).toBe(text);
+  });
+});
+
+describe('checkJsonResponse', () => {
+  it('returns the value of a response that follows the schema', () => {
+    expect(checkJsonResponse('```json\n{"city":"Lisbon"}\n```', schema)).toEqual({ value: { city: 'Lisbon' }, errors: [] });
+  });
+
+  it('reports the schema errors without a value', () => {
+    expect(checkJsonResponse('{"city":1}', schema)).toEqual({ errors: ['$.city: expected string, got integer'] });
+  });
+
+  it('reports a response that is not JSON', () => {
+    const check = checkJsonResponse('Lisbon', schema);
+
+    expect(check.value).toBeUndefined();
+    expect(check.errors).toHaveLength(1);
+    expect(check.errors[0]).toMatch(/^The response is not valid JSON \(.+\)$/);
+  });
+});
+
+describe('buildRepairMessage', () => {
+  it('lists the problems and asks for the corrected JSON only', () => {
+    expect(buildRepairMessage(['$: missing required property "city"', '$.zip: expected string, got integer'])).toBe([
+      'Your last response does not match the required JSON Schema:',
+      '- $: missing required property "city"',
+      '- $.zip: expected string, got integer',
+      'Send the corrected JSON only, without any explanation.'
+    ].join('\n'));
+  });
+
+  it('lists at most ten problems and counts the rest', () => {
+    const errors = Array.from({ length: 13 }, (_, i) => `problem ${i + 1}`);
+
+    const lines = buildRepairMessage(errors).split('\n');
+
+    expect(lines).toHaveLength(13);
+    expect(lines[10]).toBe('- problem 10');
+    expect(lines[11]).toBe('- and 3 more');
+  });
+
+  it('does not count the rest when exactly ten problems are listed', () => {
+    const errors = Array.from({ length: 10 }, (_, i) => `problem ${i + 1}`);
+
+    expect(buildRepairMessage(errors)).not.toContain('more');
+  });
+});
+
+describe('withJsonInstruction', () => {
+  it('adds the schema to the system prompt', () => {
+    expect(withJsonInstruction('Be brief.', schema)).toBe(
+      `Be brief.\n\nReply with a single JSON value that follows this JSON Schema, without any other text:\n${JSON.stringify(schema)}`
+    );
+    expect(withJsonInstruction('', schema).startsWith('Reply with a single JSON value')).toBe(true);
+  });
+
+  it('leaves the system prompt alone without a schema', () => {
+    expect(withJsonInstruction('Be brief.')).toBe('Be brief.');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ *
+ * Checks switching between the branches of a conversation
+ */
+import { branchOff, getSelectedPath, revealMessage, selectBranch, TreeMessage } from '../messageTree';
+
+const node = (id: string, parentId: string | undefined, timestamp: number, isSelected?: boolean): TreeMessage => ({
+  id,
+  parentId,
+  timestamp,
+  isSelected
+});
+
+const ids = (nodes: TreeMessage[]) => nodes.map(message => message.id);
+
+// u1 was answered twice (a1, then a2); the conversation went on after both answers:
+//   u1 ─ a1 ─ u2 ─ a3
+//      │         └ a3b
+//      └ a2 ─ u3 ─ a4
+const path = [node('u1', undefined, 1), node('a2', 'u1', 3), node('u3', 'a2', 4), node('a4', 'u3', 5)];
+const branches = [
+  node('a1', 'u1', 2, false),
+  node('u2', 'a1', 6, true),
+  node('a3', 'u2', 7, false),
+  node('a3b', 'u2', 8, true)
+];
+
+describe('getSelectedPath', () => {
+  it('follows the selected child and otherwise the newest one', () => {
+    const nodes = [...path, ...branches];
+
+    expect(ids(getSelectedPath(nodes))).toEqual(['u1', 'a2', 'u3', 'a4']);
+    expect(ids(getSelectedPath(nodes, 'a1'))).toEqual(['u2', 'a3b']);
+  });
+});
+
+describe('branchOff', () => {
+  it('moves the rest of the path into the branches, keeping it selected below its first message', () => {
+    const result = branchOff(path, [], 1);
+
+    expect(ids(result.path)).toEqual(['u1']);
+    expect(result.branches.map(({ id, isSelected }) => [id, isSelected])).toEqual([
+      ['a2', false],
+      ['u3', true],
+      ['a4', true]
+    ]);
+  });
+
+  it('keeps the existing branches', () => {
+    const result = branchOff(path, branches, 3);
+
+    expect(ids(result.path)).toEqual(['u1', 'a2', 'u3']);
+    expect(ids(result.branches)).toEqual([...ids(branches), 'a4']);
+  });
+
+  it('lets a new sibling continue the conversation', () => {
+    const result = branchOff(path, branches, 1);
+    const nodes = [...result.path, ...result.branches, node('a5', 'u1', 9)];
+
+    expect(ids(getSelectedPath(nodes))).toEqual(['u1', 'a5']);
+  });
+});
+
+describe('selectBranch', () => {
+  it('switches a message to its sibling and back', () => {
+    const switched = selectBranch(path, branches, 1, 'a1');
+
+    expect(ids(switched.path)).toEqual(['u1', 'a1', 'u2', 'a3b']);
+    expect(ids(switched.branches).sort()).toEqual(['a2', 'a3', 'a4', 'u3']);
+    expect(switched.branches.find(message => message.id === 'a2')?.isSelected).toBe(false);
+
+    const back = selectBranch(switched.path, switched.branches, 1, 'a2');
+
+    expect(ids(back.path)).toEqual(ids(path));
+    expect(ids(back.branches).sort()).toEqual(['a1', 'a3', 'a3b', 'u2']);
+  });
+
+  it('follows the branch down to the messages last selected in it', () => {
+    const switched = selectBranch(path, branches, 1, 'a1');
+    const older = selectBranch(switched.path, switched.branches, 3, 'a3');
+
+    expect(ids(older.path)).toEqual(['u1', 'a1', 'u2', 'a3']);
+
+    // Switching away and back returns to a3, although a3b is newer
+    const away = selectBranch(older.path, older.branches, 1, 'a2');
+    const back = selectBranch(away.path, away.branches, 1, 'a1');
+
+    expect(ids(back.path)).toEqual(['u1', 'a1', 'u2', 'a3']);
+  });
+
+  it('keeps every message exactly once', () => {
+    const switched = selectBranch(path, branches, 1, 'a1');
+
+    expect([...ids(switched.path), ...ids(switched.branches)].sort()).toEqual([...ids(path), ...ids(branches)].sort());
+  });
+});
+
+describe('revealMessage', () => {
+  it('switches to the branch that contains a message', () => {
+    const result = revealMessage(path, branches, 'a3');
+
+    expect(ids(result.path)).toEqual(['u1', 'a1', 'u2', 'a3']);
+    expect(ids(result.branches).sort()).toEqual(['a2', 'a3b', 'a4', 'u3']);
+  });
+
+  it('shows the branch below a revealed message as it was last selected', () => {
+    expect(ids(revealMessage(path, branches, 'a1').path)).toEqual(['u1', 'a1', 'u2', 'a3b']);
+  });
+
+  it.each([
+    ['on the path', 'u3'],
+    ['unknown', 'missing']
+  ])('leaves the path alone when the message is %s', (_, messageId) => {
+    const result = revealMessage(path, branches, messageId);
+
+    expect(result.path).toBe(path);
+    expect(result.branches).toBe(branches);
+  });
+});
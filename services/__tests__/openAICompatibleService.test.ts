@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ *
+ * Checks that stopping a request with tool calls never affects the request started after it
+ */
+import { CustomEndpointService } from '../customEndpointService';
+import type { LLMStreamEvent, ToolCall } from '../llmProvider';
+
+// Event sources opened by the service, so the test can answer them
+const mockSources: { listeners: Record<string, (event: any) => void>; closed: boolean }[] = [];
+jest.mock('react-native-sse', () => jest.fn().mockImplementation(() => {
+  const source = {
+    listeners: {} as Record<string, (event: any) => void>,
+    closed: false,
+    addEventListener(type: string, listener: (event: any) => void) {
+      this.listeners[type] = listener;
+    },
+    close() {
+      this.closed = true;
+    }
+  };
+  mockSources.push(source);
+  return source;
+}));
+
+const send = (index: number, data: object | string) =>
+  mockSources[index].listeners.message({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+
+const toolCallChunk = {
+  choices: [{ delta: { tool_calls: [{ index: 0, id: 'call-1', function: { name: 'calculator', arguments: '{"expression":"1+1"}' } }] } }]
+};
+
+const tools = [{ name: 'calculator', description: 'Calculates', parameters: { type: 'object' as const, properties: {} } }];
+
+// Lets the queued promise callbacks run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('OpenAICompatibleService', () => {
+  let service: CustomEndpointService;
+
+  beforeEach(() => {
+    mockSources.length = 0;
+    service = new CustomEndpointService();
+    service.configure({ customEndpointUrl: 'http://localhost:11434/v1', customEndpointModels: ['llama3'] });
+  });
+
+  it('streams text and ends with the whole answer', async () => {
+    const events: LLMStreamEvent[] = [];
+    const request = service.sendMessage({ model: 'llama3', message: 'Hi', history: [] }, event => events.push(event));
+
+    send(0, { choices: [{ delta: { content: 'Hel' } }] });
+    send(0, { choices: [{ delta: { content: 'lo' } }] });
+    send(0, '[DONE]');
+    await request;
+
+    expect(events).toEqual([
+      { type: 'delta', text: 'Hel' },
+      { type: 'delta', text: 'lo' },
+      { type: 'done', text: 'Hello', stopped: false }
+    ]);
+  });
+
+  it('stops a request waiting for a tool without touching the next request', async () => {
+    let finishTool: (output: string) => void = () => undefined;
+    const firstEvents: LLMStreamEvent[] = [];
+    const first = service.sendMessage({
+      model: 'llama3',
+      message: 'What is 1+1?',
+      history: [],
+      tools,
+      executeTool: (_call: ToolCall) => new Promise<string>(resolve => { finishTool = resolve; })
+    }, event => firstEvents.push(event));
+
+    send(0, toolCallChunk);
+    send(0, '[DONE]');
+    await settle();
+    service.cancelGeneration();
+
+    const secondEvents: LLMStreamEvent[] = [];
+    const second = service.sendMessage({ model: 'llama3', message: 'Hi', history: [] }, event => secondEvents.push(event));
+    expect(mockSources).toHaveLength(2);
+
+    finishTool('2');
+    await first;
+    expect(firstEvents[firstEvents.length - 1]).toEqual({ type: 'done', text: ' [Generation stopped]', stopped: true });
+    // The stopped request opened no further round and left the new stream open
+    expect(mockSources).toHaveLength(2);
+    expect(mockSources[1].closed).toBe(false);
+
+    send(1, { choices: [{ delta: { content: 'Hello' } }] });
+    send(1, '[DONE]');
+    await second;
+    expect(secondEvents).toEqual([
+      { type: 'delta', text: 'Hello' },
+      { type: 'done', text: 'Hello', stopped: false }
+    ]);
+  });
+
+  it('refuses a second request while one is running', async () => {
+    const first = service.sendMessage({ model: 'llama3', message: 'Hi', history: [] }, () => undefined);
+    const events: LLMStreamEvent[] = [];
+
+    await service.sendMessage({ model: 'llama3', message: 'Hi again', history: [] }, event => events.push(event));
+
+    expect(events).toEqual([expect.objectContaining({ type: 'error' })]);
+    service.cancelGeneration();
+    await first;
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Attachment Service
+ *
+ * Turns files chosen by the user into attachments for a message. Handles:
+ * - Picking an image file or reading one from the clipboard
+ * - Downscaling and re-encoding, so stored and sent images stay small
+ * - Reading text and source files, whose contents are added to the prompt
+ */
+import * as DocumentPicker from 'expo-document-picker';
+import * as Clipboard from 'expo-clipboard';
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import type { MessageAttachment } from '../context/dataContext';
+
+// Longest side of a prepared image; providers scale larger images down anyway
+export const MAX_IMAGE_DIMENSION = 1568;
+
+// Most attachments sent with a single message
+export const MAX_ATTACHMENTS = 4;
+
+// JPEG quality of prepared images
+const IMAGE_QUALITY = 0.8;
+
+// Largest text file read; bigger files would not fit in most context windows anyway
+export const MAX_TEXT_FILE_BYTES = 1024 * 1024;
+
+// Extensions of the files accepted as text, besides any text/* type
+const TEXT_FILE_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'log', 'json', 'jsonl', 'csv', 'tsv', 'xml', 'yaml', 'yml', 'toml', 'ini', 'cfg', 'conf', 'env',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'rb', 'java', 'kt', 'kts', 'swift', 'go', 'rs', 'c', 'h', 'cc', 'cpp', 'hpp',
+  'cs', 'php', 'sh', 'bash', 'zsh', 'ps1', 'sql', 'html', 'htm', 'css', 'scss', 'less', 'vue', 'svelte', 'dart', 'lua',
+  'r', 'scala', 'gradle', 'properties', 'dockerfile', 'makefile', 'diff', 'patch', 'tex'
+]);
+
+/**
+ * Whether an attachment is an image, as opposed to a text file
+ */
+export function isImageAttachment(attachment: Pick<MessageAttachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+/**
+ * Downscales an image and encodes it as JPEG
+ * @param uri File or data URI of the image
+ * @param name File name shown with the attachment
+ */
+export async function prepareImage(uri: string, name?: string): Promise<MessageAttachment> {
+  const context = ImageManipulator.manipulate(uri);
+  let image = await context.renderAsync();
+  const scale = MAX_IMAGE_DIMENSION / Math.max(image.width, image.height);
+  if (scale < 1) {
+    context.resize({ width: Math.round(image.width * scale), height: Math.round(image.height * scale) });
+    image = await context.renderAsync();
+  }
+
+  const result = await image.saveAsync({ base64: true, compress: IMAGE_QUALITY, format: SaveFormat.JPEG });
+  await FileSystem.deleteAsync(result.uri, { idempotent: true }).catch(() => undefined);
+  if (!result.base64) {
+    throw new Error('The image could not be read.');
+  }
+  return {
+    id: Crypto.randomUUID(),
+    mimeType: 'image/jpeg',
+    name,
+    data: result.base64,
+    width: result.width,
+    height: result.height
+  };
+}
+
+/**
+ * Lets the user choose an image file
+ * @returns The prepared image, or null if the user cancelled
+ */
+export async function pickImage(): Promise<MessageAttachment | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: 'image/*', copyToCacheDirectory: true });
+  if (result.canceled || !result.assets[0]) return null;
+
+  const { uri, name } = result.assets[0];
+  try {
+    return await prepareImage(uri, name);
+  } finally {
+    await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Lets the user choose a text or source file
+ * @returns The file with its text, or null if the user cancelled
+ * @throws {Error} If the file is too large or not a text file
+ */
+export async function pickTextFile(): Promise<MessageAttachment | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+  if (result.canceled || !result.assets[0]) return null;
+
+  const { uri, name, mimeType, size } = result.assets[0];
+  try {
+    const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : name.toLowerCase();
+    if (!mimeType?.startsWith('text/') && !TEXT_FILE_EXTENSIONS.has(extension)) {
+      throw new Error(`${name} is not a text file.`);
+    }
+    if ((size ?? 0) > MAX_TEXT_FILE_BYTES) {
+      throw new Error(`${name} is larger than ${MAX_TEXT_FILE_BYTES / 1024 / 1024} MB.`);
+    }
+    const text = await FileSystem.readAsStringAsync(uri);
+    // Binary files read as text contain NUL characters
+    if (text.includes('\u0000')) {
+      throw new Error(`${name} is not a text file.`);
+    }
+    return {
+      id: Crypto.randomUUID(),
+      mimeType: mimeType?.startsWith('text/') ? mimeType : 'text/plain',
+      name,
+      data: text
+    };
+  } finally {
+    await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Reads an image from the clipboard
+ * @throws {Error} If the clipboard holds no image
+ */
+export async function pasteImage(): Promise<MessageAttachment> {
+  const image = (await Clipboard.hasImageAsync()) ? await Clipboard.getImageAsync({ format: 'png' }) : null;
+  if (!image) {
+    throw new Error('The clipboard does not contain an image.');
+  }
+  return prepareImage(image.data, 'Pasted image');
+}
+
+/**
+ * Data URI of an attachment, for showing it in an Image
+ */
+export function toDataUri(attachment: Pick<MessageAttachment, 'mimeType' | 'data'>): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
@@ -0,0 +1,125 @@
+/**
+ * Backup Archive Service
+ *
+ * Packs all chats, personas, settings and optionally API keys into a single file encrypted
+ * with a passphrase, and reads such files back. The passphrase is either the app password
+ * or a separate one; its key derivation parameters travel in the file's header.
+ */
+import type { BackupData } from '../database/init';
+import { createKdfParams, DEFAULT_KDF_ITERATIONS, deriveKey, KdfParams, openString, sealString } from '../utils/encryption';
+import { ExportFile } from './conversationExport';
+
+// Identifies backups of this app; the version changes when the archive layout does
+export const BACKUP_FORMAT_ID = 'androidllm-backup';
+export const BACKUP_VERSION = 1;
+
+// Most key derivation rounds a file may ask for; the count comes from the file, and more
+// rounds than this would block the app for minutes before the passphrase is even checked
+export const MAX_BACKUP_KDF_ITERATIONS = DEFAULT_KDF_ITERATIONS * 4;
+
+/**
+ * An archive as read from a file, before it is decrypted
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT_ID;
+  version: number;
+  createdAt: number;
+  kdf: KdfParams;
+  nonce: string;
+  ciphertext: string;         // The encrypted BackupData
+}
+
+export interface BackupCounts {
+  threads: number;
+  messages: number;
+  personas: number;
+  apiKeys: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Header fields the ciphertext is bound to, so changing any of them makes decryption fail
+function headerData(archive: Omit<BackupArchive, 'nonce' | 'ciphertext'>): string {
+  const { kdf } = archive;
+  return JSON.stringify([archive.format, archive.version, archive.createdAt, kdf.algorithm, kdf.iterations, kdf.salt]);
+}
+
+function isValidKdf(kdf: Partial<KdfParams> | undefined): boolean {
+  return typeof kdf?.salt === 'string' && kdf.salt.length > 0
+    && Number.isInteger(kdf.iterations) && kdf.iterations! > 0 && kdf.iterations! <= MAX_BACKUP_KDF_ITERATIONS;
+}
+
+/**
+ * Encrypts the backup data with a key derived from the passphrase
+ * @returns The archive file, ready for the share sheet
+ */
+export async function createBackupArchive(data: BackupData, passphrase: string, createdAt: Date = new Date()): Promise<ExportFile> {
+  const header = { format: BACKUP_FORMAT_ID, version: BACKUP_VERSION, createdAt: createdAt.getTime(), kdf: await createKdfParams() } as const;
+  const key = await deriveKey(passphrase, header.kdf);
+  const { nonce, ciphertext } = await sealString(JSON.stringify(data), key, headerData(header));
+  const archive: BackupArchive = { ...header, nonce, ciphertext };
+
+  const date = `${createdAt.getFullYear()}-${pad(createdAt.getMonth() + 1)}-${pad(createdAt.getDate())}`;
+  return {
+    fileName: `chatllm-backup-${date}.json`,
+    mimeType: 'application/json',
+    uti: 'public.json',
+    content: JSON.stringify(archive)
+  };
+}
+
+/**
+ * Reads and validates the header of an archive file
+ * @throws {Error} If the file is not a backup of this app or was made by a newer version
+ */
+export function readBackupArchive(text: string): BackupArchive {
+  let archive: Partial<BackupArchive>;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a ChatLLM backup.');
+  }
+  if (archive?.format !== BACKUP_FORMAT_ID) {
+    throw new Error('This file is not a ChatLLM backup.');
+  }
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app to restore it.');
+  }
+  if (!isValidKdf(archive.kdf) || typeof archive.createdAt !== 'number' || !archive.nonce || !archive.ciphertext) {
+    throw new Error('The backup file is damaged.');
+  }
+  return archive as BackupArchive;
+}
+
+/**
+ * Decrypts an archive with the passphrase it was made with
+ * @throws {Error} If the passphrase is wrong or the archive was modified
+ */
+export async function openBackupArchive(archive: BackupArchive, passphrase: string): Promise<BackupData> {
+  if (!isValidKdf(archive.kdf)) {
+    throw new Error('The backup file is damaged.');
+  }
+  const key = await deriveKey(passphrase, archive.kdf);
+  let data: BackupData;
+  try {
+    data = JSON.parse(openString(archive.nonce, archive.ciphertext, key, headerData(archive)));
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged.');
+  }
+  if (!Array.isArray(data.threads) || !Array.isArray(data.personas) || !data.settings) {
+    throw new Error('The backup file is damaged.');
+  }
+  return data;
+}
+
+/**
+ * What a backup holds, to show before restoring it
+ */
+export function countBackup(data: BackupData): BackupCounts {
+  return {
+    threads: data.threads.length,
+    messages: data.threads.reduce((sum, thread) => sum + thread.messages.length, 0),
+    personas: data.personas.length,
+    apiKeys: Object.keys(data.apiKeys ?? {}).length
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Built-in Tools
+ *
+ * Tools every model with tool support is offered:
+ * - Calculator for arithmetic expressions
+ * - Current date and time, in any time zone
+ * - Unit conversion for common quantities
+ * - Search of the user's own chat history through the message index
+ */
+import type { ToolDefinition } from './toolRegistry';
+import { evaluateExpression } from '../utils/mathExpression';
+import { buildSnippet } from '../utils/searchIndex';
+
+// Results the chat search returns unless the model asks for a different number
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_SEARCH_RESULTS = 20;
+
+// Characters kept on each side of the first match in a search result
+const SNIPPET_RADIUS = 150;
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"${name}" must be a non-empty string.`);
+  }
+  return value.trim();
+}
+
+function requireNumber(args: Record<string, unknown>, name: string): number {
+  // Some models send numbers as strings
+  const value = typeof args[name] === 'string' ? Number(args[name]) : args[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`"${name}" must be a number.`);
+  }
+  return value;
+}
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and the functions '
+    + 'sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, exp, ln, log (base 10), log2, min, max and pow. '
+    + 'Angles are in radians.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(1250 * 0.075) / 12"' }
+    },
+    required: ['expression']
+  },
+  handler: (args) => {
+    const expression = requireString(args, 'expression');
+    return `${expression} = ${evaluateExpression(expression)}`;
+  }
+};
+
+export const currentDateTimeTool: ToolDefinition = {
+  name: 'get_current_datetime',
+  description: "Returns the current date and time, in the user's time zone unless another one is given.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone, e.g. "Europe/Berlin" or "America/New_York"' }
+    }
+  },
+  handler: (args) => {
+    const now = new Date();
+    const timeZone = typeof args.timeZone === 'string' && args.timeZone.trim()
+      ? args.timeZone.trim()
+      : Intl.DateTimeFormat().resolvedOptions().timeZone;
+    let formatted: string;
+    try {
+      formatted = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}".`);
+    }
+    return [
+      `Date and time: ${formatted}`,
+      `Time zone: ${timeZone}`,
+      `ISO 8601 (UTC): ${now.toISOString()}`
+    ].join('\n');
+  }
+};
+
+// Units of each quantity, as factors to the quantity's base unit
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: {
+    m: 1, km: 1000, cm: 0.01, mm: 0.001, um: 1e-6, nm: 1e-9,
+    mi: 1609.344, yd: 0.9144, ft: 0.3048, in: 0.0254, nmi: 1852
+  },
+  mass: {
+    kg: 1, g: 0.001, mg: 1e-6, t: 1000, lb: 0.45359237, oz: 0.028349523125, st: 6.35029318
+  },
+  volume: {
+    l: 1, ml: 0.001, cl: 0.01, dl: 0.1, m3: 1000, gal: 3.785411784, qt: 0.946352946, pt: 0.473176473,
+    cup: 0.2365882365, floz: 0.0295735295625, tbsp: 0.01478676478125, tsp: 0.00492892159375
+  },
+  speed: {
+    'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 1852 / 3600, 'ft/s': 0.3048
+  },
+  area: {
+    m2: 1, km2: 1e6, cm2: 1e-4, mm2: 1e-6, ha: 1e4, acre: 4046.8564224, ft2: 0.09290304, in2: 0.00064516,
+    yd2: 0.83612736, mi2: 2589988.110336
+  },
+  time: {
+    s: 1, ms: 0.001, min: 60, h: 3600, d: 86400, wk: 604800, yr: 31557600
+  },
+  data: {
+    bit: 0.125, b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4
+  }
+};
+
+// Spelled-out unit names, mapped to the symbols above
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', metre: 'm', kilometer: 'km', kilometre: 'km', centimeter: 'cm', centimetre: 'cm',
+  millimeter: 'mm', millimetre: 'mm', micrometer: 'um', 'µm': 'um', nanometer: 'nm',
+  mile: 'mi', yard: 'yd', foot: 'ft', feet: 'ft', inch: 'in', inches: 'in', 'nautical mile': 'nmi',
+  kilogram: 'kg', gram: 'g', milligram: 'mg', tonne: 't', ton: 't', pound: 'lb', lbs: 'lb', ounce: 'oz', stone: 'st',
+  liter: 'l', litre: 'l', milliliter: 'ml', millilitre: 'ml', 'cubic meter': 'm3', 'm³': 'm3',
+  gallon: 'gal', quart: 'qt', pint: 'pt', 'fluid ounce': 'floz', 'fl oz': 'floz', tablespoon: 'tbsp', teaspoon: 'tsp',
+  'kph': 'km/h', 'kmh': 'km/h', knot: 'kn', knots: 'kn', 'mps': 'm/s',
+  'square meter': 'm2', 'm²': 'm2', 'square kilometer': 'km2', 'km²': 'km2', hectare: 'ha',
+  'square foot': 'ft2', 'square feet': 'ft2', 'ft²': 'ft2', 'square mile': 'mi2', 'mi²': 'mi2',
+  second: 's', sec: 's', millisecond: 'ms', minute: 'min', hour: 'h', hr: 'h', day: 'd', week: 'wk', year: 'yr',
+  byte: 'b', kilobyte: 'kb', megabyte: 'mb', gigabyte: 'gb', terabyte: 'tb',
+  kibibyte: 'kib', mebibyte: 'mib', gibibyte: 'gib', tebibyte: 'tib',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k'
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+// Own keys only, so names such as "constructor" are not taken for units
+const hasKey = (record: Record<string, unknown>, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+function isKnownUnit(symbol: string): boolean {
+  return TEMPERATURE_UNITS.includes(symbol) || Object.values(UNIT_FACTORS).some(factors => hasKey(factors, symbol));
+}
+
+/**
+ * Symbol of a unit given by symbol or name, singular or plural (e.g. "Miles" or "inches")
+ */
+function normalizeUnit(unit: string): string {
+  const name = unit.trim().toLowerCase().replace(/\s+/g, ' ');
+  for (const candidate of [name, name.replace(/s$/, ''), name.replace(/es$/, '')]) {
+    const symbol = hasKey(UNIT_ALIASES, candidate) ? UNIT_ALIASES[candidate] : candidate;
+    if (isKnownUnit(symbol)) return symbol;
+  }
+  return name;
+}
+
+function toKelvin(value: number, unit: string): number {
+  if (unit === 'c') return value + 273.15;
+  if (unit === 'f') return (value - 32) * 5 / 9 + 273.15;
+  return value;
+}
+
+function fromKelvin(value: number, unit: string): number {
+  if (unit === 'c') return value - 273.15;
+  if (unit === 'f') return (value - 273.15) * 9 / 5 + 32;
+  return value;
+}
+
+/**
+ * Converts a value between two units of the same quantity
+ * @throws {Error} If a unit is unknown or the units measure different quantities
+ */
+export function convertUnits(value: number, from: string, to: string): number {
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+
+  if (TEMPERATURE_UNITS.includes(fromUnit) || TEMPERATURE_UNITS.includes(toUnit)) {
+    if (!TEMPERATURE_UNITS.includes(fromUnit) || !TEMPERATURE_UNITS.includes(toUnit)) {
+      throw new Error(`Cannot convert ${from} to ${to}.`);
+    }
+    return fromKelvin(toKelvin(value, fromUnit), toUnit);
+  }
+
+  const group = Object.values(UNIT_FACTORS).find(factors => hasKey(factors, fromUnit));
+  if (!group) throw new Error(`Unknown unit "${from}".`);
+  if (!hasKey(group, toUnit)) {
+    throw new Error(isKnownUnit(toUnit) ? `Cannot convert ${from} to ${to}.` : `Unknown unit "${to}".`);
+  }
+  return value * group[fromUnit] / group[toUnit];
+}
+
+export const unitConversionTool: ToolDefinition = {
+  name: 'convert_units',
+  description: 'Converts a value between units of length, mass, volume, temperature, speed, area, time or digital storage. '
+    + 'Accepts symbols such as km, mi, ft, in, kg, lb, oz, l, gal, cup, c, f, k, km/h, mph, m2, acre, h, d, mb, gib '
+    + 'as well as spelled-out names.',
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number', description: 'The value to convert' },
+      from: { type: 'string', description: 'Unit of the value, e.g. "mi"' },
+      to: { type: 'string', description: 'Unit to convert to, e.g. "km"' }
+    },
+    required: ['value', 'from', 'to']
+  },
+  handler: (args) => {
+    const value = requireNumber(args, 'value');
+    const from = requireString(args, 'from');
+    const to = requireString(args, 'to');
+    const result = Number(convertUnits(value, from, to).toPrecision(10));
+    return `${value} ${from} = ${result} ${to}`;
+  }
+};
+
+export const searchChatHistoryTool: ToolDefinition = {
+  name: 'search_chat_history',
+  description: "Searches the user's earlier chats in this app for messages containing all the given words. "
+    + 'Use it when the user refers to something discussed before.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to search for' },
+      limit: { type: 'integer', description: `Most results to return, up to ${MAX_SEARCH_RESULTS} (default ${DEFAULT_SEARCH_RESULTS})` }
+    },
+    required: ['query']
+  },
+  handler: async (args, context) => {
+    if (!context.isSearchEnabled) {
+      return 'Chat history cannot be searched because the message index is turned off. The user can turn it on in Settings.';
+    }
+    const query = requireString(args, 'query');
+    const limit = args.limit === undefined
+      ? DEFAULT_SEARCH_RESULTS
+      : Math.min(MAX_SEARCH_RESULTS, Math.max(1, Math.round(requireNumber(args, 'limit'))));
+
+    const results = await context.searchMessages(query, limit);
+    if (results.length === 0) {
+      return `No messages contain "${query}".`;
+    }
+    return results.map((result, index) => {
+      const snippet = buildSnippet(result.text, query, SNIPPET_RADIUS).map(part => part.text).join('');
+      const author = result.isUser ? 'User' : 'Assistant';
+      return `${index + 1}. Chat "${result.threadTitle}", ${author}, ${new Date(result.timestamp).toISOString()}\n${snippet}`;
+    }).join('\n\n');
+  }
+};
@@ -0,0 +1,112 @@
+/**
+ * Chat Context Builder
+ *
+ * Builds the conversation context sent to providers from a thread's stored
+ * messages, so a conversation continues correctly after switching threads
+ * or restarting the app. History is fitted to the model's context length
+ * using a token estimate rather than a fixed number of messages; turns that
+ * no longer fit can be carried in a rolling summary.
+ */
+import { ChatAttachment, ChatTurn } from './llmProvider';
+
+// Context length assumed for models that don't report one (typical local model)
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+
+// Average characters per token for English text and code
+const CHARS_PER_TOKEN = 4;
+
+// Tokens spent on role markers and separators for every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Rough token cost of an attached image, which is downscaled before it is sent
+const IMAGE_TOKENS = 1000;
+
+/**
+ * Inputs that determine how much history fits in a request
+ */
+export interface ContextBudget {
+  /** Model context length in tokens; DEFAULT_CONTEXT_LENGTH if unknown */
+  contextLength?: number;
+  /** Tokens kept free for the model's answer */
+  reservedOutputTokens: number;
+  /** System prompt, which is always sent */
+  systemPrompt?: string;
+  /** Latest user message, which is always sent */
+  message: string;
+  /** Files sent with the latest user message */
+  attachments?: ChatAttachment[];
+}
+
+/**
+ * Estimates the number of tokens of a message
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimates the number of tokens of a message with its attached images
+ */
+export function estimateMessageTokens(text: string, attachments: ChatAttachment[] = []): number {
+  return estimateTokens(text) + attachments.length * IMAGE_TOKENS;
+}
+
+/**
+ * Tokens left for the latest user message and the history after reserving the system prompt and the answer
+ * History gives way to the latest message, so this is also the most a message with its files may take.
+ */
+export function getMessageTokenBudget(budget: Omit<ContextBudget, 'message' | 'attachments'>): number {
+  const contextLength = budget.contextLength || DEFAULT_CONTEXT_LENGTH;
+  // A large output limit on a small model must not crowd out the whole history
+  const reservedOutputTokens = Math.min(budget.reservedOutputTokens, Math.floor(contextLength / 2));
+  return contextLength
+    - reservedOutputTokens
+    - (budget.systemPrompt ? estimateTokens(budget.systemPrompt) : 0);
+}
+
+/**
+ * Selects the part of the thread history that is sent with a request
+ * Keeps the most recent turns that fit in the model's context length after
+ * reserving room for the system prompt, the latest user turn and the answer.
+ */
+export function getContextWindow(history: ChatTurn[], budget: ContextBudget): ChatTurn[] {
+  let available = getMessageTokenBudget(budget) - estimateMessageTokens(budget.message, budget.attachments);
+
+  let start = history.length;
+  while (start > 0) {
+    const cost = estimateMessageTokens(history[start - 1].content, history[start - 1].attachments);
+    if (cost > available) break;
+    available -= cost;
+    start--;
+  }
+  return history.slice(start);
+}
+
+/**
+ * Number of turns at the start of the history that don't fit in the context window
+ */
+export function countDroppedTurns(history: ChatTurn[], budget: ContextBudget): number {
+  return history.length - getContextWindow(history, budget).length;
+}
+
+// File names and contents come from the user's files, so neither may end the tag they are placed in
+const toFileName = (name?: string | null) => name?.replace(/["<>\r\n]/g, '').trim() || 'file';
+const toFileData = (data: string) => data.replace(/<\/(\s*file\s*)>/gi, '<\\/$1>');
+
+/**
+ * Appends the contents of attached text files to a message, each between tags naming the file
+ */
+export function withFileContents(message: string, files: { name?: string | null; data: string }[]): string {
+  const blocks = files.map(file => `<file name="${toFileName(file.name)}">\n${toFileData(file.data)}\n</file>`);
+  return [message, ...blocks].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Combines the system prompt with the summary of earlier turns,
+ * so the summary precedes the recent history
+ */
+export function buildSystemPrompt(systemPrompt: string, summary?: string): string {
+  if (!summary?.trim()) return systemPrompt;
+  const summaryBlock = `Summary of the earlier conversation:\n${summary.trim()}`;
+  return systemPrompt ? `${systemPrompt}\n\n${summaryBlock}` : summaryBlock;
+}
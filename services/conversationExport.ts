@@ -0,0 +1,268 @@
+/**
+ * Conversation Export Service
+ *
+ * Turns chats into Markdown, a versioned JSON document or a self-contained HTML
+ * transcript, and hands the file to the system share sheet. Markdown and HTML show
+ * the selected path of each chat; JSON keeps every branch.
+ */
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { ChatThread, Message } from '../context/dataContext';
+import { isImageAttachment } from './attachments';
+import { parseToolStep, ToolStep } from './toolRegistry';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'json', label: 'JSON' },
+  { id: 'html', label: 'HTML' }
+];
+
+// Identifies exports of this app; the version changes when the JSON layout does
+export const EXPORT_FORMAT_ID = 'androidllm-chat-export';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * A chat with all of its messages, as exported
+ */
+export interface ExportedThread {
+  thread: ChatThread;
+  messages: Message[];   // Selected path
+  branches: Message[];   // Messages of the other branches
+  personaName?: string;
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  uti: string;           // File type for the iOS share sheet
+  content: string;
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', uti: 'net.daringfireball.markdown' },
+  json: { extension: 'json', mimeType: 'application/json', uti: 'public.json' },
+  html: { extension: 'html', mimeType: 'text/html', uti: 'public.html' }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local date and time, e.g. "2025-01-31 14:05"
+function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function authorOf(message: Message): string {
+  if (message.isUser) return 'You';
+  return message.model ? `Assistant (${message.model})` : 'Assistant';
+}
+
+// Tool step of a message, if it is one
+const toolStepOf = (message: Message): ToolStep | null =>
+  message.type ? parseToolStep(message.type, message.text) : null;
+
+// Heading of a tool step, e.g. "Tool call: calculator"
+const toolStepLabel = (step: ToolStep) => `${step.kind === 'call' ? 'Tool call' : 'Tool result'}: ${step.name}`;
+
+// Closes a code fence left open at the end of a message, so it does not swallow what follows
+function closeOpenFence(text: string): string {
+  const fences = text.split('\n').filter(line => line.trimStart().startsWith('```')).length;
+  return fences % 2 === 1 ? `${text}\n\`\`\`` : text;
+}
+
+function threadDetails({ thread, personaName }: ExportedThread): string[] {
+  return [
+    `Model: ${thread.model.displayName} (${thread.model.provider})`,
+    ...(personaName ? [`Persona: ${personaName}`] : []),
+    `Created: ${formatTimestamp(thread.createdAt)}`,
+    `Updated: ${formatTimestamp(thread.updatedAt)}`
+  ];
+}
+
+/**
+ * Markdown transcript; message texts are kept as written, including fenced code
+ */
+export function toMarkdown(threads: ExportedThread[]): string {
+  return threads.map(exported => [
+    `# ${exported.thread.title}`,
+    threadDetails(exported).map(line => `- ${line}`).join('\n'),
+    ...exported.messages.map(messageToMarkdown)
+  ].join('\n\n')).join('\n\n---\n\n') + '\n';
+}
+
+// A message, or a tool step with its details in a code block
+function messageToMarkdown(message: Message): string {
+  const step = toolStepOf(message);
+  if (step) {
+    return `*${toolStepLabel(step)}*\n\n\`\`\`\n${step.detail}\n\`\`\``;
+  }
+  return [
+    `### ${authorOf(message)} · ${formatTimestamp(message.timestamp)}`,
+    ...(message.attachments ?? []).map(attachment =>
+      `*[${isImageAttachment(attachment) ? 'Image' : 'File'}: ${attachment.name ?? attachment.mimeType}]*`
+    ),
+    closeOpenFence(message.text.trim())
+  ].filter(Boolean).join('\n\n');
+}
+
+const toExportedMessage = (message: Message) => ({
+  id: message.id,
+  role: message.isUser ? 'user' : 'assistant',
+  text: message.text,
+  timestamp: message.timestamp,
+  model: message.model,
+  parentId: message.parentId,
+  type: message.type,
+  attachments: message.attachments?.map(({ id, ...attachment }) => attachment)
+});
+
+/**
+ * Versioned JSON document with every message of every branch; timestamps are epoch milliseconds
+ */
+export function toJson(threads: ExportedThread[], exportedAt: Date = new Date()): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT_ID,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.getTime(),
+    threads: threads.map(({ thread, messages, branches, personaName }) => ({
+      id: thread.id,
+      title: thread.title,
+      createdAt: thread.createdAt,
+      updatedAt: thread.updatedAt,
+      model: thread.model,
+      persona: thread.personaId ? { id: thread.personaId, name: personaName } : undefined,
+      params: thread.params,
+      jsonSchema: thread.jsonSchema,
+      summary: thread.summary,
+      messages: messages.map(toExportedMessage),
+      branches: branches.map(message => ({ ...toExportedMessage(message), isSelected: message.isSelected ?? false }))
+    }))
+  }, null, 2);
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Message text as HTML: fenced code becomes preformatted blocks, everything else keeps its line breaks
+function messageToHtml(text: string): string {
+  return closeOpenFence(text.trim())
+    .split(/^\s*```[^\n]*\n?/m)
+    .map((part, i) => i % 2 === 1
+      ? `<pre><code>${escapeHtml(part.replace(/\n$/, ''))}</code></pre>`
+      : part.trim() ? `<div class="text">${escapeHtml(part.trim())}</div>` : '')
+    .join('');
+}
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, system-ui, sans-serif; background: #181818; color: #EBE9FC; max-width: 800px; margin: 0 auto; padding: 24px; }
+  h1 { font-size: 1.4em; margin-top: 48px; }
+  .details { color: #a3a3a3; font-size: 0.85em; margin-bottom: 16px; }
+  .message { border-radius: 12px; padding: 12px 16px; margin: 12px 0; background: #2a2a2a; }
+  .message.user { background: #23392c; }
+  .author { font-size: 0.8em; color: #61BA82; margin-bottom: 6px; }
+  .text { white-space: pre-wrap; line-height: 1.5; }
+  pre { background: #111; padding: 12px; border-radius: 8px; overflow-x: auto; }
+  code { font-family: ui-monospace, Menlo, monospace; font-size: 0.9em; }
+  .message.tool { background: none; border: 1px solid #2a2a2a; padding: 8px 16px; }
+  .file { font-size: 0.85em; color: #a3a3a3; margin: 6px 0; }
+  img { display: block; max-width: 100%; max-height: 400px; border-radius: 8px; margin: 6px 0; }
+`;
+
+// A message, or a tool step with its details preformatted
+function messageToHtmlBlock(message: Message): string {
+  const step = toolStepOf(message);
+  if (step) {
+    return [
+      '<div class="message tool">',
+      `<div class="author">${escapeHtml(toolStepLabel(step))}</div>`,
+      `<pre><code>${escapeHtml(step.detail)}</code></pre>`,
+      '</div>'
+    ].join('');
+  }
+  return [
+    `<div class="message ${message.isUser ? 'user' : 'assistant'}">`,
+    `<div class="author">${escapeHtml(`${authorOf(message)} · ${formatTimestamp(message.timestamp)}`)}</div>`,
+    ...(message.attachments ?? []).map(attachment => isImageAttachment(attachment)
+      ? `<img src="data:${escapeHtml(attachment.mimeType)};base64,${attachment.data}" alt="${escapeHtml(attachment.name ?? 'Image')}">`
+      : `<div class="file">📄 ${escapeHtml(attachment.name ?? 'File')}</div>`
+    ),
+    messageToHtml(message.text),
+    '</div>'
+  ].join('');
+}
+
+/**
+ * Self-contained HTML transcript with inline styles and no external resources
+ */
+export function toHtml(threads: ExportedThread[]): string {
+  const title = threads.length === 1 ? threads[0].thread.title : 'Chats';
+  const body = threads.map(exported => [
+    `<h1>${escapeHtml(exported.thread.title)}</h1>`,
+    `<div class="details">${threadDetails(exported).map(escapeHtml).join('<br>')}</div>`,
+    ...exported.messages.map(messageToHtmlBlock)
+  ].join('\n')).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// File name from the chat title, or "chats" for several, with the export date
+function toFileName(threads: ExportedThread[], extension: string, exportedAt: Date): string {
+  const slug = threads.length === 1
+    ? threads[0].thread.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 40)
+    : 'chats';
+  const date = `${exportedAt.getFullYear()}-${pad(exportedAt.getMonth() + 1)}-${pad(exportedAt.getDate())}`;
+  return `${slug || 'chat'}-${date}.${extension}`;
+}
+
+/**
+ * Builds the export file for one or more chats
+ */
+export function buildExport(threads: ExportedThread[], format: ExportFormat, exportedAt: Date = new Date()): ExportFile {
+  const { extension, mimeType, uti } = FILE_TYPES[format];
+  const content = format === 'json' ? toJson(threads, exportedAt)
+    : format === 'html' ? toHtml(threads)
+    : toMarkdown(threads);
+  return { fileName: toFileName(threads, extension, exportedAt), mimeType, uti, content };
+}
+
+// Exports are written here; the folder is cleared before the next export and when the app starts
+const EXPORT_DIRECTORY = `${FileSystem.cacheDirectory}exports/`;
+
+/**
+ * Deletes the files of earlier exports, which hold decrypted messages
+ */
+export async function clearExports(): Promise<void> {
+  await FileSystem.deleteAsync(EXPORT_DIRECTORY, { idempotent: true }).catch(() => undefined);
+}
+
+/**
+ * Writes the export to the cache and opens the share sheet
+ * The receiving app may read the file after the share sheet closes, so it is kept until the next export.
+ */
+export async function shareExport(file: ExportFile): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await clearExports();
+  await FileSystem.makeDirectoryAsync(EXPORT_DIRECTORY, { intermediates: true });
+  const uri = `${EXPORT_DIRECTORY}${file.fileName}`;
+  await FileSystem.writeAsStringAsync(uri, file.content, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType: file.mimeType, UTI: file.uti, dialogTitle: file.fileName });
+}
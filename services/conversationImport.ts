@@ -0,0 +1,407 @@
+/**
+ * Conversation Import Service
+ *
+ * Reads chat exports of other apps and of this app into one shape, so they can be
+ * previewed, checked against earlier imports and stored as threads. Supported are
+ * the ChatGPT data export (conversations.json), OpenRouter chat room exports and the
+ * JSON export of this app. Every conversation keeps an id from its source, which is
+ * stored with the thread to skip it on the next import.
+ */
+import * as Crypto from 'expo-crypto';
+import { Message, MessageAttachment, ToolStepType } from '../context/dataContext';
+import { GenerationParams, ModelOption } from './llmProvider';
+import { getSelectedPath } from './messageTree';
+import { EXPORT_FORMAT_ID, EXPORT_SCHEMA_VERSION } from './conversationExport';
+
+export type ImportFormat = 'chatgpt' | 'openrouter' | 'androidllm';
+
+export const IMPORT_FORMAT_NAMES: Record<ImportFormat, string> = {
+  chatgpt: 'ChatGPT',
+  openrouter: 'OpenRouter',
+  androidllm: 'this app'
+};
+
+export interface ImportedMessage {
+  sourceId: string;
+  parentSourceId?: string;  // Unset for the first message
+  isUser: boolean;
+  text: string;
+  timestamp: number;
+  modelName?: string;       // Model as named by the source
+  isSelected: boolean;      // On the path the source showed last
+  attachments?: Omit<MessageAttachment, 'id'>[];
+  type?: ToolStepType;      // Tool steps of exports of this app
+}
+
+/**
+ * A conversation read from an export, before it is stored
+ */
+export interface ImportedThread {
+  sourceId: string;         // "<format>:<id in the source>", unique across sources
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  modelName?: string;       // Model as named by the source
+  model?: ModelOption;      // Exact model, for exports of this app
+  params?: GenerationParams;
+  personaId?: string;
+  jsonSchema?: string;      // JSON mode schema, for exports of this app
+  messages: ImportedMessage[];  // Oldest first
+}
+
+export interface ImportFile {
+  format: ImportFormat;
+  threads: ImportedThread[];
+}
+
+/**
+ * An imported conversation in the app's message model
+ */
+export interface PreparedImport {
+  importSource: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  model: ModelOption;
+  params?: GenerationParams;
+  personaId?: string;
+  jsonSchema?: string;
+  messages: Message[];      // Selected path
+  branches: Message[];      // Messages of the other branches
+}
+
+const DEFAULT_TITLE = 'Imported chat';
+
+// Epoch milliseconds from seconds, milliseconds or a date string
+function toMillis(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 1e12 ? Math.round(value * 1000) : value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+// A string field of untrusted input, unset if it holds anything else
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Text of message content given as a string or as a list of parts
+function contentText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(part => typeof part === 'string' ? part
+      : part?.type === 'text' ? part.text ?? ''
+      : part?.type === 'image_url' || part?.content_type === 'image_asset_pointer' ? '[image]'
+      : '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Chains messages without parent links in order, as the source shows them
+function chainMessages(messages: ImportedMessage[]): ImportedMessage[] {
+  return messages.map((message, i) => ({ ...message, parentSourceId: messages[i - 1]?.sourceId, isSelected: true }));
+}
+
+// --- ChatGPT ---
+
+function chatGptText(content: any): string {
+  switch (content?.content_type) {
+    case 'text':
+    case 'multimodal_text':
+      return contentText(content.parts);
+    case 'code':
+      return content.text ? `\`\`\`\n${content.text}\n\`\`\`` : '';
+    default:
+      return typeof content?.text === 'string' ? content.text : '';
+  }
+}
+
+// Visible user and assistant messages; system prompts, tool calls and tool output are left out
+function isChatGptTurn(message: any): boolean {
+  const role = message?.author?.role;
+  if (role !== 'user' && role !== 'assistant') return false;
+  if (message.metadata?.is_visually_hidden_from_conversation) return false;
+  if (message.recipient && message.recipient !== 'all') return false;
+  return chatGptText(message.content).trim().length > 0;
+}
+
+/**
+ * Conversations of a ChatGPT data export
+ * Each conversation is a tree of nodes; skipped nodes are bridged, so their children attach to the nearest kept ancestor.
+ */
+function parseChatGpt(conversations: any[]): ImportedThread[] {
+  return conversations.map((conversation, index) => {
+    const mapping: Record<string, any> = conversation.mapping ?? {};
+    const createdAt = toMillis(conversation.create_time) ?? Date.now();
+
+    // Parent links of a damaged export may loop, so the walks up the tree stop at a node seen before
+    const selected = new Set<string>();
+    for (let nodeId = conversation.current_node; nodeId && mapping[nodeId] && !selected.has(nodeId); nodeId = mapping[nodeId].parent) {
+      selected.add(nodeId);
+    }
+    const keptAncestor = (nodeId?: string): string | undefined => {
+      const visited = new Set<string>();
+      for (let current = nodeId; current && mapping[current] && !visited.has(current); current = mapping[current].parent) {
+        if (isChatGptTurn(mapping[current].message)) return current;
+        visited.add(current);
+      }
+      return undefined;
+    };
+
+    const messages: ImportedMessage[] = Object.entries(mapping)
+      .filter(([, node]) => isChatGptTurn(node?.message))
+      .map(([nodeId, node]) => ({
+        sourceId: nodeId,
+        parentSourceId: keptAncestor(node.parent),
+        isUser: node.message.author.role === 'user',
+        text: chatGptText(node.message.content),
+        timestamp: toMillis(node.message.create_time) ?? createdAt,
+        modelName: optionalText(node.message.metadata?.model_slug),
+        isSelected: selected.has(nodeId)
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const lastModel = [...messages].reverse().find(message => message.isSelected && message.modelName)?.modelName;
+    return {
+      sourceId: `chatgpt:${conversation.conversation_id ?? conversation.id ?? index}`,
+      title: optionalText(conversation.title)?.trim() || DEFAULT_TITLE,
+      createdAt,
+      updatedAt: toMillis(conversation.update_time) ?? createdAt,
+      modelName: lastModel ?? optionalText(conversation.default_model_slug),
+      messages
+    };
+  });
+}
+
+// --- OpenRouter ---
+
+/**
+ * Chats of an OpenRouter chat room export
+ * Messages name their author by character id; "USER" is the user, other ids refer to
+ * the characters list, which holds the model. Messages are kept in the order exported.
+ */
+function parseOpenRouter(chat: any, index: number): ImportedThread {
+  const characters: Record<string, any> = chat.characters ?? {};
+  const entries: any[] = (Array.isArray(chat.messages) ? chat.messages : Object.values(chat.messages ?? {}))
+    .filter((entry: any) => entry && typeof entry === 'object');
+  const createdAt = toMillis(chat.createdAt) ?? toMillis(entries[0]?.createdAt) ?? Date.now();
+
+  const messages = chainMessages(entries
+    .map((entry, i): ImportedMessage => {
+      const characterId = entry.characterId ?? entry.role;
+      const isUser = characterId === 'USER' || characterId === 'user';
+      return {
+        sourceId: String(entry.id ?? i),
+        isUser,
+        text: contentText(entry.content),
+        timestamp: toMillis(entry.createdAt) ?? toMillis(entry.updatedAt) ?? createdAt + i,
+        modelName: isUser ? undefined
+          : optionalText(entry.model) ?? optionalText(characters[characterId]?.model) ?? optionalText(characters[characterId]?.modelInfo?.slug),
+        isSelected: true
+      };
+    })
+    .filter(message => message.text.trim().length > 0)
+    .sort((a, b) => a.timestamp - b.timestamp));
+
+  const lastModel = [...messages].reverse().find(message => message.modelName)?.modelName;
+  return {
+    sourceId: `openrouter:${chat.id ?? `${chat.title ?? ''}:${messages[0]?.timestamp ?? index}`}`,
+    title: optionalText(chat.title)?.trim() || DEFAULT_TITLE,
+    createdAt,
+    updatedAt: toMillis(chat.updatedAt) ?? messages[messages.length - 1]?.timestamp ?? createdAt,
+    modelName: lastModel ?? Object.values(characters).map(character => optionalText(character?.model)).find(Boolean),
+    messages
+  };
+}
+
+// --- This app ---
+
+function parseAppExport(document: any): ImportedThread[] {
+  if (Number(document.schemaVersion) > EXPORT_SCHEMA_VERSION) {
+    throw new Error('This export is from a newer version of the app. Update the app to import it.');
+  }
+  const list = (value: unknown): any[] => Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+  return list(document.threads).map((thread: any, index): ImportedThread => {
+    const createdAt = toMillis(thread.createdAt) ?? Date.now();
+    const toImported = (message: any, isSelected: boolean): ImportedMessage => ({
+      sourceId: String(message.id),
+      parentSourceId: message.parentId ? String(message.parentId) : undefined,
+      isUser: message.role === 'user',
+      text: typeof message.text === 'string' ? message.text : '',
+      timestamp: toMillis(message.timestamp) ?? createdAt,
+      modelName: optionalText(message.model),
+      isSelected,
+      attachments: Array.isArray(message.attachments)
+        ? message.attachments.filter((attachment: any) => attachment?.mimeType && attachment.data)
+        : undefined,
+      type: message.type === 'toolCall' || message.type === 'toolResult' ? message.type : undefined
+    });
+    const path: ImportedMessage[] = list(thread.messages).map(message => toImported(message, true));
+    const branches: ImportedMessage[] = list(thread.branches).map(message => toImported(message, Boolean(message.isSelected)));
+    // Exports of threads from before branching may lack parent ids on the path
+    const messages = path.every(message => !message.parentSourceId) ? chainMessages(path) : path;
+    return {
+      sourceId: `androidllm:${thread.id ?? index}`,
+      title: optionalText(thread.title) || DEFAULT_TITLE,
+      createdAt,
+      updatedAt: toMillis(thread.updatedAt) ?? createdAt,
+      model: thread.model,
+      params: thread.params,
+      personaId: thread.persona?.id,
+      jsonSchema: optionalText(thread.jsonSchema) || undefined,
+      messages: [...messages, ...branches].sort((a, b) => a.timestamp - b.timestamp)
+    };
+  });
+}
+
+/**
+ * Keeps the first of messages sharing an id and cuts parent links that loop
+ * Exports are untrusted input, and either would break the message tree built from them.
+ * @param messages Oldest first
+ */
+function repairMessageTree(messages: ImportedMessage[]): ImportedMessage[] {
+  const seen = new Set<string>();
+  const unique = messages.filter(message => !seen.has(message.sourceId) && Boolean(seen.add(message.sourceId)));
+
+  const parents = new Map(unique.map(message => [message.sourceId, message.parentSourceId]));
+  const order = new Map(unique.map((message, i) => [message.sourceId, i]));
+  const rooted = new Set<string>();
+  for (const message of unique) {
+    const chain: string[] = [];
+    const onChain = new Set<string>();
+    for (let current = message.sourceId as string | undefined; current !== undefined && parents.has(current) && !rooted.has(current); current = parents.get(current)) {
+      if (onChain.has(current)) {
+        // Messages are oldest first, so the oldest message of the loop becomes a first message
+        const loop = chain.slice(chain.indexOf(current));
+        parents.set(loop.reduce((oldest, id) => order.get(id)! < order.get(oldest)! ? id : oldest), undefined);
+        break;
+      }
+      chain.push(current);
+      onChain.add(current);
+    }
+    chain.forEach(id => rooted.add(id));
+  }
+  return unique.map(message => parents.get(message.sourceId) === message.parentSourceId
+    ? message
+    : { ...message, parentSourceId: undefined });
+}
+
+/**
+ * Detects the format of an export file and reads its conversations
+ * A conversation that appears more than once in the file is read once.
+ * @throws Error describing why the file cannot be imported
+ */
+export function parseImportFile(text: string): ImportFile {
+  const file = detectImportFile(text);
+  const seen = new Set<string>();
+  return {
+    format: file.format,
+    threads: file.threads
+      .filter(thread => !seen.has(thread.sourceId) && Boolean(seen.add(thread.sourceId)))
+      .map(thread => ({ ...thread, messages: repairMessageTree(thread.messages) }))
+  };
+}
+
+/**
+ * Conversations of a file that were not imported before
+ * @param importedSources Sources of the threads already stored, see ImportedThread.sourceId
+ */
+export function findNewThreads(threads: ImportedThread[], importedSources: Set<string>): ImportedThread[] {
+  return threads.filter(thread => !importedSources.has(thread.sourceId));
+}
+
+function detectImportFile(text: string): ImportFile {
+  let document: any;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (document?.format === EXPORT_FORMAT_ID) {
+    return { format: 'androidllm', threads: parseAppExport(document) };
+  }
+  const list: any[] = Array.isArray(document) ? document : [document];
+  if (list.length > 0 && list.every(item => item && typeof item.mapping === 'object')) {
+    return { format: 'chatgpt', threads: parseChatGpt(list) };
+  }
+  if (list.length > 0 && list.every(item => item && item.messages && (item.characters || String(item.version ?? '').startsWith('orpg')))) {
+    return { format: 'openrouter', threads: list.map(parseOpenRouter) };
+  }
+  throw new Error('Unknown export format. Choose a ChatGPT conversations.json, an OpenRouter chat export or an export of this app.');
+}
+
+// Names ChatGPT used for models that are known by another name elsewhere
+const CHATGPT_ALIASES: Record<string, string> = {
+  'text-davinci-002-render-sha': 'gpt-3.5-turbo',
+  'text-davinci-002-render-paid': 'gpt-4',
+  'gpt-4-browsing': 'gpt-4',
+  'gpt-4-plugins': 'gpt-4',
+  'gpt-4-code-interpreter': 'gpt-4',
+  'gpt-4-gizmo': 'gpt-4'
+};
+
+/**
+ * Maps a model name from an export to a model of this app
+ * Known models match by id or display name. Other names become OpenRouter ids with
+ * the vendor prefix OpenRouter uses, e.g. "gpt-4o" becomes "openai/gpt-4o".
+ * @param knownModels Built-in and saved models to match against
+ * @param fallback Model used when the export names none
+ */
+export function mapSourceModel(name: string | undefined, knownModels: ModelOption[], fallback: ModelOption): ModelOption {
+  const trimmed = name?.trim();
+  if (!trimmed) return fallback;
+  const lower = trimmed.toLowerCase();
+  const known = knownModels.find(model => model.id.toLowerCase() === lower || model.displayName.toLowerCase() === lower);
+  if (known) return known;
+
+  if (lower.startsWith('gemini')) {
+    return { id: trimmed, displayName: trimmed, provider: 'gemini' };
+  }
+  const slug = CHATGPT_ALIASES[lower] ?? trimmed;
+  const id = slug.includes('/') ? slug
+    : /^(gpt-|o\d|chatgpt-)/.test(slug) ? `openai/${slug}`
+    : /^claude-/.test(slug) ? `anthropic/${slug}`
+    : slug;
+  return knownModels.find(model => model.id === id && model.provider === 'openrouter')
+    ?? { id, displayName: slug, provider: 'openrouter' };
+}
+
+/**
+ * Converts an imported conversation to the app's message tree
+ * Messages get new ids, so importing never clashes with stored messages.
+ */
+export function prepareImport(thread: ImportedThread, knownModels: ModelOption[], fallback: ModelOption): PreparedImport {
+  const ids = new Map(thread.messages.map(message => [message.sourceId, Crypto.randomUUID()]));
+  const nodes: Message[] = thread.messages.map(message => ({
+    id: ids.get(message.sourceId)!,
+    isUser: message.isUser,
+    text: message.text,
+    timestamp: message.timestamp,
+    model: message.isUser ? undefined : message.modelName ? mapSourceModel(message.modelName, knownModels, fallback).displayName : undefined,
+    parentId: message.parentSourceId ? ids.get(message.parentSourceId) : undefined,
+    isSelected: message.isSelected,
+    attachments: message.attachments?.map(attachment => ({ ...attachment, id: Crypto.randomUUID() })),
+    type: message.type
+  }));
+
+  const messages = getSelectedPath(nodes).map(({ isSelected, ...message }) => message);
+  const onPath = new Set(messages.map(message => message.id));
+  return {
+    importSource: thread.sourceId,
+    title: thread.title,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    model: thread.model ?? mapSourceModel(thread.modelName, knownModels, fallback),
+    params: thread.params,
+    personaId: thread.personaId,
+    jsonSchema: thread.jsonSchema,
+    messages,
+    branches: nodes.filter(node => !onPath.has(node.id))
+  };
+}
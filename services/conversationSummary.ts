@@ -0,0 +1,59 @@
+/**
+ * Conversation Summary Service
+ *
+ * Folds turns that no longer fit in the model's context window into a
+ * rolling summary, which is stored on the thread and sent ahead of the
+ * recent history.
+ */
+import { ChatTurn, LLMProvider } from './llmProvider';
+
+const SUMMARY_SYSTEM_PROMPT =
+  'You maintain a running summary of a conversation between a user and an assistant. ' +
+  'Update the summary with the new messages. Keep facts, decisions, names, code identifiers ' +
+  'and open questions; drop small talk. Reply with the updated summary only, in plain text.';
+
+/**
+ * Formats turns as a plain transcript for the summarization request
+ */
+function formatTranscript(turns: ChatTurn[]): string {
+  return turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Ask a model to merge dropped turns into the existing summary
+ * @param provider Provider used for summarization
+ * @param model Model id on that provider
+ * @param previousSummary Summary of the turns before these, if any
+ * @param turns Turns leaving the context window, oldest first
+ * @returns The updated summary
+ */
+export async function summarizeTurns(
+  provider: LLMProvider,
+  model: string,
+  previousSummary: string | undefined,
+  turns: ChatTurn[]
+): Promise<string> {
+  const message = [
+    previousSummary?.trim() ? `Current summary:\n${previousSummary.trim()}` : 'Current summary: (none)',
+    `New messages:\n${formatTranscript(turns)}`
+  ].join('\n\n');
+
+  let summary = '';
+  let failure: string | undefined;
+  await provider.sendMessage(
+    { model, message, history: [], systemPrompt: SUMMARY_SYSTEM_PROMPT },
+    event => {
+      if (event.type === 'done') {
+        if (event.stopped) failure = 'Summarization was stopped';
+        else summary = event.text;
+      }
+      if (event.type === 'error') failure = event.message;
+    }
+  );
+
+  if (failure) throw new Error(failure);
+  if (!summary.trim()) throw new Error('Summarization returned an empty response');
+  return summary.trim();
+}
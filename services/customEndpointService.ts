@@ -0,0 +1,77 @@
+import { ModelOption, ProviderModelInfo, ProviderSettings } from './llmProvider';
+import { fetchOpenAIModels, OpenAICompatibleService } from './openAICompatibleService';
+
+/**
+ * Custom Endpoint Service
+ *
+ * Service worker for self-hosted servers exposing an OpenAI-compatible API
+ * (Ollama, LM Studio, llama.cpp server, ...)
+ * Handles:
+ * - Endpoint configuration (base URL, optional bearer token, model list)
+ * - Model discovery via /models
+ * Message generation lives in OpenAICompatibleService
+ */
+
+/**
+ * Normalizes a user-entered base URL by trimming whitespace and trailing slashes
+ */
+export function normalizeEndpointUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Lists the models served by an endpoint that is not saved yet (used by Settings)
+ * @param baseUrl Base URL including the version segment (e.g. http://192.168.1.10:11434/v1)
+ * @param apiKey Optional bearer token
+ */
+export async function discoverEndpointModels(baseUrl: string, apiKey?: string): Promise<ProviderModelInfo[]> {
+  return fetchOpenAIModels(normalizeEndpointUrl(baseUrl), {
+    'Content-Type': 'application/json',
+    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+  });
+}
+
+/**
+ * CustomEndpointService class for handling all interactions with a user-configured endpoint
+ */
+export class CustomEndpointService extends OpenAICompatibleService {
+  readonly id = 'custom';
+  readonly displayName = 'Custom Endpoint';
+  readonly apiKeyName = 'customEndpoint';
+
+  private baseUrl: string = '';
+  private models: string[] = [];
+
+  /**
+   * Apply the endpoint URL and model list from Settings
+   */
+  configure(settings: ProviderSettings): void {
+    this.baseUrl = normalizeEndpointUrl(settings.customEndpointUrl || '');
+    this.models = settings.customEndpointModels || [];
+  }
+
+  protected getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  protected getSetupHint(): string {
+    return '❗ Endpoint not set. Please add your server URL in Settings.';
+  }
+
+  /**
+   * Models listed in Settings for this endpoint
+   */
+  getDefaultModels(): ModelOption[] {
+    return this.models.map(id => ({ id, displayName: id, provider: this.id }));
+  }
+
+  /**
+   * The bearer token is optional, so only the base URL is required
+   */
+  isInitialized(): boolean {
+    return Boolean(this.baseUrl);
+  }
+}
+
+// Export a singleton instance
+export const customEndpointService = new CustomEndpointService();
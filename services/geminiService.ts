@@ -5,72 +5,153 @@
  * Handles:
  * - API configuration and initialization
  * - Message generation
+ * - Function calls, answered over several rounds
+ * - Structured JSON output via a response schema
  * - Context management
  * - Chain of thought reasoning
  */
-import { GoogleGenerativeAI, GenerativeModel, ChatSession } from '@google/generative-ai';
-import { useData } from '../context/dataContext';
+import { GoogleGenerativeAI, GenerativeModel, ChatSession, FunctionCall, FunctionDeclaration, FunctionDeclarationSchema, Part, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { ChatAttachment, LLMEventHandler, LLMProvider, LLMRequest, LLMUsage, MAX_TOOL_ROUNDS, ModelOption, ToolCall, ToolSpec } from './llmProvider';
+import { buildSystemPrompt, getContextWindow } from './chatContext';
+import { resolveGenerationParams } from './generationParams';
+import { withJsonInstruction } from './jsonMode';
+import type { JsonSchema } from '../utils/jsonSchema';
 
 // Default system prompt is empty unless user sets a custom one
 export const DEFAULT_SYSTEM_PROMPT = '';
 
-// History window size for context management
-const HISTORY_WINDOW_SIZE = 10;
+export type GeminiModel = 'gemini-2.0-flash' | 'gemini-1.5-pro' | 'gemini-2.5-pro';
+
+export const GEMINI_MODELS: ModelOption[] = [
+  { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', provider: 'gemini', contextLength: 1048576, supportsImages: true, supportsTools: true },
+  { id: 'gemini-1.5-pro', displayName: 'Gemini 1.5 Pro', provider: 'gemini', contextLength: 2097152, supportsImages: true, supportsTools: true },
+  { id: 'gemini-2.5-pro', displayName: 'Gemini 2.5 Pro', provider: 'gemini', contextLength: 1048576, supportsImages: true, supportsTools: true },
+];
 
 /**
- * Context management for chat history
- * Maintains a sliding window of recent messages for context
+ * Message parts for a text and its attachments, which are sent inline
+ * Gemini rejects empty text parts, so the text is left out when only attachments are sent.
  */
-class ChatContextManager {
-  private history: Array<{role: 'user' | 'model', parts: Array<{text: string}>}> = [];
-  
-  /**
-   * Adds a message to the chat history
-   */
-  addMessage(role: 'user' | 'model', content: string): void {
-    this.history.push({ 
-      role, 
-      parts: [{ text: content }]
-    });
-    
-    // Maintain the history window size
-    if (this.history.length > HISTORY_WINDOW_SIZE) {
-      this.history.shift();
+function toParts(text: string, attachments: ChatAttachment[] = []): Part[] {
+  const inline: Part[] = attachments.map(attachment => ({
+    inlineData: { mimeType: attachment.mimeType, data: attachment.data }
+  }));
+  return text || inline.length === 0 ? [{ text }, ...inline] : inline;
+}
+
+/**
+ * Function declaration for a tool
+ * Gemini rejects object schemas without properties, so parameters are left out for tools that take none.
+ */
+function toFunctionDeclaration(tool: ToolSpec): FunctionDeclaration {
+  const hasParameters = Object.keys(tool.parameters.properties ?? {}).length > 0;
+  return {
+    name: tool.name,
+    description: tool.description,
+    ...(hasParameters ? { parameters: tool.parameters as unknown as FunctionDeclarationSchema } : {})
+  };
+}
+
+/**
+ * Tools offered with a request
+ * Gemini does not combine function calling with a JSON response, so JSON mode goes without tools.
+ */
+function getRequestTools(request: LLMRequest): ToolSpec[] | undefined {
+  return request.tools && request.executeTool && !request.responseSchema ? request.tools : undefined;
+}
+
+/**
+ * Tool calls for the function calls of a response; Gemini does not give them ids
+ */
+function toToolCalls(calls: FunctionCall[] = []): ToolCall[] {
+  return calls.map((call, index) => ({
+    id: `call_${Date.now()}_${index}`,
+    name: call.name,
+    arguments: (call.args ?? {}) as Record<string, unknown>
+  }));
+}
+
+/**
+ * Gemini response schema for a JSON Schema
+ * Gemini knows a subset of OpenAPI schemas: keywords it lacks are left out, as the response is
+ * checked against the full schema anyway, and schemas it cannot express at all give undefined.
+ */
+function toResponseSchema(schema: JsonSchema): ResponseSchema | undefined {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const valueTypes = types.filter(type => type !== 'null');
+  if (valueTypes.length !== 1) return undefined;
+  const base = {
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(types.includes('null') ? { nullable: true } : {})
+  };
+
+  switch (valueTypes[0]) {
+    case 'string':
+      return schema.enum?.every(option => typeof option === 'string')
+        ? { ...base, type: SchemaType.STRING, format: 'enum', enum: schema.enum as string[] }
+        : { ...base, type: SchemaType.STRING };
+    case 'number':
+      return { ...base, type: SchemaType.NUMBER };
+    case 'integer':
+      return { ...base, type: SchemaType.INTEGER };
+    case 'boolean':
+      return { ...base, type: SchemaType.BOOLEAN };
+    case 'array': {
+      const items = schema.items && toResponseSchema(schema.items);
+      if (!items) return undefined;
+      return {
+        ...base,
+        type: SchemaType.ARRAY,
+        items,
+        ...(schema.minItems !== undefined ? { minItems: schema.minItems } : {}),
+        ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {})
+      };
     }
-  }
-  
-  /**
-   * Gets the current chat history
-   */
-  getHistory(): Array<{role: 'user' | 'model', parts: Array<{text: string}>}> {
-    return [...this.history];
-  }
-  
-  /**
-   * Clears the chat history
-   */
-  clearHistory(): void {
-    this.history = [];
+    case 'object': {
+      // Gemini rejects objects without properties
+      const properties: Record<string, ResponseSchema> = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        const converted = toResponseSchema(property);
+        if (!converted) return undefined;
+        properties[name] = converted;
+      }
+      if (Object.keys(properties).length === 0) return undefined;
+      return { ...base, type: SchemaType.OBJECT, properties, ...(schema.required ? { required: schema.required } : {}) };
+    }
+    default:
+      return undefined;
   }
 }
 
-export type GeminiModel = 'gemini-2.0-flash' | 'gemini-1.5-pro' | 'gemini-2.5-pro';
+// One request to the API; cancelling marks this request only, so a tool loop that is still
+// running when a new request starts stops instead of carrying on with the new request's state
+interface ActiveRequest {
+  cancelled: boolean;
+}
+
+// Outcome of sending one round of parts
+interface GeminiRound {
+  text: string;
+  toolCalls: ToolCall[];
+  stopped: boolean;
+  error?: unknown;       // Set when the request failed after part of the text was streamed
+}
 
 /**
  * GeminiService class for handling all interactions with Gemini API
  */
-export class GeminiService {
+export class GeminiService implements LLMProvider {
+  readonly id = 'gemini';
+  readonly displayName = 'Gemini';
+  readonly apiKeyName = 'gemini';
+
   private model: GenerativeModel | null = null;
-  private contextManager: ChatContextManager;
-  private chatSession: ChatSession | null = null;
   private apiKey: string = '';
-  private isCancelled: boolean = false;
-  private requestInProgress: boolean = false;
+  private activeRequest: ActiveRequest | null = null;
   private currentModel: GeminiModel = 'gemini-1.5-pro';
   private customPrompt: string | undefined;
   
   constructor(modelName: GeminiModel = 'gemini-1.5-pro') {
-    this.contextManager = new ChatContextManager();
     this.currentModel = modelName;
     this.initialize(modelName);
   }
@@ -85,19 +166,25 @@ export class GeminiService {
   }
 
   /**
-   * Change the current model and reinitialize the chat session
+   * Change the current model
    */
-  async changeModel(modelName: GeminiModel): Promise<void> {
+  changeModel(modelName: GeminiModel): void {
     if (this.currentModel === modelName) return;
     
     this.currentModel = modelName;
     if (this.apiKey) {
       const genAI = new GoogleGenerativeAI(this.apiKey);
       this.model = genAI.getGenerativeModel({ model: modelName });
-      await this.initializeChat();
     }
   }
 
+  /**
+   * Gemini models offered in the model picker
+   */
+  getDefaultModels(): ModelOption[] {
+    return GEMINI_MODELS;
+  }
+
   /**
    * Get the current model name
    */
@@ -119,15 +206,12 @@ export class GeminiService {
       try {
         const genAI = new GoogleGenerativeAI(apiKey);
         this.model = genAI.getGenerativeModel({ model: this.currentModel });
-        this.initializeChat();
       } catch (error) {
         console.error('Failed to initialize Gemini API with provided key:', error);
         this.model = null;
-        this.chatSession = null;
       }
     } else {
       this.model = null;
-      this.chatSession = null;
     }
   }
   
@@ -142,203 +226,232 @@ export class GeminiService {
    * Set a custom system prompt
    */
   setCustomPrompt(prompt: string | undefined): void {
-    if (this.customPrompt === prompt) return;
     this.customPrompt = prompt;
-    if (this.model) {
-      this.initializeChat();
-    }
   }
 
   /**
-   * Initialize a new chat session with the system prompt
+   * Start a chat session seeded with the system prompt and as much of the thread history as fits
    */
-  private async initializeChat(): Promise<void> {
-    try {
-      if (!this.model) {
-        throw new Error('Model not initialized. API key might not be set.');
-      }
-      
-      const systemPrompt = this.customPrompt || DEFAULT_SYSTEM_PROMPT;
-      
-      this.chatSession = this.model.startChat({
-        history: [{
-          role: 'user',
-          parts: [{ text: systemPrompt }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1000,
-          candidateCount: 1,
-          stopSequences: ["Human:", "Assistant:"],
-        },
-      });
-    } catch (error) {
-      console.error('Failed to initialize chat session:', error);
-      throw error;
+  private startChat(request: LLMRequest): ChatSession {
+    if (!this.model) {
+      throw new Error('Model not initialized. API key might not be set.');
     }
+
+    const systemPrompt = buildSystemPrompt(
+      withJsonInstruction(request.systemPrompt ?? (this.customPrompt || DEFAULT_SYSTEM_PROMPT), request.responseSchema),
+      request.summary
+    );
+    const params = resolveGenerationParams(request.params);
+    const history = getContextWindow(request.history, {
+      contextLength: request.contextLength,
+      reservedOutputTokens: params.maxTokens,
+      systemPrompt,
+      message: request.message,
+      attachments: request.attachments,
+    });
+    const contents = history.map(turn => ({
+      role: turn.role === 'user' ? 'user' : 'model',
+      parts: toParts(turn.content, turn.attachments)
+    }));
+    // Gemini requires the history to start with a user turn
+    while (contents.length > 0 && contents[0].role !== 'user') {
+      contents.shift();
+    }
+
+    const responseSchema = request.responseSchema && toResponseSchema(request.responseSchema);
+    const tools = getRequestTools(request);
+
+    return this.model.startChat({
+      ...(systemPrompt ? { systemInstruction: { role: 'system', parts: [{ text: systemPrompt }] } } : {}),
+      history: contents,
+      ...(tools ? { tools: [{ functionDeclarations: tools.map(toFunctionDeclaration) }] } : {}),
+      generationConfig: {
+        temperature: params.temperature,
+        topK: 40,
+        topP: params.topP,
+        maxOutputTokens: params.maxTokens,
+        candidateCount: 1,
+        ...(params.stopSequences.length > 0 ? { stopSequences: params.stopSequences } : {}),
+        ...(request.responseSchema ? { responseMimeType: 'application/json' } : {}),
+        ...(responseSchema ? { responseSchema } : {}),
+      },
+    });
   }
   
   /**
    * Cancel the current generation (streaming or simulated)
    */
   cancelGeneration(): void {
-    this.isCancelled = true;
-    this.requestInProgress = false;
+    if (!this.activeRequest) return;
+    this.activeRequest.cancelled = true;
+    this.activeRequest = null;
+  }
+
+  // Frees the provider for the next request, unless that one has started already
+  private release(request: ActiveRequest): void {
+    if (this.activeRequest === request) this.activeRequest = null;
+  }
+
+  /**
+   * Finish a request and emit the final event
+   */
+  private finish(request: ActiveRequest, text: string, stopped: boolean, onEvent: LLMEventHandler): void {
+    const finalText = stopped ? text.trim() + ' [Generation stopped]' : text;
+    this.release(request);
+    onEvent({ type: 'done', text: finalText, stopped });
   }
 
   /**
-   * Send a message to the Gemini API and get a streaming response (true streaming if supported, else simulated)
-   * @param message The user message
-   * @param onPartialResponse Callback for streaming output
-   * @returns The full response string
+   * Fail a request with a user-facing error message
    */
-  async sendMessage(message: string, onPartialResponse?: (text: string) => void): Promise<string> {
-    if (this.requestInProgress) {
+  private fail(request: ActiveRequest, message: string, onEvent: LLMEventHandler, error?: unknown): void {
+    console.error('[Gemini] ' + message, error ?? '');
+    this.release(request);
+    onEvent({ type: 'error', message });
+  }
+
+  /**
+   * Map an SDK/network error to a user-facing message
+   */
+  private describeError(error: any): string {
+    if (error?.code === 'ECONNABORTED' || error?.message?.includes('Network')) {
+      return '❗ Network error. Please check your internet connection.';
+    }
+    return "❗ I'm sorry, I encountered an error processing your request. Please try again.";
+  }
+
+  /**
+   * Send a message to the Gemini API and stream the response (true streaming if supported, else simulated)
+   * @param request The model and user message
+   * @param onEvent Callback receiving delta, usage, tool call, done and error events
+   */
+  async sendMessage(request: LLMRequest, onEvent: LLMEventHandler): Promise<void> {
+    if (this.activeRequest) {
       const msg = '⏳ A request is already in progress. Please wait for the current response to finish.';
       console.warn('[Gemini] ' + msg);
-      return msg;
+      onEvent({ type: 'error', message: msg });
+      return;
     }
-    this.isCancelled = false;
-    this.requestInProgress = true;
+    const active: ActiveRequest = { cancelled: false };
+    this.activeRequest = active;
 
     if (!this.model) {
-      const msg = '❗ API key not set. Please add your Gemini API key in Settings.';
-      console.error('[Gemini] ' + msg);
-      this.requestInProgress = false;
-      return msg;
+      this.fail(active, '❗ API key not set. Please add your Gemini API key in Settings.', onEvent);
+      return;
     }
 
-    if (!this.chatSession) {
-      try {
-        await this.initializeChat();
-      } catch (error) {
-        const msg = "❗ Couldn't initialize chat session. Please check your API key in Settings.";
-        console.error('[Gemini] ' + msg, error);
-        this.requestInProgress = false;
-        return msg;
-      }
+    let chatSession: ChatSession;
+    try {
+      this.changeModel(request.model as GeminiModel);
+      chatSession = this.startChat(request);
+    } catch (error) {
+      this.fail(active, "❗ Couldn't initialize chat session. Please check your API key in Settings.", onEvent, error);
+      return;
     }
 
+    const tools = getRequestTools(request);
+    let parts = toParts(request.message, request.attachments);
+    let fullResponse = '';
     try {
-      this.contextManager.addMessage('user', message);
-      if (!this.chatSession) {
-        const msg = '❗ Chat session not initialized.';
-        console.error('[Gemini] ' + msg);
-        this.requestInProgress = false;
-        return msg;
-      }
+      // Each round sends the message or the function responses; the session keeps the calls in its history
+      for (let round = 0; ; round++) {
+        const result = await this.sendRound(chatSession, parts, active, onEvent);
+        fullResponse += result.text;
+
+        if (result.error !== undefined) {
+          // Part of the answer was already streamed; don't replay it
+          this.fail(active, this.describeError(result.error), onEvent, result.error);
+          return;
+        }
+        if (result.stopped || !tools || result.toolCalls.length === 0) {
+          this.finish(active, fullResponse, result.stopped, onEvent);
+          return;
+        }
+        if (round === MAX_TOOL_ROUNDS) {
+          this.fail(active, '❗ The model kept calling tools without answering. Please try again.', onEvent);
+          return;
+        }
 
-      // Try true streaming if available
-      const supportsStreaming = typeof this.chatSession.sendMessageStream === 'function';
-      if (supportsStreaming && onPartialResponse) {
-        let fullResponse = '';
-        try {
-          // @ts-ignore: sendMessageStream is not in all typings
-          const stream = await this.chatSession.sendMessageStream([{ text: message }]);
-          // Use stream.stream if available (Node.js SDK)
-          const asyncIterable = (typeof stream.stream === 'function' || typeof stream.stream === 'object') ? stream.stream : stream;
-          // Explicitly check for async iterator
-          if (
-            asyncIterable &&
-            typeof asyncIterable === 'object' &&
-            typeof (asyncIterable as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
-          ) {
-            for await (const chunk of asyncIterable as AsyncIterable<any>) {
-              if (this.isCancelled) {
-                const stopped = fullResponse.trim() + ' [Generation stopped]';
-                this.contextManager.addMessage('model', stopped);
-                this.requestInProgress = false;
-                return stopped;
-              }
-              const part = typeof chunk.text === 'function' ? chunk.text() : '';
-              if (part) {
-                fullResponse += part;
-                onPartialResponse(fullResponse);
-              }
-            }
-            if (!this.isCancelled) {
-              this.contextManager.addMessage('model', fullResponse);
-              this.requestInProgress = false;
-              return fullResponse;
-            }
-            const stopped = fullResponse.trim() + ' [Generation stopped]';
-            this.contextManager.addMessage('model', stopped);
-            this.requestInProgress = false;
-            return stopped;
+        parts = [];
+        for (const call of result.toolCalls) {
+          onEvent({ type: 'toolCall', call });
+          const output = await request.executeTool!(call);
+          if (active.cancelled) {
+            this.finish(active, fullResponse, true, onEvent);
+            return;
           }
-        } catch (err) {
-          this.requestInProgress = false;
-          // Fallback to simulated streaming below
+          onEvent({ type: 'toolResult', call, result: output });
+          parts.push({ functionResponse: { name: call.name, response: { content: output } } });
         }
       }
+    } catch (error: any) {
+      this.fail(active, this.describeError(error), onEvent, error);
+    }
+  }
 
-      // Fallback: Simulate streaming
+  /**
+   * Send one round of parts and stream the answer (true streaming if supported, else simulated)
+   * @returns The text written in this round and the functions the model wants called
+   * @throws If the request failed before any text was streamed
+   */
+  private async sendRound(chatSession: ChatSession, parts: Part[], request: ActiveRequest, onEvent: LLMEventHandler): Promise<GeminiRound> {
+    // Try true streaming if available
+    if (typeof chatSession.sendMessageStream === 'function') {
+      let text = '';
+      let usage: LLMUsage | undefined;
       try {
-        const result = await this.chatSession.sendMessage([{ text: message }]);
-        const fullResponse = result.response.text();
-        let currentResponse = '';
-        if (onPartialResponse) {
-          const words = fullResponse.split(' ');
-          for (const word of words) {
-            if (this.isCancelled) {
-              const finalResponse = currentResponse.trim() + ' [Generation stopped]';
-              this.contextManager.addMessage('model', finalResponse);
-              this.requestInProgress = false;
-              return finalResponse;
-            }
-            currentResponse += word + ' ';
-            onPartialResponse(currentResponse.trim());
-            await new Promise(resolve => setTimeout(resolve, 30));
+        const stream = await chatSession.sendMessageStream(parts);
+        for await (const chunk of stream.stream) {
+          if (request.cancelled) {
+            return { text, toolCalls: [], stopped: true };
+          }
+          const part = typeof chunk.text === 'function' ? chunk.text() : '';
+          if (part) {
+            text += part;
+            onEvent({ type: 'delta', text: part });
+          }
+          if (chunk.usageMetadata) {
+            // Usage is cumulative; only the last chunk's numbers matter
+            usage = {
+              promptTokens: chunk.usageMetadata.promptTokenCount,
+              completionTokens: chunk.usageMetadata.candidatesTokenCount,
+              totalTokens: chunk.usageMetadata.totalTokenCount,
+            };
           }
         }
-        if (!this.isCancelled) {
-          this.contextManager.addMessage('model', fullResponse);
-          this.requestInProgress = false;
-          return fullResponse;
+        if (usage) {
+          onEvent({ type: 'usage', usage });
         }
-        const stoppedResponse = currentResponse.trim() + ' [Generation stopped]';
-        this.contextManager.addMessage('model', stoppedResponse);
-        this.requestInProgress = false;
-        return stoppedResponse;
-      } catch (error: any) {
-        if (error?.code === 'ECONNABORTED' || error?.message?.includes('Network')) {
-          const msg = '❗ Network error. Please check your internet connection.';
-          console.error('[Gemini] ' + msg, error);
-          this.requestInProgress = false;
-          return msg;
+        if (request.cancelled) {
+          return { text, toolCalls: [], stopped: true };
         }
-        const msg = "❗ I'm sorry, I encountered an error processing your request. Please try again.";
-        console.error('[Gemini] ' + msg, error);
-        this.requestInProgress = false;
-        return msg;
-      }
-    } catch (error: any) {
-      if (error?.code === 'ECONNABORTED' || error?.message?.includes('Network')) {
-        const msg = '❗ Network error. Please check your internet connection.';
-        console.error('[Gemini] ' + msg, error);
-        this.requestInProgress = false;
-        return msg;
+        const response = await stream.response;
+        return { text, toolCalls: toToolCalls(response.functionCalls()), stopped: false };
+      } catch (error) {
+        if (text) {
+          return { text, toolCalls: [], stopped: false, error };
+        }
+        // Fallback to simulated streaming below
       }
-      const msg = "❗ I'm sorry, I encountered an error processing your request. Please try again.";
-      console.error('[Gemini] ' + msg, error);
-      this.requestInProgress = false;
-      return msg;
     }
-  }
-  
-  /**
-   * Reset the chat context
-   */
-  resetChat(): void {
-    this.contextManager.clearHistory();
-    this.chatSession = null;
-    if (this.model) {
-      this.initializeChat();
+
+    // Fallback: Simulate streaming
+    const result = await chatSession.sendMessage(parts);
+    const fullResponse = result.response.text();
+    let currentResponse = '';
+    const words = fullResponse ? fullResponse.split(' ') : [];
+    for (const word of words) {
+      if (request.cancelled) {
+        return { text: currentResponse, toolCalls: [], stopped: true };
+      }
+      const part = currentResponse ? ' ' + word : word;
+      currentResponse += part;
+      onEvent({ type: 'delta', text: part });
+      await new Promise(resolve => setTimeout(resolve, 30));
     }
+    return { text: fullResponse, toolCalls: toToolCalls(result.response.functionCalls()), stopped: false };
   }
 }
 
 // Export a singleton instance
-export const geminiService = new GeminiService();
\ No newline at end of file
+export const geminiService = new GeminiService();
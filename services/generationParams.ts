@@ -0,0 +1,94 @@
+/**
+ * Generation Parameters
+ *
+ * Defaults and helpers for the sampling settings sent with every request.
+ * Values are layered: built-in defaults, then the global defaults from
+ * Settings, then the overrides stored on the chat thread.
+ */
+import { GenerationParams } from './llmProvider';
+
+export const DEFAULT_GENERATION_PARAMS: Required<GenerationParams> = {
+  temperature: 0.7,
+  topP: 0.95,
+  maxTokens: 4096,
+  stopSequences: [],
+};
+
+/**
+ * Merge parameter layers; later layers override earlier ones
+ */
+export function resolveGenerationParams(...layers: (GenerationParams | undefined)[]): Required<GenerationParams> {
+  const resolved = { ...DEFAULT_GENERATION_PARAMS };
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.temperature !== undefined) resolved.temperature = layer.temperature;
+    if (layer.topP !== undefined) resolved.topP = layer.topP;
+    if (layer.maxTokens !== undefined) resolved.maxTokens = layer.maxTokens;
+    if (layer.stopSequences !== undefined) resolved.stopSequences = layer.stopSequences;
+  }
+  return resolved;
+}
+
+/**
+ * Editable text form of the parameters; empty fields inherit the default
+ */
+export interface GenerationParamsForm {
+  temperature: string;
+  topP: string;
+  maxTokens: string;
+  stopSequences: string;
+}
+
+/**
+ * Convert stored parameters to form values
+ */
+export function toParamsForm(params?: GenerationParams): GenerationParamsForm {
+  return {
+    temperature: params?.temperature?.toString() ?? '',
+    topP: params?.topP?.toString() ?? '',
+    maxTokens: params?.maxTokens?.toString() ?? '',
+    stopSequences: (params?.stopSequences ?? []).join('\n'),
+  };
+}
+
+/**
+ * Parse and validate form values
+ * @returns The parameters that were set, or a user-facing error
+ */
+export function parseParamsForm(form: GenerationParamsForm): { params?: GenerationParams; error?: string } {
+  const params: GenerationParams = {};
+
+  if (form.temperature.trim()) {
+    const temperature = Number(form.temperature);
+    if (isNaN(temperature) || temperature < 0 || temperature > 2) {
+      return { error: 'Temperature must be a number between 0 and 2.' };
+    }
+    params.temperature = temperature;
+  }
+
+  if (form.topP.trim()) {
+    const topP = Number(form.topP);
+    if (isNaN(topP) || topP <= 0 || topP > 1) {
+      return { error: 'Top-p must be greater than 0 and at most 1.' };
+    }
+    params.topP = topP;
+  }
+
+  if (form.maxTokens.trim()) {
+    const maxTokens = Number(form.maxTokens);
+    if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+      return { error: 'Max tokens must be a positive whole number.' };
+    }
+    params.maxTokens = maxTokens;
+  }
+
+  const stopSequences = form.stopSequences.split('\n').filter(sequence => sequence.trim());
+  if (stopSequences.length > 4) {
+    return { error: 'At most 4 stop sequences are supported.' };
+  }
+  if (stopSequences.length > 0) {
+    params.stopSequences = stopSequences;
+  }
+
+  return { params: Object.keys(params).length > 0 ? params : undefined };
+}
@@ -0,0 +1,67 @@
+/**
+ * JSON Mode
+ *
+ * Structured output for chats that have a JSON Schema. Handles:
+ * - The instruction added to the system prompt, for models without native structured output
+ * - Reading the JSON out of a response and checking it against the schema
+ * - The follow-up message asking the model to repair output that does not match
+ */
+import { JsonSchema, validateJson } from '../utils/jsonSchema';
+
+// Follow-up requests made when a response does not match the schema
+export const MAX_JSON_REPAIR_ATTEMPTS = 1;
+
+// Problems listed in a repair request
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * A response checked against the schema
+ */
+export interface JsonCheck {
+  value?: unknown;      // The parsed JSON, set only when it matches the schema
+  errors: string[];     // Empty when the response is valid
+}
+
+/**
+ * System prompt with the instruction to answer in JSON following the schema, if there is one
+ */
+export function withJsonInstruction(systemPrompt: string, schema?: JsonSchema): string {
+  if (!schema) return systemPrompt;
+  const instruction = `Reply with a single JSON value that follows this JSON Schema, without any other text:\n${JSON.stringify(schema)}`;
+  return systemPrompt ? `${systemPrompt}\n\n${instruction}` : instruction;
+}
+
+/**
+ * The JSON of a response, without the code fence some models put around it
+ */
+export function extractJson(text: string): string {
+  const fenced = text.trim().match(/^```[a-z]*\s*\n([\s\S]*?)\n?```$/i);
+  return fenced ? fenced[1] : text.trim();
+}
+
+/**
+ * Parses a response and checks it against the schema
+ */
+export function checkJsonResponse(text: string, schema: JsonSchema): JsonCheck {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { errors: [`The response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+  }
+  const errors = validateJson(value, schema);
+  return errors.length > 0 ? { errors } : { value, errors };
+}
+
+/**
+ * Follow-up message asking the model to send its last response again, fixed
+ */
+export function buildRepairMessage(errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`);
+  if (errors.length > MAX_REPORTED_ERRORS) listed.push(`- and ${errors.length - MAX_REPORTED_ERRORS} more`);
+  return [
+    'Your last response does not match the required JSON Schema:',
+    ...listed,
+    'Send the corrected JSON only, without any explanation.'
+  ].join('\n');
+}
@@ -0,0 +1,191 @@
+/**
+ * LLM Provider Contract
+ *
+ * Shared types every LLM backend implements so the UI can talk to any
+ * provider the same way. Handles:
+ * - Model descriptors used by the pickers and chat threads
+ * - Typed streaming events (delta, usage, tool calls, done, error)
+ * - Tools the model may call during a request
+ * - The provider interface consumed through the provider registry
+ */
+import type { JsonSchema } from '../utils/jsonSchema';
+
+/**
+ * A selectable model, as shown in the model picker and stored on chat threads
+ */
+export interface ModelOption {
+  id: string;            // The model ID used by the API (e.g., "openai/gpt-4o")
+  displayName: string;   // User-friendly name (e.g., "GPT-4o")
+  provider: string;      // Id of the provider this model belongs to (e.g., "gemini")
+  contextLength?: number; // Context window in tokens, if known
+  supportsImages?: boolean; // Whether the model accepts images in prompts
+  supportsTools?: boolean;  // Whether the model can call tools
+}
+
+/**
+ * Model metadata returned by providers that support model discovery
+ */
+export interface ProviderModelInfo {
+  id: string;
+  name: string;
+  description?: string;
+  contextLength?: number;
+  inputModalities?: string[]; // e.g. ["text", "image"]
+  supportedParameters?: string[]; // Request parameters the model accepts, e.g. ["tools", "temperature"]
+  pricing?: {
+    prompt: string;
+    completion: string;
+  };
+}
+
+/**
+ * Token usage reported by a provider for a single request
+ */
+export interface LLMUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * JSON schema of tool parameters, limited to what every provider understands
+ */
+export interface ToolParameterSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+  items?: ToolParameterSchema;
+}
+
+/**
+ * A tool offered to the model
+ */
+export interface ToolSpec {
+  name: string;          // Letters, digits and underscores (e.g. "convert_units")
+  description: string;
+  parameters: ToolParameterSchema & { type: 'object' };
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  id: string;            // Links the call to its result; generated when the provider has none
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Rounds of tool calls a single request may take before the model has to answer
+export const MAX_TOOL_ROUNDS = 5;
+
+/**
+ * Events emitted while a response is being generated
+ * - delta: a new chunk of text (never the accumulated text)
+ * - usage: token accounting, if the provider reports it
+ * - toolCall: the model called a tool, which is run next
+ * - toolResult: a tool finished; its result goes back to the model
+ * - done: generation finished; text is the full response, including text written before tool calls
+ * - error: generation failed; message is user-facing
+ */
+export type LLMStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'usage'; usage: LLMUsage }
+  | { type: 'toolCall'; call: ToolCall }
+  | { type: 'toolResult'; call: ToolCall; result: string }
+  | { type: 'done'; text: string; stopped: boolean }
+  | { type: 'error'; message: string };
+
+export type LLMEventHandler = (event: LLMStreamEvent) => void;
+
+/**
+ * A file sent along with a message
+ */
+export interface ChatAttachment {
+  mimeType: string;
+  data: string;          // Base64 content
+  name?: string;
+}
+
+/**
+ * A previous message of the conversation, oldest first
+ */
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  attachments?: ChatAttachment[];
+}
+
+/**
+ * Sampling and length settings for a request
+ * Unset fields fall back to the global defaults from Settings.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * A single generation request
+ * Providers keep no conversation state; history carries the stored thread
+ * messages that precede the new message.
+ */
+export interface LLMRequest {
+  model: string;
+  message: string;
+  /** Files sent with the new message */
+  attachments?: ChatAttachment[];
+  history: ChatTurn[];
+  /** Context window of the model in tokens, if known */
+  contextLength?: number;
+  /** Summary of older turns that are no longer part of history */
+  summary?: string;
+  /** Replaces the user's custom prompt for this request (e.g. for summarization) */
+  systemPrompt?: string;
+  /** Generation settings; missing fields use DEFAULT_GENERATION_PARAMS */
+  params?: GenerationParams;
+  /** Tools the model may call; offered only together with executeTool */
+  tools?: ToolSpec[];
+  /** Runs a tool call and returns the result for the model; never rejects */
+  executeTool?: (call: ToolCall) => Promise<string>;
+  /** JSON mode: the response must be JSON following this schema, requested natively where the provider supports it; providers that cannot combine it with tools leave the tools out */
+  responseSchema?: JsonSchema;
+}
+
+/**
+ * User-configured provider settings stored in app data
+ */
+export interface ProviderSettings {
+  customEndpointUrl?: string;
+  customEndpointModels?: string[];
+}
+
+/**
+ * Contract implemented by every LLM backend
+ *
+ * sendMessage never rejects: failures are reported as an 'error' event and
+ * every request ends with exactly one 'done' or 'error' event.
+ */
+export interface LLMProvider {
+  readonly id: string;
+  readonly displayName: string;
+  /** Key of the API key this provider reads from app data */
+  readonly apiKeyName: string;
+
+  /** Models that are always offered for this provider */
+  getDefaultModels(): ModelOption[];
+  /** Lists models available from the backend, if the provider supports discovery */
+  fetchAvailableModels?(): Promise<ProviderModelInfo[]>;
+
+  setApiKey(apiKey: string): void;
+  /** Applies user settings, for providers that need more than an API key */
+  configure?(settings: ProviderSettings): void;
+  isInitialized(): boolean;
+  setCustomPrompt(prompt: string | undefined): void;
+
+  sendMessage(request: LLMRequest, onEvent: LLMEventHandler): Promise<void>;
+  cancelGeneration(): void;
+}
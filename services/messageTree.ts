@@ -0,0 +1,84 @@
+/**
+ * Helpers for branching conversations
+ *
+ * A thread's messages form a tree through their parent ids: editing a message or
+ * regenerating a response starts a sibling instead of replacing it. The chat shows
+ * one path through the tree; everything else is kept as branches.
+ */
+
+export interface TreeMessage {
+  id: string;
+  parentId?: string;     // Message this one continues; unset for the first message
+  isSelected?: boolean;  // Branch messages only: the sibling the path follows when switched to
+  timestamp: number;
+}
+
+/**
+ * Groups messages by their parent id, each group oldest first
+ * The first messages of a thread are grouped under the empty string.
+ */
+export function groupChildren<T extends TreeMessage>(nodes: T[]): Map<string, T[]> {
+  const children = new Map<string, T[]>();
+  for (const node of nodes) {
+    const key = node.parentId ?? '';
+    children.set(key, [...(children.get(key) ?? []), node]);
+  }
+  children.forEach(group => group.sort((a, b) => a.timestamp - b.timestamp));
+  return children;
+}
+
+/**
+ * Follows the selected child of each message below a parent, falling back to the newest child
+ */
+export function getSelectedPath<T extends TreeMessage>(nodes: T[], parentId?: string): T[] {
+  const children = groupChildren(nodes);
+  const path: T[] = [];
+  let candidates = children.get(parentId ?? '') ?? [];
+  while (candidates.length > 0) {
+    const next = candidates.find(c => c.isSelected) ?? candidates[candidates.length - 1];
+    path.push(next);
+    candidates = children.get(next.id) ?? [];
+  }
+  return path;
+}
+
+/**
+ * Moves the path from `index` on into the branches, so a new sibling can continue the conversation
+ */
+export function branchOff<T extends TreeMessage>(path: T[], branches: T[], index: number): { path: T[]; branches: T[] } {
+  const detached = path.slice(index).map((node, i) => ({ ...node, isSelected: i > 0 }));
+  return { path: path.slice(0, index), branches: [...branches, ...detached] };
+}
+
+/**
+ * Switches the message at `index` of the path to one of its siblings and follows that branch down
+ */
+export function selectBranch<T extends TreeMessage>(path: T[], branches: T[], index: number, siblingId: string): { path: T[]; branches: T[] } {
+  const parentId = path[index]?.parentId;
+  const nodes = [...path.map(node => ({ ...node, isSelected: true })), ...branches].map(node =>
+    node.parentId === parentId ? { ...node, isSelected: node.id === siblingId } : node
+  );
+  const newPath = [...path.slice(0, index), ...getSelectedPath(nodes, parentId)];
+  const onPath = new Set(newPath.map(node => node.id));
+  return { path: newPath, branches: nodes.filter(node => !onPath.has(node.id)) };
+}
+
+/**
+ * Switches the path to the branch that contains a message, e.g. to show a search result
+ * Returns the path and branches unchanged when the message is already on the path or unknown.
+ */
+export function revealMessage<T extends TreeMessage>(path: T[], branches: T[], messageId: string): { path: T[]; branches: T[] } {
+  const byId = new Map([...path, ...branches].map(node => [node.id, node]));
+  const ancestry: T[] = [];
+  for (let node = byId.get(messageId); node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    ancestry.unshift(node);
+  }
+
+  let result = { path, branches };
+  ancestry.forEach((node, index) => {
+    if (result.path[index]?.id !== node.id) {
+      result = selectBranch(result.path, result.branches, index, node.id);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,450 @@
+import  EventSource from 'react-native-sse';
+import { ChatAttachment, LLMEventHandler, LLMProvider, LLMRequest, MAX_TOOL_ROUNDS, ModelOption, ProviderModelInfo, ToolCall, ToolSpec } from './llmProvider';
+import { buildSystemPrompt, getContextWindow } from './chatContext';
+import { resolveGenerationParams } from './generationParams';
+import { withJsonInstruction } from './jsonMode';
+
+/**
+ * OpenAI-Compatible API Service
+ * 
+ * Shared base for providers that expose the OpenAI chat completions API
+ * (OpenRouter, Ollama, LM Studio, llama.cpp server, ...)
+ * Handles:
+ * - Message generation with SSE streaming
+ * - Tool calls, answered over several rounds
+ * - Structured JSON output via response_format
+ * - Model discovery via /models
+ */
+
+// Default system prompt is empty unless user sets a custom one
+export const DEFAULT_SYSTEM_PROMPT = '';
+
+// Model entry as returned by GET /models
+interface OpenAIModel {
+  id: string;
+  name?: string;
+  description?: string;
+  context_length?: number;
+  supported_parameters?: string[];
+}
+
+// Content of a chat message: plain text, or text and image parts
+type MessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+// Message of a chat completions request
+interface CompletionMessage {
+  role: string;
+  content: MessageContent | null;
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
+
+// Tool call being assembled from streamed fragments
+interface PartialToolCall {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+// Outcome of streaming one completion
+interface CompletionRound {
+  text: string;
+  toolCalls: ToolCall[];
+  stopped: boolean;
+  error?: string;
+}
+
+/**
+ * Message content for a text and its attachments
+ * Plain text stays a string; with attachments it becomes a list of parts, images as data URLs.
+ */
+function toContent(text: string, attachments: ChatAttachment[] = []): MessageContent {
+  if (attachments.length === 0) return text;
+  return [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    ...attachments.map(attachment => ({
+      type: 'image_url' as const,
+      image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` }
+    }))
+  ];
+}
+
+/**
+ * Tool entry of the request body
+ */
+function toOpenAITool(tool: ToolSpec) {
+  return {
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  };
+}
+
+/**
+ * Parses the JSON arguments of a tool call; malformed arguments become an empty object
+ */
+function parseToolArguments(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Lists the models served by an OpenAI-compatible API
+ * @param baseUrl Base URL of the API, including the version segment (e.g. http://localhost:11434/v1)
+ * @param headers Request headers, including authorization if required
+ */
+export async function fetchOpenAIModels(baseUrl: string, headers: Record<string, string>): Promise<ProviderModelInfo[]> {
+  const response = await fetch(`${baseUrl}/models`, { headers });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const models: OpenAIModel[] = data.data || [];
+  return models.map(model => ({
+    id: model.id,
+    name: model.name || model.id,
+    description: model.description,
+    contextLength: model.context_length,
+    supportedParameters: model.supported_parameters
+  }));
+}
+
+// One request to the provider; cancelling marks this request only, so a tool loop that is still
+// running when a new request starts stops instead of carrying on with the new request's state
+interface ActiveRequest {
+  cancelled: boolean;
+  stopStream?: () => void;     // Ends the completion being streamed
+}
+
+/**
+ * Base class for providers speaking the OpenAI chat completions protocol
+ * Subclasses supply the endpoint, headers and provider identity
+ */
+export abstract class OpenAICompatibleService implements LLMProvider {
+  abstract readonly id: string;
+  abstract readonly displayName: string;
+  abstract readonly apiKeyName: string;
+
+  protected apiKey: string = '';
+  protected currentModel: string = '';
+  protected customPrompt: string | undefined;
+  private activeRequest: ActiveRequest | null = null;
+
+  constructor(modelId: string = '') {
+    this.currentModel = modelId;
+  }
+
+  /**
+   * Base URL of the API, without a trailing slash (e.g. https://openrouter.ai/api/v1)
+   */
+  protected abstract getBaseUrl(): string;
+
+  /**
+   * User-facing message shown when the provider is not configured
+   */
+  protected abstract getSetupHint(): string;
+
+  abstract getDefaultModels(): ModelOption[];
+
+  abstract isInitialized(): boolean;
+
+  /**
+   * Request headers; adds bearer authentication when an API key is set
+   */
+  protected getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+    };
+  }
+
+  /**
+   * Set the API key
+   */
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Set a custom model
+   */
+  setCustomModel(modelId: string): void {
+    this.currentModel = modelId;
+  }
+
+  /**
+   * Set a custom system prompt
+   */
+  setCustomPrompt(prompt: string | undefined): void {
+    this.customPrompt = prompt;
+  }
+
+  /**
+   * Fetch available models from the API
+   */
+  async fetchAvailableModels(): Promise<ProviderModelInfo[]> {
+    try {
+      if (!this.isInitialized()) {
+        throw new Error(this.getSetupHint());
+      }
+      return await fetchOpenAIModels(this.getBaseUrl(), this.getHeaders());
+    } catch (error: any) {
+      console.error(`Error fetching ${this.displayName} models:`, error);
+      throw new Error(error.message || 'Failed to fetch models');
+    }
+  }
+
+  /**
+   * Cancel ongoing generation
+   */
+  cancelGeneration(): void {
+    const request = this.activeRequest;
+    if (!request) return;
+    request.cancelled = true;
+    // Settle the pending completion before the event source stops delivering events
+    request.stopStream?.();
+    this.activeRequest = null;
+  }
+
+  // Frees the provider for the next request, unless that one has started already
+  private release(request: ActiveRequest): void {
+    if (this.activeRequest === request) this.activeRequest = null;
+  }
+
+  /**
+   * Send a message to the chat completions endpoint with SSE streaming
+   *
+   * NOTE: We use react-native-sse's EventSource here because fetch does not support streaming/SSE in React Native environments.
+   * This implementation follows the OpenAI-compatible streaming API (as documented by OpenRouter):
+   *   - POST to /chat/completions with stream: true
+   *   - Use correct headers and JSON body
+   *   - Handle SSE events for streaming responses
+   */
+  async sendMessage(request: LLMRequest, onEvent: LLMEventHandler): Promise<void> {
+    if (this.activeRequest) {
+      onEvent({ type: 'error', message: '⏳ A request is already in progress. Please wait for the current response to finish.' });
+      return;
+    }
+
+    if (!this.isInitialized()) {
+      onEvent({ type: 'error', message: this.getSetupHint() });
+      return;
+    }
+
+    if (!request.model) {
+      onEvent({ type: 'error', message: '❗ No model selected. Please select a model first.' });
+      return;
+    }
+
+    if (request.model !== this.currentModel) {
+      this.setCustomModel(request.model);
+    }
+
+    const message = request.message;
+    const active: ActiveRequest = { cancelled: false };
+    this.activeRequest = active;
+
+    try {
+      const params = resolveGenerationParams(request.params);
+      const systemPrompt = buildSystemPrompt(
+        withJsonInstruction(request.systemPrompt ?? (this.customPrompt || DEFAULT_SYSTEM_PROMPT), request.responseSchema),
+        request.summary
+      );
+      const messages: CompletionMessage[] = [
+        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+        ...getContextWindow(request.history, {
+          contextLength: request.contextLength,
+          reservedOutputTokens: params.maxTokens,
+          systemPrompt,
+          message,
+          attachments: request.attachments
+        }).map(turn => ({ role: turn.role, content: toContent(turn.content, turn.attachments) })),
+        { role: 'user', content: toContent(message, request.attachments) }
+      ];
+
+      const tools = request.tools && request.executeTool ? request.tools : undefined;
+      const body = {
+        model: this.currentModel,
+        stream: true,
+        temperature: params.temperature,
+        top_p: params.topP,
+        max_tokens: params.maxTokens,
+        ...(params.stopSequences.length > 0 ? { stop: params.stopSequences } : {}),
+        ...(tools ? { tools: tools.map(toOpenAITool) } : {}),
+        ...(request.responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } } }
+          : {}),
+      };
+
+      // Each round streams one completion; tool calls are answered and sent back for the next round
+      let fullResponse = '';
+      for (let round = 0; ; round++) {
+        const result = await this.streamCompletion({ ...body, messages }, active, onEvent);
+        fullResponse += result.text;
+
+        if (result.error !== undefined) {
+          this.release(active);
+          console.error(`[${this.displayName}] SSE Error:`, result.error);
+          onEvent({ type: 'error', message: `❗ ${result.error}` });
+          return;
+        }
+        if (result.stopped || !tools || result.toolCalls.length === 0) {
+          this.finish(active, fullResponse, result.stopped, onEvent);
+          return;
+        }
+        if (round === MAX_TOOL_ROUNDS) {
+          this.release(active);
+          onEvent({ type: 'error', message: '❗ The model kept calling tools without answering. Please try again.' });
+          return;
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: result.text || null,
+          tool_calls: result.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        });
+        for (const call of result.toolCalls) {
+          onEvent({ type: 'toolCall', call });
+          const output = await request.executeTool!(call);
+          if (active.cancelled) {
+            this.finish(active, fullResponse, true, onEvent);
+            return;
+          }
+          onEvent({ type: 'toolResult', call, result: output });
+          messages.push({ role: 'tool', content: output, tool_call_id: call.id });
+        }
+      }
+
+    } catch (error: any) {
+      this.release(active);
+      if (error?.message?.includes('Network') || error?.message?.includes('ECONNABORTED')) {
+        onEvent({ type: 'error', message: '❗ Network error. Please check your internet connection.' });
+        return;
+      }
+      console.error(`[${this.displayName}] API Error:`, error);
+      onEvent({ type: 'error', message: "❗ I'm sorry, I encountered an error processing your request. Please try again." });
+    }
+  }
+
+  /**
+   * Ends a request with the text written over all its rounds
+   */
+  private finish(request: ActiveRequest, text: string, stopped: boolean, onEvent: LLMEventHandler): void {
+    this.release(request);
+    onEvent({ type: 'done', text: stopped ? text + ' [Generation stopped]' : text, stopped });
+  }
+
+  /**
+   * Streams one completion, passing text deltas and usage on as they arrive
+   * Resolves once the stream ends, fails or is stopped; never rejects.
+   */
+  private streamCompletion(body: object, request: ActiveRequest, onEvent: LLMEventHandler): Promise<CompletionRound> {
+    if (request.cancelled) {
+      return Promise.resolve({ text: '', toolCalls: [], stopped: true });
+    }
+
+    const eventSourceUrl = new URL(`${this.getBaseUrl()}/chat/completions`);
+    const eventSource = new EventSource(eventSourceUrl.toString(), {
+      headers: this.getHeaders(),
+      method: 'POST',
+      body: JSON.stringify(body)
+    });
+
+    let text = '';
+    // Tool calls arrive in fragments, keyed by their index
+    const partialCalls: PartialToolCall[] = [];
+
+    return new Promise((resolve) => {
+      let settled = false;
+      const settle = (stopped: boolean, error?: string) => {
+        if (settled) return;
+        settled = true;
+        request.stopStream = undefined;
+        eventSource.close();
+        const toolCalls = partialCalls
+          .filter(call => call !== undefined)
+          .map((call, index) => ({
+            id: call.id || `call_${Date.now()}_${index}`,
+            name: call.name,
+            arguments: parseToolArguments(call.arguments)
+          }));
+        resolve({ text, toolCalls, stopped, error });
+      };
+
+      eventSource.addEventListener('message', (event: any) => {
+        if (request.cancelled) {
+          settle(true);
+          return;
+        }
+
+        try {
+          const line = event.data?.trim();
+          if (!line) return;
+
+          // Handle SSE comment lines (keep-alive)
+          if (line.startsWith(':')) {
+            return; // Processing message, ignore
+          }
+
+          // Handle data lines
+          if (line === '[DONE]') {
+            settle(false);
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(line);
+            const delta = parsed.choices?.[0]?.delta;
+            if (delta?.content) {
+              // Only send the new content to the event handler
+              onEvent({ type: 'delta', text: delta.content });
+              text += delta.content;
+            }
+            for (const fragment of delta?.tool_calls ?? []) {
+              const index = fragment.index ?? 0;
+              const call = partialCalls[index] ?? (partialCalls[index] = { name: '', arguments: '' });
+              if (fragment.id) call.id = fragment.id;
+              if (fragment.function?.name) call.name += fragment.function.name;
+              if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+            }
+            if (parsed.usage) {
+              onEvent({
+                type: 'usage',
+                usage: {
+                  promptTokens: parsed.usage.prompt_tokens,
+                  completionTokens: parsed.usage.completion_tokens,
+                  totalTokens: parsed.usage.total_tokens
+                }
+              });
+            }
+          } catch {
+            // Ignore invalid JSON as per SSE spec
+          }
+        } catch (e) {
+          console.warn('Failed to process SSE message:', e);
+        }
+      });
+
+      eventSource.addEventListener('error', (event: any) => {
+        let errorMessage = 'Unknown SSE error';
+        if (event && typeof event.message === 'string') {
+          errorMessage = event.message;
+        } else if (event && typeof event.reason === 'string') {
+          errorMessage = event.reason;
+        }
+        settle(false, errorMessage);
+      });
+
+      request.stopStream = () => settle(true);
+    });
+  }
+}
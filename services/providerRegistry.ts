@@ -0,0 +1,63 @@
+/**
+ * LLM Provider Registry
+ *
+ * Central lookup for every available LLM backend. The UI resolves
+ * providers by id through this module instead of importing individual
+ * services, so adding a backend only requires registering it here.
+ */
+import { LLMProvider, ModelOption, ProviderSettings } from './llmProvider';
+import { geminiService } from './geminiService';
+import { openRouterService } from './openRouterService';
+import { customEndpointService } from './customEndpointService';
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register a provider, replacing any provider with the same id
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Get a provider by id
+ */
+export function getProvider(id: string): LLMProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Get all registered providers in registration order
+ */
+export function getProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Get the user-facing name of a provider, falling back to its id
+ */
+export function getProviderDisplayName(id: string): string {
+  return providers.get(id)?.displayName ?? id;
+}
+
+/**
+ * Get the built-in models of every registered provider
+ */
+export function getDefaultModels(): ModelOption[] {
+  return getProviders().flatMap(provider => provider.getDefaultModels());
+}
+
+/**
+ * Apply stored API keys and settings to every registered provider
+ */
+export function configureProviders(apiKeys: Record<string, string>, settings: ProviderSettings = {}): void {
+  for (const provider of getProviders()) {
+    provider.setApiKey(apiKeys[provider.apiKeyName] || '');
+    provider.configure?.(settings);
+  }
+}
+
+// Built-in providers
+registerProvider(geminiService);
+registerProvider(openRouterService);
+registerProvider(customEndpointService);
@@ -0,0 +1,117 @@
+/**
+ * Tool Registry
+ *
+ * Central lookup for the tools models may call during a request. Handles:
+ * - Registering tools with their parameter schema and handler
+ * - Running a tool call, turning every failure into a result the model can read
+ * - The text stored for the tool call and tool result steps of a response
+ */
+import type { MessageSearchResult } from '../context/dataContext';
+import { ToolCall, ToolSpec } from './llmProvider';
+import { calculatorTool, currentDateTimeTool, searchChatHistoryTool, unitConversionTool } from './builtinTools';
+
+/**
+ * App services a tool handler may use
+ */
+export interface ToolContext {
+  searchMessages: (search: string, limit?: number) => Promise<MessageSearchResult[]>;
+  isSearchEnabled: boolean;   // Whether the message index is turned on in Settings
+}
+
+/**
+ * A tool with the handler that runs it
+ */
+export interface ToolDefinition extends ToolSpec {
+  /** Runs the tool; the returned text is sent to the model. Thrown errors are reported to the model. */
+  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<string> | string;
+}
+
+/**
+ * A stored tool step as shown in the chat
+ */
+export interface ToolStep {
+  kind: 'call' | 'result';
+  name: string;
+  detail: string;     // Arguments of a call, or the result
+}
+
+const tools = new Map<string, ToolDefinition>();
+
+/**
+ * Register a tool, replacing any tool with the same name
+ */
+export function registerTool(tool: ToolDefinition): void {
+  tools.set(tool.name, tool);
+}
+
+/**
+ * Get a tool by name
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name);
+}
+
+/**
+ * Get all registered tools in registration order
+ */
+export function getTools(): ToolDefinition[] {
+  return Array.from(tools.values());
+}
+
+/**
+ * Specs of all registered tools, as offered to the model
+ */
+export function getToolSpecs(): ToolSpec[] {
+  return getTools().map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+/**
+ * Run a tool call
+ * @returns The result for the model; unknown tools and failures become an error text, so this never rejects
+ */
+export async function runToolCall(call: ToolCall, context: ToolContext): Promise<string> {
+  const tool = tools.get(call.name);
+  if (!tool) {
+    return `Error: there is no tool named "${call.name}".`;
+  }
+  try {
+    return await tool.handler(call.arguments, context);
+  } catch (error) {
+    console.error(`Error running tool ${call.name}:`, error);
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Stored text of a tool call step
+ */
+export function formatToolCall(call: ToolCall): string {
+  return JSON.stringify({ id: call.id, name: call.name, arguments: call.arguments });
+}
+
+/**
+ * Stored text of a tool result step
+ */
+export function formatToolResult(call: ToolCall, result: string): string {
+  return JSON.stringify({ id: call.id, name: call.name, result });
+}
+
+/**
+ * Reads a stored tool step; text that is not valid JSON is shown as it is
+ */
+export function parseToolStep(type: 'toolCall' | 'toolResult', text: string): ToolStep {
+  const kind = type === 'toolCall' ? 'call' : 'result';
+  try {
+    const stored = JSON.parse(text);
+    const detail = kind === 'call' ? JSON.stringify(stored.arguments ?? {}, null, 2) : String(stored.result ?? '');
+    return { kind, name: String(stored.name ?? 'tool'), detail };
+  } catch {
+    return { kind, name: 'tool', detail: text };
+  }
+}
+
+// Built-in tools
+registerTool(calculatorTool);
+registerTool(currentDateTimeTool);
+registerTool(unitConversionTool);
+registerTool(searchChatHistoryTool);
@@ -0,0 +1,200 @@
+/**
+ * @jest-environment node
+ *
+ * Checks the current ciphertext format, its tamper detection and reading of the legacy format
+ */
+import { createHash, randomBytes } from 'crypto';
+import { Buffer } from 'buffer';
+import {
+    CIPHER_VERSION,
+    createDataKey,
+    createKdfParams,
+    decryptData,
+    deriveKey,
+    encryptData,
+    isLegacyFormat,
+    openLegacyString,
+    openString,
+    sealString
+} from '../encryption';
+import { decryptField, decryptLegacyField, encryptField, unwrapKey, wrapKey } from '../dbEncryption';
+
+// expo-crypto is a native module; the test uses Node's implementation of the same functions
+jest.mock('expo-crypto', () => {
+    const nodeCrypto = jest.requireActual('crypto');
+    return {
+        CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+        getRandomBytesAsync: async (length: number) => new Uint8Array(nodeCrypto.randomBytes(length)),
+        digestStringAsync: async (_algorithm: string, data: string) =>
+            nodeCrypto.createHash('sha256').update(data).digest('hex')
+    };
+});
+
+// Few iterations keep key derivation fast; the format does not depend on the count
+const TEST_ITERATIONS = 1000;
+
+const sha256Hex = (text: string) => createHash('sha256').update(text).digest('hex');
+
+// Writes a value in the legacy format (salt::check::hex data), as the first releases did
+const sealLegacy = (value: string, password: string) => {
+    const saltHex = randomBytes(16).toString('hex');
+    const dataHex = Buffer.from(value, 'utf8').toString('hex');
+    const key = sha256Hex(password + saltHex);
+    return [saltHex, sha256Hex(dataHex + key), dataHex].join('::');
+};
+
+// Flips one bit of a base64 value
+const flipBit = (base64: string, index = 0) => {
+    const bytes = Buffer.from(base64, 'base64');
+    bytes[index] ^= 1;
+    return bytes.toString('base64');
+};
+
+describe('encryption', () => {
+    let key: Uint8Array;
+
+    beforeAll(async () => {
+        key = await deriveKey('correct horse', await createKdfParams(TEST_ITERATIONS));
+    });
+
+    describe('sealString and openString', () => {
+        it('round-trips text, including non-ASCII characters', async () => {
+            const { nonce, ciphertext } = await sealString('Grüße, 世界 🔐', key);
+
+            expect(openString(nonce, ciphertext, key)).toBe('Grüße, 世界 🔐');
+        });
+
+        it('uses a new nonce for every value', async () => {
+            const first = await sealString('same', key);
+            const second = await sealString('same', key);
+
+            expect(first.nonce).not.toBe(second.nonce);
+            expect(first.ciphertext).not.toBe(second.ciphertext);
+        });
+
+        it('rejects a modified ciphertext or nonce', async () => {
+            const { nonce, ciphertext } = await sealString('secret', key);
+
+            expect(() => openString(nonce, flipBit(ciphertext), key)).toThrow();
+            expect(() => openString(flipBit(nonce), ciphertext, key)).toThrow();
+        });
+
+        it('rejects a different key', async () => {
+            const { nonce, ciphertext } = await sealString('secret', key);
+            const otherKey = await createDataKey();
+
+            expect(() => openString(nonce, ciphertext, otherKey)).toThrow();
+        });
+
+        it('binds the value to its associated data', async () => {
+            const { nonce, ciphertext } = await sealString('secret', key, 'header');
+
+            expect(openString(nonce, ciphertext, key, 'header')).toBe('secret');
+            expect(() => openString(nonce, ciphertext, key, 'Header')).toThrow();
+            expect(() => openString(nonce, ciphertext, key)).toThrow();
+        });
+    });
+
+    describe('deriveKey', () => {
+        it('derives the same key from the same password and parameters', async () => {
+            const params = await createKdfParams(TEST_ITERATIONS);
+
+            expect(await deriveKey('pw', params)).toEqual(await deriveKey('pw', params));
+            expect(await deriveKey('pw', params)).not.toEqual(await deriveKey('pw2', params));
+            expect(await deriveKey('pw', params)).not.toEqual(await deriveKey('pw', await createKdfParams(TEST_ITERATIONS)));
+        });
+
+        it('rejects unknown algorithms', async () => {
+            const params = { algorithm: 'scrypt', iterations: 1, salt: '' } as never;
+
+            await expect(deriveKey('pw', params)).rejects.toThrow('Unsupported key derivation: scrypt');
+        });
+    });
+
+    describe('encryptData and decryptData', () => {
+        it('round-trips JSON in the versioned format', async () => {
+            const json = JSON.stringify({ chatThreads: [{ id: '1', title: 'Trip' }] });
+
+            const encrypted = await encryptData(json, 'pw');
+
+            expect(encrypted.split(':')[0]).toBe(CIPHER_VERSION);
+            expect(isLegacyFormat(encrypted)).toBe(false);
+            expect(await decryptData(encrypted, 'pw')).toBe(json);
+        });
+
+        it('rejects a wrong password and modified data', async () => {
+            const encrypted = await encryptData('{"a":1}', 'pw');
+            const parts = encrypted.split(':');
+            parts[4] = flipBit(parts[4]);
+
+            await expect(decryptData(encrypted, 'wrong')).rejects.toThrow('Invalid password or corrupted data');
+            await expect(decryptData(parts.join(':'), 'pw')).rejects.toThrow('Invalid password or corrupted data');
+        });
+
+        it('only encrypts JSON', async () => {
+            await expect(encryptData('not json', 'pw')).rejects.toThrow('Invalid JSON data');
+        });
+
+        it('reads data in the legacy format', async () => {
+            const legacy = sealLegacy('{"chatThreads":[]}', 'pw');
+
+            expect(isLegacyFormat(legacy)).toBe(true);
+            expect(await decryptData(legacy, 'pw')).toBe('{"chatThreads":[]}');
+            await expect(decryptData(legacy, 'wrong')).rejects.toThrow('Invalid password or corrupted data');
+        });
+    });
+
+    describe('openLegacyString', () => {
+        it('reads a legacy value with its password', async () => {
+            expect(await openLegacyString(sealLegacy('hello', 'pw'), 'pw')).toBe('hello');
+        });
+
+        it('rejects a wrong password, modified data and malformed values', async () => {
+            const legacy = sealLegacy('hello', 'pw');
+            const [salt, check, data] = legacy.split('::');
+
+            await expect(openLegacyString(legacy, 'wrong')).rejects.toThrow('Invalid password or corrupted data');
+            await expect(openLegacyString([salt, check, `${data}00`].join('::'), 'pw')).rejects.toThrow('Invalid password or corrupted data');
+            await expect(openLegacyString('no delimiters', 'pw')).rejects.toThrow('Invalid encrypted data format');
+        });
+    });
+});
+
+describe('field encryption', () => {
+    let key: Uint8Array;
+
+    beforeAll(async () => {
+        key = await createDataKey();
+    });
+
+    it('round-trips a field in the versioned format', async () => {
+        const encrypted = await encryptField('api-key-123', key);
+
+        expect(encrypted.startsWith(`${CIPHER_VERSION}:`)).toBe(true);
+        expect(await decryptField(encrypted, key)).toBe('api-key-123');
+    });
+
+    it('rejects a modified field, a different key and other formats', async () => {
+        const [version, nonce, ciphertext] = (await encryptField('secret', key)).split(':');
+
+        await expect(decryptField([version, nonce, flipBit(ciphertext, 3)].join(':'), key)).rejects.toThrow('Field decryption failed');
+        await expect(decryptField([version, nonce, ciphertext].join(':'), await createDataKey())).rejects.toThrow('Field decryption failed');
+        await expect(decryptField(`v1:${nonce}:${ciphertext}`, key)).rejects.toThrow('Field decryption failed');
+        await expect(decryptField(sealLegacy('secret', 'pw'), key)).rejects.toThrow('Field decryption failed');
+    });
+
+    it('wraps a data key so only the password key opens it', async () => {
+        const passwordKey = await deriveKey('pw', await createKdfParams(TEST_ITERATIONS));
+        const wrapped = await wrapKey(key, passwordKey);
+
+        expect(await unwrapKey(wrapped, passwordKey)).toEqual(key);
+        await expect(unwrapKey(wrapped, await createDataKey())).rejects.toThrow('Field decryption failed');
+    });
+
+    it('reads a field in the legacy format with the password', async () => {
+        const legacy = sealLegacy('old message', 'pw');
+
+        expect(await decryptLegacyField(legacy, 'pw')).toBe('old message');
+        await expect(decryptLegacyField(legacy, 'wrong')).rejects.toThrow('Field decryption failed');
+    });
+});
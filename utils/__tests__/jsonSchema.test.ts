@@ -0,0 +1,169 @@
+/**
+ * @jest-environment node
+ *
+ * Checks JSON mode answers against schemas and reads schemas written by the user
+ */
+import { JsonSchema, parseJsonSchema, validateJson } from '../jsonSchema';
+
+const person: JsonSchema = {
+    type: 'object',
+    required: ['name', 'age'],
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        age: { type: 'integer', minimum: 0 },
+        role: { enum: ['admin', 'user'] },
+        address: {
+            type: 'object',
+            required: ['city'],
+            properties: { city: { type: 'string' }, zip: { type: 'string', pattern: '^\\d{5}$' } },
+            additionalProperties: false
+        },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 3 }
+    }
+};
+
+describe('validateJson', () => {
+    it('accepts a value that follows the schema', () => {
+        const value = { name: 'Ada', age: 36, role: 'admin', address: { city: 'London', zip: '12345' }, tags: ['math'], extra: true };
+
+        expect(validateJson(value, person)).toEqual([]);
+    });
+
+    describe('required fields', () => {
+        it('reports each missing field', () => {
+            expect(validateJson({}, person)).toEqual([
+                '$: missing required property "name"',
+                '$: missing required property "age"'
+            ]);
+        });
+
+        it('reports missing fields of nested objects with their path', () => {
+            expect(validateJson({ name: 'Ada', age: 36, address: {} }, person)).toEqual(['$.address: missing required property "city"']);
+        });
+
+        it('does not take inherited properties for present ones', () => {
+            expect(validateJson({ age: 1 }, { type: 'object', required: ['toString'] })).toEqual(['$: missing required property "toString"']);
+        });
+    });
+
+    describe('nested objects and arrays', () => {
+        it('reports problems of array items by index', () => {
+            expect(validateJson({ name: 'Ada', age: 36, tags: ['a', 2, 'c', 'd'] }, person)).toEqual([
+                '$.tags: must have at most 3 items',
+                '$.tags[1]: expected string, got integer'
+            ]);
+        });
+
+        it('reports unexpected properties where they are not allowed', () => {
+            expect(validateJson({ name: 'Ada', age: 36, address: { city: 'London', country: 'UK' } }, person)).toEqual([
+                '$.address: unexpected property "country"'
+            ]);
+        });
+
+        it('checks additional properties against their schema', () => {
+            const schema: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } };
+
+            expect(validateJson({ a: 1, b: 'two' }, schema)).toEqual(['$.b: expected number, got string']);
+        });
+
+        it('checks arrays of objects', () => {
+            const schema: JsonSchema = { type: 'array', minItems: 1, items: person };
+
+            expect(validateJson([], schema)).toEqual(['$: must have at least 1 items']);
+            expect(validateJson([{ name: '', age: 1 }], schema)).toEqual(['$[0].name: must have at least 1 characters']);
+        });
+    });
+
+    describe('enums and constants', () => {
+        it.each([
+            ['admin', []],
+            ['guest', ['$.role: must be one of "admin", "user"']],
+            [1, ['$.role: must be one of "admin", "user"']]
+        ])('checks the role %p', (role, errors) => {
+            expect(validateJson({ name: 'Ada', age: 36, role }, person)).toEqual(errors);
+        });
+
+        it('compares enum options of any JSON type', () => {
+            const schema: JsonSchema = { enum: [null, 1, [1, 2], { a: 1 }] };
+
+            expect(validateJson({ a: 1 }, schema)).toEqual([]);
+            expect(validateJson([1, 2], schema)).toEqual([]);
+            expect(validateJson([2, 1], schema)).toHaveLength(1);
+        });
+
+        it('checks constants', () => {
+            expect(validateJson('v1', { const: 'v1' })).toEqual([]);
+            expect(validateJson('v2', { const: 'v1' })).toEqual(['$: must be "v1"']);
+        });
+    });
+
+    describe('type mismatches', () => {
+        it.each([
+            [{ type: 'string' }, 1, '$: expected string, got integer'],
+            [{ type: 'integer' }, 1.5, '$: expected integer, got number'],
+            [{ type: 'number' }, '1', '$: expected number, got string'],
+            [{ type: 'boolean' }, null, '$: expected boolean, got null'],
+            [{ type: 'object' }, [], '$: expected object, got array'],
+            [{ type: 'array' }, {}, '$: expected array, got object'],
+            [{ type: ['string', 'null'] }, 0, '$: expected string or null, got integer']
+        ] as [JsonSchema, unknown, string][])('rejects a value of the wrong type for %j', (schema, value, error) => {
+            expect(validateJson(value, schema)).toEqual([error]);
+        });
+
+        it.each([
+            [{ type: 'number' }, 3],
+            [{ type: ['string', 'null'] }, null],
+            [{}, 'anything']
+        ] as [JsonSchema, unknown][])('accepts a matching value for %j', (schema, value) => {
+            expect(validateJson(value, schema)).toEqual([]);
+        });
+
+        it('stops at the type mismatch instead of checking the value further', () => {
+            expect(validateJson({ name: 5, age: '36' }, person)).toEqual([
+                '$.name: expected string, got integer',
+                '$.age: expected integer, got string'
+            ]);
+        });
+    });
+
+    it('checks limits of numbers and strings', () => {
+        const schema: JsonSchema = { type: 'number', minimum: 1, maximum: 10, exclusiveMinimum: 1, exclusiveMaximum: 10 };
+
+        expect(validateJson(1, schema)).toEqual(['$: must be greater than 1']);
+        expect(validateJson(11, schema)).toEqual(['$: must be at most 10', '$: must be less than 10']);
+        expect(validateJson({ name: 'Ada', age: 36, address: { city: 'X', zip: '1234' } }, person)).toEqual([
+            '$.address.zip: must match the pattern ^\\d{5}$'
+        ]);
+    });
+
+    it('combines schemas with anyOf, oneOf and allOf', () => {
+        expect(validateJson(1, { anyOf: [{ type: 'string' }, { type: 'integer' }] })).toEqual([]);
+        expect(validateJson(true, { anyOf: [{ type: 'string' }, { type: 'integer' }] })).toEqual(['$: does not match any of the allowed schemas']);
+        expect(validateJson(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual(['$: must match exactly one of the allowed schemas']);
+        expect(validateJson(5, { allOf: [{ minimum: 1 }, { maximum: 3 }] })).toEqual(['$: must be at most 3']);
+    });
+
+    it('reports at most 20 problems', () => {
+        expect(validateJson(Array(30).fill(0), { type: 'array', items: { type: 'string' } })).toHaveLength(20);
+    });
+});
+
+describe('parseJsonSchema', () => {
+    it('reads a schema object', () => {
+        expect(parseJsonSchema(JSON.stringify(person))).toEqual(person);
+    });
+
+    it.each([
+        ['text that is not JSON', '{ type: object }', 'The schema is not valid JSON'],
+        ['a value that is not an object', '["string"]', 'The schema must be a JSON object'],
+        ['an unknown type', '{ "type": "text" }', '$: unknown type "text"'],
+        ['an unknown type in a list', '{ "type": ["string", "float"] }', '$: unknown type "float"'],
+        ['an invalid pattern', '{ "pattern": "(" }', '$: invalid pattern ('],
+        ['a nested property that is not a schema', '{ "properties": { "a": 1 } }', '$.properties.a: must be a schema object'],
+        ['an invalid item schema', '{ "items": { "type": "list" } }', '$.items: unknown type "list"'],
+        ['an invalid additional property schema', '{ "additionalProperties": { "type": "map" } }', '$.additionalProperties: unknown type "map"'],
+        ['an invalid combinator part', '{ "anyOf": [{ "type": "string" }, 2] }', '$.anyOf[1]: must be a schema object']
+    ])('rejects %s', (_, text, message) => {
+        expect(() => parseJsonSchema(text)).toThrow(message);
+    });
+});
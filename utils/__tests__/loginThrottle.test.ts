@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ *
+ * Checks the lockout steps after failed logins and the limit for deleting all data
+ */
+import {
+    clearLoginThrottle,
+    formatLockout,
+    getLockoutDelay,
+    getWipeAfterFailures,
+    isWipeDue,
+    loadLoginThrottle,
+    recordFailedLogin,
+    setWipeAfterFailures
+} from '../loginThrottle';
+
+// SecureStore is a native module; the test keeps its values in memory
+const mockStore = new Map<string, string>();
+jest.mock('expo-secure-store', () => ({
+    getItemAsync: async (key: string) => mockStore.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => { mockStore.set(key, value); },
+    deleteItemAsync: async (key: string) => { mockStore.delete(key); }
+}));
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+describe('loginThrottle', () => {
+    beforeEach(() => {
+        mockStore.clear();
+    });
+
+    describe('getLockoutDelay', () => {
+        it.each([
+            [0, 0],
+            [1, 0],
+            [2, 0],
+            [3, 30 * SECOND],
+            [4, MINUTE],
+            [5, 2 * MINUTE],
+            [6, 4 * MINUTE],
+            [9, 32 * MINUTE],
+            [10, 60 * MINUTE],
+            [11, 60 * MINUTE],
+            [50, 60 * MINUTE]
+        ])('locks for the right time after %i failures', (failedAttempts, delay) => {
+            expect(getLockoutDelay(failedAttempts)).toBe(delay);
+        });
+    });
+
+    describe('formatLockout', () => {
+        it.each([
+            [1, '1 second'],
+            [999, '1 second'],
+            [45 * SECOND, '45 seconds'],
+            [60 * SECOND, '1 minute'],
+            [61 * SECOND, '2 minutes'],
+            [60 * MINUTE, '60 minutes']
+        ])('formats %i ms as "%s"', (ms, text) => {
+            expect(formatLockout(ms)).toBe(text);
+        });
+    });
+
+    describe('recordFailedLogin', () => {
+        it('counts failures and starts a lockout from the third one', async () => {
+            const now = 1700000000000;
+
+            expect(await recordFailedLogin(now)).toEqual({ failedAttempts: 1, lockedUntil: 0 });
+            expect(await recordFailedLogin(now)).toEqual({ failedAttempts: 2, lockedUntil: 0 });
+            expect(await recordFailedLogin(now)).toEqual({ failedAttempts: 3, lockedUntil: now + 30 * SECOND });
+            expect(await recordFailedLogin(now)).toEqual({ failedAttempts: 4, lockedUntil: now + MINUTE });
+            expect(await loadLoginThrottle()).toEqual({ failedAttempts: 4, lockedUntil: now + MINUTE });
+        });
+
+        it('starts over after the throttle is cleared', async () => {
+            await recordFailedLogin();
+            await recordFailedLogin();
+            await clearLoginThrottle();
+
+            expect(await loadLoginThrottle()).toEqual({ failedAttempts: 0, lockedUntil: 0 });
+            expect((await recordFailedLogin()).failedAttempts).toBe(1);
+        });
+
+        it('treats an unreadable stored state as no failures', async () => {
+            mockStore.set('loginThrottle', 'not json');
+            jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+            expect(await loadLoginThrottle()).toEqual({ failedAttempts: 0, lockedUntil: 0 });
+        });
+    });
+
+    describe('wipe after failures', () => {
+        it.each([
+            [4, 5, false],
+            [5, 5, true],
+            [6, 5, true],
+            [19, 20, false],
+            [20, 20, true],
+            [100, null, false]
+        ])('after %i failures with a limit of %p deletes data: %p', (failedAttempts, wipeAfter, due) => {
+            expect(isWipeDue(failedAttempts, wipeAfter)).toBe(due);
+        });
+
+        it('stores the limit and turns it off', async () => {
+            expect(await getWipeAfterFailures()).toBeNull();
+
+            await setWipeAfterFailures(10);
+            expect(await getWipeAfterFailures()).toBe(10);
+
+            await setWipeAfterFailures(null);
+            expect(await getWipeAfterFailures()).toBeNull();
+        });
+
+        it('ignores a stored limit that is not a positive whole number', async () => {
+            for (const raw of ['0', '-5', '2.5', 'ten']) {
+                mockStore.set('wipeAfterFailures', raw);
+                expect(await getWipeAfterFailures()).toBeNull();
+            }
+        });
+
+        it('is reached by consecutive failed logins', async () => {
+            await setWipeAfterFailures(5);
+            const wipeAfter = await getWipeAfterFailures();
+            const due: boolean[] = [];
+            for (let attempt = 0; attempt < 5; attempt++) {
+                due.push(isWipeDue((await recordFailedLogin()).failedAttempts, wipeAfter));
+            }
+
+            expect(due).toEqual([false, false, false, false, true]);
+        });
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ *
+ * Evaluates expressions as the calculator tool receives them
+ */
+import { evaluateExpression } from '../mathExpression';
+
+describe('evaluateExpression', () => {
+    it.each([
+        ['2 + 3 * 4', 14],
+        ['(2 + 3) * 4', 20],
+        ['10 - 4 - 3', 3],
+        ['24 / 4 / 2', 3],
+        ['7 % 4 * 2', 6],
+        ['2 * 3 ^ 2', 18],
+        ['2 ^ 3 ^ 2', 512],
+        ['2 ** 10', 1024],
+        ['(2 ^ 3) ^ 2', 64],
+        ['1 + 2 * (3 - 1) ^ 2 / 4', 3]
+    ])('follows precedence in %s', (expression, expected) => {
+        expect(evaluateExpression(expression)).toBe(expected);
+    });
+
+    it.each([
+        ['-3', -3],
+        ['--3', 3],
+        ['+3', 3],
+        ['2 - -3', 5],
+        ['-2 ^ 2', -4],
+        ['(-2) ^ 2', 4],
+        ['2 ^ -1', 0.5],
+        ['-(1 + 2) * 3', -9]
+    ])('applies unary signs in %s', (expression, expected) => {
+        expect(evaluateExpression(expression)).toBe(expected);
+    });
+
+    it.each([
+        ['0.1 + 0.2', 0.3],
+        ['.5 * 4', 2],
+        ['1.5e3 + 2E-1', 1500.2],
+        ['sqrt(16) + abs(-2)', 6],
+        ['max(1, 5, 3) - min(4, 2)', 3],
+        ['pow(2, 8)', 256],
+        ['round(2.5) + floor(1.9) + ceil(0.1)', 5],
+        ['log(1000) + ln(e) + log2(8)', 7],
+        ['sin(pi / 2) + cos(0)', 2],
+        ['SQRT(9) * PI / pi', 3]
+    ])('evaluates numbers, constants and functions in %s', (expression, expected) => {
+        expect(evaluateExpression(expression)).toBe(expected);
+    });
+
+    it.each([
+        ['1 / 0'],
+        ['-1 / 0'],
+        ['0 / 0'],
+        ['5 % 0'],
+        ['sqrt(-1)'],
+        ['10 ^ 400']
+    ])('rejects %s for having no finite result', expression => {
+        expect(() => evaluateExpression(expression)).toThrow('The result is not a finite number');
+    });
+
+    it.each([
+        ['', 'The expression is empty'],
+        ['   ', 'The expression is empty'],
+        ['2 +', 'Unexpected end of expression'],
+        ['(1 + 2', 'Expected ")"'],
+        ['1 + 2)', 'Unexpected ")"'],
+        ['2 3', 'Unexpected "3"'],
+        ['* 2', 'Unexpected "*"'],
+        ['2 $ 3', 'Unexpected character "$"'],
+        ['x + 1', 'Unknown name "x"'],
+        ['foo(1)', 'Unknown function "foo"'],
+        ['constructor(1)', 'Unknown function "constructor"'],
+        ['max(1, )', 'Unexpected ")"']
+    ])('rejects the malformed expression "%s"', (expression, message) => {
+        expect(() => evaluateExpression(expression)).toThrow(message);
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ *
+ * Checks password verifiers stored by earlier versions, and the legacy hash
+ */
+import { createHash } from 'crypto';
+import { Buffer } from 'buffer';
+import { parsePasswordVerifier, PasswordVerifier, verifyLegacyHash, verifyPassword } from '../passwordVerifier';
+import { createKdfParams, deriveKey } from '../encryption';
+
+// expo-crypto is a native module; the test uses Node's implementation of the same functions
+jest.mock('expo-crypto', () => {
+    const nodeCrypto = jest.requireActual('crypto');
+    return {
+        CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+        getRandomBytesAsync: async (length: number) => new Uint8Array(nodeCrypto.randomBytes(length)),
+        digestStringAsync: async (_algorithm: string, data: string) =>
+            nodeCrypto.createHash('sha256').update(data).digest('hex')
+    };
+});
+
+// Stores a verifier the way earlier versions did, with few iterations to keep the test fast
+const createVerifier = async (password: string): Promise<PasswordVerifier> => {
+    const params = await createKdfParams(1000);
+    const hash = await deriveKey(password, params);
+    return { ...params, hash: Buffer.from(hash).toString('base64') };
+};
+
+describe('passwordVerifier', () => {
+    it('accepts the password a verifier was created from and rejects others', async () => {
+        const verifier = await createVerifier('correct horse');
+
+        expect(await verifyPassword('correct horse', verifier)).toBe(true);
+        expect(await verifyPassword('correct horse ', verifier)).toBe(false);
+        expect(await verifyPassword('', verifier)).toBe(false);
+    });
+
+    it('survives being stored and parsed', async () => {
+        const verifier = await createVerifier('pw');
+
+        const parsed = parsePasswordVerifier(JSON.stringify(verifier));
+
+        expect(parsed).toEqual(verifier);
+        expect(await verifyPassword('pw', parsed!)).toBe(true);
+    });
+
+    it('checks with the iterations stored in the verifier', async () => {
+        const verifier = await createVerifier('pw');
+
+        expect(await verifyPassword('pw', { ...verifier, iterations: verifier.iterations - 1 })).toBe(false);
+    });
+
+    it.each([
+        [null],
+        [''],
+        ['not json'],
+        ['{}'],
+        ['{"hash":"abc","salt":"def"}'],
+        ['{"hash":1,"salt":"def","iterations":1000}']
+    ])('does not parse %p as a verifier', (raw) => {
+        expect(parsePasswordVerifier(raw)).toBeNull();
+    });
+
+    it('checks the legacy unsalted hash', async () => {
+        const legacyHash = createHash('sha256').update('pw').digest('hex');
+
+        expect(await verifyLegacyHash('pw', legacyHash)).toBe(true);
+        expect(await verifyLegacyHash('other', legacyHash)).toBe(false);
+        expect(await verifyLegacyHash('pw', '')).toBe(false);
+    });
+});
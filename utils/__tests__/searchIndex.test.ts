@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ *
+ * Checks tokenization, word hashing and the highlighted snippets of search results
+ */
+import { buildSnippet, createSearchKey, tokenize, toIndexTokens, toMatchQuery } from '../searchIndex';
+
+const dataKey = (fill: number) => new Uint8Array(32).fill(fill);
+
+// Marked text of a snippet, e.g. "a [match] b"
+const render = (parts: { text: string; isMatch: boolean }[]) =>
+    parts.map(part => (part.isMatch ? `[${part.text}]` : part.text)).join('');
+
+describe('searchIndex', () => {
+    describe('tokenize', () => {
+        it.each([
+            ['Hello, World!', ['hello', 'world']],
+            ['  spaced\tout\nlines  ', ['spaced', 'out', 'lines']],
+            ['Café crème brûlée', ['cafe', 'creme', 'brulee']],
+            ['café', ['cafe']],
+            ['ÜBER straße', ['uber', 'straße']],
+            ['version 2.0.1 costs $40', ['version', '2', '0', '1', 'costs', '40']],
+            ['snake_case and kebab-case', ['snake', 'case', 'and', 'kebab', 'case']],
+            ['東京 Привет', ['東京', 'привет']],
+            ['ﬁle №5', ['file', 'no5']],
+            ['', []],
+            ['!!! ... ---', []]
+        ])('splits %p into %p', (text, words) => {
+            expect(tokenize(text)).toEqual(words);
+        });
+    });
+
+    describe('toIndexTokens', () => {
+        const searchKey = createSearchKey(dataKey(1));
+
+        it('stores a 16 character hash per word instead of the word', () => {
+            const tokens = toIndexTokens('Trip to Paris', searchKey).split(' ');
+
+            expect(tokens).toHaveLength(3);
+            tokens.forEach(token => expect(token).toMatch(/^[0-9a-f]{16}$/));
+            expect(tokens.join(' ')).not.toMatch(/trip|paris/i);
+        });
+
+        it('hashes the same word the same way, whatever its case and accents', () => {
+            expect(toIndexTokens('Café', searchKey)).toBe(toIndexTokens('cafe', searchKey));
+            expect(toIndexTokens('plan plan', searchKey).split(' ')[0]).toBe(toIndexTokens('plan', searchKey));
+            expect(toIndexTokens('plan', searchKey)).not.toBe(toIndexTokens('plans', searchKey));
+        });
+
+        it('depends on the data key', () => {
+            expect(toIndexTokens('paris', createSearchKey(dataKey(2)))).not.toBe(toIndexTokens('paris', searchKey));
+            expect(createSearchKey(dataKey(1))).toEqual(searchKey);
+        });
+    });
+
+    describe('toMatchQuery', () => {
+        const searchKey = createSearchKey(dataKey(1));
+
+        it('quotes the hash of each distinct word', () => {
+            const [paris, trip] = ['paris', 'trip'].map(word => toIndexTokens(word, searchKey));
+
+            expect(toMatchQuery('Paris trip PARIS', searchKey)).toBe(`"${paris}" "${trip}"`);
+        });
+
+        it('matches the tokens stored for the same words', () => {
+            const stored = toIndexTokens('We went to the café', searchKey).split(' ');
+            const [query] = toMatchQuery('CAFE', searchKey)!.split(' ');
+
+            expect(stored).toContain(query.replace(/"/g, ''));
+        });
+
+        it('returns null for a search without words', () => {
+            expect(toMatchQuery(' ?! ', searchKey)).toBeNull();
+        });
+    });
+
+    describe('buildSnippet', () => {
+        it('marks every searched word', () => {
+            expect(render(buildSnippet('Plan a trip, then plan the trip again', 'trip plan'))).toBe(
+                '[Plan] a [trip], then [plan] the [trip] again'
+            );
+        });
+
+        it('marks accented words for searches with or without the accents', () => {
+            expect(render(buildSnippet('Meet at the Café at noon', 'cafe'))).toBe('Meet at the [Café] at noon');
+            expect(render(buildSnippet('Meet at the cafe at noon', 'café'))).toBe('Meet at the [cafe] at noon');
+            expect(render(buildSnippet('Meet at the café at noon', 'CAFÉ'))).toBe('Meet at the [café] at noon');
+            expect(render(buildSnippet('Ihr Überblick', 'uberblick'))).toBe('Ihr [Überblick]');
+        });
+
+        it('marks whole words only', () => {
+            expect(render(buildSnippet('A plan for planning', 'plan'))).toBe('A [plan] for planning');
+        });
+
+        it('treats regular expression characters in the search as text', () => {
+            expect(render(buildSnippet('Costs (about) 5 dollars', '(about) $5'))).toBe('Costs ([about]) [5] dollars');
+        });
+
+        it('cuts the text around the first match and marks the cuts', () => {
+            const text = `${'a '.repeat(50)}needle${' b'.repeat(50)}`;
+
+            const parts = buildSnippet(text, 'needle', 10);
+
+            expect(render(parts)).toBe(`…${'a '.repeat(5)}[needle]${' b'.repeat(7)}…`);
+        });
+
+        it('joins whitespace and shows the start of the text when nothing matches', () => {
+            expect(buildSnippet('one\n\ntwo   three', 'four', 5)).toEqual([{ text: 'one two th…', isMatch: false }]);
+            expect(buildSnippet('one\n\ntwo', '', 5)).toEqual([{ text: 'one two', isMatch: false }]);
+        });
+    });
+});
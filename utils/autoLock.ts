@@ -0,0 +1,62 @@
+/**
+ * Auto-Lock Module
+ *
+ * Settings for locking the app after it has been in the background or unused for a
+ * while, and hooks that let screens save their state before the data is closed.
+ * The setting is kept in SecureStore, so it applies before the database is unlocked.
+ */
+import * as SecureStore from 'expo-secure-store';
+
+const AUTO_LOCK_KEY = 'autoLock';
+
+export interface AutoLockOption {
+    id: string;
+    label: string;
+    backgroundMs: number | null; // Time in the background before locking; 0 locks right away, null never
+    idleMs: number | null;       // Time without interaction in the foreground before locking; null never
+}
+
+export const AUTO_LOCK_OPTIONS: AutoLockOption[] = [
+    { id: 'never', label: 'Never', backgroundMs: null, idleMs: null },
+    { id: 'immediately', label: 'Immediately', backgroundMs: 0, idleMs: null },
+    { id: 'background-1', label: '1 min in background', backgroundMs: 60 * 1000, idleMs: null },
+    { id: 'background-5', label: '5 min in background', backgroundMs: 5 * 60 * 1000, idleMs: null },
+    { id: 'background-15', label: '15 min in background', backgroundMs: 15 * 60 * 1000, idleMs: null },
+    { id: 'idle-5', label: '5 min idle', backgroundMs: 5 * 60 * 1000, idleMs: 5 * 60 * 1000 },
+    { id: 'idle-15', label: '15 min idle', backgroundMs: 15 * 60 * 1000, idleMs: 15 * 60 * 1000 }
+];
+
+export const DEFAULT_AUTO_LOCK = AUTO_LOCK_OPTIONS.find(option => option.id === 'background-5')!;
+
+export async function getAutoLockOption(): Promise<AutoLockOption> {
+    const id = await SecureStore.getItemAsync(AUTO_LOCK_KEY);
+    return AUTO_LOCK_OPTIONS.find(option => option.id === id) ?? DEFAULT_AUTO_LOCK;
+}
+
+export async function setAutoLockOption(option: AutoLockOption): Promise<void> {
+    await SecureStore.setItemAsync(AUTO_LOCK_KEY, option.id);
+}
+
+type LockHandler = () => Promise<void>;
+
+const lockHandlers = new Set<LockHandler>();
+
+/**
+ * Registers work to finish before the app locks, such as saving unsaved messages
+ * @returns Function that removes the handler
+ */
+export function registerLockHandler(handler: LockHandler): () => void {
+    lockHandlers.add(handler);
+    return () => {
+        lockHandlers.delete(handler);
+    };
+}
+
+/**
+ * Runs the registered handlers; a failing handler does not stop the lock
+ */
+export async function runLockHandlers(): Promise<void> {
+    await Promise.all([...lockHandlers].map(handler => handler().catch(error => {
+        console.error('Error before locking:', error);
+    })));
+}
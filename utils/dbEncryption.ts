@@ -1,35 +1,18 @@
-import * as Crypto from 'expo-crypto';
 import { Buffer } from 'buffer';
+import { CIPHER_VERSION, isLegacyFormat, openLegacyString, openString, sealString } from './encryption';
 
-const DELIMITER = '::';
+const PREFIX = `${CIPHER_VERSION}:`;
 
 /**
- * Encrypts a single field value
+ * Encrypts a single field value with AES-256-GCM
  * Used for sensitive data like API keys and message content
+ * @param key Key derived from the password, see deriveKey
  */
-export async function encryptField(value: string, password: string): Promise<string> {
+export async function encryptField(value: string, key: Uint8Array): Promise<string> {
     try {
-        // Generate random salt
-        const salt = await Crypto.getRandomBytesAsync(16);
-        const saltHex = Buffer.from(salt).toString('hex');
-
-        // Create encryption key from password and salt
-        const key = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            password + saltHex
-        );
-
-        // Convert value to hex
-        const valueHex = Buffer.from(value, 'utf8').toString('hex');
-
-        // Encrypt value using key
-        const encrypted = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            valueHex + key
-        );
-
-        return `${saltHex}${DELIMITER}${encrypted}${DELIMITER}${valueHex}`;
-    } catch (error) {
+        const { nonce, ciphertext } = await sealString(value, key);
+        return `${PREFIX}${nonce}:${ciphertext}`;
+    } catch {
         throw new Error('Field encryption failed');
     }
 }
@@ -37,40 +20,54 @@ export async function encryptField(value: string, password: string): Promise<str
 /**
  * Decrypts a single encrypted field value
  */
-export async function decryptField(encryptedString: string, password: string): Promise<string> {
+export async function decryptField(encryptedString: string, key: Uint8Array): Promise<string> {
     try {
-        const [saltHex, encrypted, valueHex] = encryptedString.split(DELIMITER);
-        
-        if (!saltHex || !encrypted || !valueHex) {
+        const [version, nonce, ciphertext] = encryptedString.split(':');
+        if (version !== CIPHER_VERSION || !nonce || !ciphertext) {
             throw new Error('Invalid encrypted field format');
         }
+        return openString(nonce, ciphertext, key);
+    } catch {
+        throw new Error('Field decryption failed');
+    }
+}
 
-        // Recreate the key
-        const key = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            password + saltHex
-        );
-
-        // Verify the encryption
-        const verification = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            valueHex + key
-        );
+/**
+ * Encrypts a data key with a key derived from the password
+ */
+export async function wrapKey(key: Uint8Array, passwordKey: Uint8Array): Promise<string> {
+    return await encryptField(Buffer.from(key).toString('base64'), passwordKey);
+}
 
-        if (verification !== encrypted) {
-            throw new Error('Invalid password or corrupted field data');
-        }
+/**
+ * Decrypts a data key wrapped with wrapKey
+ * @throws {Error} If the password key is wrong
+ */
+export async function unwrapKey(wrappedKey: string, passwordKey: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(Buffer.from(await decryptField(wrappedKey, passwordKey), 'base64'));
+}
 
-        return Buffer.from(valueHex, 'hex').toString('utf8');
-    } catch (error) {
+/**
+ * Decrypts a field written in the legacy format, before it is re-encrypted
+ */
+export async function decryptLegacyField(encryptedString: string, password: string): Promise<string> {
+    try {
+        return await openLegacyString(encryptedString, password);
+    } catch {
         throw new Error('Field decryption failed');
     }
 }
 
 /**
- * Determines if a string is encrypted
+ * Determines if a string is encrypted, in the current or the legacy format
  */
 export function isEncrypted(value: string): boolean {
-    const parts = value.split(DELIMITER);
-    return parts.length === 3 && parts.every(part => part.length > 0);
-}
\ No newline at end of file
+    return value.startsWith(PREFIX) || isLegacyFormat(value);
+}
+
+/**
+ * Determines if a string is encrypted in the legacy format and needs re-encrypting
+ */
+export function isLegacyEncrypted(value: string): boolean {
+    return isLegacyFormat(value);
+}
@@ -1,24 +1,135 @@
 /**
  * Data Encryption Utility Module
- * 
+ *
  * Provides secure encryption and decryption for user data using:
- * - SHA-256 for key derivation
- * - Random salt generation for each encryption
- * - Hex encoding for data storage
- * - Verification mechanism to validate password during decryption
+ * - AES-256-GCM authenticated encryption with a random nonce per value
+ * - PBKDF2-SHA256 key derivation with stored, versioned parameters
+ * - A versioned ciphertext format, so older formats can still be read and upgraded
  */
 import * as Crypto from 'expo-crypto';
 import { Buffer } from 'buffer';
+import { gcm } from '@noble/ciphers/aes';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
 
-// Separator used to distinguish parts of encrypted data
+// Separator used by the legacy format (salt::hash::data)
 const DELIMITER = '::';
 
+// Prefix of the current ciphertext format
+export const CIPHER_VERSION = 'v2';
+
+// PBKDF2 work factor for new keys; existing keys keep the iterations they were created with
+export const DEFAULT_KDF_ITERATIONS = 210000;
+
+const KEY_LENGTH = 32; // AES-256
+const NONCE_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+/**
+ * Parameters for deriving a key from a password
+ */
+export interface KdfParams {
+    algorithm: 'pbkdf2-sha256';
+    iterations: number;
+    salt: string; // Base64
+}
+
 /**
- * Encrypts JSON data with a password using a salt-based approach
- * 
+ * Creates key derivation parameters with a new random salt
+ */
+export async function createKdfParams(iterations: number = DEFAULT_KDF_ITERATIONS): Promise<KdfParams> {
+    const salt = await Crypto.getRandomBytesAsync(SALT_LENGTH);
+    return { algorithm: 'pbkdf2-sha256', iterations, salt: Buffer.from(salt).toString('base64') };
+}
+
+/**
+ * Creates a random 256-bit key for encrypting data, independent of the password
+ */
+export async function createDataKey(): Promise<Uint8Array> {
+    return await Crypto.getRandomBytesAsync(KEY_LENGTH);
+}
+
+/**
+ * Derives a 256-bit key from a password; deliberately slow
+ */
+export async function deriveKey(password: string, params: KdfParams): Promise<Uint8Array> {
+    if (params.algorithm !== 'pbkdf2-sha256') {
+        throw new Error(`Unsupported key derivation: ${params.algorithm}`);
+    }
+    return await pbkdf2Async(sha256, password, Buffer.from(params.salt, 'base64'), {
+        c: params.iterations,
+        dkLen: KEY_LENGTH
+    });
+}
+
+/**
+ * Encrypts a string with AES-256-GCM
+ * @param associatedData Text stored in the clear next to the value that decryption must be given unchanged
+ * @returns Base64 nonce and ciphertext (including the authentication tag)
+ */
+export async function sealString(value: string, key: Uint8Array, associatedData?: string): Promise<{ nonce: string; ciphertext: string }> {
+    const nonce = await Crypto.getRandomBytesAsync(NONCE_LENGTH);
+    const aad = associatedData === undefined ? undefined : Buffer.from(associatedData, 'utf8');
+    const ciphertext = gcm(key, nonce, aad).encrypt(Buffer.from(value, 'utf8'));
+    return {
+        nonce: Buffer.from(nonce).toString('base64'),
+        ciphertext: Buffer.from(ciphertext).toString('base64')
+    };
+}
+
+/**
+ * Decrypts a string sealed with sealString
+ * @param associatedData The text the value was sealed with, if any
+ * @throws {Error} If the key is wrong or the data or associated text was modified
+ */
+export function openString(nonce: string, ciphertext: string, key: Uint8Array, associatedData?: string): string {
+    const aad = associatedData === undefined ? undefined : Buffer.from(associatedData, 'utf8');
+    const plaintext = gcm(key, Buffer.from(nonce, 'base64'), aad).decrypt(Buffer.from(ciphertext, 'base64'));
+    return Buffer.from(plaintext).toString('utf8');
+}
+
+/**
+ * Reads data in the legacy format, which only hex-encoded the value next to a SHA-256 check
+ *
+ * @throws {Error} If the password does not match or the data is corrupted
+ */
+export async function openLegacyString(encryptedString: string, password: string): Promise<string> {
+    const [saltHex, encrypted, dataHex] = encryptedString.split(DELIMITER);
+    if (!saltHex || !encrypted || !dataHex) {
+        throw new Error('Invalid encrypted data format');
+    }
+
+    // Recreate the key and verify the check value
+    const key = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        password + saltHex
+    );
+    const verification = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        dataHex + key
+    );
+    if (verification !== encrypted) {
+        throw new Error('Invalid password or corrupted data');
+    }
+
+    return Buffer.from(dataHex, 'hex').toString('utf8');
+}
+
+/**
+ * Determines if a string uses the legacy format
+ */
+export function isLegacyFormat(value: string): boolean {
+    const parts = value.split(DELIMITER);
+    return parts.length === 3 && parts.every(part => part.length > 0);
+}
+
+/**
+ * Encrypts JSON data with a password
+ * The key derivation parameters are stored with the data, as there is no other place for them.
+ *
  * @param {string} data - JSON string data to encrypt
  * @param {string} password - Password for encryption
- * @returns {Promise<string>} Encrypted data string containing salt, hash, and data
+ * @returns {Promise<string>} Encrypted data string: version, iterations, salt, nonce and ciphertext
  * @throws {Error} If data is not valid JSON or encryption fails
  */
 export async function encryptData(data: string, password: string): Promise<string> {
@@ -26,35 +137,19 @@ export async function encryptData(data: string, password: string): Promise<strin
         // Validate JSON before encryption
         JSON.parse(data);
 
-        // Generate random salt
-        const salt = await Crypto.getRandomBytesAsync(16);
-        const saltHex = Buffer.from(salt).toString('hex');
-
-        // Create encryption key from password and salt
-        const key = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            password + saltHex
-        );
-
-        // Convert data to hex
-        const dataHex = Buffer.from(data, 'utf8').toString('hex');
-
-        // Encrypt data using key
-        const encrypted = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            dataHex + key
-        );
+        const params = await createKdfParams();
+        const key = await deriveKey(password, params);
+        const { nonce, ciphertext } = await sealString(data, key);
 
-        // Combine salt and encrypted data with delimiter
-        return `${saltHex}${DELIMITER}${encrypted}${DELIMITER}${dataHex}`;
-    } catch (error) {
+        return [CIPHER_VERSION, params.iterations, params.salt, nonce, ciphertext].join(':');
+    } catch {
         throw new Error('Encryption failed: Invalid JSON data');
     }
 }
 
 /**
- * Decrypts data encrypted with encryptData function
- * 
+ * Decrypts data encrypted with encryptData function, including the legacy format
+ *
  * @param {string} encryptedString - String from encryptData
  * @param {string} password - Password used for encryption
  * @returns {Promise<string>} Decrypted JSON string
@@ -62,37 +157,23 @@ export async function encryptData(data: string, password: string): Promise<strin
  */
 export async function decryptData(encryptedString: string, password: string): Promise<string> {
     try {
-        // Split the components
-        const [saltHex, encrypted, dataHex] = encryptedString.split(DELIMITER);
-        
-        if (!saltHex || !encrypted || !dataHex) {
-            throw new Error('Invalid encrypted data format');
+        let decrypted: string;
+        if (isLegacyFormat(encryptedString)) {
+            decrypted = await openLegacyString(encryptedString, password);
+        } else {
+            const [version, iterations, salt, nonce, ciphertext] = encryptedString.split(':');
+            if (version !== CIPHER_VERSION || !salt || !nonce || !ciphertext) {
+                throw new Error('Invalid encrypted data format');
+            }
+            const key = await deriveKey(password, { algorithm: 'pbkdf2-sha256', iterations: Number(iterations), salt });
+            decrypted = openString(nonce, ciphertext, key);
         }
 
-        // Recreate the key
-        const key = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            password + saltHex
-        );
-
-        // Verify the encryption
-        const verification = await Crypto.digestStringAsync(
-            Crypto.CryptoDigestAlgorithm.SHA256,
-            dataHex + key
-        );
-
-        if (verification !== encrypted) {
-            throw new Error('Invalid password or corrupted data');
-        }
-
-        // Convert hex back to string
-        const decrypted = Buffer.from(dataHex, 'hex').toString('utf8');
-        
         // Validate JSON
         JSON.parse(decrypted);
-        
+
         return decrypted;
-    } catch (error) {
+    } catch {
         throw new Error('Decryption failed: Invalid password or corrupted data');
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,190 @@
+/**
+ * JSON Schema Module
+ *
+ * Checks values against the subset of JSON Schema used by structured output:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * length and range limits, pattern, and the anyOf / oneOf / allOf combinators.
+ * Other keywords, such as $ref or format, are ignored.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    description?: string;
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    allOf?: JsonSchema[];
+}
+
+// Most problems reported for one value; later ones rarely add anything
+const MAX_ERRORS = 20;
+
+function typeOf(value: unknown): JsonSchemaType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+const hasOwn = (record: object, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function collectErrors(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+    if (errors.length >= MAX_ERRORS) return;
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+            return;
+        }
+    }
+    if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+    if (schema.const !== undefined && !isEqual(schema.const, value)) {
+        errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path}: must have at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+            errors.push(`${path}: must match the pattern ${schema.pattern}`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+        }
+        if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+            errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path}: must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            value.forEach((item, index) => collectErrors(item, schema.items!, `${path}[${index}]`, errors));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (!hasOwn(record, key)) errors.push(`${path}: missing required property "${key}"`);
+        }
+        for (const [key, item] of Object.entries(record)) {
+            if (schema.properties && hasOwn(schema.properties, key)) {
+                collectErrors(item, schema.properties[key], `${path}.${key}`, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}: unexpected property "${key}"`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                collectErrors(item, schema.additionalProperties, `${path}.${key}`, errors);
+            }
+        }
+    }
+
+    for (const part of schema.allOf ?? []) {
+        collectErrors(value, part, path, errors);
+    }
+    if (schema.anyOf && !schema.anyOf.some(option => validateJson(value, option).length === 0)) {
+        errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+    if (schema.oneOf && schema.oneOf.filter(option => validateJson(value, option).length === 0).length !== 1) {
+        errors.push(`${path}: must match exactly one of the allowed schemas`);
+    }
+}
+
+/**
+ * Checks a value against a schema
+ * @returns Problems found, each prefixed with the path of the value (e.g. "$.items[2].name"); empty if the value is valid
+ */
+export function validateJson(value: unknown, schema: JsonSchema): string[] {
+    const errors: string[] = [];
+    collectErrors(value, schema, '$', errors);
+    return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * Reads a schema written by the user
+ * @throws {Error} If the text is not JSON or not a schema object
+ */
+export function parseJsonSchema(text: string): JsonSchema {
+    let schema: unknown;
+    try {
+        schema = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`The schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (typeOf(schema) !== 'object') {
+        throw new Error('The schema must be a JSON object, e.g. { "type": "object", "properties": { ... } }');
+    }
+    checkSchema(schema as JsonSchema, '$');
+    return schema as JsonSchema;
+}
+
+const TYPES: JsonSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+// Rejects mistakes that would make every value invalid or break validation
+function checkSchema(schema: JsonSchema, path: string): void {
+    if (typeOf(schema) !== 'object') {
+        throw new Error(`${path}: must be a schema object`);
+    }
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    const unknown = types.find(type => !TYPES.includes(type));
+    if (unknown !== undefined) {
+        throw new Error(`${path}: unknown type ${JSON.stringify(unknown)}`);
+    }
+    if (schema.pattern !== undefined) {
+        try {
+            new RegExp(schema.pattern, 'u');
+        } catch {
+            throw new Error(`${path}: invalid pattern ${schema.pattern}`);
+        }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        checkSchema(property, `${path}.properties.${key}`);
+    }
+    if (schema.items) checkSchema(schema.items, `${path}.items`);
+    if (typeof schema.additionalProperties === 'object') checkSchema(schema.additionalProperties, `${path}.additionalProperties`);
+    for (const keyword of ['anyOf', 'oneOf', 'allOf'] as const) {
+        schema[keyword]?.forEach((part, index) => checkSchema(part, `${path}.${keyword}[${index}]`));
+    }
+}
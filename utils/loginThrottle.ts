@@ -0,0 +1,97 @@
+/**
+ * Login Throttling Module
+ *
+ * Slows down password guessing: after a few failed logins each further failure locks
+ * the login for twice as long as the previous one. The state is kept in SecureStore,
+ * so restarting the app does not reset it. Optionally all data is deleted after a
+ * chosen number of failures.
+ */
+import * as SecureStore from 'expo-secure-store';
+
+const THROTTLE_KEY = 'loginThrottle';
+const WIPE_AFTER_KEY = 'wipeAfterFailures';
+
+// Failures allowed before the first lockout
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// Choices offered for deleting all data after failed logins
+export const WIPE_AFTER_OPTIONS = [5, 10, 20];
+
+export interface LoginThrottle {
+    failedAttempts: number;
+    lockedUntil: number; // Epoch milliseconds; 0 when not locked
+}
+
+/**
+ * Lockout after a number of consecutive failures: none at first, then 30 seconds doubling up to an hour
+ */
+export function getLockoutDelay(failedAttempts: number): number {
+    if (failedAttempts < FREE_ATTEMPTS) return 0;
+    return Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+/**
+ * Formats a remaining lockout for messages, e.g. "45 seconds" or "4 minutes"
+ */
+export function formatLockout(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Whether a number of consecutive failures reaches the chosen limit for deleting all data
+ */
+export function isWipeDue(failedAttempts: number, wipeAfter: number | null): boolean {
+    return wipeAfter !== null && failedAttempts >= wipeAfter;
+}
+
+export async function loadLoginThrottle(): Promise<LoginThrottle> {
+    try {
+        const raw = await SecureStore.getItemAsync(THROTTLE_KEY);
+        const state = raw ? JSON.parse(raw) : null;
+        return {
+            failedAttempts: Number(state?.failedAttempts) || 0,
+            lockedUntil: Number(state?.lockedUntil) || 0
+        };
+    } catch (error) {
+        console.error('Error loading login throttle:', error);
+        return { failedAttempts: 0, lockedUntil: 0 };
+    }
+}
+
+/**
+ * Counts a failed login and starts the lockout it earns
+ */
+export async function recordFailedLogin(now: number = Date.now()): Promise<LoginThrottle> {
+    const previous = await loadLoginThrottle();
+    const failedAttempts = previous.failedAttempts + 1;
+    const delay = getLockoutDelay(failedAttempts);
+    const state = { failedAttempts, lockedUntil: delay > 0 ? now + delay : 0 };
+    await SecureStore.setItemAsync(THROTTLE_KEY, JSON.stringify(state));
+    return state;
+}
+
+export async function clearLoginThrottle(): Promise<void> {
+    await SecureStore.deleteItemAsync(THROTTLE_KEY);
+}
+
+/**
+ * Number of failed logins after which all data is deleted, or null if disabled
+ */
+export async function getWipeAfterFailures(): Promise<number | null> {
+    const raw = await SecureStore.getItemAsync(WIPE_AFTER_KEY);
+    const value = raw ? Number(raw) : NaN;
+    return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+export async function setWipeAfterFailures(value: number | null): Promise<void> {
+    if (value === null) {
+        await SecureStore.deleteItemAsync(WIPE_AFTER_KEY);
+    } else {
+        await SecureStore.setItemAsync(WIPE_AFTER_KEY, String(value));
+    }
+}
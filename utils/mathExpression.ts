@@ -0,0 +1,165 @@
+/**
+ * Math Expression Module
+ *
+ * Evaluates arithmetic expressions without eval, for the calculator tool.
+ * Supports + - * / % ^ (or **), parentheses, unary signs, the constants
+ * pi and e, and common functions such as sqrt, sin, log and round.
+ */
+
+// Functions callable in an expression, by name
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+    log2: Math.log2,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow
+};
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E
+};
+
+// Significant digits kept of a result, which hides floating point noise such as 0.1 + 0.2
+const RESULT_PRECISION = 12;
+
+type Token =
+    | { kind: 'number'; value: number }
+    | { kind: 'name'; value: string }
+    | { kind: 'operator'; value: string };
+
+function tokenizeExpression(expression: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/giy;
+    let index = 0;
+    while (index < expression.length) {
+        if (/^\s*$/.test(expression.slice(index))) break;
+        pattern.lastIndex = index;
+        const match = pattern.exec(expression);
+        if (!match) {
+            throw new Error(`Unexpected character "${expression.slice(index).trim()[0]}"`);
+        }
+        if (match[1] !== undefined) tokens.push({ kind: 'number', value: parseFloat(match[1]) });
+        else if (match[2] !== undefined) tokens.push({ kind: 'name', value: match[2].toLowerCase() });
+        else tokens.push({ kind: 'operator', value: match[3] === '**' ? '^' : match[3] });
+        index = pattern.lastIndex;
+    }
+    return tokens;
+}
+
+/**
+ * Evaluates an arithmetic expression, e.g. "2 * (3 + 4) ^ 2" or "sqrt(2) / 2"
+ * @throws {Error} If the expression is malformed or has no finite result
+ */
+export function evaluateExpression(expression: string): number {
+    const tokens = tokenizeExpression(expression);
+    let position = 0;
+
+    const peek = (): Token | undefined => tokens[position];
+    const isOperator = (value: string) => peek()?.kind === 'operator' && peek()!.value === value;
+    const expect = (value: string) => {
+        if (!isOperator(value)) throw new Error(`Expected "${value}"`);
+        position++;
+    };
+
+    // sum := product (("+" | "-") product)*
+    const parseSum = (): number => {
+        let value = parseProduct();
+        while (isOperator('+') || isOperator('-')) {
+            const operator = tokens[position++].value;
+            const right = parseProduct();
+            value = operator === '+' ? value + right : value - right;
+        }
+        return value;
+    };
+
+    // product := unary (("*" | "/" | "%") unary)*
+    const parseProduct = (): number => {
+        let value = parseUnary();
+        while (isOperator('*') || isOperator('/') || isOperator('%')) {
+            const operator = tokens[position++].value;
+            const right = parseUnary();
+            if (operator === '*') value *= right;
+            else if (operator === '/') value /= right;
+            else value %= right;
+        }
+        return value;
+    };
+
+    // unary := ("+" | "-") unary | power
+    const parseUnary = (): number => {
+        if (isOperator('-')) {
+            position++;
+            return -parseUnary();
+        }
+        if (isOperator('+')) {
+            position++;
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    // power := primary ("^" unary)?, right-associative so 2^3^2 is 2^9
+    const parsePower = (): number => {
+        const base = parsePrimary();
+        if (isOperator('^')) {
+            position++;
+            return Math.pow(base, parseUnary());
+        }
+        return base;
+    };
+
+    // primary := number | "(" sum ")" | constant | function "(" sum ("," sum)* ")"
+    const parsePrimary = (): number => {
+        const token = peek();
+        if (!token) throw new Error('Unexpected end of expression');
+        position++;
+
+        if (token.kind === 'number') return token.value;
+        if (token.kind === 'operator') {
+            if (token.value !== '(') throw new Error(`Unexpected "${token.value}"`);
+            const value = parseSum();
+            expect(')');
+            return value;
+        }
+
+        if (isOperator('(')) {
+            const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+            if (!fn) throw new Error(`Unknown function "${token.value}"`);
+            position++;
+            const args = [parseSum()];
+            while (isOperator(',')) {
+                position++;
+                args.push(parseSum());
+            }
+            expect(')');
+            return fn(...args);
+        }
+        if (Object.prototype.hasOwnProperty.call(CONSTANTS, token.value)) return CONSTANTS[token.value];
+        throw new Error(`Unknown name "${token.value}"`);
+    };
+
+    if (tokens.length === 0) throw new Error('The expression is empty');
+    const result = parseSum();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected "${tokens[position].value}"`);
+    }
+    if (!Number.isFinite(result)) {
+        throw new Error('The result is not a finite number');
+    }
+    return Number(result.toPrecision(RESULT_PRECISION));
+}
@@ -11,13 +11,11 @@ export const migrateToSqlite = async (password: string): Promise<boolean> => {
 
         // 2. Initialize SQLite database
         console.log('Initializing SQLite database...');
-        const initialized = await initializeDatabase();
-        if (!initialized) {
-            throw new Error('Failed to initialize database');
-        }
+        await initializeDatabase();
 
-        // 3. Create database service instance
+        // 3. Create a database service and open the data key, which encrypts the imported messages
         const dbService = new DatabaseService();
+        await dbService.unlock(password);
 
         // 4. Import data into SQLite
         console.log('Importing data into SQLite...');
@@ -0,0 +1,59 @@
+/**
+ * Password Verification Module
+ *
+ * Checks the login password of databases created before the data key, which have
+ * no key yet to check it against, with the verifier or hash those versions stored.
+ */
+import * as Crypto from 'expo-crypto';
+import { Buffer } from 'buffer';
+import { deriveKey, KdfParams } from './encryption';
+
+/**
+ * Key derivation parameters and the resulting hash of a password
+ */
+export interface PasswordVerifier extends KdfParams {
+    hash: string; // Base64
+}
+
+/**
+ * Checks a password against a verifier, using the verifier's own parameters
+ */
+export async function verifyPassword(password: string, verifier: PasswordVerifier): Promise<boolean> {
+    const hash = await deriveKey(password, verifier);
+    return constantTimeEqual(hash, Buffer.from(verifier.hash, 'base64'));
+}
+
+/**
+ * Checks a password against the unsalted SHA-256 hash stored by earlier versions
+ */
+export async function verifyLegacyHash(password: string, legacyHash: string): Promise<boolean> {
+    const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, password);
+    return constantTimeEqual(Buffer.from(hash, 'utf8'), Buffer.from(legacyHash, 'utf8'));
+}
+
+/**
+ * Parses a stored verifier
+ * @returns null if nothing is stored or the value is not a verifier
+ */
+export function parsePasswordVerifier(raw: string | null): PasswordVerifier | null {
+    if (!raw) return null;
+    try {
+        const verifier = JSON.parse(raw);
+        if (typeof verifier?.hash !== 'string' || typeof verifier?.salt !== 'string' || !verifier?.iterations) {
+            return null;
+        }
+        return verifier;
+    } catch {
+        return null;
+    }
+}
+
+// Compares without returning early, so the time taken does not reveal how much matched
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+}
@@ -1,5 +1,5 @@
 import * as FileSystem from 'expo-file-system';
-import { encryptData, decryptData } from './encryption';
+import { encryptData, decryptData, CIPHER_VERSION, isLegacyFormat } from './encryption';
 
 /**
  * Loads and parses a JSON file from the app's file system
@@ -27,8 +27,8 @@ const loadFile = async (password: string): Promise<any> => {
     
     console.log('File content first 20 chars:', encryptedContent.substring(0, 20));
     
-    // Check if the content appears to be encrypted (contains the delimiter)
-    const isEncrypted = encryptedContent.includes('::');
+    // Check if the content appears to be encrypted (versioned or legacy format)
+    const isEncrypted = encryptedContent.startsWith(`${CIPHER_VERSION}:`) || isLegacyFormat(encryptedContent);
     
     if (!isEncrypted) {
       console.warn('File appears to be unencrypted, re-encrypting');
@@ -0,0 +1,106 @@
+/**
+ * Search Index Module
+ *
+ * Turns message text into tokens for the full-text index without storing the words:
+ * each normalized word is replaced by a keyed hash, so the index can be queried for
+ * whole words but reveals nothing without the data key. Matches are highlighted
+ * on the decrypted text.
+ */
+import { Buffer } from 'buffer';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+
+// Hex characters kept of each word hash
+const TOKEN_LENGTH = 16;
+
+/**
+ * Splits text into lowercase words without diacritics
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length > 0);
+}
+
+/**
+ * Derives the key for hashing words from the data key
+ */
+export function createSearchKey(key: Uint8Array): Uint8Array {
+    return hmac(sha256, key, 'message-search-index');
+}
+
+function hashWord(word: string, searchKey: Uint8Array): string {
+    return Buffer.from(hmac(sha256, searchKey, word)).toString('hex').slice(0, TOKEN_LENGTH);
+}
+
+/**
+ * Hashed words of a message, space separated, as stored in the index
+ */
+export function toIndexTokens(text: string, searchKey: Uint8Array): string {
+    return tokenize(text).map(word => hashWord(word, searchKey)).join(' ');
+}
+
+/**
+ * Full-text query matching messages that contain every word of the search
+ * @returns null if the search has no words
+ */
+export function toMatchQuery(search: string, searchKey: Uint8Array): string | null {
+    const words = [...new Set(tokenize(search))];
+    if (words.length === 0) return null;
+    return words.map(word => `"${hashWord(word, searchKey)}"`).join(' ');
+}
+
+export interface SnippetPart {
+    text: string;
+    isMatch: boolean;
+}
+
+// Words of a text with their positions; marks stay with their letter so offsets refer to the original text
+function findWords(text: string): { start: number; end: number; tokens: string[] }[] {
+    return [...text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)].map(match => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        tokens: tokenize(match[0])
+    }));
+}
+
+/**
+ * Cuts the part of a text around the first match and marks the searched words in it
+ * Words are compared in their indexed form, so "cafe" marks "Café" and the reverse.
+ * @param radius Characters kept on each side of the first match
+ */
+export function buildSnippet(text: string, search: string, radius: number = 60): SnippetPart[] {
+    const words = new Set(tokenize(search));
+    const flat = text.replace(/\s+/g, ' ').trim();
+    if (words.size === 0) return [{ text: flat.slice(0, radius * 2), isMatch: false }];
+
+    const matches = findWords(flat).filter(word => word.tokens.some(token => words.has(token)));
+    const first = matches.length > 0 ? matches[0].start : 0;
+    const start = Math.max(0, first - radius);
+    const end = Math.min(flat.length, first + radius * 2);
+
+    const parts: SnippetPart[] = [];
+    const push = (part: string, isMatch: boolean) => {
+        if (!part) return;
+        const last = parts[parts.length - 1];
+        if (last && !last.isMatch && !isMatch) last.text += part;
+        else parts.push({ text: part, isMatch });
+    };
+    if (start > 0) push('…', false);
+    let position = start;
+    for (const match of matches) {
+        if (match.end <= start) continue;
+        if (match.start >= end) break;
+        const matchStart = Math.max(match.start, position);
+        const matchEnd = Math.min(match.end, end);
+        push(flat.slice(position, matchStart), false);
+        push(flat.slice(matchStart, matchEnd), true);
+        position = matchEnd;
+    }
+    push(flat.slice(position, end), false);
+    if (end < flat.length) push('…', false);
+    return parts;
+}